@@ -32,11 +32,11 @@ const hsl = (h: number, s: number, l: number) => `hsl(${normalizeHue(h)}, ${Math
  * Includes High Contrast and Low Contrast algorithms to suggest different personality archetypes.
  * @param isLocation If true, applies a strong Gaussian blur for abstract location backgrounds.
  */
-export const generateRandomFlagAvatar = (isLocation: boolean = false): string => {
+export const generateRandomFlagAvatar = (isLocation: boolean = false, random: () => number = Math.random): string => {
     // Base Seed (Core Personality)
-    const seedH = Math.floor(Math.random() * 360);
-    const seedS = Math.floor(50 + Math.random() * 30); // 50-80%
-    const seedL = Math.floor(40 + Math.random() * 20); // 40-60%
+    const seedH = Math.floor(random() * 360);
+    const seedS = Math.floor(50 + random() * 30); // 50-80%
+    const seedL = Math.floor(40 + random() * 20); // 40-60%
 
     const strategies = [
         {
@@ -109,7 +109,7 @@ export const generateRandomFlagAvatar = (isLocation: boolean = false): string =>
     ];
 
     // Randomly select a strategy
-    const strategy = strategies[Math.floor(Math.random() * strategies.length)];
+    const strategy = strategies[Math.floor(random() * strategies.length)];
     const [topColor, midColor, botColor] = strategy.getColors();
 
     // SVG Construction with optional Blur Filter
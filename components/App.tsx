@@ -104,7 +104,9 @@ export default function App() {
     requestPlayerReaction: game.requestPlayerReaction
   });
 
-  const [confirmModal, setConfirmModal] = useState<{ title: string; message: string; onConfirm: () => void } | null>(null);
+  // inputLabel adds a text field whose value is passed to onConfirm
+  const [confirmModal, setConfirmModal] = useState<{ title: string; message: string; onConfirm: (input: string) => void; inputLabel?: string; inputPlaceholder?: string } | null>(null);
+  const [confirmInput, setConfirmInput] = useState("");
   
   // Mobile/Responsive View State
   const [mobileView, setMobileView] = useState<'story' | 'map' | 'char'>('story');
@@ -229,10 +231,13 @@ export default function App() {
       setConfirmModal({
           title: "重置游戏 (Factory Reset)",
           message: "警告：这将完全清空当前游戏的所有进度，删除自动存档，并恢复到【系统初始设置】。您当前自定义的全局设置（除API Key外）也将丢失。此操作不可撤销。",
-          onConfirm: () => {
-              game.resetGame();
+          inputLabel: "新世界种子 (World Seed)",
+          inputPlaceholder: "留空则随机；相同种子生成相同地形",
+          onConfirm: (seed) => {
+              game.resetGame(seed);
           }
       });
+      setConfirmInput("");
   };
 
   const handleTogglePause = () => {
@@ -340,10 +345,16 @@ export default function App() {
               <div className="bg-slate-900 border border-slate-700 rounded-lg p-6 max-w-sm w-full shadow-2xl animate-in fade-in zoom-in-95 duration-200">
                   <h3 className="text-lg font-bold text-white mb-2">{confirmModal.title}</h3>
                   <p className="text-slate-400 mb-6 text-sm leading-relaxed">{confirmModal.message}</p>
+                  {confirmModal.inputLabel && (
+                      <div className="mb-6">
+                          <Label>{confirmModal.inputLabel}</Label>
+                          <Input value={confirmInput} placeholder={confirmModal.inputPlaceholder} onChange={e => setConfirmInput(e.target.value)} />
+                      </div>
+                  )}
                   <div className="flex justify-end gap-3">
                       <Button variant="secondary" onClick={() => setConfirmModal(null)}>取消</Button>
                       <Button variant="danger" onClick={() => {
-                          confirmModal.onConfirm();
+                          confirmModal.onConfirm(confirmInput);
                           setConfirmModal(null);
                       }}>确定</Button>
                   </div>
@@ -6,6 +6,8 @@ import { Edit2, X, Globe, Wind, MapPin, Clock, Zap, Sun, Navigation, Compass, Fo
 import { MapVisualizer } from './MapVisualizer/index';
 import { Button, TextArea, Label, Input } from '../ui/Button';
 import { getTerrainHeight } from '../../services/mapUtils';
+import { ROUTE_BLOCKER_LABELS } from '../../services/routeUtils';
+import { JOURNEY_MIN_DISTANCE, abortJourney, formatEncounterLines, getJourneyTravellerIds, parseEncounterLines, planPartyRoute, redirectJourney, startJourney } from '../../services/journeyUtils';
 import { generateRandomFlagAvatar } from '../../assets/imageLibrary';
 import { AiGenWindow } from '../Windows/Pools/AiGenWindow';
 import { Window } from '../ui/Window';
@@ -48,7 +50,7 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
 
     // Region Editing State
     const [isEditingRegion, setIsEditingRegion] = useState(false);
-    const [tempRegion, setTempRegion] = useState({ name: "", description: "" });
+    const [tempRegion, setTempRegion] = useState({ name: "", description: "", encounters: "" });
 
     // Delete Confirmation State
     const [deleteConfirmLocId, setDeleteConfirmLocId] = useState<string | null>(null);
@@ -87,8 +89,7 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
     // ... existing handleCreateLocation, handleDeleteLocation, getCost, handleExploreClick ...
 
     const handleCreateLocation = (x: number, y: number) => {
-        const seed = state.map.chunks['0_0']?.seed || 123;
-        const z = getTerrainHeight(x, y, seed);
+        const z = getTerrainHeight(x, y, state.map.seed);
         const newId = `loc_custom_${x}_${y}_${Date.now()}`;
         
         const newLoc: MapLocation = {
@@ -290,6 +291,33 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
                 return;
             }
 
+            // Long routes to known places become a journey (redirected if one is already under way)
+            const fromLoc = currentLocId ? state.map.locations[currentLocId] : undefined;
+            if (loc.isKnown && fromLoc) {
+                const travellerIds = state.map.journey?.travellerIds || getJourneyTravellerIds(state, currentLocId);
+                const route = planPartyRoute(state, fromLoc.coordinates, viewingLocId, travellerIds);
+                if (!route) {
+                    addLog(`系统: 无法前往 [${loc.name}]，找不到可行的路线。`);
+                    return;
+                }
+                if (route.blockedBy) {
+                    addLog(`系统: 无法前往 [${loc.name}]，路线被${ROUTE_BLOCKER_LABELS[route.blockedBy]}阻断，队伍中无人具备通行能力。`);
+                    return;
+                }
+                if (state.map.journey || route.distance >= JOURNEY_MIN_DISTANCE) {
+                    let log = "";
+                    updateState(prev => {
+                        const result = prev.map.journey
+                            ? redirectJourney(prev, viewingLocId, route)
+                            : startJourney(prev, viewingLocId, route, travellerIds);
+                        log = result.log;
+                        return { ...result.state, round: { ...result.state.round, actionPoints: result.state.round.actionPoints - cost } };
+                    });
+                    addLog(log);
+                    return;
+                }
+            }
+
             updateState(prev => {
                 const nextPos = { ...prev.map.charPositions };
                 const nextChars = { ...prev.characters };
@@ -395,7 +423,8 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
                     [viewingRegion.id]: {
                         ...viewingRegion,
                         name: tempRegion.name,
-                        description: tempRegion.description
+                        description: tempRegion.description,
+                        encounters: parseEncounterLines(tempRegion.encounters)
                     }
                 }
             }
@@ -404,6 +433,19 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
         addLog(`系统: 区域 [${tempRegion.name}] 信息已更新。`);
     };
 
+    const handleAbortJourney = () => {
+        let log = "";
+        updateState(prev => {
+            const result = abortJourney(prev);
+            log = result.log;
+            return result.state;
+        });
+        addLog(log);
+    };
+
+    const journey = state.map.journey;
+    const journeyRemaining = journey ? journey.legs.slice(journey.legIndex).reduce((sum, leg) => sum + leg.distance, 0) : 0;
+
     // ... existing derived data for rendering ...
     // Characters at viewing location
     const charsAtLocation = viewingLocId ? (Object.values(state.characters) as Character[]).filter(c => {
@@ -715,6 +757,25 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
                   </Button>
               </div>
 
+              {/* Journey Status */}
+              {journey && (
+                  <div className="p-3 border-b border-border bg-accent-teal/10 shrink-0">
+                      <div className="flex justify-between items-center mb-1">
+                          <span className="text-xs font-bold text-body flex items-center gap-1"><Footprints size={12}/> 旅途中 → {state.map.locations[journey.destinationId]?.name || "未知目的地"}</span>
+                          <span className="text-[10px] text-muted font-mono">{journey.legIndex}/{journey.legs.length} 段</span>
+                      </div>
+                      <div className="h-1.5 bg-surface rounded overflow-hidden mb-2">
+                          <div className="h-full bg-accent-teal" style={{ width: `${(journey.legIndex / journey.legs.length) * 100}%` }} />
+                      </div>
+                      <div className="flex justify-between items-center">
+                          <span className="text-[10px] text-muted">剩余约 {journeyRemaining.toFixed(0)}m，每轮结算推进一段</span>
+                          <Button size="sm" variant="secondary" className="text-[10px] h-6 px-2" onClick={handleAbortJourney} title="停在当前位置，该处将成为可探索的未知地点">
+                              <X size={10} className="mr-1"/> 中止旅程
+                          </Button>
+                      </div>
+                  </div>
+              )}
+
               {/* 3. Location & Region Details Panel */}
               {viewingLocation && (
                   <div className="p-4 border-b border-border bg-surface/30 shrink-0">
@@ -746,9 +807,9 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
                                         className="flex-1 flex items-center justify-center gap-2 bg-primary hover:bg-primary-hover text-white" 
                                         onClick={handleTravel}
                                         // Known location travel is usually free/cheap, so mostly enabled.
-                                        title="移动至已知地点"
+                                        title={state.map.journey ? "放弃当前目的地，从旅途中的位置改道前往此地" : "移动至已知地点 (远距离时将分段旅行)"}
                                       >
-                                          <Navigation size={14}/> 移动至此
+                                          <Navigation size={14}/> {state.map.journey ? "改道前往此地" : "移动至此"}
                                       </Button>
                                   ) : (
                                       <Button 
@@ -815,6 +876,12 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
                                         className="text-xs min-h-[100px] leading-relaxed resize-none"
                                         placeholder="区域描述..."
                                     />
+                                    <TextArea 
+                                        value={tempRegion.encounters}
+                                        onChange={e => setTempRegion({...tempRegion, encounters: e.target.value})}
+                                        className="text-xs min-h-[60px] leading-relaxed resize-none font-mono"
+                                        placeholder="旅途遭遇 (每行: 名称 | 描述 | 权重)，留空则使用群系遭遇表"
+                                    />
                                     <div className="flex justify-end gap-2 mt-1">
                                         <button 
                                             onClick={() => setIsEditingRegion(false)} 
@@ -836,7 +903,7 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({ state, updateState, openWi
                                         <button 
                                             onClick={() => {
                                                 if (locked.locationEditor) return;
-                                                setTempRegion({ name: viewingRegion.name, description: viewingRegion.description });
+                                                setTempRegion({ name: viewingRegion.name, description: viewingRegion.description, encounters: formatEncounterLines(viewingRegion.encounters) });
                                                 setIsEditingRegion(true);
                                             }}
                                             className={`p-1 rounded ${locked.locationEditor ? 'text-muted cursor-not-allowed' : 'text-muted hover:text-primary hover:bg-surface-highlight'}`}
@@ -1,7 +1,9 @@
 
-import { GameState, MapChunk, MapLocation, MapRegion, TerrainType, CharPosition } from '../../../types';
+import { GameState, MapChunk, MapLocation, MapRegion, MapRoad, MapSettlement, TerrainType, BiomeType, CharPosition, Character } from '../../../types';
 import { MAP_CONSTANTS } from '../../../constants';
 import { getTerrainTypeAt, isPointInPolygon } from '../../../services/mapUtils';
+import { factionColorToRgba, getRegionFaction, getSettlementFaction } from '../../../services/factionUtils';
+import { getPlayerExploredCells, isPointExplored } from '../../../services/fogUtils';
 import { CameraState, RenderObject, ScreenPoint, darkenColor, getTerrainColor, project, pseudoRandom, ProjectionMatrix } from './visualUtils';
 
 interface VisualGridPoint {
@@ -11,6 +13,7 @@ interface VisualGridPoint {
     z00: number; z10: number; z11: number; z01: number;
     avgZ: number;
     type: TerrainType;
+    biome: BiomeType;
     isCity: boolean;
     isTown: boolean;
     hasBuilding: boolean;
@@ -18,10 +21,30 @@ interface VisualGridPoint {
     bPrn: number;
 }
 
+// 'region' uses each region's own color; 'faction' tints regions and settlements by their controlling faction
+export type MapColorMode = 'region' | 'faction';
+
+// Terrain no player character has seen yet
+const FOG_COLOR = 'rgb(30, 41, 59)';
+
 export class MapRenderer {
     private visualGrid: VisualGridPoint[] = [];
     private lastChunks: Record<string, MapChunk> = {};
     private lastSettlementsHash: string = "";
+    private lastExplored?: Record<string, string[]>;
+    private lastPlayerIds: string = "";
+    private exploredCells: Set<string> | null = null;
+
+    // Player fog cells, rebuilt only when exploration or the player roster changes
+    private getExplored(state: GameState): Set<string> | null {
+        const playerIds = Object.keys(state.characters).filter(id => state.characters[id].isPlayer).join(',');
+        if (state.map.explored !== this.lastExplored || playerIds !== this.lastPlayerIds) {
+            this.lastExplored = state.map.explored;
+            this.lastPlayerIds = playerIds;
+            this.exploredCells = getPlayerExploredCells(state);
+        }
+        return this.exploredCells;
+    }
 
     cacheGrid(state: GameState) {
         const currentChunks = state.map.chunks;
@@ -85,7 +108,7 @@ export class MapRenderer {
                     this.visualGrid.push({
                         wx, wy, centerX, centerY, step,
                         z00, z10, z11, z01, avgZ,
-                        type, isCity, isTown,
+                        type, biome: tData.biome, isCity, isTown,
                         hasBuilding, bHeight, bPrn
                     });
                 }
@@ -100,7 +123,8 @@ export class MapRenderer {
         camera: CameraState,
         state: GameState,
         viewingLocationId?: string | null,
-        getZ?: (x: number, y: number) => number
+        getZ?: (x: number, y: number) => number,
+        colorMode: MapColorMode = 'region'
     ) {
         const { yaw, scale, pitch } = camera;
         
@@ -129,6 +153,15 @@ export class MapRenderer {
         const worldQueue: RenderObject[] = [];
         const overlayQueue: RenderObject[] = [];
         const regions = Object.values(state.map.regions || {}) as MapRegion[];
+
+        // Region tint at a given alpha; unclaimed regions fade out in faction mode
+        const getRegionColor = (region: MapRegion, alpha: number, fallback: string): string => {
+            if (colorMode === 'faction') {
+                const faction = getRegionFaction(state, region.id);
+                return faction ? factionColorToRgba(faction.color, alpha) : `rgba(148,163,184,${alpha * 0.4})`;
+            }
+            return region.color ? region.color.replace(/[\d.]+\)$/, `${alpha})`) : fallback;
+        };
         
         // Culling bounds
         const cullXMin = -200;
@@ -138,6 +171,7 @@ export class MapRenderer {
 
         const faceNormalsX = [m.sinYaw, m.cosYaw, -m.sinYaw, -m.cosYaw];
         const SEA_LEVEL = MAP_CONSTANTS.SEA_LEVEL;
+        const explored = this.getExplored(state);
 
         // 3. Terrain & Buildings Loop
         const gridLen = this.visualGrid.length;
@@ -156,6 +190,24 @@ export class MapRenderer {
             const minZ = Math.min(pt.z00, pt.z10, pt.z11, pt.z01);
             const maxZ = Math.max(pt.z00, pt.z10, pt.z11, pt.z01);
 
+            // --- Fog of War: unexplored tiles keep their shape but lose color, water and buildings ---
+            if (!isPointExplored(explored, pt.centerX, pt.centerY)) {
+                const fz = (z: number) => Math.max(z, SEA_LEVEL);
+                worldQueue.push({
+                    type: 'terrain',
+                    depth: centerP.depth,
+                    points: [
+                        project(pt.wx, pt.wy, fz(pt.z00), m),
+                        project(pt.wx + pt.step, pt.wy, fz(pt.z10), m),
+                        project(pt.wx + pt.step, pt.wy + pt.step, fz(pt.z11), m),
+                        project(pt.wx, pt.wy + pt.step, fz(pt.z01), m)
+                    ],
+                    color: FOG_COLOR,
+                    borderColor: darkenColor(FOG_COLOR, 0.85)
+                });
+                continue;
+            }
+
             // --- A. Water Plane Rendering ---
             // Render water if it's explicitly a water tile, OR if any part of the land is below sea level (to fill gaps)
             if (pt.type === TerrainType.WATER || minZ < SEA_LEVEL) {
@@ -191,7 +243,7 @@ export class MapRenderer {
                     const pp11 = project(pt.wx + pt.step, pt.wy + pt.step, pt.z11, m);
                     const pp01 = project(pt.wx, pt.wy + pt.step, pt.z01, m);
 
-                    let color = getTerrainColor(pt.avgZ, pt.type);
+                    let color = getTerrainColor(pt.avgZ, pt.type, pt.biome);
                     let borderColor = darkenColor(color, 0.85);
 
                     if (pt.type === TerrainType.RIVER) {
@@ -238,7 +290,7 @@ export class MapRenderer {
                     if (isPointInPolygon({ x: pt.centerX, y: pt.centerY }, region.vertices)) {
                         const drawZ = Math.max(pt.avgZ, MAP_CONSTANTS.SEA_LEVEL) + 2;
                         const pReg = project(pt.centerX, pt.centerY, drawZ, m);
-                        overlayQueue.push({ type: 'region_point', depth: pReg.depth - 0.2, x: pReg.x, y: pReg.y, size: 1.5, color: region.color ? region.color.replace(/[\d.]+\)$/, '0.6)') : 'rgba(255,255,255,0.4)' });
+                        overlayQueue.push({ type: 'region_point', depth: pReg.depth - 0.2, x: pReg.x, y: pReg.y, size: 1.5, color: getRegionColor(region, 0.6, 'rgba(255,255,255,0.4)') });
                         break;
                     }
                 }
@@ -255,8 +307,39 @@ export class MapRenderer {
             if (projectedVerts.every(p => p.x < cullXMin || p.x > cullXMax || p.y < cullYMin || p.y > cullYMax)) return;
 
             const avgDepth = projectedVerts.reduce((s, p) => s + p.depth, 0) / projectedVerts.length;
-            overlayQueue.push({ type: 'region_boundary', depth: avgDepth, points: projectedVerts, color: region.color ? region.color.replace(/[\d.]+\)$/, '1.0)') : 'white', label: region.name });
+            const faction = colorMode === 'faction' ? getRegionFaction(state, region.id) : undefined;
+            overlayQueue.push({ type: 'region_boundary', depth: avgDepth, points: projectedVerts, color: getRegionColor(region, 1.0, 'white'), label: faction ? `${region.name} · ${faction.name}` : region.name });
+        });
+
+        // 4.1. Settlement Ownership (faction mode only)
+        if (colorMode === 'faction') {
+            (Object.values(state.map.settlements || {}) as MapSettlement[]).forEach(settlement => {
+                const faction = getSettlementFaction(state, settlement.id);
+                if (!faction) return;
+                const projectedVerts = settlement.vertices.map(v => project(v.x, v.y, getZ ? getZ(v.x, v.y) + 30 : 30, m));
+                if (projectedVerts.every(p => p.x < cullXMin || p.x > cullXMax || p.y < cullYMin || p.y > cullYMax)) return;
+                const avgDepth = projectedVerts.reduce((s, p) => s + p.depth, 0) / projectedVerts.length;
+                overlayQueue.push({ type: 'region_boundary', depth: avgDepth, points: projectedVerts, color: factionColorToRgba(faction.color, 1.0), label: `${settlement.name} (${faction.name})` });
+            });
+        }
+
+        // 4.2. Roads, the latest route of each player character and the journey under way
+        const pushRoute = (path: { x: number, y: number }[], color: string, lineWidth: number, dash: number[]) => {
+            if (path.length < 2 || !path.some(p => isPointExplored(explored, p.x, p.y))) return;
+            const projected = path.map(p => project(p.x, p.y, Math.max(getZ ? getZ(p.x, p.y) : 0, MAP_CONSTANTS.SEA_LEVEL) + 3, m));
+            if (projected.every(p => p.x < cullXMin || p.x > cullXMax || p.y < cullYMin || p.y > cullYMax)) return;
+            const avgDepth = projected.reduce((s, p) => s + p.depth, 0) / projected.length;
+            overlayQueue.push({ type: 'route', depth: avgDepth, points: projected, color, lineWidth, dash });
+        };
+        (Object.values(state.map.roads || {}) as MapRoad[]).forEach(road => {
+            if (road.kind === 'road') pushRoute(road.path, 'rgba(214, 180, 120, 0.85)', 2.5, []);
+            else pushRoute(road.path, 'rgba(231, 213, 180, 0.7)', 1.5, [4, 3]);
+        });
+        (Object.values(state.characters) as Character[]).forEach(c => {
+            const route = c.isPlayer ? state.map.charPositions[c.id]?.route : undefined;
+            if (route) pushRoute(route, 'rgba(253, 224, 71, 0.9)', 2, [6, 4]);
         });
+        if (state.map.journey) pushRoute(state.map.journey.path, 'rgba(56, 189, 248, 0.95)', 2.5, [8, 4]);
 
         // 4.5. Pre-calculate Character Counts (Real-time based on existing characters)
         // Fix: Do not rely solely on map.charPositions count, but verify character existence
@@ -276,6 +359,9 @@ export class MapRenderer {
             
             const screen = project(loc.coordinates.x, loc.coordinates.y, displayZ, m);
             
+            // Undiscovered places stay hidden in the fog
+            const isActive = loc.id === state.map.activeLocationId;
+            if (!loc.isKnown && !isActive && !isPointExplored(explored, loc.coordinates.x, loc.coordinates.y)) return;
             if (screen.x < cullXMin || screen.x > cullXMax || screen.y < cullYMin || screen.y > cullYMax) return;
 
             // Project ground point for visual anchor
@@ -372,6 +458,19 @@ export class MapRenderer {
                     ctx.fillStyle = '#ffffff';
                     ctx.fillText(obj.label || '', textX, textY);
                 }
+            } else if (obj.type === 'route') {
+                if (obj.points && obj.points.length > 1) {
+                    ctx.beginPath();
+                    ctx.moveTo(obj.points[0].x, obj.points[0].y);
+                    for (let i = 1; i < obj.points.length; i++) ctx.lineTo(obj.points[i].x, obj.points[i].y);
+                    ctx.strokeStyle = obj.color || 'white';
+                    ctx.lineWidth = obj.lineWidth || 1;
+                    ctx.lineCap = 'round';
+                    ctx.lineJoin = 'round';
+                    ctx.setLineDash(obj.dash || []);
+                    ctx.stroke();
+                    ctx.setLineDash([]);
+                }
             } else if (obj.type === 'region_point') {
                 ctx.beginPath();
                 ctx.arc(obj.x!, obj.y!, obj.size!, 0, Math.PI * 2);
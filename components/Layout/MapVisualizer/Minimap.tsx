@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { GameState, MapChunk, MapLocation, MapRegion, TerrainType } from '../../../types';
+import { MAP_CONSTANTS } from '../../../constants';
+import { getTerrainTypeAt } from '../../../services/mapUtils';
+import { getFogCellCenter, getPlayerExploredCells, isPointExplored } from '../../../services/fogUtils';
+import { getTerrainColor } from './visualUtils';
+
+interface MinimapProps {
+    state: GameState;
+    pan: { x: number, y: number };
+    size: number;
+    onNavigate?: (x: number, y: number) => void;
+}
+
+interface MinimapCell { x: number; y: number; color: string; }
+
+const CELL = MAP_CONSTANTS.FOG_CELL_SIZE;
+const PADDING = 4;
+
+// Top-down overview of everything discovered (north up); click to move the main camera there
+export const Minimap: React.FC<MinimapProps> = ({ state, pan, size, onNavigate }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const { explored, chunks, settlements, seed, locations, regions, activeLocationId } = state.map;
+    const playerIds = Object.keys(state.characters).filter(id => state.characters[id].isPlayer).join(',');
+
+    const discovered = useMemo(() => getPlayerExploredCells(state), [explored, playerIds]);
+
+    // Discovered cells with their terrain color; without fog data every loaded chunk counts as discovered
+    const cells = useMemo<MinimapCell[]>(() => {
+        let keys: string[];
+        if (discovered) {
+            keys = Array.from(discovered);
+        } else {
+            const perChunk = MAP_CONSTANTS.CHUNK_SIZE / CELL;
+            keys = (Object.values(chunks) as MapChunk[]).flatMap(chunk => {
+                const list: string[] = [];
+                for (let i = 0; i < perChunk; i++) {
+                    for (let j = 0; j < perChunk; j++) list.push(`${chunk.xIndex * perChunk + i}_${chunk.yIndex * perChunk + j}`);
+                }
+                return list;
+            });
+        }
+        return keys.map(key => {
+            const { x, y } = getFogCellCenter(key);
+            const t = getTerrainTypeAt(x, y, seed, chunks, settlements);
+            const color = t.type === TerrainType.RIVER ? 'rgb(40, 90, 160)' : getTerrainColor(t.height, t.type, t.biome);
+            return { x, y, color };
+        });
+    }, [discovered, chunks, settlements, seed]);
+
+    // World bounds: discovered cells plus known places, kept square so distances aren't distorted
+    const bounds = useMemo(() => {
+        const xs = cells.map(c => c.x);
+        const ys = cells.map(c => c.y);
+        (Object.values(locations) as MapLocation[]).forEach(l => {
+            if (!l.isKnown) return;
+            xs.push(l.coordinates.x);
+            ys.push(l.coordinates.y);
+        });
+        if (xs.length === 0) return null;
+        const minX = Math.min(...xs) - CELL, maxX = Math.max(...xs) + CELL;
+        const minY = Math.min(...ys) - CELL, maxY = Math.max(...ys) + CELL;
+        const span = Math.max(maxX - minX, maxY - minY);
+        return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, span };
+    }, [cells, locations]);
+
+    const toScreen = (x: number, y: number, k: number) => ({
+        x: size / 2 + (x - bounds!.cx) * k,
+        y: size / 2 - (y - bounds!.cy) * k
+    });
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const dpr = Math.min(window.devicePixelRatio || 1, 1.5);
+        canvas.width = Math.floor(size * dpr);
+        canvas.height = Math.floor(size * dpr);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.fillStyle = '#0f172a';
+        ctx.fillRect(0, 0, size, size);
+        if (!bounds) return;
+
+        const k = (size - PADDING * 2) / bounds.span;
+        const cellPx = Math.max(1, CELL * k);
+
+        // Terrain
+        cells.forEach(c => {
+            const p = toScreen(c.x, c.y, k);
+            ctx.fillStyle = c.color;
+            ctx.fillRect(p.x - cellPx / 2, p.y - cellPx / 2, cellPx + 0.5, cellPx + 0.5);
+        });
+
+        // Region outlines
+        (Object.values(regions) as MapRegion[]).forEach(region => {
+            if (region.vertices.length < 2) return;
+            ctx.beginPath();
+            region.vertices.forEach((v, i) => {
+                const p = toScreen(v.x, v.y, k);
+                if (i === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+            });
+            ctx.closePath();
+            ctx.strokeStyle = region.color ? region.color.replace(/[\d.]+\)$/, '0.9)') : 'rgba(255,255,255,0.6)';
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        });
+
+        // Places
+        (Object.values(locations) as MapLocation[]).forEach(l => {
+            const isActive = l.id === activeLocationId;
+            if (!l.isKnown && !isActive && !isPointExplored(discovered, l.coordinates.x, l.coordinates.y)) return;
+            const p = toScreen(l.coordinates.x, l.coordinates.y, k);
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, isActive ? 3 : 2, 0, Math.PI * 2);
+            ctx.fillStyle = isActive ? '#ef4444' : (l.isKnown ? '#0ea5e9' : '#94a3b8');
+            ctx.fill();
+        });
+
+        // Main camera focus
+        const cam = toScreen(pan.x, pan.y, k);
+        ctx.strokeStyle = '#fde047';
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(cam.x - 5, cam.y - 5, 10, 10);
+    }, [cells, bounds, discovered, regions, locations, activeLocationId, pan.x, pan.y, size]);
+
+    const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (!onNavigate || !bounds) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const k = (size - PADDING * 2) / bounds.span;
+        const sx = (e.clientX - rect.left) * (size / rect.width);
+        const sy = (e.clientY - rect.top) * (size / rect.height);
+        onNavigate(bounds.cx + (sx - size / 2) / k, bounds.cy - (sy - size / 2) / k);
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className={`block rounded border border-slate-600 shadow-lg ${onNavigate ? 'cursor-pointer' : ''}`}
+            style={{ width: size, height: size }}
+            onClick={handleClick}
+            onMouseDown={e => e.stopPropagation()}
+            title="小地图: 已探索区域"
+        />
+    );
+};
@@ -2,10 +2,11 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { GameState } from '../../../types';
-import { MapRenderer } from './MapRenderer';
+import { MapRenderer, MapColorMode } from './MapRenderer';
 import { useMapCamera } from './useMapCamera';
 import { useMapInteraction } from './useMapInteraction';
-import { Maximize, Minimize, Navigation, PlusCircle, Lock, Crosshair } from 'lucide-react';
+import { Minimap } from './Minimap';
+import { Maximize, Minimize, Navigation, PlusCircle, Lock, Crosshair, Flag, Map as MapIcon } from 'lucide-react';
 
 interface MapVisualizerProps {
     state: GameState;
@@ -19,6 +20,9 @@ export const MapVisualizer: React.FC<MapVisualizerProps> = ({ state, onLocationS
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isExpanded, setIsExpanded] = useState(false);
     const [dimensions, setDimensions] = useState({ width: 800, height: 400 });
+    const [colorMode, setColorMode] = useState<MapColorMode>('region');
+    const [showMinimap, setShowMinimap] = useState(true);
+    const hasFactions = Object.keys(state.factions || {}).length > 0;
     
     const isMapLocked = state.appSettings.lockedFeatures?.mapView || false;
     
@@ -43,6 +47,11 @@ export const MapVisualizer: React.FC<MapVisualizerProps> = ({ state, onLocationS
         onCreateLocation
     });
 
+    const focusMinimapPoint = useCallback((x: number, y: number) => {
+        if (isMapLocked) return;
+        updateCamera(prev => ({ ...prev, pan: { x, y, z: getZ(x, y) } }));
+    }, [isMapLocked, getZ]);
+
     // 3. Renderer Instance
     const renderer = useMemo(() => new MapRenderer(), []);
 
@@ -67,6 +76,7 @@ export const MapVisualizer: React.FC<MapVisualizerProps> = ({ state, onLocationS
     // We explicitly extract state.map to ensure we only re-render when MAP data changes,
     // ignoring unrelated state changes like Time or Logs.
     const mapState = state.map;
+    const factions = state.factions;
 
     const renderFrame = useCallback(() => {
         const canvas = canvasRef.current;
@@ -100,9 +110,10 @@ export const MapVisualizer: React.FC<MapVisualizerProps> = ({ state, onLocationS
             cameraRef.current, 
             state, 
             viewingLocationId,
-            getZ
+            getZ,
+            hasFactions ? colorMode : 'region'
         );
-    }, [dimensions, camera, mapState, viewingLocationId, renderer, getZ]); // Depend on mapState, not full state
+    }, [dimensions, camera, mapState, factions, colorMode, viewingLocationId, renderer, getZ]); // Depend on mapState, not full state
 
     // Trigger Render on specific dependencies
     useEffect(() => {
@@ -168,6 +179,22 @@ export const MapVisualizer: React.FC<MapVisualizerProps> = ({ state, onLocationS
                         <PlusCircle size={16}/>
                     </button>
                  )}
+                 {hasFactions && (
+                     <button 
+                        onClick={() => setColorMode(colorMode === 'faction' ? 'region' : 'faction')} 
+                        className={`p-1.5 rounded border shadow-lg transition-colors ${colorMode === 'faction' ? 'bg-indigo-600 text-white border-indigo-400' : 'bg-slate-800/80 hover:bg-indigo-600 text-white border-slate-600'}`}
+                        title={colorMode === 'faction' ? "Color by Region" : "Color by Faction"}
+                    >
+                        <Flag size={16}/>
+                    </button>
+                 )}
+                 <button 
+                    onClick={() => setShowMinimap(!showMinimap)} 
+                    className={`p-1.5 rounded border shadow-lg transition-colors ${showMinimap ? 'bg-indigo-600 text-white border-indigo-400' : 'bg-slate-800/80 hover:bg-indigo-600 text-white border-slate-600'}`}
+                    title={showMinimap ? "Hide Minimap" : "Show Minimap"}
+                >
+                    <MapIcon size={16}/>
+                </button>
                  <button 
                     onClick={resetView} 
                     className="p-1.5 bg-slate-800/80 hover:bg-indigo-600 text-white rounded border border-slate-600 shadow-lg transition-colors" 
@@ -199,6 +226,21 @@ export const MapVisualizer: React.FC<MapVisualizerProps> = ({ state, onLocationS
                 </div>
             )}
 
+            {/* Minimap: whole discovered world */}
+            {showMinimap && (
+                <div 
+                    className="absolute left-2 z-10"
+                    style={{ bottom: isExpanded ? 'calc(env(safe-area-inset-bottom) + 40px)' : '8px' }}
+                >
+                    <Minimap 
+                        state={state} 
+                        pan={camera.pan} 
+                        size={isExpanded ? 180 : 96} 
+                        onNavigate={isMapLocked ? undefined : focusMinimapPoint}
+                    />
+                </div>
+            )}
+
             <div ref={containerRef} className="w-full h-full overflow-hidden touch-none">
                 <canvas 
                     ref={canvasRef} 
@@ -1,11 +1,11 @@
 
-import { TerrainType } from '../../../types';
+import { BiomeType, TerrainType } from '../../../types';
 import { MAP_CONSTANTS } from '../../../constants';
 
 export interface ScreenPoint { x: number; y: number; depth: number; }
 
 export interface RenderObject {
-    type: 'terrain' | 'water' | 'location' | 'char' | 'region_point' | 'region_boundary' | 'building_face' | 'location_anchor';
+    type: 'terrain' | 'water' | 'location' | 'char' | 'region_point' | 'region_boundary' | 'building_face' | 'location_anchor' | 'route';
     depth: number;
     points?: ScreenPoint[];
     groundPoint?: ScreenPoint; // Anchor point on the terrain surface
@@ -21,6 +21,8 @@ export interface RenderObject {
     isActive?: boolean;
     id?: string;
     charCount?: number;
+    lineWidth?: number;
+    dash?: number[];
 }
 
 export interface CameraState {
@@ -58,7 +60,19 @@ export const COLOR_STOPS = [
     { h: 350, r: 255, g: 255, b: 255 }  // Pure Snow
 ];
 
-export const getTerrainColor = (z: number, type: TerrainType = TerrainType.LAND): string => {
+// Ground cover tint per biome; blended with the height ramp so relief stays readable
+export const BIOME_COLORS: Partial<Record<BiomeType, { r: number, g: number, b: number }>> = {
+    [BiomeType.GRASSLAND]: { r: 95, g: 150, b: 70 },
+    [BiomeType.FOREST]: { r: 30, g: 95, b: 45 },
+    [BiomeType.DESERT]: { r: 215, g: 185, b: 120 },
+    [BiomeType.SWAMP]: { r: 75, g: 95, b: 65 },
+    [BiomeType.TUNDRA]: { r: 150, g: 160, b: 150 },
+    [BiomeType.SNOW_MOUNTAIN]: { r: 240, g: 244, b: 248 }
+};
+
+const BIOME_BLEND = 0.7;
+
+export const getTerrainColor = (z: number, type: TerrainType = TerrainType.LAND, biome?: BiomeType): string => {
     if (type === TerrainType.CITY) return `rgb(100, 116, 139)`;
     if (type === TerrainType.TOWN) return `rgb(105, 105, 105)`;
 
@@ -80,10 +94,18 @@ export const getTerrainColor = (z: number, type: TerrainType = TerrainType.LAND)
     const range = upper.h - lower.h;
     const t = range === 0 ? 0 : Math.max(0, Math.min(1, (z - lower.h) / range));
 
-    const r = Math.round(lower.r + (upper.r - lower.r) * t);
-    const g = Math.round(lower.g + (upper.g - lower.g) * t);
-    const b = Math.round(lower.b + (upper.b - lower.b) * t);
-    return `rgb(${r},${g},${b})`;
+    let r = lower.r + (upper.r - lower.r) * t;
+    let g = lower.g + (upper.g - lower.g) * t;
+    let b = lower.b + (upper.b - lower.b) * t;
+
+    // Beaches already follow the height ramp; other biomes tint it
+    const tint = biome ? BIOME_COLORS[biome] : undefined;
+    if (tint) {
+        r = tint.r * BIOME_BLEND + r * (1 - BIOME_BLEND);
+        g = tint.g * BIOME_BLEND + g * (1 - BIOME_BLEND);
+        b = tint.b * BIOME_BLEND + b * (1 - BIOME_BLEND);
+    }
+    return `rgb(${Math.round(r)},${Math.round(g)},${Math.round(b)})`;
 };
 
 export const darkenColor = (rgbStr: string, amount: number = 0.8): string => {
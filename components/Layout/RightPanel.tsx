@@ -1,9 +1,10 @@
 
 import React, { useState, useMemo } from 'react';
 import { GameState, WindowState, GameAttribute, Character } from '../../types';
-import { Edit2, User, Coins, ListOrdered, Trash2, Lock, MessageSquare, Heart, Activity, Zap, Smile, Crown, Footprints, Feather, VenetianMask, FileText } from 'lucide-react';
+import { Edit2, User, Coins, ListOrdered, Trash2, Lock, MessageSquare, Heart, Activity, Zap, Smile, Crown, Footprints, Feather, VenetianMask, FileText, HeartHandshake } from 'lucide-react';
 import { getCharacterMemory } from '../../services/aiService';
 import { TextArea } from '../ui/Button';
+import { describeAffinity, describeTrust, getRelationship, hasRelationship } from '../../services/relationshipUtils';
 
 interface RightPanelProps {
     selectedCharId: string | null;
@@ -43,7 +44,16 @@ const getAttrValue = (char: Character, key: string, fallback: number = 0): numbe
     return fallback;
 };
 
+// Overlay badge color for an affinity value
+const getAffinityClass = (affinity: number): string => {
+    if (affinity <= -20) return 'bg-danger/10 text-danger border-danger/30';
+    if (affinity >= 20) return 'bg-success-base/20 text-success-fg border-success/30';
+    return 'bg-surface-light text-muted border-border';
+};
+
 export const RightPanel: React.FC<RightPanelProps> = ({ selectedCharId, state, updateState, openWindow, setSelectedCharId }) => {
+    // Relationship overlay: each listed character shows how the selected character feels about them
+    const [showRelations, setShowRelations] = useState(false);
     
     // Logic to recover order from history if current state is empty
     const displayOrder = useMemo(() => {
@@ -169,7 +179,16 @@ export const RightPanel: React.FC<RightPanelProps> = ({ selectedCharId, state, u
                 <div className="p-3 border-b border-border bg-surface/50">
                     <div className="text-[10px] font-bold text-muted uppercase tracking-wider mb-2 flex justify-between items-center">
                         <span>{isHistoricalView ? "上轮顺序 (回顾)" : "当前列表"} ({fullList.length})</span>
-                        <span className="text-faint">{!isHistoricalView ? `Turn ${state.round.turnIndex + 1}` : "Ended"}</span>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setShowRelations(!showRelations)}
+                                className={`flex items-center gap-1 normal-case transition-colors ${showRelations ? 'text-primary' : 'text-faint hover:text-body'}`}
+                                title={selectedCharId ? "显示所选角色对他人的关系" : "先选择一个角色以查看其关系"}
+                            >
+                                <HeartHandshake size={12}/> 关系
+                            </button>
+                            <span className="text-faint">{!isHistoricalView ? `Turn ${state.round.turnIndex + 1}` : "Ended"}</span>
+                        </div>
                     </div>
                     
                     {fullList.length === 0 ? (
@@ -241,6 +260,19 @@ export const RightPanel: React.FC<RightPanelProps> = ({ selectedCharId, state, u
                                                 </div>
                                             </div>
                                         </div>
+                                        {/* Relationship Overlay */}
+                                        {showRelations && selectedCharId && selectedCharId !== id && (() => {
+                                            const known = hasRelationship(state.relationships, selectedCharId, id);
+                                            const rel = getRelationship(state.relationships, selectedCharId, id);
+                                            return (
+                                                <div
+                                                    className={`text-[8px] px-1 py-0.5 rounded border shrink-0 font-mono leading-tight text-center ${getAffinityClass(rel.affinity)}`}
+                                                    title={`${state.characters[selectedCharId]?.name} 对 ${char.name}: ${describeAffinity(rel.affinity)} / ${describeTrust(rel.trust)}${rel.tags.length > 0 ? ` [${rel.tags.join(', ')}]` : ''}`}
+                                                >
+                                                    {known ? <>♥{rel.affinity}<br/>✓{rel.trust}</> : '—'}
+                                                </div>
+                                            );
+                                        })()}
                                         {/* Status Dots - Fixed with semantic colors */}
                                         {char.isPlayer && <div className="w-1.5 h-1.5 rounded-full bg-dopamine shrink-0 mr-1" title="玩家角色"></div>}
                                         {isActive && <div className="w-1.5 h-1.5 rounded-full bg-success shrink-0 animate-pulse"></div>}
@@ -3,10 +3,11 @@ import React, { useState, useRef, useEffect, useMemo, useLayoutEffect } from 're
 import { createPortal } from 'react-dom';
 import { GameState, Character, GamePhase, LogEntry, GameImage, WindowState } from '../../types';
 import { Button, TextArea, Input, Label } from '../ui/Button';
-import { Trash2, Scissors, Edit2, RefreshCw, ListOrdered, User, CheckCircle, AlertCircle, Sword, Play, Pause, Square, FastForward, X, Zap, MapPin, ArrowDown, MoreHorizontal, Book, BookOpen, ChevronDown, ChevronRight, ChevronUp } from 'lucide-react';
+import { Trash2, Scissors, Edit2, RefreshCw, ListOrdered, User, CheckCircle, AlertCircle, Sword, Play, Pause, Square, FastForward, X, Zap, MapPin, ArrowDown, MoreHorizontal, Book, BookOpen, ChevronDown, ChevronRight, ChevronUp, ScrollText } from 'lucide-react';
 import { ImageUploadModal } from '../Modals/ImageUploadModal';
 import { ModelQueueIndicator } from '../ui/ModelQueueIndicator'; // Import Indicator
 import { Window } from '../ui/Window';
+import { formatChronicleRange } from '../../services/chronicleUtils';
 
 interface StoryLogProps {
     state: GameState;
@@ -290,6 +291,80 @@ const LocationBar = ({ state, openWindow }: { state: GameState, openWindow?: (ty
     );
 };
 
+// Collapsible list of chronicle summaries (oldest first); entries can be corrected or removed by the user
+const ChronicleSection = ({ state, updateState }: { state: GameState, updateState: (updater: (current: GameState) => GameState) => void }) => {
+    const chronicle = state.world.chronicle || [];
+    const [isOpen, setIsOpen] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editValue, setEditValue] = useState("");
+
+    if (chronicle.length === 0) return null;
+
+    const saveEdit = (id: string) => {
+        updateState(prev => ({
+            ...prev,
+            world: { ...prev.world, chronicle: (prev.world.chronicle || []).map(e => e.id === id ? { ...e, text: editValue, edited: true } : e) }
+        }));
+        setEditingId(null);
+    };
+
+    const removeEntry = (id: string) => {
+        updateState(prev => ({
+            ...prev,
+            world: { ...prev.world, chronicle: (prev.world.chronicle || []).filter(e => e.id !== id) }
+        }));
+    };
+
+    return (
+        <div id="chronicle-section" className="bg-surface/60 border border-border rounded font-sans">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-xs text-muted hover:text-body transition-colors"
+            >
+                {isOpen ? <ChevronDown size={14}/> : <ChevronRight size={14}/>}
+                <ScrollText size={14} className="text-primary"/>
+                <span className="font-bold uppercase tracking-wider">编年史 (Chronicle)</span>
+                <span className="ml-auto text-[10px] text-faint">{chronicle.length} 条 · 至第 {chronicle[chronicle.length - 1].endRound} 轮</span>
+            </button>
+            {isOpen && (
+                <div className="px-3 pb-3 space-y-2 max-h-[40vh] overflow-y-auto custom-scrollbar">
+                    {chronicle.map(entry => (
+                        <div key={entry.id} className="group/chr text-xs border-l-2 border-primary/40 pl-2">
+                            <div className="flex items-center gap-2 text-[10px] text-faint mb-0.5">
+                                <span className="font-bold text-muted">{formatChronicleRange(entry)}</span>
+                                {entry.level > 0 && <span className="px-1 rounded bg-primary/10 text-primary">阶段</span>}
+                                {entry.edited && <span>(已编辑)</span>}
+                                {editingId !== entry.id && (
+                                    <span className="ml-auto flex gap-1 opacity-0 group-hover/chr:opacity-100 transition-opacity">
+                                        <button onClick={() => { setEditingId(entry.id); setEditValue(entry.text); }} className="hover:text-primary p-0.5" title="编辑摘要"><Edit2 size={12}/></button>
+                                        <button onClick={() => removeEntry(entry.id)} className="hover:text-danger-fg p-0.5" title="删除 (将在后台重新生成)"><Trash2 size={12}/></button>
+                                    </span>
+                                )}
+                            </div>
+                            {editingId === entry.id ? (
+                                <div className="flex flex-col gap-2">
+                                    <TextArea
+                                        autoFocus
+                                        value={editValue}
+                                        onChange={e => setEditValue(e.target.value)}
+                                        className="w-full min-h-[80px] text-xs"
+                                    />
+                                    <div className="flex justify-end gap-2">
+                                        <Button size="sm" variant="secondary" onClick={() => setEditingId(null)}>取消</Button>
+                                        <Button size="sm" onClick={() => saveEdit(entry.id)}>保存</Button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="text-body whitespace-pre-wrap leading-relaxed">{entry.text}</div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 export const StoryLog: React.FC<StoryLogProps> = ({ state, updateState, onConfirm, onRollback, onRegenerate, onStopExecution, onUnveil, openWindow }) => {
     const scrollRef = useRef<HTMLDivElement>(null);
     const scrollAnchorRef = useRef<{ id: string, offset: number } | null>(null);
@@ -867,6 +942,8 @@ export const StoryLog: React.FC<StoryLogProps> = ({ state, updateState, onConfir
                 className="absolute inset-0 overflow-y-auto p-4 md:p-6 space-y-4 font-serif leading-relaxed pt-14"
                 onScroll={handleScroll}
             >
+                <ChronicleSection state={state} updateState={updateState} />
+
                 {groupedHistory.map((group) => {
                     // Case 1: Single Log (Non-System)
                     if (group.type === 'single') {
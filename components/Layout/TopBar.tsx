@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { GameState, WindowState } from '../../types';
 import { Button } from '../ui/Button';
-import { Download, Upload, Layers, Settings, Globe, Coins, MapPin, BookOpen, Map, Terminal, RotateCcw, Trash2, Menu, X, Lock, Gift, Clock, Pause, Play, Zap, Sun, Moon } from 'lucide-react';
+import { Download, Upload, Layers, Settings, Globe, Coins, MapPin, BookOpen, Map, Terminal, RotateCcw, Trash2, Menu, X, Lock, Gift, Clock, Pause, Play, Zap, Sun, Moon, Package, Flag, ScrollText } from 'lucide-react';
 
 interface TopBarProps {
     state: GameState;
@@ -197,6 +197,33 @@ export const TopBar: React.FC<TopBarProps> = ({
                  >
                      {locked.triggerEditor ? <Lock size={16}/> : <Zap size={16}/>}
                  </Button>
+                 <Button 
+                    size="sm" 
+                    variant="secondary" 
+                    onClick={() => !locked.triggerEditor && openWindow('scenario')} 
+                    className={`px-2 ${locked.triggerEditor ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    title={locked.triggerEditor ? "已锁定 (Locked)" : "剧本模组 (Scenario Modules)"}
+                 >
+                     {locked.triggerEditor ? <Lock size={16}/> : <Package size={16}/>}
+                 </Button>
+                 <Button 
+                    size="sm" 
+                    variant="secondary" 
+                    onClick={() => !locked.triggerEditor && openWindow('faction')} 
+                    className={`px-2 ${locked.triggerEditor ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    title={locked.triggerEditor ? "已锁定 (Locked)" : "势力 (Factions)"}
+                 >
+                     {locked.triggerEditor ? <Lock size={16}/> : <Flag size={16}/>}
+                 </Button>
+                 <Button 
+                    size="sm" 
+                    variant="secondary" 
+                    onClick={() => openWindow('quest')} 
+                    className="px-2"
+                    title="任务日志 (Quests)"
+                 >
+                     <ScrollText size={16}/>
+                 </Button>
              </div>
          </div>
 
@@ -277,6 +304,24 @@ export const TopBar: React.FC<TopBarProps> = ({
                          >
                              {locked.triggerEditor ? <Lock size={16}/> : <Zap size={16}/>} 触发器
                          </button>
+                         <button 
+                            onClick={() => !locked.triggerEditor && handleAction(() => openWindow('scenario'))} 
+                            className={`flex items-center gap-2 p-2 hover:bg-surface-highlight rounded text-sm text-body text-left ${locked.triggerEditor ? 'opacity-50 cursor-not-allowed' : ''}`}
+                         >
+                             {locked.triggerEditor ? <Lock size={16}/> : <Package size={16}/>} 剧本模组
+                         </button>
+                         <button 
+                            onClick={() => !locked.triggerEditor && handleAction(() => openWindow('faction'))} 
+                            className={`flex items-center gap-2 p-2 hover:bg-surface-highlight rounded text-sm text-body text-left ${locked.triggerEditor ? 'opacity-50 cursor-not-allowed' : ''}`}
+                         >
+                             {locked.triggerEditor ? <Lock size={16}/> : <Flag size={16}/>} 势力
+                         </button>
+                         <button 
+                            onClick={() => handleAction(() => openWindow('quest'))} 
+                            className="flex items-center gap-2 p-2 hover:bg-surface-highlight rounded text-sm text-body text-left"
+                         >
+                             <ScrollText size={16}/> 任务日志
+                         </button>
                          {state.devMode && (
                             <button onClick={() => handleAction(() => openWindow('dev'))} className="flex items-center gap-2 p-2 hover:bg-surface-highlight rounded text-sm text-success-fg text-left">
                                 <Terminal size={16}/> Debug Console
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { GameState, WindowState, Character, Card, GameAttribute, AppSettings, AIConfig, GlobalContextConfig, DefaultSettings, LogEntry, DebugLog, MapLocation } from '../../types';
+import { GameState, WindowState, Character, Card, GameAttribute, AppSettings, AIConfig, GlobalContextConfig, DefaultSettings, LogEntry, DebugLog, MapLocation, Relationship } from '../../types';
 import { CharacterEditor } from '../Windows/CharacterEditor';
 import { CardEditor } from '../Windows/CardEditor';
 import { WorldEditor } from '../Windows/WorldEditor';
@@ -13,12 +13,17 @@ import { WorldCompositionWindow } from '../Windows/WorldCompositionWindow'; // N
 import { AiGenWindow } from '../Windows/Pools/AiGenWindow';
 import { PrizePoolWindow } from '../Windows/PrizePoolWindow'; 
 import { TriggerPoolWindow } from '../Windows/TriggerPoolWindow';
+import { ScenarioWindow } from '../Windows/ScenarioWindow';
+import { FactionWindow } from '../Windows/FactionWindow';
+import { QuestWindow } from '../Windows/QuestWindow';
 import { ShopWindow } from '../Windows/ShopWindow';
 import { LetterWindow } from '../Windows/LetterWindow';
 import { ThemeEditorWindow } from '../Windows/ThemeEditorWindow';
 import { LocationEditor } from '../Windows/LocationEditor';
 import { StoryEditWindow } from '../Windows/StoryEditWindow';
 import { propagateCharacterNameChange } from '../../services/characterUtils';
+import { setOutgoingRelationships } from '../../services/relationshipUtils';
+import { createEmptyUsageStats } from '../../services/ai/usageUtils';
 
 interface WindowManagerProps {
     windows: WindowState[];
@@ -35,7 +40,7 @@ export const WindowManager: React.FC<WindowManagerProps> = ({
     windows, closeWindow, state, updateState, openWindow, addLog, selectedCharId, addDebugLog
 }) => {
 
-  const handleSaveCharacter = (char: Character, locationId?: string) => {
+  const handleSaveCharacter = (char: Character, locationId?: string, relationships?: Record<string, Relationship>) => {
     // Diff Logic to detect manual changes
     const oldChar = state.characters[char.id];
     let changesLog = "";
@@ -135,12 +140,13 @@ export const WindowManager: React.FC<WindowManagerProps> = ({
           }
       }
 
-      return {
+      const next = {
         ...prev,
         characters: newChars,
         map: { ...prev.map, charPositions: newCharPositions },
         round: { ...prev.round, defaultOrder: newDefaultOrder, currentOrder: newCurrentOrder }
       };
+      return relationships ? setOutgoingRelationships(next, finalChar.id, relationships) : next;
     });
     
     if (changesLog) {
@@ -309,6 +315,13 @@ export const WindowManager: React.FC<WindowManagerProps> = ({
                     onSyncAllChars={handleSyncAllChars}
                     addDebugLog={addDebugLog} 
                     openWindow={openWindow} 
+                    usageStats={state.usageStats}
+                    worldSeed={state.map.seed}
+                    characterNames={Object.fromEntries(Object.values(state.characters).map(c => [c.id, c.name]))}
+                    onResetUsage={() => updateState(prev => ({ ...prev, usageStats: createEmptyUsageStats() }))}
+                    replayBundle={state.replayBundle}
+                    onImportReplayBundle={bundle => updateState(prev => ({ ...prev, replayBundle: bundle }))}
+                    onClearReplayBundle={() => updateState(prev => ({ ...prev, replayBundle: undefined }))}
                   />
               )}
               {win.type === 'pool' && (
@@ -371,6 +384,34 @@ export const WindowManager: React.FC<WindowManagerProps> = ({
                     addLog={addLog}
                   />
               )}
+              {win.type === 'scenario' && (
+                  <ScenarioWindow
+                    winId={win.id}
+                    state={state}
+                    updateState={updateState}
+                    closeWindow={closeWindow}
+                    addLog={addLog}
+                  />
+              )}
+              {win.type === 'faction' && (
+                  <FactionWindow
+                    winId={win.id}
+                    state={state}
+                    updateState={updateState}
+                    closeWindow={closeWindow}
+                    addLog={addLog}
+                  />
+              )}
+              {win.type === 'quest' && (
+                  <QuestWindow
+                    winId={win.id}
+                    state={state}
+                    updateState={updateState}
+                    closeWindow={closeWindow}
+                    addLog={addLog}
+                    activeCharId={selectedCharId || undefined}
+                  />
+              )}
               {win.type === 'shop' && (
                   <ShopWindow
                     winId={win.id}
@@ -5,6 +5,7 @@ import { Button, Input, Label, TextArea } from '../ui/Button';
 import { Plus, Trash2, Sparkles, Box, Zap, Coins, Hourglass, ShieldAlert, Wand2, EyeOff, Eye, MessageSquare, Lock, Edit2 } from 'lucide-react';
 import { ImageUploader } from '../ui/ImageUploader';
 import { Window } from '../ui/Window';
+import { getExpressionError } from '../../services/expressionUtils';
 
 interface CardEditorProps {
   onSave: (card: Card) => void;
@@ -212,6 +213,7 @@ export const CardEditor: React.FC<CardEditorProps> = ({ onSave, onClose, initial
             <div className="space-y-4">
               {(card.effects || []).map((effect, idx) => {
                 const isHitEffect = idx === 0;
+                const valueError = getExpressionError(effect.value);
                 return (
                   <div key={effect.id} className={`bg-surface-light p-4 rounded border ${isHitEffect ? 'border-primary/50 bg-primary/5' : 'border-border'} text-sm relative group hover:border-highlight transition-colors`}>
                     {isHitEffect && (
@@ -294,10 +296,14 @@ export const CardEditor: React.FC<CardEditorProps> = ({ onSave, onClose, initial
                           <Input 
                               value={effect.value} 
                               onChange={e => updateEffect(idx, { value: e.target.value })} 
-                              placeholder={effect.dynamicValue ? "参考范围 (如: 10-50)" : "+10, -5, 或 文本"}
+                              placeholder={effect.dynamicValue ? "参考范围 (如: 10-50)" : "+10, -5, 文本 或 =表达式"}
+                              title="以 = 开头为表达式, 如: = clamp(target.健康 - 2d6, 0, 100)。可用 self/target/world/var.名称, round, time.hour, min/max/clamp, 骰子 2d6"
                               disabled={readOnly} 
-                              className={effect.dynamicValue ? "border-primary/50 text-primary" : ""}
+                              className={valueError ? "border-danger text-danger" : effect.dynamicValue ? "border-primary/50 text-primary" : ""}
                           />
+                          {valueError && (
+                               <span className="text-[9px] text-danger absolute bottom-[-18px] left-0 truncate max-w-full" title={valueError}>{valueError}</span>
+                          )}
                           {isHitEffect && Number(effect.value) === 0 && !readOnly && (
                                <span className="text-[9px] text-primary absolute bottom-[-18px] left-0">命中判定建议值为 0</span>
                           )}
@@ -1,8 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
-import { Character, Provider, AttributeType, Card, GameState, GameAttribute, AttributeVisibility, Drive, MapLocation, Conflict, GameImage } from '../../types';
+import { Character, Provider, AttributeType, Card, GameState, GameAttribute, AttributeVisibility, Drive, MapLocation, Conflict, GameImage, Relationship, Faction } from '../../types';
 import { Button, Input, Label, TextArea } from '../ui/Button';
-import { Save, BrainCircuit, Plus, Edit, Trash, Eye, EyeOff, Coins, Cpu, User, AlertTriangle, Footprints, Dices, MessageSquare, Heart, VenetianMask, Info, Activity, Layers, Package, Upload, RefreshCw, Eraser, Settings2, Globe } from 'lucide-react';
+import { Save, BrainCircuit, Plus, Edit, Trash, Eye, EyeOff, Coins, Cpu, User, AlertTriangle, Footprints, Dices, MessageSquare, Heart, VenetianMask, Info, Activity, Layers, Package, Upload, RefreshCw, Eraser, Settings2, Globe, HeartHandshake } from 'lucide-react';
 import { CardEditor } from './CardEditor';
 import { generateRandomFlagAvatar } from '../../assets/imageLibrary';
 import { getCharacterMemory } from '../../services/aiService';
@@ -11,10 +11,12 @@ import { ContextEditorModal } from './Settings/ContextEditorModal';
 import { Window } from '../ui/Window';
 import { ImageAttachmentList } from '../ui/ImageAttachmentList';
 import { ImageUploadModal } from '../Modals/ImageUploadModal';
+import { CustomEndpointFields } from './Settings/CustomEndpointFields';
+import { clampRelationshipValue, createNeutralRelationship, describeAffinity, describeTrust } from '../../services/relationshipUtils';
 
 interface CharacterEditorProps {
   character?: Character; // Or Partial with special config
-  onSave: (char: Character, locationId?: string) => void; 
+  onSave: (char: Character, locationId?: string, relationships?: Record<string, Relationship>) => void; 
   onClose: () => void;
   gameState: GameState; 
   onUpdatePoolCard?: (card: Card) => void; 
@@ -73,6 +75,8 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
   };
 
   const [char, setChar] = useState<Character>(getInitialState());
+  // Outgoing relationships (how this character feels about others), saved together with the character
+  const [relations, setRelations] = useState<Record<string, Relationship>>(() => ({ ...(gameState.relationships?.[char.id] || {}) }));
 
   // Effect to sync external character prop changes (if any)
   useEffect(() => {
@@ -91,7 +95,7 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
   const [selectedLocationId, setSelectedLocationId] = useState<string>(initialLocId);
 
   const [editingCard, setEditingCard] = useState<{ card: Card, source: 'deck' | 'pool' } | null>(null);
-  const [activeTab, setActiveTab] = useState<'basic' | 'attributes' | 'deck' | 'inventory' | 'brain'>('basic');
+  const [activeTab, setActiveTab] = useState<'basic' | 'attributes' | 'deck' | 'inventory' | 'relations' | 'brain'>('basic');
   const [confirmDeleteSkillId, setConfirmDeleteSkillId] = useState<string | null>(null);
 
   const [showContextModal, setShowContextModal] = useState(false);
@@ -275,6 +279,21 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
       setEditingImage({ target, image });
   };
 
+  const otherCharacters = (Object.values(gameState.characters) as Character[]).filter(c => c.id !== char.id && !c.id.startsWith('env_'));
+  const factions = Object.values(gameState.factions || {}) as Faction[];
+
+  const updateRelation = (toId: string, updates: Partial<Relationship>) => {
+      setRelations(prev => ({ ...prev, [toId]: { ...(prev[toId] || createNeutralRelationship()), ...updates } }));
+  };
+
+  const removeRelation = (toId: string) => {
+      setRelations(prev => {
+          const next = { ...prev };
+          delete next[toId];
+          return next;
+      });
+  };
+
   const TabButton = ({ id, label, icon: Icon }: { id: typeof activeTab, label: string, icon: any }) => (
       <button 
           onClick={() => setActiveTab(id)} 
@@ -301,6 +320,7 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
                 <TabButton id="attributes" label="属性" icon={Activity} />
                 <TabButton id="deck" label="能力" icon={Layers} />
                 <TabButton id="inventory" label="物品" icon={Package} />
+                {!isTemplate && <TabButton id="relations" label="关系" icon={HeartHandshake} />}
                 <TabButton id="brain" label="大脑" icon={BrainCircuit} />
             </div>
         }
@@ -316,7 +336,7 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
 
                 <div className="flex gap-2">
                     <Button variant="secondary" onClick={onClose}>取消</Button>
-                    <Button onClick={() => onSave(char, selectedLocationId)} className="px-6 font-bold">
+                    <Button onClick={() => onSave(char, selectedLocationId, isTemplate ? undefined : relations)} className="px-6 font-bold">
                         <Save size={16} className="mr-2"/> 保存
                     </Button>
                 </div>
@@ -561,6 +581,73 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
                 </div>
             )}
 
+            {/* RELATIONS TAB */}
+            {activeTab === 'relations' && (
+                <div className="space-y-4">
+                    <div className="flex justify-between items-center gap-2">
+                        <span className="text-xs text-muted">{char.name} 对他人的看法 (好感 / 信任: -100 ~ 100)</span>
+                        <select
+                            className="bg-surface border border-border rounded text-xs p-1 text-body"
+                            value=""
+                            onChange={e => e.target.value && updateRelation(e.target.value, {})}
+                        >
+                            <option value="">+ 添加关系</option>
+                            {otherCharacters.filter(c => !relations[c.id]).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                    {Object.keys(relations).length === 0 ? (
+                        <div className="text-xs text-muted italic">尚无关系记录，对所有人视为中立。</div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {Object.entries(relations).map(([toId, rel]) => (
+                                <div key={toId} className="bg-surface-highlight p-3 rounded border border-border flex flex-col gap-2">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-xs font-bold text-primary">{gameState.characters[toId]?.name || `(已移除: ${toId})`}</span>
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-[10px] text-muted">{describeAffinity(rel.affinity)} · {describeTrust(rel.trust)}</span>
+                                            <button onClick={() => removeRelation(toId)} className="text-muted hover:text-danger-fg p-1"><Trash size={14}/></button>
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <div>
+                                            <Label>好感</Label>
+                                            <Input type="number" className="h-7 text-xs" value={rel.affinity} onChange={e => updateRelation(toId, { affinity: clampRelationshipValue(parseFloat(e.target.value) || 0) })}/>
+                                        </div>
+                                        <div>
+                                            <Label>信任</Label>
+                                            <Input type="number" className="h-7 text-xs" value={rel.trust} onChange={e => updateRelation(toId, { trust: clampRelationshipValue(parseFloat(e.target.value) || 0) })}/>
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <Label>标签 (逗号分隔)</Label>
+                                        <Input className="h-7 text-xs" placeholder="恋人, 宿敌, 师徒..." value={rel.tags.join(',')} onChange={e => updateRelation(toId, { tags: e.target.value.split(/[,，]/) })}/>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="border-t border-border pt-3">
+                        <span className="text-xs text-muted">他人对 {char.name} 的看法 (只读，在对应角色中编辑)</span>
+                        <div className="mt-2 flex flex-col gap-1">
+                            {otherCharacters.filter(c => gameState.relationships?.[c.id]?.[char.id]).map(c => {
+                                const rel = gameState.relationships![c.id][char.id];
+                                return (
+                                    <div key={c.id} className="text-xs flex items-center gap-2 bg-surface p-1.5 rounded border border-border">
+                                        <span className="font-bold text-body">{c.name}</span>
+                                        <span className="text-muted">好感 {rel.affinity} ({describeAffinity(rel.affinity)}) · 信任 {rel.trust} ({describeTrust(rel.trust)})</span>
+                                        {rel.tags.length > 0 && <span className="text-primary">[{rel.tags.join(', ')}]</span>}
+                                    </div>
+                                );
+                            })}
+                            {!otherCharacters.some(c => gameState.relationships?.[c.id]?.[char.id]) && (
+                                <div className="text-xs text-muted italic">暂无记录。</div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* DECK TAB */}
             {activeTab === 'deck' && (
                 <div className="space-y-4">
@@ -676,6 +763,7 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
                                         <option value={Provider.OPENROUTER}>OpenRouter</option>
                                         <option value={Provider.OPENAI}>OpenAI</option>
                                         <option value={Provider.CLAUDE}>Anthropic (Claude)</option>
+                                        <option value={Provider.CUSTOM}>Custom Endpoint (本地/自定义)</option>
                                     </select>
                                 </div>
                                 <div>
@@ -703,6 +791,13 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
                                         placeholder="Leave empty to use global key"
                                     />
                                 </div>
+                                {char.aiConfig?.provider === Provider.CUSTOM && (
+                                    <CustomEndpointFields
+                                        config={char.aiConfig}
+                                        onChange={cfg => setChar({...char, aiConfig: cfg})}
+                                        apiKey={char.aiConfig.apiKey || gameState.appSettings?.apiKeys?.[Provider.CUSTOM] || ''}
+                                    />
+                                )}
                             </div>
                         ) : (
                             <div className="text-xs text-muted italic p-2 bg-black/10 rounded">
@@ -848,6 +943,26 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({ character, onS
                                                     value={conf.apReward} 
                                                     onChange={e => updateConflict(idx, 'apReward', parseInt(e.target.value) || 0)}
                                                 />
+                                                {factions.length > 0 && (
+                                                    <>
+                                                        <span title="解决后改变该势力对角色的声望">声望:</span>
+                                                        <select
+                                                            className="h-6 bg-surface border border-border rounded text-[10px] text-body"
+                                                            value={conf.factionId || ''}
+                                                            onChange={e => updateConflict(idx, 'factionId', e.target.value || undefined)}
+                                                        >
+                                                            <option value="">无</option>
+                                                            {factions.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                                                        </select>
+                                                        {conf.factionId && (
+                                                            <Input 
+                                                                type="number" className="w-12 h-6 text-[10px]" 
+                                                                value={conf.reputationReward ?? 0} 
+                                                                onChange={e => updateConflict(idx, 'reputationReward', parseInt(e.target.value) || 0)}
+                                                            />
+                                                        )}
+                                                    </>
+                                                )}
                                             </div>
                                             <label className="flex items-center gap-1 text-[10px] cursor-pointer">
                                                 <input 
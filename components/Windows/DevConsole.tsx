@@ -95,6 +95,12 @@ export const DevConsole: React.FC<DevConsoleProps> = ({ logs, onClose }) => {
                                      <Clock size={10}/> {new Date(log.timestamp).toLocaleTimeString()}
                                  </span>
 
+                                 {log.usage && (
+                                     <span className="text-[10px] text-muted font-mono shrink-0" title="Prompt / Completion (Reasoning) tokens">
+                                         {log.usage.promptTokens}↑ {log.usage.completionTokens}↓{log.usage.reasoningTokens ? ` (${log.usage.reasoningTokens})` : ''}
+                                     </span>
+                                 )}
+
                                  {!isExpanded && (
                                      <div className="text-[10px] text-muted truncate opacity-60 font-mono ml-2">
                                          {log.response.substring(0, 100).replace(/\n/g, ' ')}...
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { GameState, Faction, Character, MapRegion, MapSettlement, AttributeType, AttributeVisibility } from '../../types';
+import { Button, Input, TextArea, Label } from '../ui/Button';
+import { Plus, Trash2, Flag, Users, MapPin, Castle, ListChecks, Award } from 'lucide-react';
+import { Window } from '../ui/Window';
+import { createFaction, clampReputation, describeReputation, getFactionList, getRegionFaction, getSettlementFaction } from '../../services/factionUtils';
+
+interface FactionWindowProps {
+    winId: number;
+    state: GameState;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    closeWindow: (id: number) => void;
+    addLog: (text: string) => void;
+}
+
+export const FactionWindow: React.FC<FactionWindowProps> = ({ winId, state, updateState, closeWindow, addLog }) => {
+    const [selectedFactionId, setSelectedFactionId] = useState<string | null>(null);
+    const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+    const [newAttrName, setNewAttrName] = useState("");
+    const [reputationCharId, setReputationCharId] = useState("");
+
+    const factions = getFactionList(state);
+    const activeFaction = selectedFactionId && state.factions ? state.factions[selectedFactionId] : null;
+
+    const characters = (Object.values(state.characters) as Character[]).filter(c => !c.id.startsWith('env_'));
+    const regions = Object.values(state.map.regions || {}) as MapRegion[];
+    const settlements = Object.values(state.map.settlements || {}) as MapSettlement[];
+
+    const handleCreateFaction = () => {
+        const faction = createFaction("新势力", factions);
+        updateState(prev => ({
+            ...prev,
+            factions: { ...(prev.factions || {}), [faction.id]: faction }
+        }));
+        setSelectedFactionId(faction.id);
+    };
+
+    const handleDeleteFaction = (id: string) => {
+        if (deleteConfirmId === id) {
+            const name = state.factions?.[id]?.name;
+            updateState(prev => {
+                const next = { ...(prev.factions || {}) };
+                delete next[id];
+                // Conflicts pointing at the removed faction lose their reputation reward
+                const characters = { ...prev.characters };
+                Object.values(characters).forEach(c => {
+                    if (c.conflicts.some(cf => cf.factionId === id)) {
+                        characters[c.id] = {
+                            ...c,
+                            conflicts: c.conflicts.map(cf => cf.factionId === id ? { ...cf, factionId: undefined, reputationReward: undefined } : cf)
+                        };
+                    }
+                });
+                return { ...prev, factions: next, characters };
+            });
+            if (selectedFactionId === id) setSelectedFactionId(null);
+            setDeleteConfirmId(null);
+            if (name) addLog(`系统: 势力 [${name}] 已删除。`);
+        } else {
+            setDeleteConfirmId(id);
+            setTimeout(() => setDeleteConfirmId(null), 3000);
+        }
+    };
+
+    const handleUpdateFaction = (updates: Partial<Faction>) => {
+        if (!activeFaction) return;
+        updateState(prev => {
+            const current = prev.factions?.[activeFaction.id];
+            if (!current) return prev;
+            return {
+                ...prev,
+                factions: { ...prev.factions, [current.id]: { ...current, ...updates } }
+            };
+        });
+    };
+
+    const toggleId = (field: 'memberIds' | 'regionIds' | 'settlementIds', id: string) => {
+        if (!activeFaction) return;
+        const list = activeFaction[field];
+        handleUpdateFaction({ [field]: list.includes(id) ? list.filter(x => x !== id) : [...list, id] });
+    };
+
+    const handleAddAttribute = () => {
+        if (!activeFaction || !newAttrName.trim()) return;
+        const id = `fattr_${Date.now()}`;
+        handleUpdateFaction({
+            attributes: {
+                ...activeFaction.attributes,
+                [id]: { id, name: newAttrName.trim(), type: AttributeType.NUMBER, value: 0, visibility: AttributeVisibility.PUBLIC }
+            }
+        });
+        setNewAttrName("");
+    };
+
+    const handleUpdateAttribute = (id: string, raw: string) => {
+        if (!activeFaction) return;
+        const attr = activeFaction.attributes[id];
+        const num = Number(raw);
+        const isNumber = raw.trim() !== "" && !isNaN(num);
+        handleUpdateFaction({
+            attributes: {
+                ...activeFaction.attributes,
+                [id]: { ...attr, type: isNumber ? AttributeType.NUMBER : AttributeType.TEXT, value: isNumber ? num : raw }
+            }
+        });
+    };
+
+    const handleRemoveAttribute = (id: string) => {
+        if (!activeFaction) return;
+        const next = { ...activeFaction.attributes };
+        delete next[id];
+        handleUpdateFaction({ attributes: next });
+    };
+
+    const handleSetReputation = (charId: string, value: number) => {
+        if (!activeFaction) return;
+        handleUpdateFaction({ reputation: { ...activeFaction.reputation, [charId]: clampReputation(value) } });
+    };
+
+    const handleRemoveReputation = (charId: string) => {
+        if (!activeFaction) return;
+        const next = { ...activeFaction.reputation };
+        delete next[charId];
+        handleUpdateFaction({ reputation: next });
+    };
+
+    const handleAddReputation = () => {
+        if (!activeFaction || !reputationCharId) return;
+        handleSetReputation(reputationCharId, 0);
+        setReputationCharId("");
+    };
+
+    // Chip toggles; territory already held by another faction is marked with that faction's name
+    const renderChip = (key: string, label: string, selected: boolean, onClick: () => void, owner?: Faction) => (
+        <button
+            key={key}
+            onClick={onClick}
+            className={`
+                text-[10px] px-2 py-1 rounded border transition-all flex items-center gap-1
+                ${selected
+                    ? 'bg-primary border-primary text-primary-fg shadow-sm'
+                    : 'bg-surface border-border text-muted hover:border-highlight hover:text-body'}
+            `}
+            title={owner && !selected ? `已属于: ${owner.name}` : undefined}
+        >
+            {label}
+            {owner && !selected && <span className="opacity-60">({owner.name})</span>}
+        </button>
+    );
+
+    const reputationEntries = activeFaction
+        ? Object.entries(activeFaction.reputation).filter(([charId]) => state.characters[charId])
+        : [];
+
+    return (
+        <Window
+            title="势力管理 (Factions)"
+            icon={<Flag size={18} className="text-primary"/>}
+            onClose={() => closeWindow(winId)}
+            maxWidth="max-w-6xl"
+            height="h-[95vh]"
+            disableContentScroll={true}
+            noPadding={true}
+        >
+                <div className="flex flex-col md:flex-row flex-1 min-h-0 h-full overflow-hidden">
+                    {/* Left Sidebar: Faction List */}
+                    <div className={`
+                        border-r-0 border-b md:border-b-0 md:border-r border-border flex flex-col shrink-0
+                        w-full md:w-64 transition-all duration-300
+                        ${selectedFactionId ? 'h-32 md:h-full' : 'flex-1 md:h-full'}
+                        bg-surface/50
+                    `}>
+                        <div className="p-2 border-b border-border shrink-0">
+                             <Button className="w-full flex items-center justify-center gap-2 text-xs md:text-sm h-8 md:h-10" onClick={handleCreateFaction}>
+                                 <Plus size={14}/> 新建势力
+                             </Button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+                            {factions.length === 0 && (
+                                <div className="text-muted text-xs text-center py-4">暂无势力</div>
+                            )}
+                            {factions.map(faction => (
+                                <div
+                                    key={faction.id}
+                                    onClick={() => setSelectedFactionId(faction.id)}
+                                    className={`p-2 rounded cursor-pointer flex justify-between items-center group ${selectedFactionId === faction.id ? 'bg-surface-highlight text-highlight border border-border' : 'text-muted hover:bg-surface-highlight hover:text-body'}`}
+                                >
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <span className="w-3 h-3 rounded-full shrink-0 border border-border" style={{ backgroundColor: faction.color }}/>
+                                        <div className="truncate font-bold text-xs md:text-sm">{faction.name}</div>
+                                    </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleDeleteFaction(faction.id); }}
+                                        className={`transition-all p-1 rounded ${deleteConfirmId === faction.id ? 'bg-red-600 text-white opacity-100 scale-110 px-2' : 'text-muted hover:text-danger-fg opacity-100 md:opacity-0 md:group-hover:opacity-100'}`}
+                                        title={deleteConfirmId === faction.id ? "点击确认删除" : "删除"}
+                                    >
+                                        {deleteConfirmId === faction.id ? <span className="text-[10px] font-bold">确认?</span> : <Trash2 size={14}/>}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Right Content: Faction Editor */}
+                    <div className="flex-1 bg-surface-light flex flex-col min-w-0 min-h-0 overflow-y-auto custom-scrollbar">
+                        {activeFaction ? (
+                            <div className="p-3 flex flex-col gap-4">
+                                {/* Basic Info */}
+                                <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+                                    <div>
+                                        <Label>势力名称</Label>
+                                        <Input className="h-8" value={activeFaction.name} onChange={e => handleUpdateFaction({ name: e.target.value })} />
+                                    </div>
+                                    <div>
+                                        <Label>地图颜色</Label>
+                                        <input
+                                            type="color"
+                                            className="h-8 w-16 bg-transparent border border-border rounded cursor-pointer"
+                                            value={activeFaction.color}
+                                            onChange={e => handleUpdateFaction({ color: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+                                <div>
+                                    <Label>描述 (AI 可见)</Label>
+                                    <TextArea className="resize-none text-xs h-16" value={activeFaction.description} onChange={e => handleUpdateFaction({ description: e.target.value })} />
+                                </div>
+
+                                {/* Members */}
+                                <div>
+                                    <Label className="flex items-center gap-2 text-primary"><Users size={14}/> 成员 (Members)</Label>
+                                    <div className="bg-surface border border-border rounded p-2 max-h-28 overflow-y-auto custom-scrollbar flex flex-wrap gap-2">
+                                        {characters.length === 0 && <div className="text-muted text-xs italic w-full text-center py-2">暂无角色</div>}
+                                        {characters.map(c => renderChip(c.id, c.name, activeFaction.memberIds.includes(c.id), () => toggleId('memberIds', c.id)))}
+                                    </div>
+                                </div>
+
+                                {/* Territory */}
+                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                                    <div>
+                                        <Label className="flex items-center gap-2 text-primary"><MapPin size={14}/> 控制区域 (Regions)</Label>
+                                        <div className="bg-surface border border-border rounded p-2 max-h-28 overflow-y-auto custom-scrollbar flex flex-wrap gap-2">
+                                            {regions.length === 0 && <div className="text-muted text-xs italic w-full text-center py-2">暂无区域</div>}
+                                            {regions.map(r => {
+                                                const owner = getRegionFaction(state, r.id);
+                                                return renderChip(r.id, r.name, activeFaction.regionIds.includes(r.id), () => toggleId('regionIds', r.id), owner?.id !== activeFaction.id ? owner : undefined);
+                                            })}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <Label className="flex items-center gap-2 text-primary"><Castle size={14}/> 控制城镇 (Settlements)</Label>
+                                        <div className="bg-surface border border-border rounded p-2 max-h-28 overflow-y-auto custom-scrollbar flex flex-wrap gap-2">
+                                            {settlements.length === 0 && <div className="text-muted text-xs italic w-full text-center py-2">暂无城镇</div>}
+                                            {settlements.map(s => {
+                                                const owner = getSettlementFaction(state, s.id);
+                                                return renderChip(s.id, s.name, activeFaction.settlementIds.includes(s.id), () => toggleId('settlementIds', s.id), owner?.id !== activeFaction.id ? owner : undefined);
+                                            })}
+                                        </div>
+                                    </div>
+                                </div>
+                                <p className="text-[10px] text-muted -mt-2 leading-tight">
+                                    区域被多个势力声明时，列表中靠前的势力为控制者；城镇的控制者优先于其所在区域。
+                                </p>
+
+                                {/* Attributes */}
+                                <div>
+                                    <Label className="flex items-center gap-2 text-primary"><ListChecks size={14}/> 势力属性 (Attributes)</Label>
+                                    <div className="bg-surface border border-border rounded p-2 space-y-1">
+                                        {Object.values(activeFaction.attributes).length === 0 && <div className="text-muted text-xs italic text-center py-1">暂无属性</div>}
+                                        {Object.values(activeFaction.attributes).map(attr => (
+                                            <div key={attr.id} className="flex items-center gap-2">
+                                                <span className="text-xs text-body w-28 truncate" title={attr.name}>{attr.name}</span>
+                                                <Input className="h-7 text-xs flex-1" value={String(attr.value)} onChange={e => handleUpdateAttribute(attr.id, e.target.value)} />
+                                                <button onClick={() => handleRemoveAttribute(attr.id)} className="text-muted hover:text-danger-fg p-1"><Trash2 size={12}/></button>
+                                            </div>
+                                        ))}
+                                        <div className="flex items-center gap-2 pt-1">
+                                            <Input className="h-7 text-xs flex-1" placeholder="新属性名 (如: 兵力、财富)" value={newAttrName} onChange={e => setNewAttrName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleAddAttribute()} />
+                                            <Button size="sm" variant="secondary" onClick={handleAddAttribute} disabled={!newAttrName.trim()}><Plus size={12}/></Button>
+                                        </div>
+                                    </div>
+                                </div>
+
+                                {/* Reputation */}
+                                <div>
+                                    <Label className="flex items-center gap-2 text-primary"><Award size={14}/> 声望 (Reputation)</Label>
+                                    <div className="bg-surface border border-border rounded p-2 space-y-1">
+                                        {reputationEntries.length === 0 && <div className="text-muted text-xs italic text-center py-1">暂无声望记录 (未记录的角色视为 0)</div>}
+                                        {reputationEntries.map(([charId, value]) => (
+                                            <div key={charId} className="flex items-center gap-2">
+                                                <span className="text-xs text-body w-28 truncate">{state.characters[charId].name}</span>
+                                                <Input type="number" className="h-7 text-xs w-20" value={value} onChange={e => handleSetReputation(charId, parseInt(e.target.value) || 0)} />
+                                                <span className="text-[10px] text-muted flex-1">{describeReputation(value)}</span>
+                                                <button onClick={() => handleRemoveReputation(charId)} className="text-muted hover:text-danger-fg p-1"><Trash2 size={12}/></button>
+                                            </div>
+                                        ))}
+                                        <div className="flex items-center gap-2 pt-1">
+                                            <select
+                                                className="h-7 text-xs flex-1 bg-surface-light border border-border rounded px-1 text-body"
+                                                value={reputationCharId}
+                                                onChange={e => setReputationCharId(e.target.value)}
+                                            >
+                                                <option value="">选择角色...</option>
+                                                {characters.filter(c => activeFaction.reputation[c.id] === undefined).map(c => (
+                                                    <option key={c.id} value={c.id}>{c.name}</option>
+                                                ))}
+                                            </select>
+                                            <Button size="sm" variant="secondary" onClick={handleAddReputation} disabled={!reputationCharId}><Plus size={12}/></Button>
+                                        </div>
+                                    </div>
+                                    <p className="text-[10px] text-muted mt-1 leading-tight">
+                                        声望范围 -100 ~ 100。卡牌效果目标属性写作 "声望:{activeFaction.name}" 可在游戏中改变声望；解决绑定此势力的矛盾也会获得声望奖励。
+                                    </p>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex-1 flex flex-col items-center justify-center text-muted gap-2 p-4">
+                                <Flag size={48} className="opacity-20"/>
+                                <p className="text-sm">选择或新建一个势力进行编辑</p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+        </Window>
+    );
+};
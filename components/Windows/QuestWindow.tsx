@@ -0,0 +1,549 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { GameState, Character, Card, MapLocation, Quest, QuestCriterion, QuestCriterionType, QuestObjective, QuestStatus, Comparator } from '../../types';
+import { Button, Input, TextArea, Label } from '../ui/Button';
+import { Plus, Trash2, ScrollText, Edit, Eye, CheckCircle, Circle, Lock, XCircle, Clock, Gift, Target, Ban } from 'lucide-react';
+import { Window } from '../ui/Window';
+import { WorldTimePicker } from '../ui/WorldTimePicker';
+import { getNaturalTimeDelta } from '../../services/timeUtils';
+import {
+    QUEST_CRITERION_LABELS, QUEST_STATUS_LABELS, createQuest, createQuestObjective, describeCriterion,
+    describeQuestReward, findQuest, getAllQuests, getOpenObjectives, isQuestDeadlinePassed
+} from '../../services/questUtils';
+
+interface QuestWindowProps {
+    winId: number;
+    state: GameState;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    closeWindow: (id: number) => void;
+    addLog: (text: string) => void;
+    activeCharId?: string;
+}
+
+const COMPARATORS: Comparator[] = ['>=', '>', '=', '!=', '<', '<='];
+
+const STATUS_CLASSES: Record<QuestStatus, string> = {
+    locked: 'bg-surface-highlight text-muted border-border',
+    active: 'bg-primary/20 text-primary border-primary/50',
+    completed: 'bg-success-base/20 text-success-fg border-success-base/50',
+    failed: 'bg-danger/20 text-danger-fg border-danger/50'
+};
+
+const selectClass = "h-7 bg-surface-light border border-border rounded px-1 text-xs text-body";
+
+// Fields of one completion / fail criterion
+const CriterionEditor: React.FC<{
+    criterion: QuestCriterion;
+    onChange: (next: QuestCriterion) => void;
+    locations: MapLocation[];
+    cards: Card[];
+}> = ({ criterion, onChange, locations, cards }) => (
+    <div className="flex flex-wrap items-center gap-2">
+        <select
+            className={selectClass}
+            value={criterion.type}
+            onChange={e => onChange({ type: e.target.value as QuestCriterionType })}
+        >
+            {(Object.keys(QUEST_CRITERION_LABELS) as QuestCriterionType[]).map(t => (
+                <option key={t} value={t}>{QUEST_CRITERION_LABELS[t]}</option>
+            ))}
+        </select>
+        {criterion.type === 'attr' && (
+            <>
+                <Input className="h-7 text-xs w-28" placeholder="属性名" value={criterion.targetName || ""} onChange={e => onChange({ ...criterion, targetName: e.target.value })} />
+                <select className={selectClass} value={criterion.comparator || '>='} onChange={e => onChange({ ...criterion, comparator: e.target.value as Comparator })}>
+                    {COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <Input className="h-7 text-xs w-20" placeholder="数值" value={criterion.value ?? ""} onChange={e => onChange({ ...criterion, value: e.target.value })} />
+            </>
+        )}
+        {criterion.type === 'card' && (
+            <select className={`${selectClass} flex-1`} value={criterion.targetName || ""} onChange={e => onChange({ ...criterion, targetName: e.target.value })}>
+                <option value="">选择卡牌...</option>
+                {cards.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+        )}
+        {criterion.type === 'location' && (
+            <select className={`${selectClass} flex-1`} value={criterion.locationId || ""} onChange={e => onChange({ ...criterion, locationId: e.target.value })}>
+                <option value="">选择地点...</option>
+                {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+        )}
+        {criterion.type === 'ai' && (
+            <Input className="h-7 text-xs flex-1" placeholder="判定条件 (如: 说服守卫放行)" value={criterion.desc || ""} onChange={e => onChange({ ...criterion, desc: e.target.value })} />
+        )}
+    </div>
+);
+
+export const QuestWindow: React.FC<QuestWindowProps> = ({ winId, state, updateState, closeWindow, addLog, activeCharId }) => {
+    const [selectedQuestId, setSelectedQuestId] = useState<string | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [showAll, setShowAll] = useState(false);
+    const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+    const [showDeadlinePicker, setShowDeadlinePicker] = useState(false);
+
+    const isLocked = !!state.appSettings.lockedFeatures?.characterEditor;
+    const now = String(state.world.attributes['worldTime']?.value ?? "");
+
+    const characters = (Object.values(state.characters) as Character[]).filter(c => !c.id.startsWith('env_'));
+    const locations = (Object.values(state.map.locations) as MapLocation[]).filter(l => l.isKnown);
+    const allQuests = getAllQuests(state);
+
+    // Player characters first, then NPCs; finished quests only when showing all
+    const groups = [...characters]
+        .sort((a, b) => Number(b.isPlayer) - Number(a.isPlayer))
+        .map(owner => ({
+            owner,
+            quests: (owner.quests || []).filter(q => showAll || q.status === 'active' || q.status === 'locked')
+        }))
+        .filter(g => g.quests.length > 0);
+
+    const selected = selectedQuestId ? findQuest(state, selectedQuestId) : undefined;
+    const quest = selected?.quest;
+    const owner = selected?.owner;
+
+    const updateQuest = (questId: string, updates: Partial<Quest>) => {
+        updateState(prev => {
+            const found = findQuest(prev, questId);
+            if (!found) return prev;
+            const nextOwner = { ...found.owner, quests: (found.owner.quests || []).map(q => q.id === questId ? { ...q, ...updates } : q) };
+            return { ...prev, characters: { ...prev.characters, [nextOwner.id]: nextOwner } };
+        });
+    };
+
+    const updateObjective = (objId: string, updates: Partial<QuestObjective>) => {
+        if (!quest) return;
+        updateQuest(quest.id, { objectives: quest.objectives.map(o => o.id === objId ? { ...o, ...updates } : o) });
+    };
+
+    const handleCreateQuest = () => {
+        const ownerId = (activeCharId && state.characters[activeCharId] && !activeCharId.startsWith('env_'))
+            ? activeCharId
+            : (characters.find(c => c.isPlayer) || characters[0])?.id;
+        if (!ownerId) return;
+        const newQuest = { ...createQuest(), startedRound: state.round.roundNumber };
+        updateState(prev => {
+            const target = prev.characters[ownerId];
+            return { ...prev, characters: { ...prev.characters, [ownerId]: { ...target, quests: [...(target.quests || []), newQuest] } } };
+        });
+        setSelectedQuestId(newQuest.id);
+        setIsEditing(true);
+    };
+
+    const handleDeleteQuest = (questId: string) => {
+        if (deleteConfirmId === questId) {
+            const found = findQuest(state, questId);
+            updateState(prev => {
+                const current = findQuest(prev, questId);
+                if (!current) return prev;
+                const nextOwner = { ...current.owner, quests: (current.owner.quests || []).filter(q => q.id !== questId) };
+                return { ...prev, characters: { ...prev.characters, [nextOwner.id]: nextOwner } };
+            });
+            if (selectedQuestId === questId) setSelectedQuestId(null);
+            setDeleteConfirmId(null);
+            if (found) addLog(`系统: 任务 [${found.quest.title}] 已删除。`);
+        } else {
+            setDeleteConfirmId(questId);
+            setTimeout(() => setDeleteConfirmId(null), 3000);
+        }
+    };
+
+    // Moves the quest to another owner; the linked conflict belongs to the old owner, so it is dropped
+    const handleChangeOwner = (newOwnerId: string) => {
+        if (!quest || !owner || newOwnerId === owner.id) return;
+        updateState(prev => {
+            const current = findQuest(prev, quest.id);
+            const target = prev.characters[newOwnerId];
+            if (!current || !target) return prev;
+            const moved: Quest = { ...current.quest, conflictId: undefined };
+            return {
+                ...prev,
+                characters: {
+                    ...prev.characters,
+                    [current.owner.id]: { ...current.owner, quests: (current.owner.quests || []).filter(q => q.id !== quest.id) },
+                    [newOwnerId]: { ...target, quests: [...(target.quests || []), moved] }
+                }
+            };
+        });
+    };
+
+    const toggleListId = (list: string[] | undefined, id: string): string[] => {
+        const current = list || [];
+        return current.includes(id) ? current.filter(x => x !== id) : [...current, id];
+    };
+
+    const renderStatusBadge = (status: QuestStatus) => (
+        <span className={`text-[10px] px-1.5 py-0.5 rounded border shrink-0 ${STATUS_CLASSES[status]}`}>{QUEST_STATUS_LABELS[status]}</span>
+    );
+
+    const renderLog = (q: Quest, o: Character) => {
+        const open = new Set(getOpenObjectives(q).map(obj => obj.id));
+        const giver = q.giverId ? state.characters[q.giverId] : undefined;
+        const conflict = q.conflictId ? o.conflicts.find(c => c.id === q.conflictId) : undefined;
+        const prerequisites = (q.prerequisiteQuestIds || []).map(id => findQuest(state, id)).filter(Boolean) as { quest: Quest, owner: Character }[];
+        const overdue = isQuestDeadlinePassed(state, q);
+
+        return (
+            <div className="p-4 flex flex-col gap-4">
+                <div>
+                    <div className="flex items-center gap-2 mb-1">
+                        <h2 className="text-lg font-bold text-highlight">{q.title}</h2>
+                        {renderStatusBadge(q.status)}
+                    </div>
+                    <div className="text-xs text-muted">
+                        执行者: <span className="text-body">{o.name}</span>
+                        {giver && <> · 委托人: <span className="text-body">{giver.name}</span></>}
+                        {q.startedRound !== undefined && <> · 开始于第 {q.startedRound} 轮</>}
+                        {q.endedRound !== undefined && <> · 结束于第 {q.endedRound} 轮</>}
+                    </div>
+                    {q.desc && <p className="text-sm text-body mt-2 whitespace-pre-wrap">{q.desc}</p>}
+                </div>
+
+                {prerequisites.length > 0 && (
+                    <div className="text-xs text-muted">
+                        前置任务: {prerequisites.map(p => `${p.quest.title} (${QUEST_STATUS_LABELS[p.quest.status]})`).join(', ')}
+                    </div>
+                )}
+
+                <div>
+                    <Label className="flex items-center gap-2 text-primary"><Target size={14}/> 目标</Label>
+                    <div className="space-y-1">
+                        {q.objectives.length === 0 && <div className="text-muted text-xs italic">尚未设定目标</div>}
+                        {q.objectives.map(obj => (
+                            <div key={obj.id} className={`flex items-start gap-2 text-sm ${obj.completed ? 'text-muted line-through' : open.has(obj.id) ? 'text-body' : 'text-muted'}`}>
+                                <span className="mt-0.5 shrink-0">
+                                    {obj.completed ? <CheckCircle size={14} className="text-success-fg"/> : open.has(obj.id) ? <Circle size={14}/> : <Lock size={14}/>}
+                                </span>
+                                <div>
+                                    <div>{obj.desc || describeCriterion(state, obj.criterion)}</div>
+                                    {obj.desc && <div className="text-[10px] text-muted no-underline">{QUEST_CRITERION_LABELS[obj.criterion.type]}: {describeCriterion(state, obj.criterion)}</div>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {q.deadline && (
+                    <div className={`text-xs flex items-center gap-2 ${overdue ? 'text-danger-fg' : 'text-body'}`}>
+                        <Clock size={14}/> 期限: <span className="font-mono">{q.deadline}</span>
+                        {q.status === 'active' && now && (overdue ? <span>(已超时)</span> : <span className="text-muted">(剩余 {getNaturalTimeDelta(q.deadline, now)})</span>)}
+                    </div>
+                )}
+
+                {(q.failConditions || []).length > 0 && (
+                    <div className="text-xs text-body">
+                        <Label className="flex items-center gap-2 text-danger-fg"><Ban size={14}/> 失败条件</Label>
+                        <ul className="list-disc pl-5 space-y-0.5">
+                            {(q.failConditions || []).map((c, i) => <li key={i}>{describeCriterion(state, c)}</li>)}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="text-xs text-body flex items-center gap-2">
+                    <Gift size={14} className="text-accent-pink"/> 奖励: {describeQuestReward(state, q.rewards)}
+                </div>
+                {conflict && (
+                    <div className="text-xs text-muted">完成后解决矛盾: {conflict.desc} {conflict.solved && "(已解决)"}</div>
+                )}
+            </div>
+        );
+    };
+
+    const renderEditor = (q: Quest, o: Character) => {
+        const otherQuests = allQuests.filter(entry => entry.quest.id !== q.id);
+        const rewardCards = q.rewards.cardIds || [];
+        const attrChanges = q.rewards.attributeChanges || [];
+
+        return (
+            <div className="p-3 flex flex-col gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <Label>任务名称</Label>
+                        <Input className="h-8" value={q.title} onChange={e => updateQuest(q.id, { title: e.target.value })} />
+                    </div>
+                    <div>
+                        <Label>状态</Label>
+                        <select className={`${selectClass} h-8 w-full`} value={q.status} onChange={e => updateQuest(q.id, { status: e.target.value as QuestStatus })}>
+                            {(Object.keys(QUEST_STATUS_LABELS) as QuestStatus[]).map(s => <option key={s} value={s}>{QUEST_STATUS_LABELS[s]}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <Label>执行者</Label>
+                        <select className={`${selectClass} h-8 w-full`} value={o.id} onChange={e => handleChangeOwner(e.target.value)}>
+                            {characters.map(c => <option key={c.id} value={c.id}>{c.name}{c.isPlayer ? ' (玩家)' : ''}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <Label>委托人 (可选)</Label>
+                        <select className={`${selectClass} h-8 w-full`} value={q.giverId || ""} onChange={e => updateQuest(q.id, { giverId: e.target.value || undefined })}>
+                            <option value="">无</option>
+                            {characters.filter(c => c.id !== o.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <Label>描述 (AI 可见)</Label>
+                    <TextArea className="resize-none text-xs h-16" value={q.desc} onChange={e => updateQuest(q.id, { desc: e.target.value })} />
+                </div>
+
+                {/* Objectives */}
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <Label className="flex items-center gap-2 text-primary"><Target size={14}/> 目标 (全部完成即任务完成)</Label>
+                        <Button size="sm" variant="secondary" onClick={() => updateQuest(q.id, { objectives: [...q.objectives, createQuestObjective()] })}><Plus size={12}/></Button>
+                    </div>
+                    <div className="space-y-2">
+                        {q.objectives.map((obj, index) => (
+                            <div key={obj.id} className="bg-surface border border-border rounded p-2 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <button onClick={() => updateObjective(obj.id, { completed: !obj.completed, completedRound: obj.completed ? undefined : state.round.roundNumber })} title="切换完成状态">
+                                        {obj.completed ? <CheckCircle size={16} className="text-success-fg"/> : <Circle size={16} className="text-muted"/>}
+                                    </button>
+                                    <Input className="h-7 text-xs flex-1" placeholder={`目标 ${index + 1} 描述`} value={obj.desc} onChange={e => updateObjective(obj.id, { desc: e.target.value })} />
+                                    <button
+                                        onClick={() => updateQuest(q.id, {
+                                            objectives: q.objectives
+                                                .filter(x => x.id !== obj.id)
+                                                .map(x => ({ ...x, prerequisiteIds: (x.prerequisiteIds || []).filter(id => id !== obj.id) }))
+                                        })}
+                                        className="text-muted hover:text-danger-fg p-1"
+                                    ><Trash2 size={12}/></button>
+                                </div>
+                                <CriterionEditor criterion={obj.criterion} onChange={criterion => updateObjective(obj.id, { criterion })} locations={locations} cards={state.cardPool} />
+                                {index > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1 text-[10px] text-muted">
+                                        前置目标:
+                                        {q.objectives.slice(0, index).map((prev, i) => {
+                                            const isOn = (obj.prerequisiteIds || []).includes(prev.id);
+                                            return (
+                                                <button
+                                                    key={prev.id}
+                                                    onClick={() => updateObjective(obj.id, { prerequisiteIds: toggleListId(obj.prerequisiteIds, prev.id) })}
+                                                    className={`px-1.5 py-0.5 rounded border ${isOn ? 'bg-primary border-primary text-primary-fg' : 'bg-surface-light border-border hover:text-body'}`}
+                                                >
+                                                    {prev.desc || `目标 ${i + 1}`}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Fail Conditions & Deadline */}
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <Label className="flex items-center gap-2 text-danger-fg"><Ban size={14}/> 失败条件 (任一达成即失败)</Label>
+                        <Button size="sm" variant="secondary" onClick={() => updateQuest(q.id, { failConditions: [...(q.failConditions || []), { type: 'ai' }] })}><Plus size={12}/></Button>
+                    </div>
+                    <div className="space-y-1">
+                        {(q.failConditions || []).map((c, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                                <div className="flex-1">
+                                    <CriterionEditor
+                                        criterion={c}
+                                        onChange={next => updateQuest(q.id, { failConditions: (q.failConditions || []).map((x, j) => j === i ? next : x) })}
+                                        locations={locations}
+                                        cards={state.cardPool}
+                                    />
+                                </div>
+                                <button onClick={() => updateQuest(q.id, { failConditions: (q.failConditions || []).filter((_, j) => j !== i) })} className="text-muted hover:text-danger-fg p-1"><Trash2 size={12}/></button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2 mt-2">
+                        <Label className="mb-0">期限 (世界时间)</Label>
+                        <Button variant="secondary" className="h-7 text-xs flex items-center gap-2 font-mono" onClick={() => setShowDeadlinePicker(true)}>
+                            <Clock size={12}/> {q.deadline || "无期限"}
+                        </Button>
+                        {q.deadline && <button onClick={() => updateQuest(q.id, { deadline: undefined })} className="text-[10px] text-muted hover:text-highlight underline">清除</button>}
+                    </div>
+                </div>
+
+                {/* Prerequisite Quests */}
+                <div>
+                    <Label>前置任务 (完成后才解锁，状态需为"未解锁")</Label>
+                    <div className="bg-surface border border-border rounded p-2 max-h-24 overflow-y-auto custom-scrollbar flex flex-wrap gap-2">
+                        {otherQuests.length === 0 && <div className="text-muted text-xs italic w-full text-center">暂无其他任务</div>}
+                        {otherQuests.map(({ quest: other, owner: otherOwner }) => {
+                            const isOn = (q.prerequisiteQuestIds || []).includes(other.id);
+                            return (
+                                <button
+                                    key={other.id}
+                                    onClick={() => updateQuest(q.id, { prerequisiteQuestIds: toggleListId(q.prerequisiteQuestIds, other.id) })}
+                                    className={`text-[10px] px-2 py-1 rounded border transition-all ${isOn ? 'bg-primary border-primary text-primary-fg' : 'bg-surface-light border-border text-muted hover:text-body'}`}
+                                >
+                                    {other.title} <span className="opacity-60">({otherOwner.name})</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Rewards */}
+                <div>
+                    <Label className="flex items-center gap-2 text-accent-pink"><Gift size={14}/> 奖励</Label>
+                    <div className="bg-surface border border-border rounded p-2 space-y-2">
+                        <div className="flex gap-4">
+                            <div>
+                                <Label>行动点 (AP)</Label>
+                                <Input type="number" className="h-7 w-24 text-xs" value={q.rewards.ap || 0} onChange={e => updateQuest(q.id, { rewards: { ...q.rewards, ap: parseInt(e.target.value) || 0 } })} />
+                            </div>
+                            <div>
+                                <Label>创造点 (CP)</Label>
+                                <Input type="number" className="h-7 w-24 text-xs" value={q.rewards.cp || 0} onChange={e => updateQuest(q.id, { rewards: { ...q.rewards, cp: parseInt(e.target.value) || 0 } })} />
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1">
+                            {rewardCards.map((id, i) => (
+                                <span key={`${id}_${i}`} className="text-[10px] px-2 py-0.5 rounded border border-border bg-surface-light flex items-center gap-1">
+                                    {state.cardPool.find(c => c.id === id)?.name || id}
+                                    <button onClick={() => updateQuest(q.id, { rewards: { ...q.rewards, cardIds: rewardCards.filter((_, j) => j !== i) } })} className="hover:text-danger-fg"><XCircle size={10}/></button>
+                                </span>
+                            ))}
+                            <select
+                                className={selectClass}
+                                value=""
+                                onChange={e => e.target.value && updateQuest(q.id, { rewards: { ...q.rewards, cardIds: [...rewardCards, e.target.value] } })}
+                            >
+                                <option value="">+ 奖励卡牌...</option>
+                                {state.cardPool.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                        </div>
+                        {attrChanges.map((a, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                                <Input className="h-7 text-xs flex-1" placeholder="属性名" value={a.name} onChange={e => updateQuest(q.id, { rewards: { ...q.rewards, attributeChanges: attrChanges.map((x, j) => j === i ? { ...x, name: e.target.value } : x) } })} />
+                                <Input type="number" className="h-7 text-xs w-20" value={a.delta} onChange={e => updateQuest(q.id, { rewards: { ...q.rewards, attributeChanges: attrChanges.map((x, j) => j === i ? { ...x, delta: parseInt(e.target.value) || 0 } : x) } })} />
+                                <button onClick={() => updateQuest(q.id, { rewards: { ...q.rewards, attributeChanges: attrChanges.filter((_, j) => j !== i) } })} className="text-muted hover:text-danger-fg p-1"><Trash2 size={12}/></button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updateQuest(q.id, { rewards: { ...q.rewards, attributeChanges: [...attrChanges, { name: "", delta: 10 }] } })}
+                            className="text-[10px] text-muted hover:text-highlight underline"
+                        >
+                            + 属性变化
+                        </button>
+                    </div>
+                </div>
+
+                {/* Linked Conflict */}
+                <div>
+                    <Label>关联矛盾 (任务完成时标记为已解决)</Label>
+                    <select className={`${selectClass} h-8 w-full`} value={q.conflictId || ""} onChange={e => updateQuest(q.id, { conflictId: e.target.value || undefined })}>
+                        <option value="">无</option>
+                        {o.conflicts.map(c => <option key={c.id} value={c.id}>{c.desc}{c.solved ? ' (已解决)' : ''}</option>)}
+                    </select>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Window
+            title="任务日志 (Quests)"
+            icon={<ScrollText size={18} className="text-primary"/>}
+            onClose={() => closeWindow(winId)}
+            maxWidth="max-w-6xl"
+            height="h-[95vh]"
+            disableContentScroll={true}
+            noPadding={true}
+        >
+                {showDeadlinePicker && quest && createPortal(
+                    <WorldTimePicker
+                        initialTime={quest.deadline || now || "2077:01:01:00:00:00"}
+                        onCancel={() => setShowDeadlinePicker(false)}
+                        onConfirm={(val) => {
+                            updateQuest(quest.id, { deadline: val });
+                            setShowDeadlinePicker(false);
+                        }}
+                    />,
+                    document.body
+                )}
+                <div className="flex flex-col md:flex-row flex-1 min-h-0 h-full overflow-hidden">
+                    {/* Left Sidebar: Quest List */}
+                    <div className={`
+                        border-r-0 border-b md:border-b-0 md:border-r border-border flex flex-col shrink-0
+                        w-full md:w-72 transition-all duration-300
+                        ${selectedQuestId ? 'h-40 md:h-full' : 'flex-1 md:h-full'}
+                        bg-surface/50
+                    `}>
+                        <div className="p-2 border-b border-border shrink-0 flex flex-col gap-2">
+                             {!isLocked && (
+                                 <Button className="w-full flex items-center justify-center gap-2 text-xs md:text-sm h-8 md:h-10" onClick={handleCreateQuest} disabled={characters.length === 0}>
+                                     <Plus size={14}/> 新建任务
+                                 </Button>
+                             )}
+                             <div className="flex bg-surface-light rounded p-0.5 text-xs">
+                                 <button onClick={() => setShowAll(false)} className={`flex-1 py-1 rounded ${!showAll ? 'bg-primary text-primary-fg' : 'text-muted hover:text-body'}`}>进行中</button>
+                                 <button onClick={() => setShowAll(true)} className={`flex-1 py-1 rounded ${showAll ? 'bg-primary text-primary-fg' : 'text-muted hover:text-body'}`}>全部</button>
+                             </div>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-2 space-y-3 custom-scrollbar">
+                            {groups.length === 0 && (
+                                <div className="text-muted text-xs text-center py-4">暂无任务</div>
+                            )}
+                            {groups.map(({ owner: o, quests }) => (
+                                <div key={o.id}>
+                                    <div className="text-[10px] uppercase font-bold text-muted px-1 mb-1">{o.name}{o.isPlayer ? ' (玩家)' : ''}</div>
+                                    <div className="space-y-1">
+                                        {quests.map(q => {
+                                            const done = q.objectives.filter(obj => obj.completed).length;
+                                            return (
+                                                <div
+                                                    key={q.id}
+                                                    onClick={() => setSelectedQuestId(q.id)}
+                                                    className={`p-2 rounded cursor-pointer flex justify-between items-center gap-2 group ${selectedQuestId === q.id ? 'bg-surface-highlight text-highlight border border-border' : 'text-muted hover:bg-surface-highlight hover:text-body'}`}
+                                                >
+                                                    <div className="min-w-0">
+                                                        <div className="truncate font-bold text-xs md:text-sm">{q.title}</div>
+                                                        <div className="text-[10px] opacity-70">{done}/{q.objectives.length} 目标</div>
+                                                    </div>
+                                                    <div className="flex items-center gap-1">
+                                                        {renderStatusBadge(q.status)}
+                                                        {!isLocked && (
+                                                            <button
+                                                                onClick={(e) => { e.stopPropagation(); handleDeleteQuest(q.id); }}
+                                                                className={`transition-all p-1 rounded ${deleteConfirmId === q.id ? 'bg-red-600 text-white opacity-100 scale-110 px-2' : 'text-muted hover:text-danger-fg opacity-100 md:opacity-0 md:group-hover:opacity-100'}`}
+                                                                title={deleteConfirmId === q.id ? "点击确认删除" : "删除"}
+                                                            >
+                                                                {deleteConfirmId === q.id ? <span className="text-[10px] font-bold">确认?</span> : <Trash2 size={14}/>}
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Right Content: Quest Log / Editor */}
+                    <div className="flex-1 bg-surface-light flex flex-col min-w-0 min-h-0 overflow-hidden">
+                        {quest && owner ? (
+                            <>
+                                {!isLocked && (
+                                    <div className="p-2 border-b border-border bg-surface-highlight shrink-0 flex justify-end">
+                                        <Button size="sm" variant="secondary" onClick={() => setIsEditing(!isEditing)} className="flex items-center gap-2">
+                                            {isEditing ? <><Eye size={14}/> 查看</> : <><Edit size={14}/> 编辑</>}
+                                        </Button>
+                                    </div>
+                                )}
+                                <div className="flex-1 overflow-y-auto custom-scrollbar">
+                                    {isEditing && !isLocked ? renderEditor(quest, owner) : renderLog(quest, owner)}
+                                </div>
+                            </>
+                        ) : (
+                            <div className="flex-1 flex flex-col items-center justify-center text-muted gap-2 p-4">
+                                <ScrollText size={48} className="opacity-20"/>
+                                <p className="text-sm">选择一个任务查看详情</p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+        </Window>
+    );
+};
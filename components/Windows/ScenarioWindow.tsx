@@ -0,0 +1,266 @@
+
+import React, { useRef, useState } from 'react';
+import { GameState, ScenarioConflictMode, ScenarioModule, Trigger, PrizePool } from '../../types';
+import { Button, Input, Label, TextArea } from '../ui/Button';
+import { Window } from '../ui/Window';
+import { Package, Download, Upload, CheckSquare, Square, AlertTriangle } from 'lucide-react';
+import { applyScenarioModule, createScenarioModule, findScenarioConflicts, formatScenarioEntity, getPromptOverrides, ScenarioImportReport, ScenarioSelection, validateScenarioModule } from '../../services/scenarioUtils';
+
+interface ScenarioWindowProps {
+    winId: number;
+    state: GameState;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    closeWindow: (id: number) => void;
+    addLog: (text: string) => void;
+}
+
+const CONFLICT_MODES: { value: ScenarioConflictMode, label: string, desc: string }[] = [
+    { value: 'merge', label: '合并 (Merge)', desc: '同名内容保留原 ID，模组字段覆盖；奖池保留原有物品。' },
+    { value: 'replace', label: '替换 (Replace)', desc: '同名内容被模组版本整体替换 (保留原 ID)。' },
+    { value: 'skip', label: '跳过 (Skip)', desc: '同名内容保持不变，模组中的引用指向已有内容。' },
+];
+
+const EMPTY_SELECTION: ScenarioSelection = {
+    triggerIds: [],
+    poolIds: [],
+    cardIds: [],
+    variableKeys: [],
+    promptKeys: [],
+    characterTemplate: false,
+    locationTemplate: false,
+    initialWorldConfig: false
+};
+
+type ListKey = 'triggerIds' | 'poolIds' | 'cardIds' | 'variableKeys' | 'promptKeys';
+
+// Scenario modules: export selected rules/content as a versioned module, import modules into this game
+export const ScenarioWindow: React.FC<ScenarioWindowProps> = ({ winId, state, updateState, closeWindow, addLog }) => {
+    const [tab, setTab] = useState<'export' | 'import'>('export');
+    const [selection, setSelection] = useState<ScenarioSelection>(EMPTY_SELECTION);
+    const [info, setInfo] = useState({ name: '', moduleVersion: '1.0.0', author: '', description: '' });
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pending, setPending] = useState<ScenarioModule | null>(null);
+    const [importError, setImportError] = useState('');
+    const [mode, setMode] = useState<ScenarioConflictMode>('merge');
+    const [report, setReport] = useState<ScenarioImportReport | null>(null);
+
+    const triggers = Object.values(state.triggers || {}) as Trigger[];
+    const pools = Object.values(state.prizePools || {}) as PrizePool[];
+    const variables = state.appSettings.globalVariables || [];
+    const promptOverrides = getPromptOverrides(state.defaultSettings.prompts);
+
+    const toggleItem = (key: ListKey, value: string) => {
+        setSelection(prev => {
+            const list = prev[key] as string[];
+            return { ...prev, [key]: list.includes(value) ? list.filter(v => v !== value) : [...list, value] };
+        });
+    };
+
+    const setAll = (key: ListKey, values: string[]) => {
+        setSelection(prev => ({ ...prev, [key]: (prev[key] as string[]).length === values.length ? [] : values }));
+    };
+
+    const handleExport = () => {
+        const module = createScenarioModule(state, selection, {
+            name: info.name.trim() || '未命名模组',
+            moduleVersion: info.moduleVersion.trim() || '1.0.0',
+            author: info.author.trim() || undefined,
+            description: info.description.trim() || undefined
+        });
+        const blob = new Blob([JSON.stringify(module, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `scenario_${module.manifest.name}_${module.manifest.moduleVersion}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            try {
+                const data = JSON.parse(reader.result as string);
+                const error = validateScenarioModule(data);
+                if (error) throw new Error(error);
+                setImportError('');
+                setReport(null);
+                setPending(data);
+            } catch (err: any) {
+                setPending(null);
+                setImportError(err.message || '导入失败');
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleImport = () => {
+        if (!pending) return;
+        let result: ScenarioImportReport = { added: [], merged: [], replaced: [], skipped: [] };
+        updateState(prev => {
+            const applied = applyScenarioModule(prev, pending, mode);
+            result = applied.report;
+            return applied.state;
+        });
+        setReport(result);
+        addLog(`系统: 已导入剧本模组 [${pending.manifest.name} v${pending.manifest.moduleVersion}] (新增 ${result.added.length}，合并 ${result.merged.length}，替换 ${result.replaced.length}，跳过 ${result.skipped.length})`);
+        setPending(null);
+    };
+
+    const renderChecklist = (title: string, key: ListKey, items: { value: string, label: string }[]) => {
+        const selected = selection[key] as string[];
+        return (
+            <div className="bg-surface border border-border rounded p-2">
+                <div className="flex items-center justify-between mb-1">
+                    <Label>{title} ({selected.length}/{items.length})</Label>
+                    {items.length > 0 && (
+                        <button className="text-[10px] text-primary hover:underline" onClick={() => setAll(key, items.map(i => i.value))}>
+                            {selected.length === items.length ? '全不选' : '全选'}
+                        </button>
+                    )}
+                </div>
+                <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-0.5">
+                    {items.length === 0 && <div className="text-[10px] text-muted italic">无</div>}
+                    {items.map(item => (
+                        <div key={item.value} className="flex items-center gap-1.5 text-xs text-body cursor-pointer hover:text-primary" onClick={() => toggleItem(key, item.value)}>
+                            {selected.includes(item.value) ? <CheckSquare size={12} className="text-primary shrink-0"/> : <Square size={12} className="text-muted shrink-0"/>}
+                            <span className="truncate">{item.label}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    const renderToggle = (label: string, key: 'characterTemplate' | 'locationTemplate' | 'initialWorldConfig') => (
+        <div className="flex items-center gap-1.5 text-xs text-body cursor-pointer hover:text-primary" onClick={() => setSelection(prev => ({ ...prev, [key]: !prev[key] }))}>
+            {selection[key] ? <CheckSquare size={12} className="text-primary"/> : <Square size={12} className="text-muted"/>}
+            {label}
+        </div>
+    );
+
+    const conflicts = pending ? findScenarioConflicts(state, pending) : [];
+    const content = pending?.content;
+
+    return (
+        <Window
+            title={<span className="flex items-center gap-2"><Package size={18} className="text-primary"/> 剧本模组 (Scenario Modules)</span>}
+            onClose={() => closeWindow(winId)}
+            maxWidth="max-w-3xl"
+            height="h-[85vh]"
+        >
+            <div className="flex gap-2 mb-4">
+                <Button size="sm" variant={tab === 'export' ? 'primary' : 'secondary'} onClick={() => setTab('export')}>
+                    <Download size={12} className="mr-1"/> 导出
+                </Button>
+                <Button size="sm" variant={tab === 'import' ? 'primary' : 'secondary'} onClick={() => setTab('import')}>
+                    <Upload size={12} className="mr-1"/> 导入
+                </Button>
+            </div>
+
+            {tab === 'export' && (
+                <div className="space-y-4">
+                    <p className="text-[10px] text-muted">将选中的规则与内容打包为带版本号的模组文件，可导入到其他游戏中，不包含游戏进度。</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label>模组名称</Label>
+                            <Input value={info.name} onChange={e => setInfo({ ...info, name: e.target.value })} placeholder="例如: 酒馆规则包"/>
+                        </div>
+                        <div>
+                            <Label>版本</Label>
+                            <Input value={info.moduleVersion} onChange={e => setInfo({ ...info, moduleVersion: e.target.value })} placeholder="1.0.0"/>
+                        </div>
+                        <div>
+                            <Label>作者</Label>
+                            <Input value={info.author} onChange={e => setInfo({ ...info, author: e.target.value })}/>
+                        </div>
+                    </div>
+                    <div>
+                        <Label>说明</Label>
+                        <TextArea className="h-16" value={info.description} onChange={e => setInfo({ ...info, description: e.target.value })}/>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {renderChecklist('触发器', 'triggerIds', triggers.map(t => ({ value: t.id, label: t.name })))}
+                        {renderChecklist('奖池', 'poolIds', pools.map(p => ({ value: p.id, label: p.name })))}
+                        {renderChecklist('卡池', 'cardIds', state.cardPool.map(c => ({ value: c.id, label: c.name })))}
+                        {renderChecklist('全局变量', 'variableKeys', variables.map(v => ({ value: v.key, label: `{{${v.key}}}` })))}
+                        {renderChecklist('Prompt 覆盖 (与默认不同)', 'promptKeys', promptOverrides.map(k => ({ value: k, label: k })))}
+                        <div className="bg-surface border border-border rounded p-2 space-y-1">
+                            <Label>模板与初始世界</Label>
+                            {renderToggle('角色模板', 'characterTemplate')}
+                            {renderToggle('地点模板', 'locationTemplate')}
+                            {renderToggle('初始世界配置', 'initialWorldConfig')}
+                        </div>
+                    </div>
+
+                    <Button onClick={handleExport} className="flex items-center gap-1">
+                        <Download size={14}/> 导出模组
+                    </Button>
+                </div>
+            )}
+
+            {tab === 'import' && (
+                <div className="space-y-4">
+                    <p className="text-[10px] text-muted">导入的内容会获得新的 ID，模组内部的引用 (触发器动作中的奖池/卡牌等) 会自动重定向。按名称匹配已有内容。</p>
+                    <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1">
+                        <Upload size={14}/> 选择模组文件
+                    </Button>
+                    <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+                    {importError && <div className="text-xs text-danger-fg">{importError}</div>}
+
+                    {pending && content && (
+                        <div className="bg-surface border border-border rounded p-3 space-y-3">
+                            <div>
+                                <div className="text-sm font-bold text-body">{pending.manifest.name} <span className="text-xs text-muted font-mono">v{pending.manifest.moduleVersion}</span></div>
+                                {pending.manifest.author && <div className="text-[10px] text-muted">作者: {pending.manifest.author}</div>}
+                                {pending.manifest.description && <div className="text-xs text-muted mt-1 whitespace-pre-wrap">{pending.manifest.description}</div>}
+                            </div>
+                            <div className="text-xs text-body">
+                                触发器 {content.triggers?.length || 0} · 奖池 {content.prizePools?.length || 0} · 卡牌 {content.cards?.length || 0} · 变量 {content.globalVariables?.length || 0} · Prompt {Object.keys(content.prompts || {}).length}
+                                {content.characterTemplate && ' · 角色模板'}
+                                {content.locationTemplate && ' · 地点模板'}
+                                {content.initialWorldConfig && ' · 初始世界配置'}
+                            </div>
+
+                            {conflicts.length > 0 && (
+                                <div className="bg-warning-base/20 border border-warning-base/40 rounded p-2">
+                                    <div className="text-xs text-warning-fg flex items-center gap-1 mb-1"><AlertTriangle size={12}/> {conflicts.length} 项与现有内容同名</div>
+                                    <div className="text-[10px] text-muted">{conflicts.map(c => formatScenarioEntity(c.kind, c.name)).join('、')}</div>
+                                </div>
+                            )}
+
+                            <div>
+                                <Label>冲突处理</Label>
+                                <select className="w-full bg-surface border border-border rounded text-xs p-1 text-body" value={mode} onChange={e => setMode(e.target.value as ScenarioConflictMode)}>
+                                    {CONFLICT_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                </select>
+                                <p className="text-[10px] text-muted mt-1">{CONFLICT_MODES.find(m => m.value === mode)?.desc}</p>
+                            </div>
+
+                            <div className="flex gap-2">
+                                <Button onClick={handleImport}>导入</Button>
+                                <Button variant="secondary" onClick={() => setPending(null)}>取消</Button>
+                            </div>
+                        </div>
+                    )}
+
+                    {report && (
+                        <div className="bg-surface border border-border rounded p-3 space-y-1 text-xs">
+                            {([['新增', report.added], ['合并', report.merged], ['替换', report.replaced], ['跳过', report.skipped]] as [string, string[]][]).map(([label, items]) => items.length > 0 && (
+                                <div key={label}><span className="font-bold text-body">{label}:</span> <span className="text-muted">{items.join('、')}</span></div>
+                            ))}
+                            {report.added.length + report.merged.length + report.replaced.length + report.skipped.length === 0 && <div className="text-muted">模组没有需要导入的内容。</div>}
+                        </div>
+                    )}
+                </div>
+            )}
+        </Window>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { AIConfig } from '../../../types';
+import { Button, Input, Label, TextArea } from '../../ui/Button';
+import { Search, Server } from 'lucide-react';
+import { listAvailableModels } from '../../../services/aiService';
+
+interface CustomEndpointFieldsProps {
+    config: AIConfig;
+    onChange: (newConfig: AIConfig) => void;
+    apiKey: string; // Resolved key (override or global) used for model discovery
+    disabled?: boolean;
+}
+
+// Helper: "Key: Value" lines <-> header record
+const headersToText = (headers?: Record<string, string>) =>
+    Object.entries(headers || {}).map(([k, v]) => `${k}: ${v}`).join('\n');
+
+const textToHeaders = (text: string): Record<string, string> => {
+    const result: Record<string, string> = {};
+    text.split('\n').forEach(line => {
+        const idx = line.indexOf(':');
+        if (idx <= 0) return;
+        const key = line.slice(0, idx).trim();
+        if (key) result[key] = line.slice(idx + 1).trim();
+    });
+    return result;
+};
+
+export const CustomEndpointFields: React.FC<CustomEndpointFieldsProps> = ({ config, onChange, apiKey, disabled = false }) => {
+    const [headerText, setHeaderText] = useState(headersToText(config.customHeaders));
+    const [models, setModels] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState("");
+
+    const handleDiscover = async () => {
+        setIsLoading(true);
+        setError("");
+        try {
+            const list = await listAvailableModels(config, apiKey);
+            setModels(list);
+            if (list.length === 0) setError("端点未返回任何模型。");
+            else if (!config.model) onChange({ ...config, model: list[0] });
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="col-span-full space-y-3 bg-black/10 p-3 rounded border border-border/50">
+            <div>
+                <Label className="flex items-center gap-1"><Server size={12}/> Base URL (OpenAI 兼容)</Label>
+                <Input
+                    value={config.baseUrl || ''}
+                    onChange={e => onChange({ ...config, baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    disabled={disabled}
+                />
+            </div>
+            <div>
+                <Label>额外请求头 (每行一个 Key: Value)</Label>
+                <TextArea
+                    className="h-16 font-mono text-xs"
+                    value={headerText}
+                    onChange={e => {
+                        setHeaderText(e.target.value);
+                        onChange({ ...config, customHeaders: textToHeaders(e.target.value) });
+                    }}
+                    placeholder="X-Custom-Header: value"
+                    disabled={disabled}
+                />
+            </div>
+            <div className="flex gap-2 items-center">
+                <Button
+                    size="sm"
+                    variant="secondary"
+                    className="text-xs h-8 flex items-center gap-1 shrink-0"
+                    onClick={handleDiscover}
+                    disabled={disabled || isLoading || !config.baseUrl}
+                    title="从 /models 获取可用模型列表"
+                >
+                    <Search size={12}/> {isLoading ? "获取中..." : "获取模型列表"}
+                </Button>
+                {models.length > 0 && (
+                    <select
+                        className="flex-1 bg-surface border border-border rounded px-2 py-1.5 text-xs text-body"
+                        value={models.includes(config.model || '') ? config.model : ''}
+                        onChange={e => onChange({ ...config, model: e.target.value })}
+                        disabled={disabled}
+                    >
+                        <option value="" disabled>选择模型...</option>
+                        {models.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                )}
+            </div>
+            {error && <p className="text-[10px] text-danger">{error}</p>}
+        </div>
+    );
+};
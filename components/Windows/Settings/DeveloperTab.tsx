@@ -1,8 +1,12 @@
 
 import React, { useState } from 'react';
-import { AppSettings, DefaultSettings, LockedFeatures, GlobalContextConfig, WeatherType, Provider } from '../../../types';
+import { AppSettings, DefaultSettings, LockedFeatures, GlobalContextConfig, WeatherType, Provider, UsageStats, ReplayBundle, BiomeType } from '../../../types';
+import { BIOME_LABELS } from '../../../services/mapUtils';
+import { DEFAULT_ENCOUNTER_CHANCE, formatEncounterLines, parseEncounterLines } from '../../../services/journeyUtils';
 import { Button, Input, Label, TextArea } from '../../ui/Button';
-import { Lock, Unlock, Terminal, ShieldCheck, Clock, LayoutTemplate, Globe, Edit, Wind, Plus, Trash, FileText } from 'lucide-react';
+import { UsageDashboard } from './UsageDashboard';
+import { ReplayPanel } from './ReplayPanel';
+import { Lock, Unlock, Terminal, ShieldCheck, Clock, LayoutTemplate, Globe, Edit, Wind, Plus, Trash, FileText, Footprints } from 'lucide-react';
 
 interface DeveloperTabProps {
     localSettings: AppSettings;
@@ -21,6 +25,12 @@ interface DeveloperTabProps {
     toggleLock: (key: keyof LockedFeatures) => void;
     setEditingTemplateType: (type: 'character' | 'location' | 'card_skill' | 'card_item' | 'card_event') => void;
     onEditGlobalContext: () => void;
+    usageStats?: UsageStats;
+    characterNames: Record<string, string>;
+    onResetUsage?: () => void;
+    replayBundle?: ReplayBundle;
+    onImportReplayBundle?: (bundle: ReplayBundle) => void;
+    onClearReplayBundle?: () => void;
 }
 
 export const DeveloperTab: React.FC<DeveloperTabProps> = ({
@@ -34,9 +44,18 @@ export const DeveloperTab: React.FC<DeveloperTabProps> = ({
     unlockKeys,
     toggleLock,
     setEditingTemplateType,
-    onEditGlobalContext
+    onEditGlobalContext,
+    usageStats,
+    characterNames,
+    onResetUsage,
+    replayBundle,
+    onImportReplayBundle,
+    onClearReplayBundle
 }) => {
     const [promptKey, setPromptKey] = useState<keyof typeof localDefaults.prompts>('determineCharacterAction');
+    const [weatherBiome, setWeatherBiome] = useState<BiomeType | 'global'>('global');
+    const [encounterBiome, setEncounterBiome] = useState<BiomeType>(BiomeType.GRASSLAND);
+    const [encounterDraft, setEncounterDraft] = useState<string | null>(null); // Raw text while typing; parsed on blur
 
     const handlePasswordKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter') unlockKeys();
@@ -58,24 +77,36 @@ export const DeveloperTab: React.FC<DeveloperTabProps> = ({
         return d.toISOString();
     };
 
+    // The weather list being edited: the global one, or the selected biome's own table
+    const weatherList: WeatherType[] = weatherBiome === 'global'
+        ? localDefaults.weatherConfig
+        : (localDefaults.biomeWeatherConfig?.[weatherBiome] || []);
+
+    const setWeatherList = (list: WeatherType[]) => {
+        setLocalDefaults(prev => weatherBiome === 'global'
+            ? { ...prev, weatherConfig: list }
+            : { ...prev, biomeWeatherConfig: { ...(prev.biomeWeatherConfig || {}), [weatherBiome]: list } });
+    };
+
     const updateWeather = (idx: number, field: keyof WeatherType, val: any) => {
-        const newWeather = [...localDefaults.weatherConfig];
+        const newWeather = [...weatherList];
         newWeather[idx] = { ...newWeather[idx], [field]: val };
-        setLocalDefaults(prev => ({ ...prev, weatherConfig: newWeather }));
+        setWeatherList(newWeather);
     };
 
     const addWeather = () => {
-        setLocalDefaults(prev => ({ 
-            ...prev, 
-            weatherConfig: [...prev.weatherConfig, { name: "新状态", weight: 1 }] 
-        }));
+        setWeatherList([...weatherList, { name: "新状态", weight: 1 }]);
     };
 
     const removeWeather = (idx: number) => {
-         setLocalDefaults(prev => ({ 
-            ...prev, 
-            weatherConfig: prev.weatherConfig.filter((_, i) => i !== idx) 
-        }));
+        setWeatherList(weatherList.filter((_, i) => i !== idx));
+    };
+
+    const commitEncounterDraft = () => {
+        if (encounterDraft === null) return;
+        const entries = parseEncounterLines(encounterDraft);
+        setLocalDefaults(prev => ({ ...prev, biomeEncounterConfig: { ...(prev.biomeEncounterConfig || {}), [encounterBiome]: entries } }));
+        setEncounterDraft(null);
     };
 
     // Unified toggle for World Composition (Characters + Locations)
@@ -239,6 +270,7 @@ export const DeveloperTab: React.FC<DeveloperTabProps> = ({
                                 { key: Provider.OPENROUTER, label: 'OpenRouter Key' },
                                 { key: Provider.OPENAI, label: 'OpenAI Key' },
                                 { key: Provider.CLAUDE, label: 'Claude Key (Anthropic)' },
+                                { key: Provider.CUSTOM, label: 'Custom Endpoint Key (可选)' },
                             ].map(item => (
                                 <div key={item.key}>
                                     <Label>{item.label}</Label>
@@ -253,6 +285,24 @@ export const DeveloperTab: React.FC<DeveloperTabProps> = ({
                         </div>
                     </div>
 
+                    {/* Usage & Cost Dashboard */}
+                    <UsageDashboard
+                        usageStats={usageStats}
+                        characterNames={characterNames}
+                        localSettings={localSettings}
+                        setLocalSettings={setLocalSettings}
+                        onResetUsage={onResetUsage}
+                    />
+
+                    {/* Deterministic Record & Replay */}
+                    <ReplayPanel
+                        localSettings={localSettings}
+                        setLocalSettings={setLocalSettings}
+                        replayBundle={replayBundle}
+                        onImportReplayBundle={onImportReplayBundle}
+                        onClearReplayBundle={onClearReplayBundle}
+                    />
+
                     {/* Defaults & Templates Section */}
                     <div className="space-y-4 border-b border-border pb-6">
                         <Label className="text-primary uppercase tracking-wider font-bold flex items-center gap-2"><LayoutTemplate size={16}/> 默认值与模版 (Defaults)</Label>
@@ -398,11 +448,28 @@ export const DeveloperTab: React.FC<DeveloperTabProps> = ({
                                             weatherChangeProbability: parseFloat(e.target.value)
                                         }))}
                                     />
-                                    <p className="text-[10px] text-muted mt-1">每一轮结束时触发世界状态重新随机的概率。设为 0 则完全不自动变化。</p>
+                                    <p className="text-[10px] text-muted mt-1">每一轮结束时触发世界状态重新随机的概率。设为 0 则完全不自动变化。新状态从当前地点所在群系的天气表中抽取。</p>
+                                </div>
+
+                                <div className="mb-4 flex items-center gap-2">
+                                    <Label className="shrink-0">天气表</Label>
+                                    <select 
+                                        className="bg-surface border border-border rounded px-2 py-1 text-xs text-body flex-1"
+                                        value={weatherBiome}
+                                        onChange={e => setWeatherBiome(e.target.value as BiomeType | 'global')}
+                                    >
+                                        <option value="global">全局 (默认)</option>
+                                        {Object.values(BiomeType).map(b => (
+                                            <option key={b} value={b}>{BIOME_LABELS[b]} ({localDefaults.biomeWeatherConfig?.[b]?.length || 0})</option>
+                                        ))}
+                                    </select>
                                 </div>
+                                {weatherBiome !== 'global' && weatherList.length === 0 && (
+                                    <p className="text-[10px] text-muted mb-4">该群系没有独立的天气表，当前地点位于此群系时使用全局列表。添加状态即可创建独立天气表。</p>
+                                )}
 
                                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                        {localDefaults.weatherConfig.map((w, idx) => (
+                                        {weatherList.map((w, idx) => (
                                             <div key={idx} className="flex items-center gap-2 bg-surface p-2 rounded border border-border">
                                                 <Input value={w.name} onChange={e => updateWeather(idx, 'name', e.target.value)} placeholder="名称" className="flex-1 min-w-0"/>
                                                 <div className="flex items-center gap-1 shrink-0">
@@ -416,6 +483,53 @@ export const DeveloperTab: React.FC<DeveloperTabProps> = ({
                             </div>
                     </div>
 
+                    {/* Journey Encounter Config */}
+                    <div className="space-y-4 border-b border-border pb-6">
+                            <Label className="text-primary uppercase tracking-wider font-bold flex items-center gap-2"><Footprints size={16}/> 旅途遭遇配置 (Encounters)</Label>
+                            <div className="bg-surface-highlight/30 p-4 rounded border border-border">
+                                <div className="mb-4 border-b border-border pb-4">
+                                    <div className="flex justify-between items-center mb-2">
+                                        <Label>遭遇概率 (每段旅程)</Label>
+                                        <span className="text-xs text-secondary-fg font-mono font-bold">
+                                            {Math.round((localDefaults.encounterChance ?? DEFAULT_ENCOUNTER_CHANCE) * 100)}%
+                                        </span>
+                                    </div>
+                                    <input 
+                                        type="range" 
+                                        min="0" max="1" step="0.01"
+                                        className="w-full accent-secondary-base"
+                                        value={localDefaults.encounterChance ?? DEFAULT_ENCOUNTER_CHANCE}
+                                        onChange={e => setLocalDefaults(prev => ({
+                                            ...prev,
+                                            encounterChance: parseFloat(e.target.value)
+                                        }))}
+                                    />
+                                    <p className="text-[10px] text-muted mt-1">长途旅行每推进一段时抽取遭遇的概率。遭遇会以隐藏轮次的形式由旅途环境角色演出。区域自带的遭遇表优先于群系遭遇表。</p>
+                                </div>
+
+                                <div className="mb-2 flex items-center gap-2">
+                                    <Label className="shrink-0">遭遇表</Label>
+                                    <select 
+                                        className="bg-surface border border-border rounded px-2 py-1 text-xs text-body flex-1"
+                                        value={encounterBiome}
+                                        onChange={e => { commitEncounterDraft(); setEncounterBiome(e.target.value as BiomeType); }}
+                                    >
+                                        {Object.values(BiomeType).map(b => (
+                                            <option key={b} value={b}>{BIOME_LABELS[b]} ({localDefaults.biomeEncounterConfig?.[b]?.length || 0})</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <TextArea 
+                                    className="h-32 font-mono text-xs leading-relaxed w-full"
+                                    placeholder="名称 | 描述 | 权重"
+                                    value={encounterDraft ?? formatEncounterLines(localDefaults.biomeEncounterConfig?.[encounterBiome])}
+                                    onChange={e => setEncounterDraft(e.target.value)}
+                                    onBlur={commitEncounterDraft}
+                                />
+                                <p className="text-[10px] text-muted mt-1">每行一条遭遇，格式为「名称 | 描述 | 权重」，权重省略时为 1。留空则该群系不会发生遭遇。</p>
+                            </div>
+                    </div>
+
                     {/* Global Context Section */}
                     <div className="space-y-4">
                         <div className="flex justify-between items-center">
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { AIConfig, AIFallbackTarget, AIRetryPolicy, Provider } from '../../../types';
+import { Button, Input, Label } from '../../ui/Button';
+import { ChevronDown, ChevronRight, Plus, Trash2, Shuffle } from 'lucide-react';
+import { DEFAULT_RETRY_POLICY } from '../../../config';
+
+interface FallbackChainFieldsProps {
+    config: AIConfig;
+    onChange: (newConfig: AIConfig) => void;
+    providerDefaults: Record<string, string>;
+    disabled?: boolean;
+}
+
+export const PROVIDER_LABELS: { value: Provider, label: string }[] = [
+    { value: Provider.XAI, label: 'xAI (Grok)' },
+    { value: Provider.GEMINI, label: 'Google Gemini' },
+    { value: Provider.VOLCANO, label: 'Volcengine' },
+    { value: Provider.OPENROUTER, label: 'OpenRouter' },
+    { value: Provider.OPENAI, label: 'OpenAI' },
+    { value: Provider.CLAUDE, label: 'Anthropic (Claude)' },
+    { value: Provider.CUSTOM, label: 'Custom Endpoint' },
+];
+
+export const FallbackChainFields: React.FC<FallbackChainFieldsProps> = ({ config, onChange, providerDefaults, disabled = false }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [statusDraft, setStatusDraft] = useState<string | null>(null); // Raw text while typing; parsed on blur
+    const fallbacks = config.fallbacks || [];
+    const policy = { ...DEFAULT_RETRY_POLICY, ...(config.retryPolicy || {}) };
+
+    const updatePolicy = (updates: Partial<AIRetryPolicy>) => {
+        onChange({ ...config, retryPolicy: { ...(config.retryPolicy || {}), ...updates } });
+    };
+
+    const commitStatusDraft = () => {
+        if (statusDraft === null) return;
+        updatePolicy({ retryStatuses: statusDraft.split(',').map(v => parseInt(v.trim())).filter(n => !isNaN(n)) });
+        setStatusDraft(null);
+    };
+
+    const updateFallback = (idx: number, updates: Partial<AIFallbackTarget>) => {
+        const next = [...fallbacks];
+        next[idx] = { ...next[idx], ...updates };
+        onChange({ ...config, fallbacks: next });
+    };
+
+    const addFallback = () => {
+        onChange({ ...config, fallbacks: [...fallbacks, { provider: Provider.OPENROUTER, model: providerDefaults[Provider.OPENROUTER] || '' }] });
+    };
+
+    const removeFallback = (idx: number) => {
+        onChange({ ...config, fallbacks: fallbacks.filter((_, i) => i !== idx) });
+    };
+
+    return (
+        <div className="mt-4 border-t border-border/50 pt-3">
+            <button
+                className="flex items-center gap-1 text-xs text-muted hover:text-body"
+                onClick={() => setIsOpen(!isOpen)}
+            >
+                {isOpen ? <ChevronDown size={12}/> : <ChevronRight size={12}/>}
+                <Shuffle size={12}/> 重试与备用模型 (Retry & Fallback)
+                {fallbacks.length > 0 && <span className="text-primary ml-1">[{fallbacks.length}]</span>}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 space-y-3 animate-in fade-in">
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        <div>
+                            <Label>每个模型尝试次数</Label>
+                            <Input
+                                type="number" min={1}
+                                value={policy.maxAttempts}
+                                onChange={e => updatePolicy({ maxAttempts: Math.max(1, parseInt(e.target.value) || 1) })}
+                                disabled={disabled}
+                            />
+                        </div>
+                        <div>
+                            <Label>退避基数 (ms)</Label>
+                            <Input
+                                type="number" min={0}
+                                value={policy.backoffBaseMs}
+                                onChange={e => updatePolicy({ backoffBaseMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                                disabled={disabled}
+                            />
+                        </div>
+                        <div>
+                            <Label>超时 (秒, 0=无)</Label>
+                            <Input
+                                type="number" min={0}
+                                value={Math.round((policy.timeoutMs || 0) / 1000)}
+                                onChange={e => updatePolicy({ timeoutMs: Math.max(0, parseInt(e.target.value) || 0) * 1000 })}
+                                disabled={disabled}
+                            />
+                        </div>
+                        <div>
+                            <Label>重试状态码</Label>
+                            <Input
+                                value={statusDraft ?? (policy.retryStatuses || []).join(',')}
+                                onChange={e => setStatusDraft(e.target.value)}
+                                onBlur={commitStatusDraft}
+                                placeholder="429,500,503"
+                                disabled={disabled}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>备用模型链 (按顺序尝试)</Label>
+                        {fallbacks.length === 0 && (
+                            <p className="text-[10px] text-faint italic">未配置备用模型。主模型失败后将直接报错。</p>
+                        )}
+                        {fallbacks.map((fb, idx) => (
+                            <div key={idx} className="flex flex-wrap gap-2 items-center bg-black/10 p-2 rounded">
+                                <span className="text-[10px] text-muted w-4">{idx + 1}.</span>
+                                <select
+                                    className="bg-surface border border-border rounded px-2 py-1 text-xs text-body"
+                                    value={fb.provider}
+                                    onChange={e => {
+                                        const provider = e.target.value as Provider;
+                                        updateFallback(idx, { provider, model: providerDefaults[provider] || '' });
+                                    }}
+                                    disabled={disabled}
+                                >
+                                    {PROVIDER_LABELS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                </select>
+                                <Input
+                                    className="flex-1 min-w-[8rem] h-7 text-xs"
+                                    value={fb.model || ''}
+                                    onChange={e => updateFallback(idx, { model: e.target.value })}
+                                    placeholder={providerDefaults[fb.provider] || "Model"}
+                                    disabled={disabled}
+                                />
+                                {fb.provider === Provider.CUSTOM && (
+                                    <Input
+                                        className="flex-1 min-w-[8rem] h-7 text-xs"
+                                        value={fb.baseUrl || ''}
+                                        onChange={e => updateFallback(idx, { baseUrl: e.target.value })}
+                                        placeholder="http://localhost:11434/v1"
+                                        disabled={disabled}
+                                    />
+                                )}
+                                <button
+                                    onClick={() => removeFallback(idx)}
+                                    className="text-muted hover:text-danger-fg disabled:opacity-50"
+                                    disabled={disabled}
+                                >
+                                    <Trash2 size={12}/>
+                                </button>
+                            </div>
+                        ))}
+                        <Button size="sm" variant="secondary" className="text-xs h-7 flex items-center gap-1" onClick={addFallback} disabled={disabled}>
+                            <Plus size={12}/> 添加备用模型
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
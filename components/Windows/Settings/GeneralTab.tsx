@@ -2,8 +2,11 @@
 import React from 'react';
 import { AppSettings, AIConfig, DefaultSettings, GlobalVariable, Provider } from '../../../types';
 import { ModelConfigCard } from './ModelConfigCard';
+import { RateLimitFields } from './RateLimitFields';
+import { MemoryRetrievalFields } from './MemoryRetrievalFields';
+import { DEFAULT_CHRONICLE_SETTINGS } from '../../../services/chronicleUtils';
 import { Button, Input, Label } from '../../ui/Button';
-import { Globe, BrainCircuit, Bot, Clock, FastForward, MessageSquare, History, Scissors, User, Variable, Plus, Trash2, Palette, Image as ImageIcon, Smartphone, Activity, ArrowDownCircle, Eraser, Users } from 'lucide-react';
+import { Globe, BrainCircuit, Bot, Clock, FastForward, MessageSquare, History, Scissors, User, Variable, Plus, Trash2, Palette, Image as ImageIcon, Smartphone, Activity, ArrowDownCircle, Eraser, Users, ScrollText, Sprout } from 'lucide-react';
 
 interface GeneralTabProps {
     localSettings: AppSettings;
@@ -23,6 +26,7 @@ interface GeneralTabProps {
     handleSyncAllClick: () => void;
     providerDefaults: Record<string, string>;
     onOpenThemeEditor?: () => void;
+    worldSeed?: number;
 }
 
 export const GeneralTab: React.FC<GeneralTabProps> = ({
@@ -37,7 +41,8 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
     setContextEditorTarget,
     handleSyncAllClick,
     providerDefaults,
-    onOpenThemeEditor
+    onOpenThemeEditor,
+    worldSeed
 }) => {
 
     // Logic: Editable if unlocked via dev password OR if the specific feature is NOT locked.
@@ -135,6 +140,7 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                 testingConnectionName={testingConnection}
                 configName="Judge AI"
                 providerDefaults={providerDefaults}
+                apiKeys={localSettings.apiKeys}
                 accentColorClass="text-primary"
             />
 
@@ -152,6 +158,7 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                 configName="Behavior AI"
                 onSync={handleSyncAllClick}
                 providerDefaults={providerDefaults}
+                apiKeys={localSettings.apiKeys}
                 accentColorClass="text-primary"
             />
 
@@ -168,9 +175,13 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                 testingConnectionName={testingConnection}
                 configName="Generator AI"
                 providerDefaults={providerDefaults}
+                apiKeys={localSettings.apiKeys}
                 accentColorClass="text-primary"
             />
 
+            {/* Request Scheduler Limits */}
+            <RateLimitFields localSettings={localSettings} setLocalSettings={setLocalSettings}/>
+
             {/* Image Processing Settings */}
             <div className="bg-surface-highlight/30 p-4 rounded border border-border">
                 <Label className="text-primary uppercase tracking-wider font-bold flex items-center gap-2 mb-4">
@@ -249,6 +260,31 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                             每轮筛选出的活跃 NPC 数量。数量越多，轮次等待时间越长，但剧情更丰富。默认 4。
                         </p>
                     </div>
+
+                    <div>
+                        <label className="flex items-center gap-2 text-sm text-body cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!localDefaults.gameplay.analyzeRelationshipsEachRound}
+                                onChange={e => setLocalDefaults({...localDefaults, gameplay: {...localDefaults.gameplay, analyzeRelationshipsEachRound: e.target.checked}})}
+                                className="accent-primary"
+                            />
+                            <span className="flex items-center gap-1"><Users size={12}/> 每轮分析角色关系</span>
+                        </label>
+                        <p className="text-[10px] text-muted mt-1">
+                            默认仅在有矛盾、欲望或任务需要判定时结算关系变化。开启后，多名角色参与的每一轮都会额外调用一次判定模型。
+                        </p>
+                    </div>
+
+                    {worldSeed !== undefined && (
+                        <div>
+                            <Label className="flex items-center gap-1"><Sprout size={12}/> 世界种子 (World Seed)</Label>
+                            <Input className="w-full font-mono" value={worldSeed} readOnly onFocus={e => e.target.select()} />
+                            <p className="text-[10px] text-muted mt-1">
+                                当前世界的地形、河流、城镇与未知地点均由此种子生成。重置游戏时输入相同种子可重建同一世界。
+                            </p>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -272,6 +308,21 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                         </p>
                     </div>
 
+                    <div className="bg-surface p-3 rounded border border-border">
+                        <Label>角色指令模式 (Command Mode)</Label>
+                        <select
+                            className="w-full bg-surface border border-border rounded px-2 py-2 text-xs text-body"
+                            value={localSettings.commandMode || 'json'}
+                            onChange={e => setLocalSettings({...localSettings, commandMode: e.target.value as 'json' | 'tools'})}
+                        >
+                            <option value="json">JSON 模式 (commands 字段)</option>
+                            <option value="tools">工具调用模式 (Function Calling)</option>
+                        </select>
+                        <p className="text-[10px] text-muted mt-1">
+                            工具调用模式下，技能、移动、奖池等指令以工具形式提供给模型，参数限定为角色当前可用的选项；该模式不使用流式输出。不支持工具调用的服务商 (如火山引擎、自定义端点) 将自动使用 JSON 模式。
+                        </p>
+                    </div>
+
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div>
                             <Label>Max Output Tokens (单次生成最大长度)</Label>
@@ -364,6 +415,44 @@ export const GeneralTab: React.FC<GeneralTabProps> = ({
                             <p className="text-[9px] text-muted mt-0.5">仅在【反应回合】生效。触发时记忆能力临时降为 <b>2</b> 轮。</p>
                         </div>
                     </div>
+
+                    <MemoryRetrievalFields localSettings={localSettings} setLocalSettings={setLocalSettings}/>
+
+                    {/* Chronicle Summaries */}
+                    <div className="col-span-1 sm:col-span-2 border-t border-border pt-2 mt-2 space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label className="flex items-center gap-2"><ScrollText size={12}/> 编年史摘要 (Chronicle)</Label>
+                            <input
+                                type="checkbox"
+                                checked={localSettings.chronicle?.enabled ?? false}
+                                onChange={e => setLocalSettings({...localSettings, chronicle: { ...DEFAULT_CHRONICLE_SETTINGS, ...(localSettings.chronicle || {}), enabled: e.target.checked }})}
+                                className="accent-primary"
+                            />
+                        </div>
+                        <p className="text-[9px] text-muted">后台使用判定模型将每轮结束的剧情压缩为摘要，较早的轮次再合并为阶段摘要，放在行动与判定提示词的近期记录之前。可在故事日志顶部查看和编辑。</p>
+                        {localSettings.chronicle?.enabled && (
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <Label>合并轮数</Label>
+                                    <Input
+                                        type="number"
+                                        min={2}
+                                        value={localSettings.chronicle.blockSize}
+                                        onChange={e => setLocalSettings({...localSettings, chronicle: { ...DEFAULT_CHRONICLE_SETTINGS, ...localSettings.chronicle, blockSize: Math.max(2, parseInt(e.target.value) || 2) }})}
+                                    />
+                                </div>
+                                <div>
+                                    <Label>保留单轮摘要的近期轮数</Label>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        value={localSettings.chronicle.keepRecentRounds}
+                                        onChange={e => setLocalSettings({...localSettings, chronicle: { ...DEFAULT_CHRONICLE_SETTINGS, ...localSettings.chronicle, keepRecentRounds: Math.max(0, parseInt(e.target.value) || 0) }})}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
                 </div>
             </div>
 
@@ -0,0 +1,106 @@
+import React from 'react';
+import { AppSettings, MemoryRetrievalSettings, Provider } from '../../../types';
+import { Input, Label } from '../../ui/Button';
+import { Search } from 'lucide-react';
+import { listEmbeddingBackends } from '../../../services/ai/embeddingUtils';
+import { PROVIDER_LABELS } from './FallbackChainFields';
+
+interface MemoryRetrievalFieldsProps {
+    localSettings: AppSettings;
+    setLocalSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+}
+
+const DEFAULT_RETRIEVAL: MemoryRetrievalSettings = { enabled: false, backend: 'local', topK: 3, minScore: 0.25, summarizeEpisodes: true };
+
+export const MemoryRetrievalFields: React.FC<MemoryRetrievalFieldsProps> = ({ localSettings, setLocalSettings }) => {
+    const retrieval = { ...DEFAULT_RETRIEVAL, ...(localSettings.memoryRetrieval || {}) };
+    const embeddingConfig = retrieval.embeddingConfig || { provider: Provider.OPENAI };
+
+    const update = (updates: Partial<MemoryRetrievalSettings>) => {
+        setLocalSettings(prev => ({ ...prev, memoryRetrieval: { ...DEFAULT_RETRIEVAL, ...(prev.memoryRetrieval || {}), ...updates } }));
+    };
+
+    return (
+        <div className="col-span-1 sm:col-span-2 border-t border-border pt-2 mt-2 space-y-2">
+            <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2"><Search size={12}/> 检索记忆 (Retrieval Memory)</Label>
+                <input
+                    type="checkbox"
+                    checked={retrieval.enabled}
+                    onChange={e => update({ enabled: e.target.checked })}
+                    className="accent-primary"
+                />
+            </div>
+            <p className="text-[9px] text-muted">
+                每轮结束后，将角色亲历的事件向量化。行动/反应时按当前情境召回最相关的久远记忆，与上方的衰减采样 (近期记忆) 一起提供给 AI。
+            </p>
+            {retrieval.enabled && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <div>
+                        <Label>向量化方式</Label>
+                        <select
+                            className="w-full bg-surface border border-border rounded px-2 py-2 text-xs text-body"
+                            value={retrieval.backend}
+                            onChange={e => update({ backend: e.target.value })}
+                        >
+                            {listEmbeddingBackends().map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label>召回条数</Label>
+                            <Input type="number" min={0} value={retrieval.topK} onChange={e => update({ topK: Math.max(0, parseInt(e.target.value) || 0) })}/>
+                        </div>
+                        <div>
+                            <Label>相似度阈值</Label>
+                            <Input type="number" step="0.05" min="0" max="1" value={retrieval.minScore} onChange={e => update({ minScore: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}/>
+                        </div>
+                    </div>
+                    <label className="col-span-1 sm:col-span-2 flex items-center gap-2 text-xs text-body cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={retrieval.summarizeEpisodes !== false}
+                            onChange={e => update({ summarizeEpisodes: e.target.checked })}
+                            className="accent-primary"
+                        />
+                        <span>长回合先摘要再向量化 (使用判定模型，后台执行；关闭则按段落拆分)</span>
+                    </label>
+                    {retrieval.backend === 'provider' && (
+                        <>
+                            <div>
+                                <Label>服务商</Label>
+                                <select
+                                    className="w-full bg-surface border border-border rounded px-2 py-2 text-xs text-body"
+                                    value={embeddingConfig.provider}
+                                    onChange={e => update({ embeddingConfig: { ...embeddingConfig, provider: e.target.value as Provider } })}
+                                >
+                                    {PROVIDER_LABELS.filter(p => p.value !== Provider.CLAUDE).map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <Label>Embedding 模型</Label>
+                                <Input
+                                    className="font-mono text-xs"
+                                    value={embeddingConfig.model || ''}
+                                    placeholder={embeddingConfig.provider === Provider.GEMINI ? 'gemini-embedding-001' : 'text-embedding-3-small'}
+                                    onChange={e => update({ embeddingConfig: { ...embeddingConfig, model: e.target.value } })}
+                                />
+                            </div>
+                            {embeddingConfig.provider === Provider.CUSTOM && (
+                                <div className="col-span-1 sm:col-span-2">
+                                    <Label>Base URL</Label>
+                                    <Input
+                                        className="font-mono text-xs"
+                                        value={embeddingConfig.baseUrl || ''}
+                                        placeholder="http://localhost:11434/v1"
+                                        onChange={e => update({ embeddingConfig: { ...embeddingConfig, baseUrl: e.target.value } })}
+                                    />
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
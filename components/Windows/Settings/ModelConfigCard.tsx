@@ -3,6 +3,8 @@ import React from 'react';
 import { AIConfig, Provider, ReasoningEffort } from '../../../types';
 import { Button, Input, Label } from '../../ui/Button';
 import { Lock, Wifi, FileText, RefreshCw, Brain } from 'lucide-react';
+import { CustomEndpointFields } from './CustomEndpointFields';
+import { FallbackChainFields } from './FallbackChainFields';
 
 interface ModelConfigCardProps {
     title: string;
@@ -18,6 +20,7 @@ interface ModelConfigCardProps {
     onSync?: () => void; 
     providerDefaults: Record<string, string>;
     accentColorClass?: string; 
+    apiKeys?: Record<string, string>; // For custom endpoint model discovery
 }
 
 export const ModelConfigCard: React.FC<ModelConfigCardProps> = ({
@@ -33,7 +36,8 @@ export const ModelConfigCard: React.FC<ModelConfigCardProps> = ({
     configName,
     onSync,
     providerDefaults,
-    accentColorClass = "text-muted"
+    accentColorClass = "text-muted",
+    apiKeys = {}
 }) => {
     
     const cycleReasoning = () => {
@@ -132,6 +136,7 @@ export const ModelConfigCard: React.FC<ModelConfigCardProps> = ({
                         <option value={Provider.OPENROUTER}>OpenRouter</option>
                         <option value={Provider.OPENAI}>OpenAI</option>
                         <option value={Provider.CLAUDE}>Anthropic (Claude)</option>
+                        <option value={Provider.CUSTOM}>Custom Endpoint (本地/自定义)</option>
                     </select>
                 </div>
                 <div>
@@ -143,6 +148,14 @@ export const ModelConfigCard: React.FC<ModelConfigCardProps> = ({
                         disabled={!isLocked}
                     />
                 </div>
+                {config.provider === Provider.CUSTOM && (
+                    <CustomEndpointFields
+                        config={config}
+                        onChange={onChange}
+                        apiKey={config.apiKey || apiKeys[Provider.CUSTOM] || ''}
+                        disabled={!isLocked}
+                    />
+                )}
             </div>
             
             <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
@@ -184,6 +197,13 @@ export const ModelConfigCard: React.FC<ModelConfigCardProps> = ({
                     </button>
                 </div>
             </div>
+
+            <FallbackChainFields
+                config={config}
+                onChange={onChange}
+                providerDefaults={providerDefaults}
+                disabled={!isLocked}
+            />
         </div>
     );
 };
@@ -0,0 +1,62 @@
+import React from 'react';
+import { AppSettings, Provider, ProviderRateLimit } from '../../../types';
+import { Input, Label } from '../../ui/Button';
+import { Gauge } from 'lucide-react';
+import { DEFAULT_PROVIDER_RATE_LIMIT } from '../../../config';
+import { PROVIDER_LABELS } from './FallbackChainFields';
+
+interface RateLimitFieldsProps {
+    localSettings: AppSettings;
+    setLocalSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+}
+
+export const RateLimitFields: React.FC<RateLimitFieldsProps> = ({ localSettings, setLocalSettings }) => {
+    const limits = localSettings.providerRateLimits || {};
+
+    const updateLimit = (provider: Provider, updates: Partial<ProviderRateLimit>) => {
+        setLocalSettings(prev => {
+            const current = { ...DEFAULT_PROVIDER_RATE_LIMIT, ...(prev.providerRateLimits?.[provider] || {}) };
+            return { ...prev, providerRateLimits: { ...(prev.providerRateLimits || {}), [provider]: { ...current, ...updates } } };
+        });
+    };
+
+    return (
+        <div className="bg-surface-highlight/30 p-4 rounded border border-border">
+            <Label className="text-primary uppercase tracking-wider font-bold flex items-center gap-2 mb-2">
+                <Gauge size={16}/> 请求调度 (Rate Limits)
+            </Label>
+            <p className="text-[10px] text-muted mb-3">
+                所有 AI 请求按服务商排队执行。玩家反应与观察优先，NPC 批量生成等后台任务最后执行。未设置的服务商默认最多同时 {DEFAULT_PROVIDER_RATE_LIMIT.maxConcurrent} 个请求，超出部分排队等待。RPM 为 0 表示不限制。
+            </p>
+            <div className="space-y-1">
+                <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-[10px] text-faint">
+                    <span>服务商</span>
+                    <span>并发数</span>
+                    <span>每分钟请求</span>
+                </div>
+                {PROVIDER_LABELS.map(({ value, label }) => {
+                    const limit = { ...DEFAULT_PROVIDER_RATE_LIMIT, ...(limits[value] || {}) };
+                    return (
+                        <div key={value} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                            <span className="text-xs text-body truncate">{label}</span>
+                            <Input
+                                type="number"
+                                min={1}
+                                className="h-7 text-xs"
+                                value={limit.maxConcurrent}
+                                onChange={e => updateLimit(value, { maxConcurrent: Math.max(1, parseInt(e.target.value) || 1) })}
+                            />
+                            <Input
+                                type="number"
+                                min={0}
+                                className="h-7 text-xs"
+                                value={limit.requestsPerMinute}
+                                onChange={e => updateLimit(value, { requestsPerMinute: Math.max(0, parseInt(e.target.value) || 0) })}
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
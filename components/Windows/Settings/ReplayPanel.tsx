@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, ReplayBundle, ReplayMode } from '../../../types';
+import { Button, Label } from '../../ui/Button';
+import { Disc, Download, Upload, Trash } from 'lucide-react';
+import { isReplayBundle } from '../../../services/ai/replayUtils';
+
+interface ReplayPanelProps {
+    localSettings: AppSettings;
+    setLocalSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+    replayBundle?: ReplayBundle;
+    onImportReplayBundle?: (bundle: ReplayBundle) => void;
+    onClearReplayBundle?: () => void;
+}
+
+const MODE_LABELS: Record<ReplayMode, string> = {
+    off: '关闭',
+    record: '录制 (记录所有 AI 响应)',
+    replay: '回放 (不联网，使用录制的响应)'
+};
+
+export const ReplayPanel: React.FC<ReplayPanelProps> = ({ localSettings, setLocalSettings, replayBundle, onImportReplayBundle, onClearReplayBundle }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importError, setImportError] = useState("");
+    const entryCount = replayBundle?.entries.length || 0;
+
+    const handleExport = () => {
+        if (!replayBundle) return;
+        const blob = new Blob([JSON.stringify(replayBundle, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `replay_${new Date(replayBundle.createdAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            try {
+                const data = JSON.parse(reader.result as string);
+                if (!isReplayBundle(data)) throw new Error("文件不是有效的录制包");
+                setImportError("");
+                onImportReplayBundle?.(data);
+            } catch (err: any) {
+                setImportError(err.message || "导入失败");
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    return (
+        <div className="bg-surface-highlight/30 p-4 rounded border border-border">
+            <Label className="text-primary uppercase tracking-wider font-bold flex items-center gap-2 mb-2">
+                <Disc size={16}/> 录制与回放 (Record & Replay)
+            </Label>
+            <p className="text-[10px] text-muted mb-3">
+                录制模式会保存每一次 AI 响应及随机数种子；回放模式按请求内容匹配录制的响应，不消耗 Token，用于复现问题或测试提示词改动。请求内容与录制时不同（例如修改了提示词或玩家输入）时回放会中断。
+            </p>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+                <select
+                    className="bg-surface border border-border rounded px-2 h-8 text-xs text-body"
+                    value={localSettings.replayMode || 'off'}
+                    onChange={e => setLocalSettings(prev => ({ ...prev, replayMode: e.target.value as ReplayMode }))}
+                >
+                    {(Object.keys(MODE_LABELS) as ReplayMode[]).map(mode => (
+                        <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                    ))}
+                </select>
+                <span className="text-[10px] text-faint font-mono">
+                    {replayBundle ? `${entryCount} 条响应 · 自第 ${replayBundle.startRound} 轮 · 种子 ${replayBundle.startRng?.seed ?? '-'}` : '暂无录制'}
+                </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="secondary" onClick={handleExport} disabled={!replayBundle}>
+                    <Download size={12} className="mr-1"/> 导出录制包
+                </Button>
+                <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()}>
+                    <Upload size={12} className="mr-1"/> 导入录制包
+                </Button>
+                <Button size="sm" variant="danger" onClick={onClearReplayBundle} disabled={!replayBundle}>
+                    <Trash size={12} className="mr-1"/> 清除
+                </Button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </div>
+            {importError && <div className="text-[10px] text-danger-fg mt-2">{importError}</div>}
+        </div>
+    );
+};
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { AppSettings, ModelCost, UsageBudget, UsageStats, UsageTotals } from '../../../types';
+import { Button, Input, Label } from '../../ui/Button';
+import { BarChart3, RotateCcw, Plus, Trash } from 'lucide-react';
+import { DEFAULT_MODEL_COSTS, SYSTEM_USAGE_KEY, createEmptyUsageStats } from '../../../services/ai/usageUtils';
+
+interface UsageDashboardProps {
+    usageStats?: UsageStats;
+    characterNames: Record<string, string>;
+    localSettings: AppSettings;
+    setLocalSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+    onResetUsage?: () => void;
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+    actionAI: '行动/反应',
+    logicAI: '逻辑判定',
+    worldAI: '世界/地点',
+    mailAI: '信件',
+    narrativeAI: '观察/揭示',
+    characterAI: '角色生成',
+    chronicleAI: '编年史',
+    memoryAI: '记忆索引'
+};
+
+const DEFAULT_BUDGET: UsageBudget = { enabled: false, maxTokens: 0, maxCost: 0, onExceed: 'warn' };
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+// Helper: Table of aggregated totals, sorted by cost then tokens
+const TotalsTable: React.FC<{ title: string, rows: Record<string, UsageTotals>, labelOf?: (key: string) => string }> = ({ title, rows, labelOf }) => {
+    const entries = Object.entries(rows).sort((a, b) => (b[1].cost - a[1].cost) || ((b[1].promptTokens + b[1].completionTokens) - (a[1].promptTokens + a[1].completionTokens)));
+    return (
+        <div className="bg-black/10 rounded border border-border p-2">
+            <div className="text-[10px] font-bold text-muted uppercase mb-1">{title}</div>
+            {entries.length === 0 ? (
+                <div className="text-[10px] text-faint italic">暂无数据</div>
+            ) : (
+                <table className="w-full text-[10px] font-mono">
+                    <thead>
+                        <tr className="text-faint text-left">
+                            <th className="font-normal">名称</th>
+                            <th className="font-normal text-right">次数</th>
+                            <th className="font-normal text-right">输入</th>
+                            <th className="font-normal text-right">输出</th>
+                            <th className="font-normal text-right">费用</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(([key, t]) => (
+                            <tr key={key} className="text-body">
+                                <td className="truncate max-w-[8rem]">{labelOf ? labelOf(key) : key}</td>
+                                <td className="text-right">{t.requests}</td>
+                                <td className="text-right">{t.promptTokens.toLocaleString()}</td>
+                                <td className="text-right">{t.completionTokens.toLocaleString()}</td>
+                                <td className="text-right">{formatCost(t.cost)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ usageStats, characterNames, localSettings, setLocalSettings, onResetUsage }) => {
+    const stats = usageStats || createEmptyUsageStats();
+    const budget = localSettings.usageBudget || DEFAULT_BUDGET;
+    const costTable = { ...DEFAULT_MODEL_COSTS, ...(localSettings.modelCosts || {}) };
+    const [newModelName, setNewModelName] = useState("");
+
+    const totalTokens = stats.total.promptTokens + stats.total.completionTokens;
+    const tokenRatio = budget.enabled && budget.maxTokens ? Math.min(1, totalTokens / budget.maxTokens) : 0;
+    const costRatio = budget.enabled && budget.maxCost ? Math.min(1, stats.total.cost / budget.maxCost) : 0;
+    const budgetRatio = Math.max(tokenRatio, costRatio);
+
+    const updateBudget = (updates: Partial<UsageBudget>) => {
+        setLocalSettings(prev => ({ ...prev, usageBudget: { ...(prev.usageBudget || DEFAULT_BUDGET), ...updates } }));
+    };
+
+    const updateCost = (model: string, updates: Partial<ModelCost>) => {
+        setLocalSettings(prev => ({
+            ...prev,
+            modelCosts: { ...(prev.modelCosts || {}), [model]: { ...costTable[model], ...updates } }
+        }));
+    };
+
+    const removeCost = (model: string) => {
+        setLocalSettings(prev => {
+            const next = { ...(prev.modelCosts || {}) };
+            delete next[model];
+            return { ...prev, modelCosts: next };
+        });
+    };
+
+    const addCost = () => {
+        const name = newModelName.trim();
+        if (!name) return;
+        updateCost(name, { input: 0, output: 0 });
+        setNewModelName("");
+    };
+
+    const roundRows: Record<string, UsageTotals> = {};
+    Object.entries(stats.byRound)
+        .sort((a, b) => Number(b[0]) - Number(a[0]))
+        .slice(0, 10)
+        .forEach(([round, t]) => { roundRows[round] = t; });
+
+    return (
+        <div className="space-y-4 border-b border-border pb-6">
+            <div className="flex justify-between items-center">
+                <Label className="text-primary uppercase tracking-wider font-bold flex items-center gap-2"><BarChart3 size={16}/> 用量与费用 (Usage & Cost)</Label>
+                {onResetUsage && (
+                    <Button size="sm" variant="secondary" onClick={onResetUsage} title="清空统计并开始新的计费会话">
+                        <RotateCcw size={12} className="mr-1"/> 新会话
+                    </Button>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {[
+                    { label: '请求数', value: stats.total.requests.toLocaleString() },
+                    { label: '输入 Tokens', value: stats.total.promptTokens.toLocaleString() },
+                    { label: '输出 Tokens', value: `${stats.total.completionTokens.toLocaleString()}${stats.total.reasoningTokens ? ` (思考 ${stats.total.reasoningTokens.toLocaleString()})` : ''}` },
+                    { label: '估算费用', value: formatCost(stats.total.cost) },
+                ].map(item => (
+                    <div key={item.label} className="bg-surface-highlight/30 p-2 rounded border border-border">
+                        <div className="text-[10px] text-muted">{item.label}</div>
+                        <div className="text-sm font-mono font-bold text-body">{item.value}</div>
+                    </div>
+                ))}
+            </div>
+            <p className="text-[10px] text-faint">会话开始于 {new Date(stats.sessionStartedAt).toLocaleString()}。数据来自服务商返回的实际用量。</p>
+
+            {/* Budget */}
+            <div className="bg-surface-highlight/30 p-3 rounded border border-border space-y-2">
+                <label className="flex items-center gap-2 text-xs text-body cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={budget.enabled}
+                        onChange={e => updateBudget({ enabled: e.target.checked })}
+                        className="accent-primary"
+                    />
+                    <span className="font-bold">启用会话预算 (Session Budget)</span>
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                    <div>
+                        <Label>Token 上限 (0=不限)</Label>
+                        <Input type="number" min={0} value={budget.maxTokens || 0} onChange={e => updateBudget({ maxTokens: Math.max(0, parseInt(e.target.value) || 0) })} disabled={!budget.enabled}/>
+                    </div>
+                    <div>
+                        <Label>费用上限 USD (0=不限)</Label>
+                        <Input type="number" min={0} step="0.1" value={budget.maxCost || 0} onChange={e => updateBudget({ maxCost: Math.max(0, parseFloat(e.target.value) || 0) })} disabled={!budget.enabled}/>
+                    </div>
+                    <div>
+                        <Label>超出时</Label>
+                        <select
+                            className="w-full bg-surface border border-border rounded px-2 py-2 text-xs text-body disabled:opacity-50"
+                            value={budget.onExceed}
+                            onChange={e => updateBudget({ onExceed: e.target.value as UsageBudget['onExceed'] })}
+                            disabled={!budget.enabled}
+                        >
+                            <option value="warn">仅警告</option>
+                            <option value="pause">自动暂停</option>
+                        </select>
+                    </div>
+                </div>
+                {budget.enabled && (budget.maxTokens || budget.maxCost) ? (
+                    <div className="h-1.5 bg-black/20 rounded overflow-hidden">
+                        <div
+                            className={`h-full ${budgetRatio >= 1 ? 'bg-danger' : budgetRatio >= 0.8 ? 'bg-yellow-500' : 'bg-primary'}`}
+                            style={{ width: `${budgetRatio * 100}%` }}
+                        />
+                    </div>
+                ) : null}
+                {stats.budgetExceeded && <p className="text-[10px] text-danger font-bold">本会话已超出预算。点击「新会话」可重置。</p>}
+            </div>
+
+            {/* Breakdown */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <TotalsTable
+                    title="按角色"
+                    rows={stats.byCharacter}
+                    labelOf={k => k === SYSTEM_USAGE_KEY ? '系统' : (characterNames[k] || k)}
+                />
+                <TotalsTable title="按功能" rows={stats.byFeature} labelOf={k => FEATURE_LABELS[k] || k}/>
+                <TotalsTable title="按模型" rows={stats.byModel}/>
+                <TotalsTable title="按轮次 (最近 10 轮)" rows={roundRows} labelOf={k => `第 ${k} 轮`}/>
+            </div>
+
+            {/* Cost Table */}
+            <div className="bg-surface-highlight/30 p-3 rounded border border-border">
+                <Label className="mb-2 text-xs text-muted uppercase">模型价格表 (USD / 1M Tokens)</Label>
+                <div className="space-y-1">
+                    {Object.entries(costTable).map(([model, price]) => (
+                        <div key={model} className="flex items-center gap-2">
+                            <span className="flex-1 text-[10px] font-mono text-body truncate">{model}</span>
+                            <span className="text-[10px] text-muted">入</span>
+                            <Input type="number" min={0} step="0.01" className="w-20 h-6 text-xs" value={price.input} onChange={e => updateCost(model, { input: parseFloat(e.target.value) || 0 })}/>
+                            <span className="text-[10px] text-muted">出</span>
+                            <Input type="number" min={0} step="0.01" className="w-20 h-6 text-xs" value={price.output} onChange={e => updateCost(model, { output: parseFloat(e.target.value) || 0 })}/>
+                            <button
+                                onClick={() => removeCost(model)}
+                                className="text-muted hover:text-danger-fg p-1 disabled:opacity-30"
+                                disabled={!localSettings.modelCosts?.[model]}
+                                title={DEFAULT_MODEL_COSTS[model] ? "恢复默认价格" : "删除"}
+                            >
+                                <Trash size={12}/>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2 mt-2">
+                    <Input className="h-7 text-xs flex-1" value={newModelName} onChange={e => setNewModelName(e.target.value)} placeholder="模型名称 (前缀匹配)"/>
+                    <Button size="sm" variant="secondary" onClick={addCost} className="h-7 text-xs"><Plus size={12} className="mr-1"/> 添加</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
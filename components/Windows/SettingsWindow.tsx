@@ -1,9 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppSettings, AIConfig, GlobalContextConfig, DefaultSettings, Provider, Character, Card, MapLocation, GlobalContextMessage, DebugLog, WindowState } from '../../types';
+import { AppSettings, AIConfig, GlobalContextConfig, DefaultSettings, Provider, Character, Card, MapLocation, GlobalContextMessage, DebugLog, WindowState, UsageStats, ReplayBundle } from '../../types';
 import { Button } from '../ui/Button';
 import { Settings, Lock, AlertTriangle, RefreshCw } from 'lucide-react';
-import { DEFAULT_AI_CONFIG } from '../../config';
+import { DEFAULT_AI_CONFIG, PROVIDER_DEFAULT_MODELS } from '../../config';
 import { CharacterEditor } from './CharacterEditor';
 import { CardEditor } from './CardEditor';
 import { testModelConnection } from '../../services/aiService';
@@ -14,15 +14,6 @@ import { GeneralTab } from './Settings/GeneralTab';
 import { DeveloperTab } from './Settings/DeveloperTab';
 import { Window } from '../ui/Window';
 
-const PROVIDER_DEFAULTS: Record<string, string> = {
-    [Provider.XAI]: 'grok-4-1-fast',
-    [Provider.GEMINI]: 'gemini-3-pro-preview',
-    [Provider.OPENAI]: 'gpt-5-2025-08-07',
-    [Provider.CLAUDE]: 'claude-sonnet-4-5-20250929',
-    [Provider.VOLCANO]: 'doubao-seed-1-6-251015',
-    [Provider.OPENROUTER]: 'deepseek/deepseek-v3.2'
-};
-
 interface SettingsWindowProps {
     settings: AppSettings;
     judgeConfig: AIConfig;
@@ -36,9 +27,16 @@ interface SettingsWindowProps {
     onClose: () => void;
     addDebugLog?: (log: DebugLog) => void;
     openWindow?: (type: WindowState['type'], data?: any) => void; 
+    usageStats?: UsageStats;
+    characterNames?: Record<string, string>;
+    onResetUsage?: () => void;
+    replayBundle?: ReplayBundle;
+    onImportReplayBundle?: (bundle: ReplayBundle) => void;
+    onClearReplayBundle?: () => void;
+    worldSeed?: number;
 }
 
-export const SettingsWindow: React.FC<SettingsWindowProps> = ({ settings, judgeConfig, charGenConfig, charBehaviorConfig, globalContext, defaultSettings, devMode, onSave, onClose, onSyncAllChars, addDebugLog, openWindow }) => {
+export const SettingsWindow: React.FC<SettingsWindowProps> = ({ settings, judgeConfig, charGenConfig, charBehaviorConfig, globalContext, defaultSettings, devMode, onSave, onClose, onSyncAllChars, addDebugLog, openWindow, usageStats, characterNames = {}, onResetUsage, replayBundle, onImportReplayBundle, onClearReplayBundle, worldSeed }) => {
     const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
     const [localJudge, setLocalJudge] = useState<AIConfig>(judgeConfig || DEFAULT_AI_CONFIG);
     const [localCharGen, setLocalCharGen] = useState<AIConfig>(charGenConfig || judgeConfig || DEFAULT_AI_CONFIG);
@@ -135,7 +133,8 @@ export const SettingsWindow: React.FC<SettingsWindowProps> = ({ settings, judgeC
         
         const apiKey = config.apiKey || localSettings.apiKeys[config.provider] || "";
         
-        if (!apiKey) {
+        // Local custom endpoints usually don't require a key
+        if (!apiKey && config.provider !== Provider.CUSTOM) {
             alert("未找到 API Key。请在开发者选项卡设置全局 Key，或在此处填写覆盖 Key。");
             setTestingConnection(null);
             return;
@@ -310,8 +309,9 @@ export const SettingsWindow: React.FC<SettingsWindowProps> = ({ settings, judgeC
                             handleTestConnection={handleTestConnection}
                             setContextEditorTarget={setContextEditorTarget}
                             handleSyncAllClick={handleSyncAllClick}
-                            providerDefaults={PROVIDER_DEFAULTS}
+                            providerDefaults={PROVIDER_DEFAULT_MODELS}
                             onOpenThemeEditor={openWindow ? () => openWindow('theme') : undefined}
+                            worldSeed={worldSeed}
                         />
                     )}
 
@@ -328,6 +328,12 @@ export const SettingsWindow: React.FC<SettingsWindowProps> = ({ settings, judgeC
                             toggleLock={toggleLock}
                             setEditingTemplateType={setEditingTemplateType}
                             onEditGlobalContext={() => setContextEditorTarget('global')}
+                            usageStats={usageStats}
+                            characterNames={characterNames}
+                            onResetUsage={onResetUsage}
+                            replayBundle={replayBundle}
+                            onImportReplayBundle={onImportReplayBundle}
+                            onClearReplayBundle={onClearReplayBundle}
                         />
                     )}
                 </div>
@@ -0,0 +1,182 @@
+
+import React, { useState } from 'react';
+import { GameState, Character, LogEntry, TriggerPhase, TriggerEvent, TriggerEventPayload } from '../../types';
+import { Button, Label } from '../ui/Button';
+import { Bug, Play, CheckCircle, XCircle } from 'lucide-react';
+import { dryRunTriggers, TriggerDryRunResult, TriggerTraceStatus } from '../../services/triggerService';
+
+interface TriggerDebugPanelProps {
+    state: GameState;
+    phases: TriggerPhase[];
+    events: { value: TriggerEvent, label: string }[];
+}
+
+const STATUS_LABELS: Record<TriggerTraceStatus, { label: string, className: string }> = {
+    fired: { label: '将触发', className: 'bg-success-base/20 text-success-fg border-success/30' },
+    conditions: { label: '条件未满足', className: 'bg-danger/10 text-danger border-danger/30' },
+    chance: { label: '概率未命中', className: 'bg-warning-base/20 text-warning-fg border-warning-base/40' },
+    not_ready: { label: '次数/冷却/日程未就绪', className: 'bg-warning-base/20 text-warning-fg border-warning-base/40' },
+    time_threshold: { label: '未越过时间阈值', className: 'bg-surface-light text-muted border-border' },
+    disabled: { label: '已禁用', className: 'bg-surface-light text-muted border-border' },
+};
+
+// How many past log entries with a snapshot are offered as a starting point
+const MAX_SNAPSHOT_OPTIONS = 50;
+
+const formatValue = (value: any): string => {
+    if (value === undefined || value === "") return '—';
+    if (value === null) return '(无)';
+    return String(value);
+};
+
+// Dry-run debugger: evaluates a phase against the current state (or a past log entry's round snapshot)
+// without consuming trigger counters, writing to the log or applying actions.
+export const TriggerDebugPanel: React.FC<TriggerDebugPanelProps> = ({ state, phases, events }) => {
+    const [phase, setPhase] = useState<TriggerPhase | TriggerEvent>(phases[0]);
+    const [contextCharId, setContextCharId] = useState('');
+    const [targetCharId, setTargetCharId] = useState('');
+    const [snapshotLogId, setSnapshotLogId] = useState('');
+    const [result, setResult] = useState<TriggerDryRunResult | null>(null);
+
+    const characters = Object.values(state.characters) as Character[];
+    const snapshotLogs = state.world.history.filter(l => l.snapshot).slice(-MAX_SNAPSHOT_OPTIONS).reverse();
+    const isEvent = events.some(e => e.value === phase);
+
+    // Snapshots only hold the round state: characters and world stay current, history is cut at the entry
+    const buildDebugState = (): GameState => {
+        const index = state.world.history.findIndex(l => l.id === snapshotLogId);
+        const entry: LogEntry | undefined = state.world.history[index];
+        if (!entry?.snapshot) return state;
+        return {
+            ...state,
+            round: { ...entry.snapshot },
+            world: { ...state.world, history: state.world.history.slice(0, index + 1) }
+        };
+    };
+
+    const handleRun = () => {
+        const debugState = buildDebugState();
+        const charId = contextCharId || debugState.round.activeCharId;
+        const payload: TriggerEventPayload | undefined = isEvent
+            ? { charId, targetId: targetCharId || undefined, round: debugState.round.roundNumber }
+            : undefined;
+        setResult(dryRunTriggers(debugState, phase, charId, payload));
+    };
+
+    const selectClass = "w-full bg-surface border border-border rounded text-xs p-1 text-body";
+
+    return (
+        <div className="bg-surface border border-primary/30 rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2 text-xs font-bold text-primary">
+                <Bug size={14}/> 触发器调试 (Dry Run)
+                <span className="font-normal text-muted">不消耗次数、不写入日志、不执行动作。</span>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+                <div>
+                    <Label>阶段 / 事件</Label>
+                    <select className={`${selectClass} font-mono`} value={phase} onChange={e => { setPhase(e.target.value as TriggerPhase | TriggerEvent); setResult(null); }}>
+                        <optgroup label="Prompt 阶段">
+                            {phases.map(p => <option key={p} value={p}>{p}</option>)}
+                        </optgroup>
+                        <optgroup label="引擎事件">
+                            {events.map(ev => <option key={ev.value} value={ev.value}>{ev.label}</option>)}
+                        </optgroup>
+                    </select>
+                </div>
+                <div>
+                    <Label>当前角色 (Context)</Label>
+                    <select className={selectClass} value={contextCharId} onChange={e => setContextCharId(e.target.value)}>
+                        <option value="">行动中的角色</option>
+                        {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <Label>事件目标 (Target)</Label>
+                    <select className={selectClass} value={targetCharId} onChange={e => setTargetCharId(e.target.value)} disabled={!isEvent}>
+                        <option value="">无</option>
+                        {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <Label>状态来源</Label>
+                    <select className={selectClass} value={snapshotLogId} onChange={e => setSnapshotLogId(e.target.value)}>
+                        <option value="">当前状态</option>
+                        {snapshotLogs.map(l => (
+                            <option key={l.id} value={l.id}>第 {l.round} 轮 #{l.turnIndex}: {l.content.slice(0, 24)}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            {snapshotLogId && (
+                <p className="text-[10px] text-muted">历史快照只还原轮次状态与故事记录，角色与世界属性仍为当前值。</p>
+            )}
+
+            <Button size="sm" onClick={handleRun} className="flex items-center gap-1">
+                <Play size={12}/> 运行
+            </Button>
+
+            {result && (
+                <div className="space-y-3">
+                    <div className="text-xs text-muted">
+                        {result.traces.length === 0
+                            ? '该阶段没有触发器。'
+                            : `${result.traces.filter(t => t.status === 'fired').length} / ${result.traces.length} 个触发器将触发`}
+                    </div>
+
+                    {result.traces.map(trace => (
+                        <div key={trace.trigger.id} className="border border-border rounded p-2 space-y-2 bg-surface-light/50">
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <span className="text-xs font-bold text-body">{trace.trigger.name}</span>
+                                <span className={`text-[10px] px-1.5 py-0.5 rounded border ${STATUS_LABELS[trace.status].className}`}>{STATUS_LABELS[trace.status].label}</span>
+                                <span className="text-[10px] text-muted font-mono">计数: {trace.counterKey}</span>
+                            </div>
+
+                            {trace.conditions.length > 0 && (
+                                <div className="space-y-1">
+                                    {trace.conditions.map(c => (
+                                        <div key={c.condition.id} className="text-[10px] font-mono flex items-start gap-1">
+                                            {c.isMet ? <CheckCircle size={10} className="text-success-fg shrink-0 mt-0.5"/> : <XCircle size={10} className="text-danger shrink-0 mt-0.5"/>}
+                                            <div className="min-w-0">
+                                                <div className="text-body">
+                                                    #{c.index} {c.condition.type} {c.condition.targetName || ''} {c.condition.comparator} {formatValue(c.threshold)}
+                                                    {c.condition.value !== c.threshold && c.condition.value !== undefined && <span className="text-muted"> ({String(c.condition.value)})</span>}
+                                                </div>
+                                                <div className="text-muted">
+                                                    实际值: {formatValue(c.isMet ? c.actualValue : c.observed)}
+                                                    {c.targets && (
+                                                        <> · 目标: {c.targets.length === 0 ? '无' : c.targets.map(t => t.value !== undefined ? `${t.name}=${formatValue(t.value)}` : t.name).join(', ')}</>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {Object.keys(trace.values).length > 0 && (
+                                <div className="text-[10px] font-mono text-muted break-all">
+                                    {Object.entries(trace.values).map(([key, val]) => (
+                                        <span key={key} className="mr-3">{`{{${key}}}`} = {formatValue(val)}</span>
+                                    ))}
+                                </div>
+                            )}
+
+                            {trace.systemLog && <div className="text-[10px] text-body">日志: {trace.systemLog}</div>}
+                            {trace.status === 'fired' && (trace.trigger.actions || []).length > 0 && (
+                                <div className="text-[10px] text-muted">将执行 {trace.trigger.actions!.length} 个状态动作</div>
+                            )}
+                        </div>
+                    ))}
+
+                    <div>
+                        <Label>Prompt 注入结果 (promptSuffix)</Label>
+                        <pre className="text-[10px] bg-surface-light border border-border rounded p-2 whitespace-pre-wrap font-mono text-body max-h-40 overflow-y-auto custom-scrollbar">
+                            {result.promptSuffix.trim() || '(空)'}
+                        </pre>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,11 +1,16 @@
 
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { GameState, Trigger, TriggerCondition, ConditionType, Character, MapLocation, TriggerPhase } from '../../types';
+import { GameState, Trigger, TriggerCondition, TriggerConditionGroup, ConditionOperator, TriggerAction, TriggerActionType, PrizePool, ConditionType, Character, MapLocation, TriggerPhase, TriggerEvent, TriggerCounterScope, TriggerCooldown, RelationshipField } from '../../types';
 import { Button, Input, TextArea, Label } from '../ui/Button';
-import { X, Plus, Trash2, Edit2, Save, Activity, ArrowRight, Filter, Zap, CheckCircle, AlertTriangle, ChevronDown, ChevronUp, Hash, Clock } from 'lucide-react';
+import { X, Plus, Trash2, Edit2, Save, Activity, ArrowRight, Filter, Zap, CheckCircle, AlertTriangle, ChevronDown, ChevronUp, Hash, Clock, Timer, RotateCcw, Bug } from 'lucide-react';
 import { WorldTimePicker } from '../ui/WorldTimePicker';
 import { Window } from '../ui/Window';
+import { createConditionGroup, flattenConditions, getConditionTree, isConditionGroup, isTriggerReady, removeConditionNode, updateConditionNode } from '../../services/triggerService';
+import { parseWorldTime } from '../../services/timeUtils';
+import { getExpressionError } from '../../services/expressionUtils';
+import { TriggerDebugPanel } from './TriggerDebugPanel';
+import { RELATIONSHIP_FIELD_LABELS } from '../../services/relationshipUtils';
 
 interface TriggerPoolWindowProps {
     winId: number;
@@ -24,8 +29,13 @@ const CONDITION_TYPES: { value: ConditionType, label: string }[] = [
     { value: 'loc_name', label: '地点名存在 (Location Name Exists)' },
     { value: 'region_name', label: '区域名存在 (Region Name Exists)' },
     { value: 'history', label: '近期故事检查 (History Check)' },
+    { value: 'event', label: '事件参数 (Event Payload)' },
+    { value: 'relationship', label: '角色关系 (Relationship)' },
 ];
 
+// Payload fields readable by 'event' conditions and {{event.<field>}}
+const EVENT_FIELDS = ['charId', 'targetId', 'locationId', 'cardId', 'cardName', 'poolId', 'conflictId', 'questId', 'attrName', 'oldValue', 'newValue', 'round'];
+
 const COMPARATORS = ['>', '>=', '=', '!=', '<', '<='];
 const STR_COMPARATORS = [
     { value: 'exists', label: '存在' },
@@ -34,6 +44,48 @@ const STR_COMPARATORS = [
     { value: 'exact', label: '完全匹配' },
 ];
 
+const OPERATORS: { value: ConditionOperator, label: string }[] = [
+    { value: 'and', label: '全部满足 (AND)' },
+    { value: 'or', label: '任一满足 (OR)' },
+    { value: 'not', label: '不全满足 (NOT)' },
+];
+
+const ACTION_TYPES: { value: TriggerActionType, label: string }[] = [
+    { value: 'set_attr', label: '设置属性 (Set Attribute)' },
+    { value: 'add_attr', label: '增减属性 (Add to Attribute)' },
+    { value: 'grant_card', label: '给予卡牌 (Grant Card)' },
+    { value: 'remove_card', label: '移除卡牌 (Remove Card)' },
+    { value: 'move_char', label: '移动角色 (Move Character)' },
+    { value: 'add_conflict', label: '添加矛盾 (Add Conflict)' },
+    { value: 'add_drive', label: '添加欲望 (Add Drive)' },
+    { value: 'hidden_round', label: '下轮进入隐藏轮次 (Hidden Round)' },
+    { value: 'draw_prize', label: '奖池抽取 (Draw Prize)' },
+    { value: 'set_variable', label: '设置全局变量 (Set Variable)' },
+];
+
+const EVENTS: { value: TriggerEvent, label: string }[] = [
+    { value: 'round_start', label: '轮次开始 (Round Start)' },
+    { value: 'round_end', label: '轮次结束 (Round End)' },
+    { value: 'enter_location', label: '进入地点 (Enter Location)' },
+    { value: 'leave_location', label: '离开地点 (Leave Location)' },
+    { value: 'card_used', label: '使用卡牌 (Card Used)' },
+    { value: 'lottery_draw', label: '奖池抽取 (Lottery Draw)' },
+    { value: 'conflict_solved', label: '矛盾解决 (Conflict Solved)' },
+    { value: 'attribute_changed', label: '属性变化 (Attribute Changed)' },
+    { value: 'health_zero', label: '健康归零 (Health Reaches 0)' },
+    { value: 'world_time', label: '世界时间推进 (World Time)' },
+    { value: 'quest_completed', label: '任务完成 (Quest Completed)' },
+    { value: 'quest_failed', label: '任务失败 (Quest Failed)' },
+];
+
+const isEventHook = (phase: string) => EVENTS.some(e => e.value === phase);
+
+const COUNTER_SCOPES: { value: TriggerCounterScope, label: string }[] = [
+    { value: 'global', label: '全局 (Global)' },
+    { value: 'character', label: '每个角色 (Per Character)' },
+    { value: 'location', label: '每个地点 (Per Location)' },
+];
+
 const PHASES: TriggerPhase[] = [
     'determineCharacterAction',
     'determineCharacterReaction',
@@ -49,6 +101,7 @@ const PHASES: TriggerPhase[] = [
 export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, state, updateState, closeWindow, addLog }) => {
     const [expandedId, setExpandedId] = useState<string | null>(null);
     const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+    const [showDebugger, setShowDebugger] = useState(false);
     
     // Time Picker State
     const [timePickerTarget, setTimePickerTarget] = useState<{ triggerId: string, condId: string, value: string } | null>(null);
@@ -66,6 +119,7 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
             name: "新触发器",
             phase: 'determineCharacterAction',
             conditions: [],
+            conditionTree: createConditionGroup('and'),
             urgentRequirement: "",
             systemLog: "",
             enabled: true,
@@ -102,31 +156,276 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
         }
     };
 
-    const handleAddCondition = (triggerId: string) => {
+    // Condition tree edits always write back the full tree (legacy flat list is cleared)
+    const handleUpdateTree = (triggerId: string, updater: (root: TriggerConditionGroup) => TriggerConditionGroup) => {
+        const trigger = state.triggers[triggerId];
+        if (!trigger) return;
+        handleUpdateTrigger(triggerId, { conditionTree: updater(getConditionTree(trigger)), conditions: [] });
+    };
+
+    const handleAddCondition = (triggerId: string, groupId: string) => {
         const newCond: TriggerCondition = {
             id: `cond_${Date.now()}`,
             type: 'char_attr',
             comparator: '>',
             value: 0
         };
-        const trigger = state.triggers[triggerId];
-        if (trigger) {
-            handleUpdateTrigger(triggerId, { conditions: [...trigger.conditions, newCond] });
-        }
+        handleUpdateTree(triggerId, root => updateConditionNode(root, groupId, g => isConditionGroup(g) ? { ...g, children: [...g.children, newCond] } : g));
+    };
+
+    const handleAddGroup = (triggerId: string, groupId: string) => {
+        const newGroup = createConditionGroup('or');
+        handleUpdateTree(triggerId, root => updateConditionNode(root, groupId, g => isConditionGroup(g) ? { ...g, children: [...g.children, newGroup] } : g));
+    };
+
+    const handleUpdateGroupOperator = (triggerId: string, groupId: string, operator: ConditionOperator) => {
+        handleUpdateTree(triggerId, root => updateConditionNode(root, groupId, g => isConditionGroup(g) ? { ...g, operator } : g));
     };
 
     const handleUpdateCondition = (triggerId: string, condId: string, updates: Partial<TriggerCondition>) => {
+        handleUpdateTree(triggerId, root => updateConditionNode(root, condId, c => isConditionGroup(c) ? c : { ...c, ...updates }));
+    };
+
+    const handleRemoveCondition = (triggerId: string, nodeId: string) => {
+        handleUpdateTree(triggerId, root => removeConditionNode(root, nodeId));
+    };
+
+    const handleAddAction = (triggerId: string) => {
+        const trigger = state.triggers[triggerId];
+        if (!trigger) return;
+        const newAction: TriggerAction = { id: `act_${Date.now()}`, type: 'add_attr', characterId: 'current', targetName: '', value: 0 };
+        handleUpdateTrigger(triggerId, { actions: [...(trigger.actions || []), newAction] });
+    };
+
+    const handleUpdateAction = (triggerId: string, actionId: string, updates: Partial<TriggerAction>) => {
         const trigger = state.triggers[triggerId];
         if (!trigger) return;
-        const newConditions = trigger.conditions.map(c => c.id === condId ? { ...c, ...updates } : c);
-        handleUpdateTrigger(triggerId, { conditions: newConditions });
+        handleUpdateTrigger(triggerId, { actions: (trigger.actions || []).map(a => a.id === actionId ? { ...a, ...updates } : a) });
     };
 
-    const handleRemoveCondition = (triggerId: string, condId: string) => {
+    const handleRemoveAction = (triggerId: string, actionId: string) => {
         const trigger = state.triggers[triggerId];
         if (!trigger) return;
-        const newConditions = trigger.conditions.filter(c => c.id !== condId);
-        handleUpdateTrigger(triggerId, { conditions: newConditions });
+        handleUpdateTrigger(triggerId, { actions: (trigger.actions || []).filter(a => a.id !== actionId) });
+    };
+
+    // Clears the runtime counters and gives a global trigger back the fires it counted down (re-enabling it if that disabled it)
+    const handleResetRuntime = (trigger: Trigger) => {
+        const initial = trigger.maxTriggersInitial;
+        if (initial === undefined) {
+            handleUpdateTrigger(trigger.id, { runtime: undefined });
+            return;
+        }
+        handleUpdateTrigger(trigger.id, {
+            runtime: undefined,
+            maxTriggers: initial,
+            maxTriggersInitial: undefined,
+            enabled: trigger.maxTriggers === 0 ? true : trigger.enabled
+        });
+    };
+
+    // Helper: Display name of a runtime counter key
+    const counterKeyLabel = (key: string) => {
+        if (key === 'global') return '全局';
+        return state.characters[key]?.name || state.map.locations[key]?.name || key;
+    };
+
+    // Frequency controls (scope, probability, cooldown, schedule) and the per-key runtime counters
+    const renderFrequencyEditor = (trigger: Trigger) => {
+        const cooldown: TriggerCooldown = trigger.cooldown || { amount: 0, unit: 'rounds' };
+        const runtimeKeys = Object.keys(trigger.runtime?.fireCounts || {});
+        const atTimeInvalid = !!trigger.schedule?.atTime && parseWorldTime(trigger.schedule.atTime) === null;
+        const selectClass = "w-full bg-surface border border-border rounded px-2 py-2 text-xs text-body h-8";
+
+        return (
+            <div className="border-t border-border pt-2 space-y-2">
+                <Label className="text-primary flex items-center gap-2"><Timer size={12}/> 频率控制 (Frequency)</Label>
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <Label>计数范围</Label>
+                        <select
+                            className={selectClass}
+                            value={trigger.counterScope || 'global'}
+                            onChange={e => handleUpdateTrigger(trigger.id, { counterScope: e.target.value as TriggerCounterScope })}
+                        >
+                            {COUNTER_SCOPES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <Label>触发概率 (%)</Label>
+                        <Input
+                            type="number" min={0} max={100}
+                            className="h-8 text-xs"
+                            value={Math.round((trigger.probability ?? 1) * 100)}
+                            onChange={e => handleUpdateTrigger(trigger.id, { probability: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100 })}
+                        />
+                    </div>
+                    <div>
+                        <Label>冷却 (0=无)</Label>
+                        <div className="flex gap-1">
+                            <Input
+                                type="number" min={0}
+                                className="h-8 text-xs w-16"
+                                value={cooldown.amount}
+                                onChange={e => handleUpdateTrigger(trigger.id, { cooldown: { ...cooldown, amount: Math.max(0, parseInt(e.target.value) || 0) } })}
+                            />
+                            <select
+                                className={selectClass}
+                                value={cooldown.unit}
+                                onChange={e => handleUpdateTrigger(trigger.id, { cooldown: { ...cooldown, unit: e.target.value as TriggerCooldown['unit'] } })}
+                            >
+                                <option value="rounds">轮</option>
+                                <option value="seconds">世界时间 (秒)</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <Label>每 N 轮触发 (0=不限)</Label>
+                        <Input
+                            type="number" min={0}
+                            className="h-8 text-xs"
+                            value={trigger.schedule?.everyRounds || 0}
+                            onChange={e => handleUpdateTrigger(trigger.id, { schedule: { ...trigger.schedule, everyRounds: Math.max(0, parseInt(e.target.value) || 0) || undefined } })}
+                        />
+                    </div>
+                    <div className="col-span-2">
+                        <Label>定时触发 (世界时间到达后触发一次，留空=不限)</Label>
+                        <Input
+                            className={`h-8 text-xs font-mono ${atTimeInvalid ? 'border-danger text-danger' : ''}`}
+                            placeholder="2077:05:01:18:00:00"
+                            value={trigger.schedule?.atTime || ''}
+                            onChange={e => handleUpdateTrigger(trigger.id, { schedule: { ...trigger.schedule, atTime: e.target.value || undefined } })}
+                        />
+                        {atTimeInvalid && (
+                            <div className="text-[10px] text-danger flex items-center gap-1 mt-1"><AlertTriangle size={10}/> 无法识别的时间，格式应为 YYYY:MM:DD:HH:MM:SS (定时不会触发)</div>
+                        )}
+                    </div>
+                </div>
+                <p className="text-[10px] text-muted">
+                    {(trigger.counterScope || 'global') === 'global'
+                        ? '全局范围下，自动禁用计数为剩余次数，归零后禁用整个触发器。'
+                        : '按角色/地点计数时，自动禁用计数为每个角色/地点各自的上限，冷却与定时也分别计算。'}
+                </p>
+
+                <div className="bg-surface-light p-2 rounded border border-border">
+                    <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-bold text-muted">触发记录</span>
+                        <Button size="sm" variant="ghost" onClick={() => handleResetRuntime(trigger)} className="h-6 text-xs" disabled={runtimeKeys.length === 0}>
+                            <RotateCcw size={12}/> 重置
+                        </Button>
+                    </div>
+                    {runtimeKeys.length === 0 && <div className="text-xs text-muted italic">尚未触发</div>}
+                    {runtimeKeys.map(key => {
+                        const last = trigger.runtime!.lastFired[key];
+                        const ready = isTriggerReady(trigger, state, key);
+                        return (
+                            <div key={key} className="flex items-center justify-between text-[10px] font-mono py-0.5">
+                                <span className="text-body truncate mr-2">{counterKeyLabel(key)}</span>
+                                <span className="text-muted shrink-0">
+                                    ×{trigger.runtime!.fireCounts[key]} · 第{last?.round ?? '-'}轮{last?.time ? ` · ${last.time}` : ''} · <span className={ready ? 'text-success-fg' : 'text-warning-fg'}>{ready ? '就绪' : '未就绪'}</span>
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    // Inline Editor for Actions
+    const renderActionEditor = (tId: string, action: TriggerAction, index: number) => {
+        const needsChar = action.type !== 'hidden_round' && action.type !== 'set_variable';
+        const isAttr = action.type === 'set_attr' || action.type === 'add_attr';
+        const hasValue = isAttr || action.type === 'add_conflict' || action.type === 'add_drive' || action.type === 'set_variable';
+        const amountLabel = action.type === 'add_conflict' ? 'AP 奖励' : action.type === 'add_drive' ? '快感奖励' : action.type === 'draw_prize' ? '抽取数量' : null;
+        const valuePlaceholder = action.type === 'add_attr' ? "增减值 (如 -10)"
+            : action.type === 'add_conflict' ? "矛盾描述"
+            : action.type === 'add_drive' ? "欲望条件"
+            : "新值 (支持宏)";
+
+        return (
+            <div key={action.id} className="bg-surface p-2 flex flex-col gap-2 border border-border rounded">
+                <div className="flex justify-between items-center border-b border-border pb-1">
+                    <span className="text-xs font-bold text-success-fg">动作 #{index + 1}</span>
+                    <button onClick={() => handleRemoveAction(tId, action.id)} className="text-muted hover:text-danger-fg"><Trash2 size={12}/></button>
+                </div>
+
+                <select
+                    className="w-full bg-surface border border-border rounded text-xs p-1 text-body"
+                    value={action.type}
+                    onChange={e => handleUpdateAction(tId, action.id, { type: e.target.value as TriggerActionType })}
+                >
+                    {ACTION_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+
+                {needsChar && (
+                    <select
+                        className="w-full bg-surface border border-border rounded text-xs p-1 text-body"
+                        value={action.characterId || 'current'}
+                        onChange={e => handleUpdateAction(tId, action.id, { characterId: e.target.value })}
+                    >
+                        <option value="current" className="text-primary font-bold">★ 当前角色 (Context/Active)</option>
+                        {isAttr && <option value="world">世界 (World Attributes)</option>}
+                        {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                )}
+
+                {(isAttr || action.type === 'grant_card' || action.type === 'remove_card' || action.type === 'set_variable') && (
+                    <Input
+                        className="text-xs h-7"
+                        placeholder={isAttr ? "属性名称 (Attribute Name)" : action.type === 'set_variable' ? "变量名 (Key)" : "卡牌名称或 ID (Card Name / ID)"}
+                        value={action.targetName || ""}
+                        onChange={e => handleUpdateAction(tId, action.id, { targetName: e.target.value })}
+                    />
+                )}
+
+                {action.type === 'move_char' && (
+                    <select
+                        className="w-full bg-surface border border-border rounded text-xs p-1 text-body"
+                        value={action.locationId || ''}
+                        onChange={e => handleUpdateAction(tId, action.id, { locationId: e.target.value })}
+                    >
+                        <option value="">-- 选择目的地 --</option>
+                        {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                )}
+
+                {action.type === 'draw_prize' && (
+                    <select
+                        className="w-full bg-surface border border-border rounded text-xs p-1 text-body"
+                        value={action.poolId || ''}
+                        onChange={e => handleUpdateAction(tId, action.id, { poolId: e.target.value })}
+                    >
+                        <option value="">-- 选择奖池 --</option>
+                        {(Object.values(state.prizePools || {}) as PrizePool[]).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                )}
+
+                {(hasValue || amountLabel) && (
+                    <div className="flex gap-2 items-center">
+                        {hasValue && (
+                            <Input
+                                className="text-xs h-7 flex-1"
+                                placeholder={valuePlaceholder}
+                                value={action.value ?? ""}
+                                onChange={e => handleUpdateAction(tId, action.id, { value: e.target.value })}
+                            />
+                        )}
+                        {amountLabel && (
+                            <>
+                                <span className="text-[10px] text-muted shrink-0">{amountLabel}</span>
+                                <Input
+                                    type="number"
+                                    className="text-xs h-7 w-16"
+                                    value={action.amount ?? (action.type === 'add_conflict' ? 5 : action.type === 'add_drive' ? 10 : 1)}
+                                    onChange={e => handleUpdateAction(tId, action.id, { amount: parseInt(e.target.value) })}
+                                />
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
     };
 
     // Inline Editor for Conditions
@@ -151,7 +450,7 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
 
                 {/* Dynamic Inputs based on Type */}
                 <div className="flex flex-col gap-2">
-                    {(cond.type === 'char_attr' || cond.type === 'char_card') && (
+                    {(cond.type === 'char_attr' || cond.type === 'char_card' || cond.type === 'relationship') && (
                         <>
                             <div className="flex gap-2">
                                 <select 
@@ -169,17 +468,43 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                                 >
                                     <option value="all">所有角色 (All Characters)</option>
                                     <option value="current" className="text-primary font-bold">★ 当前角色 (Context/Active)</option>
+                                    <option value="target" className="text-primary font-bold">★ 事件目标 (Event Target)</option>
                                     {characters.filter(c => !cond.locationId || cond.locationId === 'all' || state.map.charPositions[c.id]?.locationId === cond.locationId).map(c => (
                                         <option key={c.id} value={c.id}>{c.name}</option>
                                     ))}
                                 </select>
                             </div>
-                            <Input 
-                                className="text-xs h-7" 
-                                placeholder={cond.type === 'char_attr' ? "属性名称 (Attribute Name)" : "卡牌名称 (Card Name)"}
-                                value={cond.targetName || ""}
-                                onChange={e => handleUpdateCondition(tId, cond.id, { targetName: e.target.value })}
-                            />
+                            {cond.type === 'relationship' ? (
+                                <div className="flex gap-2">
+                                    <select
+                                        className="flex-1 bg-surface border border-border rounded text-xs p-1 text-body"
+                                        value={cond.otherCharacterId || 'all'}
+                                        onChange={e => handleUpdateCondition(tId, cond.id, { otherCharacterId: e.target.value })}
+                                    >
+                                        <option value="all">对任意角色 (Anyone)</option>
+                                        <option value="current" className="text-primary font-bold">★ 对当前角色 (Context/Active)</option>
+                                        <option value="target" className="text-primary font-bold">★ 对事件目标 (Event Target)</option>
+                                        {characters.map(c => <option key={c.id} value={c.id}>对 {c.name}</option>)}
+                                    </select>
+                                    <select
+                                        className="w-28 bg-surface border border-border rounded text-xs p-1 text-body"
+                                        value={cond.targetName === 'trust' || cond.targetName === 'tags' ? cond.targetName : 'affinity'}
+                                        onChange={e => handleUpdateCondition(tId, cond.id, {
+                                            targetName: e.target.value,
+                                            comparator: e.target.value === 'tags' ? 'exact' : '>='
+                                        })}
+                                    >
+                                        {(Object.keys(RELATIONSHIP_FIELD_LABELS) as RelationshipField[]).map(f => <option key={f} value={f}>{RELATIONSHIP_FIELD_LABELS[f]}</option>)}
+                                    </select>
+                                </div>
+                            ) : (
+                                <Input 
+                                    className="text-xs h-7" 
+                                    placeholder={cond.type === 'char_attr' ? "属性名称 (Attribute Name)" : "卡牌名称 (Card Name)"}
+                                    value={cond.targetName || ""}
+                                    onChange={e => handleUpdateCondition(tId, cond.id, { targetName: e.target.value })}
+                                />
+                            )}
                         </>
                     )}
 
@@ -192,6 +517,17 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                         />
                     )}
 
+                    {cond.type === 'event' && (
+                        <select
+                            className="w-full bg-surface border border-border rounded text-xs p-1 text-body font-mono"
+                            value={cond.targetName || ''}
+                            onChange={e => handleUpdateCondition(tId, cond.id, { targetName: e.target.value })}
+                        >
+                            <option value="">-- 选择参数 --</option>
+                            {EVENT_FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    )}
+
                     {cond.type === 'history' && (
                         <div className="flex items-center gap-2">
                             <Label>检查最近</Label>
@@ -212,7 +548,9 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                             value={cond.comparator}
                             onChange={e => handleUpdateCondition(tId, cond.id, { comparator: e.target.value as any })}
                         >
-                            {(cond.type === 'char_attr' || cond.type === 'world_time' || cond.type === 'world_attr') ? (
+                            {cond.type === 'event' ? (
+                                [...COMPARATORS.map(c => <option key={c} value={c}>{c}</option>), ...STR_COMPARATORS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)]
+                            ) : (cond.type === 'char_attr' || cond.type === 'world_time' || cond.type === 'world_attr' || (cond.type === 'relationship' && cond.targetName !== 'tags')) ? (
                                 COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)
                             ) : (
                                 STR_COMPARATORS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)
@@ -237,18 +575,55 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                             </Button>
                         ) : (
                             <Input 
-                                className="flex-1 text-xs h-7" 
-                                placeholder="比较值 (Value)"
+                                className={`flex-1 text-xs h-7 ${getExpressionError(cond.value) ? 'border-danger text-danger' : ''}`} 
+                                placeholder="比较值 (Value) 或 =表达式"
                                 value={cond.value}
                                 onChange={e => handleUpdateCondition(tId, cond.id, { value: e.target.value })}
                             />
                         )}
                     </div>
+                    {getExpressionError(cond.value) && (
+                        <div className="text-[10px] text-danger flex items-center gap-1"><AlertTriangle size={10}/> 表达式错误: {getExpressionError(cond.value)}</div>
+                    )}
                 </div>
             </div>
         );
     };
 
+    // Recursive editor for a condition group. `leaves` is the depth-first leaf order used for {{condition N}}.
+    const renderConditionGroup = (tId: string, group: TriggerConditionGroup, leaves: TriggerCondition[], isRoot: boolean) => {
+        return (
+            <div key={group.id} className={isRoot ? 'space-y-2' : 'border-l-2 border-primary/40 pl-2 space-y-2'}>
+                <div className="flex items-center gap-2">
+                    <select
+                        className="bg-surface border border-border rounded px-2 py-1 text-xs text-body h-6"
+                        value={group.operator}
+                        onChange={e => handleUpdateGroupOperator(tId, group.id, e.target.value as ConditionOperator)}
+                    >
+                        {OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <div className="flex-1"/>
+                    <Button size="sm" variant="secondary" onClick={() => handleAddCondition(tId, group.id)} className="h-6 text-xs">
+                        <Plus size={12}/> 条件
+                    </Button>
+                    <Button size="sm" variant="secondary" onClick={() => handleAddGroup(tId, group.id)} className="h-6 text-xs">
+                        <Plus size={12}/> 分组
+                    </Button>
+                    {!isRoot && (
+                        <button onClick={() => handleRemoveCondition(tId, group.id)} className="text-muted hover:text-danger-fg"><Trash2 size={12}/></button>
+                    )}
+                </div>
+                {group.children.length === 0 && (
+                    <div className="text-xs text-muted italic">{isRoot ? '无条件 (总是触发)' : '空分组'}</div>
+                )}
+                {group.children.map(child => isConditionGroup(child)
+                    ? renderConditionGroup(tId, child, leaves, false)
+                    : renderConditionEditor(tId, child, leaves.findIndex(l => l.id === child.id))
+                )}
+            </div>
+        );
+    };
+
     return (
         <Window
             title={<span className="flex items-center gap-2"><Zap size={18} className="text-warning-fg"/> 触发器管理 (Trigger System)</span>}
@@ -276,13 +651,20 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                     <div className="text-xs text-muted truncate mr-2">
                         定义特定条件下的 Prompt 注入与系统日志。
                     </div>
-                    <Button size="sm" onClick={handleCreateTrigger} className="flex items-center gap-1 shrink-0">
-                        <Plus size={14}/> 新建
-                    </Button>
+                    <div className="flex items-center gap-2 shrink-0">
+                        <Button size="sm" variant={showDebugger ? 'primary' : 'secondary'} onClick={() => setShowDebugger(!showDebugger)} className="flex items-center gap-1">
+                            <Bug size={14}/> 调试
+                        </Button>
+                        <Button size="sm" onClick={handleCreateTrigger} className="flex items-center gap-1">
+                            <Plus size={14}/> 新建
+                        </Button>
+                    </div>
                 </div>
 
                 {/* Main List */}
                 <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-surface/30 custom-scrollbar">
+                    {showDebugger && <TriggerDebugPanel state={state} phases={PHASES} events={EVENTS}/>}
+
                     {triggers.length === 0 && (
                         <div className="text-center text-muted italic py-10">暂无触发器。点击上方新建。</div>
                     )}
@@ -306,7 +688,7 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                                     <span className="text-[10px] bg-surface-light px-1.5 py-0.5 rounded text-muted font-mono hidden sm:inline border border-border">{trigger.phase}</span>
                                     
                                     {/* Remaining Count Badge */}
-                                    {trigger.maxTriggers !== undefined && trigger.maxTriggers > -1 && (
+                                    {trigger.maxTriggers !== undefined && trigger.maxTriggers > -1 && (trigger.counterScope || 'global') === 'global' && (
                                         <span className="text-[10px] bg-primary/20 text-primary px-1.5 py-0.5 rounded border border-primary/30 flex items-center gap-1 shrink-0">
                                             <Hash size={10}/> <span className="hidden sm:inline">剩余:</span> {trigger.maxTriggers}
                                         </span>
@@ -336,13 +718,18 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                                             
                                             <div className="grid grid-cols-2 gap-4">
                                                 <div className="flex flex-col">
-                                                    <Label>触发阶段 (Phase)</Label>
+                                                    <Label>触发阶段 (Phase / Event)</Label>
                                                     <select 
                                                         className="w-full bg-surface border border-border rounded px-2 py-2 text-xs text-body font-mono h-8"
                                                         value={trigger.phase}
-                                                        onChange={e => handleUpdateTrigger(trigger.id, { phase: e.target.value as TriggerPhase })}
+                                                        onChange={e => handleUpdateTrigger(trigger.id, { phase: e.target.value as TriggerPhase | TriggerEvent })}
                                                     >
-                                                        {PHASES.map(p => <option key={p} value={p}>{p}</option>)}
+                                                        <optgroup label="Prompt 阶段">
+                                                            {PHASES.map(p => <option key={p} value={p}>{p}</option>)}
+                                                        </optgroup>
+                                                        <optgroup label="引擎事件">
+                                                            {EVENTS.map(ev => <option key={ev.value} value={ev.value}>{ev.label}</option>)}
+                                                        </optgroup>
                                                     </select>
                                                 </div>
                                                 <div>
@@ -351,23 +738,35 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                                                         type="number" 
                                                         className="h-8 text-xs" 
                                                         value={trigger.maxTriggers ?? -1} 
-                                                        onChange={e => handleUpdateTrigger(trigger.id, { maxTriggers: parseInt(e.target.value) })} 
+                                                        onChange={e => handleUpdateTrigger(trigger.id, { maxTriggers: parseInt(e.target.value), maxTriggersInitial: undefined })} 
                                                         placeholder="-1"
                                                     />
                                                 </div>
                                             </div>
 
+                                            {renderFrequencyEditor(trigger)}
+
+                                            {trigger.phase === 'world_time' && (
+                                                <div>
+                                                    <Label>时间阈值 (留空 = 每次时间推进都检查)</Label>
+                                                    <Input
+                                                        className="h-8 text-xs font-mono"
+                                                        placeholder="2077:01:02:00:00:00"
+                                                        value={trigger.timeThreshold || ''}
+                                                        onChange={e => handleUpdateTrigger(trigger.id, { timeThreshold: e.target.value || undefined })}
+                                                    />
+                                                    <p className="text-[10px] text-muted mt-1">仅在世界时间越过该时刻的那一次推进时触发。</p>
+                                                </div>
+                                            )}
+
                                             <div className="border-t border-border pt-2">
                                                 <div className="flex justify-between items-center mb-2">
-                                                    <Label className="text-primary">触发条件 (Conditions - AND Logic)</Label>
-                                                    <Button size="sm" variant="secondary" onClick={() => handleAddCondition(trigger.id)} className="h-6 text-xs">
-                                                        <Plus size={12}/> 添加条件
-                                                    </Button>
-                                                </div>
-                                                <div className="space-y-2">
-                                                    {trigger.conditions.length === 0 && <div className="text-xs text-muted italic">无条件 (总是触发)</div>}
-                                                    {trigger.conditions.map((c, i) => renderConditionEditor(trigger.id, c, i))}
+                                                    <Label className="text-primary">触发条件 (Conditions)</Label>
                                                 </div>
+                                                {(() => {
+                                                    const tree = getConditionTree(trigger);
+                                                    return renderConditionGroup(trigger.id, tree, flattenConditions(tree), true);
+                                                })()}
                                             </div>
                                         </div>
 
@@ -375,16 +774,20 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                                         <div className="space-y-4 border-l-0 border-t lg:border-t-0 lg:border-l border-border pl-0 pt-4 lg:pt-0 lg:pl-6">
                                             <Label className="text-success-fg flex items-center gap-2"><Activity size={14}/> 触发效果 (Actions)</Label>
                                             
-                                            <div className="bg-surface-light p-3 rounded border border-border">
-                                                <Label>紧急需求 (Urgent Requirement)</Label>
-                                                <p className="text-[10px] text-muted mb-1">将此文本追加到 AI Prompt 的末尾，强制 AI 注意。</p>
-                                                <TextArea 
-                                                    className="h-24 resize-none text-xs font-mono" 
-                                                    placeholder="例如: 你的{{condition 1}}过低，必须描述濒死状态..."
-                                                    value={trigger.urgentRequirement}
-                                                    onChange={e => handleUpdateTrigger(trigger.id, { urgentRequirement: e.target.value })}
-                                                />
-                                            </div>
+                                            {isEventHook(trigger.phase) ? (
+                                                <div className="text-[10px] text-muted italic">引擎事件触发时不构建 Prompt，仅执行系统日志与状态动作。</div>
+                                            ) : (
+                                                <div className="bg-surface-light p-3 rounded border border-border">
+                                                    <Label>紧急需求 (Urgent Requirement)</Label>
+                                                    <p className="text-[10px] text-muted mb-1">将此文本追加到 AI Prompt 的末尾，强制 AI 注意。</p>
+                                                    <TextArea 
+                                                        className="h-24 resize-none text-xs font-mono" 
+                                                        placeholder="例如: 你的{{condition 1}}过低，必须描述濒死状态..."
+                                                        value={trigger.urgentRequirement}
+                                                        onChange={e => handleUpdateTrigger(trigger.id, { urgentRequirement: e.target.value })}
+                                                    />
+                                                </div>
+                                            )}
 
                                             <div className="bg-surface-light p-3 rounded border border-border">
                                                 <Label>系统日志 (System Log)</Label>
@@ -397,10 +800,31 @@ export const TriggerPoolWindow: React.FC<TriggerPoolWindowProps> = ({ winId, sta
                                                 />
                                             </div>
 
+                                            <div className="bg-surface-light p-3 rounded border border-border">
+                                                <div className="flex justify-between items-center mb-1">
+                                                    <Label>状态动作 (State Actions)</Label>
+                                                    <Button size="sm" variant="secondary" onClick={() => handleAddAction(trigger.id)} className="h-6 text-xs">
+                                                        <Plus size={12}/> 添加动作
+                                                    </Button>
+                                                </div>
+                                                <p className="text-[10px] text-muted mb-2">触发时按顺序直接修改游戏状态 (不经过 AI 判定)，每个动作都会记录到故事面板。</p>
+                                                <div className="space-y-2">
+                                                    {(trigger.actions || []).length === 0 && <div className="text-xs text-muted italic">无动作</div>}
+                                                    {(trigger.actions || []).map((a, i) => renderActionEditor(trigger.id, a, i))}
+                                                </div>
+                                            </div>
+
                                             <div className="bg-primary/10 p-2 rounded border border-primary/30 text-[10px] text-primary">
                                                 <strong>可用宏 (Macros):</strong><br/>
-                                                <code>{'{{condition N}}'}</code> - 第 N 个条件判定时获取到的实际值。<br/>
+                                                <code>{'{{condition N}}'}</code> - 第 N 个条件判定时获取到的实际值 (按从上到下的顺序编号，含分组内的条件；未满足时为空)。也可用于状态动作的文本字段。<br/>
                                                 例如: 条件1检查 HP &gt; 0, 实际 HP 为 50。 <code>{'{{condition 1}}'}</code> 将被替换为 50。
+                                                <br/><strong>表达式:</strong> 比较值以 <code>=</code> 开头时按表达式计算, 如 <code>= clamp(self.健康 - 2d6, 0, 100)</code>。
+                                                可用 <code>self.属性</code> (被检查的角色) / <code>target.属性</code> (事件目标) / <code>world.属性</code> / <code>var.变量名</code> / <code>round</code> / <code>time.hour</code> 等，运算 + - * / %，函数 min/max/clamp/floor/ceil/round/abs，骰子 <code>2d6</code>。
+                                                {isEventHook(trigger.phase) && (
+                                                    <>
+                                                        <br/><code>{'{{event.charName}}'}</code> / <code>{'{{event.targetName}}'}</code> / <code>{'{{event.<参数>}}'}</code> - 事件参数 (如 cardName、attrName、oldValue、newValue)。
+                                                    </>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
+import { AIQueueSnapshot } from '../../services/aiService';
 
 interface AIRequestItem {
     id: string;
@@ -10,11 +11,15 @@ interface AIRequestItem {
 
 export const ModelQueueIndicator: React.FC = () => {
     const [queue, setQueue] = useState<AIRequestItem[]>([]);
+    const [scheduler, setScheduler] = useState<AIQueueSnapshot | null>(null);
 
     useEffect(() => {
         const handleUpdate = (e: Event) => {
             const detail = (e as CustomEvent).detail;
             if (!detail) return;
+            if (detail.queue) setScheduler(detail.queue);
+            // Scheduler-only updates carry no request id
+            if (!detail.id) return;
             const { id, color } = detail;
 
             setQueue(prev => {
@@ -62,7 +67,7 @@ export const ModelQueueIndicator: React.FC = () => {
         };
     }, []);
 
-    if (queue.length === 0) return null;
+    if (queue.length === 0 && !scheduler?.queued) return null;
 
     const getColorClass = (color: string) => {
         switch(color) {
@@ -89,6 +94,11 @@ export const ModelQueueIndicator: React.FC = () => {
                         className={`w-2 h-2 rounded-full transition-all duration-300 ${getColorClass(item.color)}`}
                     />
                 ))}
+                {scheduler && scheduler.queued > 0 && (
+                    <span className="text-[9px] font-mono text-muted px-1 whitespace-nowrap" title={`进行中 ${scheduler.active} / 排队 ${scheduler.queued}`}>
+                        排队 {scheduler.queued} · ~{Math.ceil(scheduler.etaMs / 1000)}s
+                    </span>
+                )}
             </div>
         </div>
     );
@@ -1,5 +1,5 @@
 
-import { Provider, AIConfig } from "./types";
+import { Provider, AIConfig, AIRetryPolicy, ProviderRateLimit } from "./types";
 
 export const DEFAULT_API_CONFIG = {
     [Provider.XAI]: '',
@@ -7,7 +7,19 @@ export const DEFAULT_API_CONFIG = {
     [Provider.VOLCANO]: '',
     [Provider.OPENROUTER]: '',
     [Provider.OPENAI]: '',
-    [Provider.CLAUDE]: ''
+    [Provider.CLAUDE]: '',
+    [Provider.CUSTOM]: ''
+};
+
+// Suggested model per provider; also used by fallback hops that don't name a model
+export const PROVIDER_DEFAULT_MODELS: Record<string, string> = {
+    [Provider.XAI]: 'grok-4-1-fast',
+    [Provider.GEMINI]: 'gemini-3-pro-preview',
+    [Provider.OPENAI]: 'gpt-5-2025-08-07',
+    [Provider.CLAUDE]: 'claude-sonnet-4-5-20250929',
+    [Provider.VOLCANO]: 'doubao-seed-1-6-251015',
+    [Provider.OPENROUTER]: 'deepseek/deepseek-v3.2',
+    [Provider.CUSTOM]: ''
 };
 
 export const DEFAULT_AI_CONFIG: AIConfig = {
@@ -16,6 +28,19 @@ export const DEFAULT_AI_CONFIG: AIConfig = {
     temperature: 1.0
 };
 
+export const DEFAULT_RETRY_POLICY: AIRetryPolicy = {
+    maxAttempts: 1,
+    backoffBaseMs: 1000,
+    backoffMaxMs: 15000,
+    retryStatuses: [408, 429, 500, 502, 503, 504],
+    timeoutMs: 0
+};
+
+export const DEFAULT_PROVIDER_RATE_LIMIT: ProviderRateLimit = {
+    maxConcurrent: 4,
+    requestsPerMinute: 0
+};
+
 export const GAME_CONSTANTS = {
     DEFAULT_MAX_TOKENS: 1024,
     DEFAULT_TEMPERATURE: 1.0,
@@ -11,6 +11,9 @@ export const MAP_CONSTANTS = {
     VISUALIZER_GRID_SIZE: 20, // Optimized: Reduced from 50 to 20 for mobile performance (84% less polygons)
     SEA_LEVEL: 10,
     PEAK_HEIGHT: 200,
+    SNOW_LINE: 300, // Above this everything is snow-capped regardless of climate
+    FOG_CELL_SIZE: 250, // Fog-of-war grid resolution (meters)
+    SIGHT_RADIUS: 500, // Base view distance; rises with the viewer's elevation
 };
 
 // Setup initial state helpers
@@ -1,8 +1,11 @@
 
 import { MutableRefObject } from 'react';
 import { GameState, Character, PrizePool, PrizeItem, Card, AttributeVisibility, DebugLog } from '../../types';
-import { normalizeCard, determineCharacterReaction } from '../../services/aiService';
+import { determineCharacterReaction } from '../../services/aiService';
 import { removeInstances } from '../../services/attributeUtils';
+import { createRandomSource } from '../../services/randomUtils';
+import { clampDrawAmount, drawPrizeItems, resolvePrizeCards } from '../../services/prizePoolUtils';
+import { emitTriggerEvent } from '../../services/triggerActionUtils';
 
 interface UseLotterySystemProps {
     stateRef: MutableRefObject<GameState>;
@@ -41,68 +44,13 @@ export const useLotterySystem = ({
         }
 
         if (action === 'draw') {
-            const drawAmount = Math.max(pool.minDraws || 1, Math.min(pool.maxDraws || 1, amount));
-            const drawnItems: PrizeItem[] = [];
-            let remainingItems = [...pool.items];
-            
-            for (let i = 0; i < drawAmount; i++) {
-                const totalWeight = remainingItems.reduce((sum, item) => sum + (item.weight || 1), 0);
-                if (totalWeight > 0) {
-                    let r = Math.random() * totalWeight;
-                    let selected: PrizeItem | null = null;
-                    for (const item of remainingItems) {
-                        if (r < (item.weight || 1)) {
-                            selected = item;
-                            break;
-                        }
-                        r -= (item.weight || 1);
-                    }
-                    if (selected) {
-                        drawnItems.push(selected);
-                        remainingItems = remainingItems.filter(itm => itm.id !== selected!.id);
-                    }
-                } else {
-                    break;
-                }
-            }
+            const drawAmount = clampDrawAmount(pool, amount);
+            const rng = createRandomSource(state.rng);
+            const { drawn: drawnItems, remaining: remainingItems } = drawPrizeItems(pool.items, drawAmount, rng.random);
+            updateState(prev => ({ ...prev, rng: rng.state() }));
 
             if (drawnItems.length > 0) {
-                const newCardsToAdd: Card[] = [];
-                const inventoryIdsToAdd: string[] = [];
-                
-                drawnItems.forEach(item => {
-                    // Check if card already exists in pool (re-use definition)
-                    const existing = state.cardPool.find(c => c.name === item.name && c.description === item.description) 
-                                     || newCardsToAdd.find(c => c.name === item.name && c.description === item.description);
-                    
-                    if (existing) {
-                        inventoryIdsToAdd.push(existing.id);
-                    } else {
-                        let newCard: Card = {
-                            id: `prize_card_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
-                            name: item.name,
-                            description: item.description,
-                            itemType: 'consumable',
-                            triggerType: 'active',
-                            cost: 0,
-                            effects: [
-                                {
-                                    id: `eff_prize_${Date.now()}`,
-                                    name: "奖池物品",
-                                    targetType: 'self',
-                                    targetAttribute: '健康',
-                                    value: 0,
-                                    conditionDescription: "奖池内物品",
-                                    conditionContextKeys: []
-                                }
-                            ],
-                            visibility: item.isHidden ? AttributeVisibility.PRIVATE : AttributeVisibility.PUBLIC
-                        };
-                        newCard = normalizeCard(newCard);
-                        newCardsToAdd.push(newCard);
-                        inventoryIdsToAdd.push(newCard.id);
-                    }
-                });
+                const { newCards: newCardsToAdd, inventoryIds: inventoryIdsToAdd } = resolvePrizeCards(drawnItems, state.cardPool);
 
                 updateState(prev => ({
                     ...prev,
@@ -130,6 +78,7 @@ export const useLotterySystem = ({
                 } else {
                     addLog(`> 抽取: ${char.name} 从 [${pool.name}] 中抽取了 ${drawnItems.length} 件物品...`);
                 }
+                emitTriggerEvent('lottery_draw', { charId, poolId: pool.id, cardName: drawnItems.map(i => i.name).join(", ") });
             } else {
                 addLog(`> 抽取失败: ${pool.name} 是空的。`);
             }
@@ -197,36 +146,13 @@ export const useLotterySystem = ({
         } else if (action === 'peek') {
             // Updated PEEK Logic: "Take out and put back" simulation
             // 1. Enforce same limits as draw
-            const peekAmount = Math.max(pool.minDraws || 1, Math.min(pool.maxDraws || 1, amount));
+            const peekAmount = clampDrawAmount(pool, amount);
             
             if (pool.items.length > 0) {
-                const peekedItems: PrizeItem[] = [];
-                // Create a temporary copy to simulate drawing without replacement during this action
-                let tempItems = [...pool.items];
-                
-                // Use Weighted Random Logic (Same as Draw)
-                for (let k = 0; k < peekAmount; k++) {
-                    if (tempItems.length === 0) break;
-                    
-                    const totalWeight = tempItems.reduce((sum, item) => sum + (item.weight || 1), 0);
-                    if (totalWeight > 0) {
-                        let r = Math.random() * totalWeight;
-                        let selected: PrizeItem | null = null;
-                        for (const item of tempItems) {
-                            if (r < (item.weight || 1)) {
-                                selected = item;
-                                break;
-                            }
-                            r -= (item.weight || 1);
-                        }
-                        if (selected) {
-                            peekedItems.push(selected);
-                            tempItems = tempItems.filter(itm => itm.id !== selected!.id);
-                        }
-                    } else {
-                        break;
-                    }
-                }
+                // Simulate drawing without replacement, then put everything back
+                const rng = createRandomSource(state.rng);
+                const { drawn: peekedItems } = drawPrizeItems(pool.items, peekAmount, rng.random);
+                updateState(prev => ({ ...prev, rng: rng.state() }));
 
                 if (peekedItems.length > 0) {
                     addLog(`> 查看: ${char.name} 翻看了 [${pool.name}] 的内容...`);
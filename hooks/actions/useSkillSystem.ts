@@ -5,6 +5,11 @@ import { checkConditionsBatch, determineCharacterReaction, getGlobalMemory, norm
 import { DEFAULT_AI_CONFIG } from '../../config';
 import { getAttr, getCP, removeInstances } from '../../services/attributeUtils';
 import { ImageContextBuilder } from '../../services/ai/ImageContextBuilder';
+import { EmittedTriggerEvent, applyAttributeChange, emitTriggerEvent } from '../../services/triggerActionUtils';
+import { evaluateExpression, isExpression } from '../../services/expressionUtils';
+import { applyRelationshipChanges, getRelationshipEffectField } from '../../services/relationshipUtils';
+import { applyReputationChange, getReputationEffectFaction } from '../../services/factionUtils';
+import { createRandomSource } from '../../services/randomUtils';
 
 interface UseSkillSystemProps {
     stateRef: MutableRefObject<GameState>;
@@ -98,7 +103,9 @@ export const useSkillSystem = ({
                          const pos = currentState.map.charPositions[c.id];
                          return c.id !== sourceCharId && pos && pos.locationId === activeLocId;
                     }).map(c => c.id);
-                    primaryTargetId = candidates[Math.floor(Math.random() * candidates.length)] || sourceCharId;
+                    const rng = createRandomSource(currentState.rng);
+                    primaryTargetId = candidates[Math.floor(rng.random() * candidates.length)] || sourceCharId;
+                    updateState(prev => ({ ...prev, rng: rng.state() }));
                  }
              }
         }
@@ -109,6 +116,7 @@ export const useSkillSystem = ({
              logMsg += ` (目标: ${currentState.characters[primaryTargetId].name})`;
         }
         addLog(logMsg, { actingCharId: sourceCharId });
+        emitTriggerEvent('card_used', { charId: sourceCharId, targetId: primaryTargetId || undefined, cardId: card.id, cardName: card.name });
 
         // --- Active Attribute Logic Part 1: Reaction Usage ---
         // If it is a reaction card, increase Active immediately by 20
@@ -329,6 +337,7 @@ export const useSkillSystem = ({
                 actualTargetId, 
                 index: i, 
                 overrideVal, 
+                selfId: sourceCharId,
                 type: 'active',
                 cardName: card.name // Fix: Pass card name for Active skills too
             });
@@ -374,6 +383,7 @@ export const useSkillSystem = ({
                         effect: pEffect,
                         actualTargetId: pTargetId, // Passive effect targets the Attacker usually
                         index: pReqId, // Use string ID for passives
+                        selfId: primaryTargetId, // Passive owner
                         type: 'passive',
                         cardName: pCard.name,
                         cardDescription: pCard.description, // Added description for reaction context
@@ -631,8 +641,62 @@ export const useSkillSystem = ({
              } else if (meta.effect.dynamicValue && res.derivedValue) {
                  val = res.derivedValue;
              }
+
+             // "= ..." values are expressions: self is the card's owner, target the affected character
+             if (isExpression(val)) {
+                 const rng = createRandomSource(stateRef.current.rng);
+                 try {
+                     val = evaluateExpression(val, { gameState: stateRef.current, self: stateRef.current.characters[meta.selfId], target: tChar, random: rng.random });
+                 } catch (e: any) {
+                     addLog(`> [${meta.cardName || meta.name}] 效果数值表达式错误: ${e?.message || e}`, { type: 'system' });
+                     return;
+                 }
+                 updateState(prev => ({ ...prev, rng: rng.state() }));
+             }
+
+             // 好感 / 信任 effects change how the target feels about the card's owner instead of an attribute
+             const relationField = getRelationshipEffectField(meta.effect.targetAttribute);
+             const otherId = meta.selfId && meta.selfId !== targetId ? meta.selfId : sourceCharId;
+             if (relationField && otherId !== targetId && !targetId.startsWith('env_') && !otherId.startsWith('env_') && !isNaN(Number(val))) {
+                 const delta = Number(val);
+                 let relationLogs: string[] = [];
+                 updateState(prev => {
+                     const result = applyRelationshipChanges(prev, [relationField === 'trust'
+                         ? { fromId: targetId, toId: otherId, trust: delta }
+                         : { fromId: targetId, toId: otherId, affinity: delta }]);
+                     relationLogs = result.logs;
+                     return result.state;
+                 });
+                 relationLogs.forEach(log => {
+                     const logMsg = `> ${meta.type === 'passive' ? '被动触发' : '生效'}: [${meta.cardName || meta.name}] ${log}`;
+                     addLog(logMsg);
+                     executionSummary += logMsg + "。";
+                 });
+                 if (delta !== 0) reactors.add(targetId);
+                 return;
+             }
+
+             // "声望:<势力>" effects change the target's reputation with that faction
+             const repFaction = getReputationEffectFaction(stateRef.current, meta.effect.targetAttribute);
+             if (repFaction && !isNaN(Number(val))) {
+                 const delta = Number(val);
+                 let repLogs: string[] = [];
+                 updateState(prev => {
+                     const result = applyReputationChange(prev, targetId, repFaction.id, delta);
+                     repLogs = result.log ? [result.log] : [];
+                     return result.state;
+                 });
+                 repLogs.forEach(log => {
+                     const logMsg = `> ${meta.type === 'passive' ? '被动触发' : '生效'}: [${meta.cardName || meta.name}] ${log}`;
+                     addLog(logMsg);
+                     executionSummary += logMsg + "。";
+                 });
+                 if (delta !== 0) reactors.add(targetId);
+                 return;
+             }
              
-             let newValue: string | number = val;
+             let newValue: string | number | undefined; // Stays undefined when the change was not applied
+             let changeEvents: EmittedTriggerEvent[] = [];
 
              updateState(prev => {
                  const nextChars = { ...prev.characters };
@@ -646,28 +710,14 @@ export const useSkillSystem = ({
                          else t.attributes['活跃'] = { id: '活跃', name: '活跃', type: AttributeType.NUMBER, value: 60, visibility: AttributeVisibility.PUBLIC };
                      }
 
-                     let attr = getAttr(t, meta.effect.targetAttribute);
-                     if (!attr) {
-                         t.attributes[meta.effect.targetAttribute] = { id: meta.effect.targetAttribute, name: meta.effect.targetAttribute, type: AttributeType.NUMBER, value: 50, visibility: AttributeVisibility.PUBLIC };
-                         attr = t.attributes[meta.effect.targetAttribute];
-                     }
-                     
-                     if (attr.type === AttributeType.NUMBER) {
-                         const rawNewVal = Number(attr.value) + Number(val);
-                         const roundedVal = Math.round(rawNewVal);
-                         const isCP = attr.id === 'cp' || attr.id === '创造点' || attr.name.toLowerCase() === 'cp' || attr.name === '创造点';
-                         if (isCP) {
-                             attr.value = Math.max(-1, roundedVal);
-                         } else {
-                             attr.value = Math.max(-1, Math.min(100, roundedVal));
-                         }
-                         newValue = attr.value;
-                         if ((attr.name === '健康' || attr.name === 'Health') && newValue <= 0 && !targetId.startsWith('env_')) {
-                             deadChars.push(targetId);
-                         }
-                     } else {
-                         attr.value = String(val);
-                         newValue = String(val);
+                     // Numeric attributes (and new ones) take the value as a delta; text attributes are replaced
+                     const attr = getAttr(t, meta.effect.targetAttribute);
+                     const change = applyAttributeChange(t, meta.effect.targetAttribute, val, !attr || attr.type === AttributeType.NUMBER, sourceCharId);
+                     if (change) {
+                         nextChars[targetId] = change.char;
+                         newValue = change.attribute.value;
+                         changeEvents = change.events;
+                         if (change.isDown) deadChars.push(targetId);
                      }
                  }
                  return { ...prev, characters: nextChars };
@@ -680,17 +730,21 @@ export const useSkillSystem = ({
                  const sign = Number(val) > 0 ? '+' : '';
                  const valStr = typeof val === 'string' ? `"${val}"` : `${sign}${val}`;
                  const skillName = meta.cardName || meta.name;
-                 const logMsg = `> ${meta.type === 'passive' ? '被动触发' : '生效'}: [${skillName}] ${tChar.name} ${meta.effect.targetAttribute} ${valStr} (当前: ${newValue})`;
+                 const logMsg = newValue === undefined
+                     ? `> [${skillName}] 效果未执行: ${tChar.name} ${meta.effect.targetAttribute} ${valStr} 不是数值`
+                     : `> ${meta.type === 'passive' ? '被动触发' : '生效'}: [${skillName}] ${tChar.name} ${meta.effect.targetAttribute} ${valStr} (当前: ${newValue})`;
                  addLog(logMsg);
                  executionSummary += logMsg + "。";
              }
+
+             changeEvents.forEach(e => emitTriggerEvent(e.event, e.payload));
              
              if ((targetId === primaryTargetId && targetId !== sourceCharId) || (Number(val) != 0)) {
                  reactors.add(targetId);
              }
         }
 
-        // Death Check
+        // Death Check (health_zero was emitted with the change)
         if (deadChars.length > 0) {
             const uniqueDead = Array.from(new Set(deadChars));
             uniqueDead.forEach(id => {
@@ -3,6 +3,9 @@ import { MutableRefObject } from 'react';
 import { GameState, Character, MapLocation, Card, AttributeType, AttributeVisibility } from '../../types';
 import { normalizeCard } from '../../services/aiService';
 import { getAttr, getCP, removeInstances } from '../../services/attributeUtils';
+import { emitTriggerEvent } from '../../services/triggerActionUtils';
+import { advanceWorldTime } from '../../services/timeUtils';
+import { ROUTE_BLOCKER_LABELS, findRoute, formatRoute, getTravelPhysiqueCost, getTraversalAbilities } from '../../services/routeUtils';
 
 interface UseWorldActionsProps {
     stateRef: MutableRefObject<GameState>;
@@ -23,9 +26,28 @@ export const useWorldActions = ({ stateRef, updateState, addLog }: UseWorldActio
             return;
         }
 
+        // --- Route ---
+        // One character arrives at once and pays the whole route; multi-round party journeys start from the map panel.
+        // Environment characters (env_*) bypass terrain, physique and travel time to ensure story progression.
+        const isEnv = char.id.startsWith('env_');
+        const fromLocationId = state.map.charPositions[charId]?.locationId;
+        const fromPos = state.map.charPositions[charId] || (fromLocationId ? state.map.locations[fromLocationId]?.coordinates : undefined);
+        const route = fromPos && !isEnv
+            ? findRoute(state.map, fromPos, dest.coordinates, { canCross: getTraversalAbilities(char, state.cardPool) })
+            : null;
+
+        if (fromPos && !isEnv && !route) {
+            addLog(`> 移动失败: 找不到 ${char.name} 前往 [${destinationName || dest.name}] 的可行路线。`);
+            return;
+        }
+        if (route?.blockedBy) {
+            addLog(`> 移动失败: ${char.name} 前往 [${destinationName || dest.name}] 的路线被${ROUTE_BLOCKER_LABELS[route.blockedBy]}阻隔，需要相应的卡牌或载具才能通过。`);
+            return;
+        }
+
         // --- Physique Check (Threshold: 50) ---
-        // Environment characters (env_*) bypass this check to ensure story progression.
-        if (!char.id.startsWith('env_')) {
+        let physiqueCost = 0;
+        if (!isEnv) {
             const physiqueAttr = getAttr(char, '体能');
             const physiqueVal = physiqueAttr ? Number(physiqueAttr.value) : 0;
             
@@ -33,6 +55,7 @@ export const useWorldActions = ({ stateRef, updateState, addLog }: UseWorldActio
                 addLog(`> 行动拒绝: ${char.name} 体能不足 (${physiqueVal}/50)，身体过于疲惫，无法长途跋涉。`);
                 return;
             }
+            if (physiqueAttr && route) physiqueCost = Math.min(physiqueVal, getTravelPhysiqueCost(route));
         }
         // --------------------------------------
 
@@ -74,6 +97,15 @@ export const useWorldActions = ({ stateRef, updateState, addLog }: UseWorldActio
                     solved: false
                 }
             ];
+
+            // Travel fatigue follows the route length
+            const physiqueAttr = physiqueCost > 0 ? getAttr(movingChar, '体能') : undefined;
+            if (physiqueAttr) {
+                movingChar.attributes = {
+                    ...movingChar.attributes,
+                    [physiqueAttr.id]: { ...physiqueAttr, value: Number(physiqueAttr.value) - physiqueCost }
+                };
+            }
             newChars[charId] = movingChar;
 
             const newMap = { ...prev.map };
@@ -84,15 +116,23 @@ export const useWorldActions = ({ stateRef, updateState, addLog }: UseWorldActio
                 [charId]: {
                     x: dest.coordinates.x,
                     y: dest.coordinates.y,
-                    locationId: dest.id
+                    locationId: dest.id,
+                    route: route?.path
                 }
             };
 
             // Removed: Do NOT update activeLocationId when a character moves.
             // Players might want to stay observing the current location.
 
+            // Journey time passes for the whole world
+            const timeAttr = prev.world.attributes['worldTime'];
+            const world = route && timeAttr
+                ? { ...prev.world, attributes: { ...prev.world.attributes, worldTime: { ...timeAttr, value: advanceWorldTime(String(timeAttr.value), route.travelSeconds) } } }
+                : prev.world;
+
             return {
                 ...prev,
+                world,
                 map: newMap,
                 characters: newChars
             };
@@ -100,7 +140,18 @@ export const useWorldActions = ({ stateRef, updateState, addLog }: UseWorldActio
         
         const isUnknown = !dest.isKnown;
         const nameToLog = destinationName || dest.name;
-        addLog(`> 移动: ${char.name} 前往了 ${isUnknown ? "未知地点" : `[${nameToLog}]`}`);
+        const routeInfo = route ? ` (${formatRoute(route)}${physiqueCost > 0 ? `, 体能 -${physiqueCost}` : ''})` : '';
+        addLog(`> 移动: ${char.name} 前往了 ${isUnknown ? "未知地点" : `[${nameToLog}]`}${routeInfo}`);
+
+        const oldTime = state.world.attributes['worldTime']?.value;
+        if (route && oldTime !== undefined) {
+            emitTriggerEvent('world_time', { oldValue: String(oldTime), newValue: advanceWorldTime(String(oldTime), route.travelSeconds) });
+        }
+
+        if (fromLocationId !== dest.id) {
+            if (fromLocationId) emitTriggerEvent('leave_location', { charId, locationId: fromLocationId });
+            emitTriggerEvent('enter_location', { charId, locationId: dest.id });
+        }
     };
 
     const processCardCreation = (charId: string, cardTemplate: Card) => {
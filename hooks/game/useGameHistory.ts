@@ -1,6 +1,7 @@
 
 import { MutableRefObject } from 'react';
 import { GameState, LogEntry, DebugLog, Character, RoundState } from '../../types';
+import { invalidateChronicle } from '../../services/chronicleUtils';
 
 export const useGameHistory = (
     stateRef: MutableRefObject<GameState>,
@@ -240,6 +241,8 @@ export const useGameHistory = (
       updateState(prev => ({
           ...prev,
           ...updates,
+          // Chronicle summaries of rounds that are no longer finished are stale
+          world: { ...(updates.world || prev.world), chronicle: invalidateChronicle(prev.world.chronicle, newHistory) }
       }));
   };
 
@@ -295,7 +298,7 @@ export const useGameHistory = (
       updateState(prev => ({
           ...prev,
           ...baseUpdates,
-          world: { ...prev.world, history: newHistory },
+          world: { ...prev.world, history: newHistory, chronicle: invalidateChronicle(prev.world.chronicle, newHistory) },
           round: forcedRoundState
       }));
   };
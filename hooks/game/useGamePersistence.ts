@@ -4,12 +4,25 @@ import { GameState, Character, LogEntry, Provider } from '../../types';
 import { createInitialGameState } from '../../services/gameFactory';
 import { fetchNetworkTime } from '../../services/networkUtils';
 import { encryptData, decryptData } from '../../services/cryptoService';
-import { getCharacterMemory } from '../../services/aiService';
+import { getCharacterMemory, isReplayBundle } from '../../services/aiService';
+import { migrateTriggerConditions } from '../../services/triggerService';
+import { compactMapForSave, parseWorldSeed, restoreMapState } from '../../services/mapUtils';
+import { seedExploredAreas } from '../../services/fogUtils';
+import { createRngState } from '../../services/randomUtils';
 import { Capacitor } from '@capacitor/core';
 import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
 
 export const AUTOSAVE_KEY = 'aetheria_autosave_v1';
 
+// localStorage holds ~5 MB: autosaves leave out heightmaps (rebuilt from the seed), embedding vectors
+// (re-embedded from the history) and the replay bundle (kept in exported saves)
+const serializeAutosave = (s: GameState): string => JSON.stringify({
+    ...s,
+    map: compactMapForSave(s.map),
+    memoryIndex: undefined,
+    replayBundle: undefined
+});
+
 export const useGamePersistence = (
     state: GameState,
     stateRef: React.MutableRefObject<GameState>,
@@ -28,7 +41,7 @@ export const useGamePersistence = (
               // Read from ref to avoid dependency cycle and excessive re-renders
               const s = stateRef.current;
               if (s.round && s.round.roundNumber >= 1) {
-                  localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(s));
+                  localStorage.setItem(AUTOSAVE_KEY, serializeAutosave(s));
                   // console.debug("Autosave triggered"); // Optional debug
               }
           } catch (e) {
@@ -74,14 +87,18 @@ export const useGamePersistence = (
           exportData.prizePools = s.prizePools;
           exportData.triggers = s.triggers;
           exportData.debugLogs = []; // Do not save debug logs to file
-          exportData.map = s.map;
+          exportData.map = compactMapForSave(s.map); // Heightmaps are rebuilt from the world seed on load
+          exportData.relationships = s.relationships || {};
+          exportData.factions = s.factions || {};
+          exportData.rng = s.rng; // Seeded gameplay continues identically from the save
+          exportData.replayBundle = s.replayBundle; // Autosaves leave it out, so exported saves are where it persists
       }
 
       // Settings without model config and api keys (General Settings)
       if (includeSettings) {
           const settingsToSave = { ...s.appSettings };
           // Remove keys and password (handled separately or in model interface)
-          settingsToSave.apiKeys = { [Provider.XAI]: '', [Provider.GEMINI]: '', [Provider.VOLCANO]: '', [Provider.OPENROUTER]: '', [Provider.OPENAI]: '', [Provider.CLAUDE]: '' };
+          settingsToSave.apiKeys = { [Provider.XAI]: '', [Provider.GEMINI]: '', [Provider.VOLCANO]: '', [Provider.OPENROUTER]: '', [Provider.OPENAI]: '', [Provider.CLAUDE]: '', [Provider.CUSTOM]: '' };
           settingsToSave.devPassword = "";
           // Lock state is reset on load anyway, but we save current state for completeness if needed later
           settingsToSave.devOptionsUnlocked = false; 
@@ -367,13 +384,19 @@ export const useGamePersistence = (
               // 4. Progress
               if (includeProgress) {
                   if (json.world) newState.world = json.world;
-                  if (json.map) newState.map = json.map;
+                  if (json.map) newState.map = seedExploredAreas(restoreMapState(json.map));
                   if (json.round) newState.round = json.round;
                   if (json.characters) newState.characters = json.characters;
                   if (json.cardPool) newState.cardPool = json.cardPool;
                   if (json.prizePools) newState.prizePools = json.prizePools;
-                  if (json.triggers) newState.triggers = json.triggers;
+                  if (json.triggers) newState.triggers = Object.fromEntries(Object.entries(json.triggers).map(([id, t]: [string, any]) => [id, migrateTriggerConditions(t)]));
                   if (json.debugLogs) newState.debugLogs = json.debugLogs;
+                  // Per-game data: never carry the previous session's over
+                  newState.relationships = json.relationships || {};
+                  newState.factions = json.factions || {};
+                  newState.rng = json.rng || createRngState();
+                  newState.replayBundle = isReplayBundle(json.replayBundle) ? json.replayBundle : undefined;
+                  newState.memoryIndex = undefined; // Re-embedded from the loaded history when the round advances
               }
 
               // 5. Force Load Developer Password & Security Settings & LOCKED FEATURES Logic
@@ -488,14 +511,15 @@ export const useGamePersistence = (
       setSaveLoadModal({ ...saveLoadModal, isOpen: false });
   };
 
-  const resetGame = () => {
+  // seedInput: world seed typed in by the player (number or any text); empty picks a random one
+  const resetGame = (seedInput: string = "") => {
       forceClearReactionRequest(); // Clear blocked UI
       localStorage.removeItem(AUTOSAVE_KEY);
       
       // Preserve current Theme Config
       const currentThemeConfig = stateRef.current.appSettings.themeConfig;
       
-      const freshState = createInitialGameState();
+      const freshState = createInitialGameState(undefined, parseWorldSeed(seedInput) ?? undefined);
       
       const newState: GameState = {
           ...freshState,
@@ -509,7 +533,7 @@ export const useGamePersistence = (
                  id: `log_reset_${Date.now()}`,
                  round: 1, 
                  turnIndex: 0, 
-                 content: "系统: 游戏已完全重置 (Factory Reset)。所有设定（包括 API Key）已恢复默认。", 
+                 content: `系统: 游戏已完全重置 (Factory Reset)。所有设定（包括 API Key）已恢复默认。世界种子: ${freshState.map.seed}`, 
                  timestamp: Date.now(), 
                  type: 'system',
                  snapshot: freshState.round
@@ -518,7 +542,7 @@ export const useGamePersistence = (
       };
 
       try {
-          localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(newState));
+          localStorage.setItem(AUTOSAVE_KEY, serializeAutosave(newState));
       } catch (e) {
           console.error("Force autosave failed during reset:", e);
       }
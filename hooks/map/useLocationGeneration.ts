@@ -2,6 +2,7 @@
 import { MutableRefObject } from 'react';
 import { GameState, MapLocation, MapRegion, AttributeVisibility, Card, PrizeItem, PrizePool, DebugLog, Trigger, Character, GameImage, GameAttribute, AttributeType } from '../../types';
 import { generateRegion, analyzeRegionStats, analyzeTerrainAround, createEnvironmentCharacter, isPointInPolygon, checkMapExpansion } from '../../services/mapUtils';
+import { planRoadsForLocation } from '../../services/routeUtils';
 import { generateLocationDetails, normalizeCard, generateCharacter } from '../../services/aiService';
 import { getRandomChineseNames } from '../../services/nameService';
 import { DEFAULT_AI_CONFIG } from '../../config';
@@ -75,7 +76,7 @@ export const useLocationGeneration = ({
     ): Promise<ExplorationResult> => {
         const startSession = checkSession();
         const currentState = stateRef.current;
-        const seed = (Object.values(currentState.map.chunks) as any[])[0]?.seed || Math.random();
+        const seed = currentState.map.seed;
 
         // 1. Manual Exploration Override
         if (currentState.map.manualExplorationNext || isManual) {
@@ -110,6 +111,9 @@ export const useLocationGeneration = ({
 
             const safeConfig = currentState.judgeConfig || DEFAULT_AI_CONFIG;
 
+            // Road search is slow: done here, not inside the state updater
+            const plannedRoads = planRoadsForLocation(stateRef.current.map, loc);
+
             updateState(prev => {
                 const newMap = { 
                     ...prev.map, 
@@ -144,6 +148,7 @@ export const useLocationGeneration = ({
                     avatarUrl: manualAvatar,
                     images: locationImages // Attach images
                 };
+                if (prev.map.roads) newMap.roads = { ...plannedRoads, ...prev.map.roads };
 
                 const envChar = createEnvironmentCharacter(loc.id, "新地点");
                 envChar.avatarUrl = generateRandomFlagAvatar();
@@ -461,6 +466,8 @@ export const useLocationGeneration = ({
                 });
             }
 
+            const plannedRoads = planRoadsForLocation(stateRef.current.map, loc);
+
             // D. Batch State Update
             updateState(prev => {
                 const newMap = { ...prev.map, locations: { ...prev.map.locations }, regions: { ...prev.map.regions } };
@@ -493,6 +500,7 @@ export const useLocationGeneration = ({
                     avatarUrl: locAvatarUrl,
                     images: finalLocImages
                 };
+                if (prev.map.roads) newMap.roads = { ...plannedRoads, ...prev.map.roads };
 
                 newChars[envChar.id] = envChar;
                 newMap.charPositions[envChar.id] = { x: loc.coordinates.x, y: loc.coordinates.y, locationId: loc.id };
@@ -586,7 +594,7 @@ export const useLocationGeneration = ({
         addLog(`系统: 正在重置地点 [${loc.name}] (保留区域: ${keepRegion ? '是' : '否'})...`);
 
         const safeConfig = currentState.judgeConfig || DEFAULT_AI_CONFIG;
-        const seed = (Object.values(currentState.map.chunks) as any[])[0]?.seed || Math.random();
+        const seed = currentState.map.seed;
 
         try {
             let regionId = loc.regionId;
@@ -699,6 +707,8 @@ export const useLocationGeneration = ({
             
             const finalImages = locationImages.length > 0 ? locationImages : loc.images;
 
+            const plannedRoads = planRoadsForLocation(stateRef.current.map, loc);
+
             updateState(prev => {
                 const newMap = { ...prev.map, locations: { ...prev.map.locations }, regions: { ...prev.map.regions } };
                 
@@ -725,6 +735,7 @@ export const useLocationGeneration = ({
                     avatarUrl: finalAvatarUrl,
                     images: finalImages
                 };
+                if (prev.map.roads) newMap.roads = { ...plannedRoads, ...prev.map.roads };
                 
                 const newChars = { ...prev.characters };
                 const envCharId = `env_${loc.id}`;
@@ -1,7 +1,7 @@
 
 import { MutableRefObject } from 'react';
-import { GameState, MapChunk } from '../../types';
-import { checkMapExpansion } from '../../services/mapUtils';
+import { GameState } from '../../types';
+import { expandMapAt } from '../../services/routeUtils';
 
 interface UseMapExpansionProps {
     stateRef: MutableRefObject<GameState>;
@@ -19,9 +19,7 @@ export const useMapExpansion = ({ stateRef, updateState }: UseMapExpansionProps)
         const targetX = targetLoc?.coordinates.x || 0;
         const targetY = targetLoc?.coordinates.y || 0;
         
-        const seed = (Object.values(map.chunks) as MapChunk[])[0]?.seed || Math.random();
-        
-        const newMapState = checkMapExpansion(targetX, targetY, map, seed);
+        const newMapState = expandMapAt(map, targetX, targetY);
         
         if (newMapState !== map) {
             updateState(prev => ({ ...prev, map: newMapState }));
@@ -6,6 +6,7 @@ import { getRandomChineseNames } from '../../services/nameService';
 import { defaultAcquireCard, defaultInteractCard, defaultTradeCard } from '../../services/DefaultSettings';
 import { generateRandomFlagAvatar } from '../../assets/imageLibrary';
 import { DEFAULT_AI_CONFIG } from '../../config';
+import { createRandomSource } from '../../services/randomUtils';
 
 interface UsePopulationProps {
     stateRef: MutableRefObject<GameState>;
@@ -41,12 +42,19 @@ export const usePopulation = ({ stateRef, updateState, addLog, checkSession, add
             // Index 3+: Stop
             
             if (attemptIndex > 2) return; 
+
+            let roll = 0;
+            if (attemptIndex > 0) {
+                const rng = createRandomSource(stateRef.current.rng);
+                roll = rng.random();
+                updateState(prev => ({ ...prev, rng: rng.state() }));
+            }
             
-            if (attemptIndex === 1 && Math.random() > 0.7) {
+            if (attemptIndex === 1 && roll > 0.7) {
                 addLog("系统: (后台) 似乎没有发现更多人。");
                 return;
             }
-            if (attemptIndex === 2 && Math.random() > 0.3) {
+            if (attemptIndex === 2 && roll > 0.3) {
                 addLog("系统: (后台) 探索结束。");
                 return;
             }
@@ -5,7 +5,11 @@ import { determineCharacterAction, generateUnveil, normalizeCard } from '../serv
 import { DEFAULT_AI_CONFIG } from '../config';
 import { PendingAction } from './useEngine';
 import { advanceWorldTime, parseTimeDelta } from '../services/timeUtils';
+import { findRoute, getTraversalAbilities } from '../services/routeUtils';
+import { hasCharacterSeen } from '../services/fogUtils';
 import { getAttr, getCP, removeInstances } from '../services/attributeUtils';
+import { emitTriggerEvent } from '../services/triggerActionUtils';
+import { createRandomSource } from '../services/randomUtils';
 import { useLotterySystem } from './actions/useLotterySystem';
 import { useWorldActions } from './actions/useWorldActions';
 import { useSkillSystem } from './actions/useSkillSystem';
@@ -91,6 +95,7 @@ export const useActionLogic = ({
                 : newTimeStr;
                 
             addLog(`当前故事时间：${formattedTime}，世界状态：${statusStr}`, { type: 'system' });
+            emitTriggerEvent('world_time', { oldValue: oldTimeStr, newValue: newTimeStr });
         }
     };
 
@@ -254,6 +259,8 @@ export const useActionLogic = ({
         if (currentLocation) {
              (Object.values(stateRef.current.map.locations) as MapLocation[]).forEach(loc => {
                  if (loc.id === currentLocation?.id) return;
+                 // Characters only know about places inside the area they have seen
+                 if (!char.id.startsWith('env_') && !hasCharacterSeen(stateRef.current.map, char.id, loc.coordinates)) return;
                  const dist = Math.sqrt((loc.coordinates.x - currentLocation!.coordinates.x)**2 + (loc.coordinates.y - currentLocation!.coordinates.y)**2);
                  if (dist <= 1000) {
                      if (loc.isKnown) nearbyKnown.push(loc);
@@ -431,13 +438,21 @@ export const useActionLogic = ({
                     if (!dest) {
                         const currentPos = freshState.map.charPositions[char.id];
                         if (currentPos) {
+                            // Unknown places within reach by route, not just as the crow flies
+                            const canCross = getTraversalAbilities(freshChar, freshState.cardPool);
                             const candidates: MapLocation[] = [];
                             allLocs.forEach(l => {
-                                if (l.id === currentPos.locationId) return;
+                                if (l.id === currentPos.locationId || l.isKnown) return;
                                 const dist = Math.sqrt((l.coordinates.x - currentPos.x)**2 + (l.coordinates.y - currentPos.y)**2);
-                                if (dist <= 1000 && !l.isKnown) candidates.push(l);
+                                if (dist > 1000) return;
+                                const route = findRoute(freshState.map, currentPos, l.coordinates, { canCross });
+                                if (route && !route.blockedBy && route.distance <= 1000 * 1.5) candidates.push(l);
                             });
-                            if (candidates.length > 0) dest = candidates[Math.floor(Math.random() * candidates.length)];
+                            if (candidates.length > 0) {
+                                const rng = createRandomSource(freshState.rng);
+                                dest = candidates[Math.floor(rng.random() * candidates.length)];
+                                updateState(prev => ({ ...prev, rng: rng.state() }));
+                            }
                         }
                     }
 
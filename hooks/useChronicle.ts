@@ -0,0 +1,84 @@
+import { MutableRefObject, useEffect, useRef } from 'react';
+import { ChronicleEntry, DebugLog, GameState } from '../types';
+import { summarizeChronicle, AIRequestCancelledError } from '../services/aiService';
+import { DEFAULT_CHRONICLE_SETTINGS, findMergeableBlock, formatChronicleRange, formatRoundForChronicle, getUnsummarizedRounds, insertChronicleEntry } from '../services/chronicleUtils';
+
+interface UseChronicleProps {
+    state: GameState;
+    stateRef: MutableRefObject<GameState>;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    addDebugLog: (log: DebugLog) => void;
+}
+
+// Rounds summarized per pass, so enabling the chronicle on a long save catches up gradually
+const MAX_ROUNDS_PER_PASS = 5;
+
+// Background summarizer: when the round advances, summarizes finished rounds into WorldState.chronicle
+// and merges old round summaries into block summaries. Results whose rounds were rolled back meanwhile are discarded.
+export const useChronicle = ({ state, stateRef, updateState, addDebugLog }: UseChronicleProps) => {
+    const isRunning = useRef(false);
+    const enabled = state.appSettings.chronicle?.enabled ?? false;
+
+    useEffect(() => {
+        if (!enabled || isRunning.current) return;
+
+        // Helper: A summary is still valid if all its rounds are still finished rounds of the current history
+        const stillFinished = (s: GameState, endRound: number) =>
+            endRound < s.round.roundNumber && s.world.history.some(e => e.round === endRound);
+
+        const run = async () => {
+            isRunning.current = true;
+            try {
+                const rounds = getUnsummarizedRounds(stateRef.current.world.history, stateRef.current.world.chronicle, stateRef.current.round.roundNumber)
+                    .slice(0, MAX_ROUNDS_PER_PASS);
+
+                for (const round of rounds) {
+                    const s = stateRef.current;
+                    if (!s.appSettings.chronicle?.enabled) return;
+                    const source = formatRoundForChronicle(s.world.history, round);
+                    if (!source) continue;
+                    const text = await summarizeChronicle(source, { startRound: round, endRound: round }, false, s, addDebugLog);
+                    if (!text) continue;
+
+                    const entry: ChronicleEntry = { id: `chr_${round}_${Date.now()}`, startRound: round, endRound: round, level: 0, text, createdAt: Date.now() };
+                    updateState(prev => stillFinished(prev, round)
+                        ? { ...prev, world: { ...prev.world, chronicle: insertChronicleEntry(prev.world.chronicle, entry) } }
+                        : prev
+                    );
+                }
+
+                const s = stateRef.current;
+                const settings = { ...DEFAULT_CHRONICLE_SETTINGS, ...(s.appSettings.chronicle || {}) };
+                const block = findMergeableBlock(s.world.chronicle, s.round.roundNumber, settings);
+                if (block) {
+                    const range = { startRound: block[0].startRound, endRound: block[block.length - 1].endRound };
+                    const source = block.map(e => `[${formatChronicleRange(e)}] ${e.text}`).join('\n');
+                    const text = await summarizeChronicle(source, range, true, s, addDebugLog);
+                    if (text) {
+                        const merged: ChronicleEntry = { id: `chr_${range.startRound}_${range.endRound}_${Date.now()}`, ...range, level: 1, text, createdAt: Date.now() };
+                        const blockIds = block.map(e => e.id);
+                        updateState(prev => {
+                            const chronicle = prev.world.chronicle || [];
+                            // Skip if the block was edited, deleted or rolled back while summarizing
+                            const unchanged = block.every(b => chronicle.some(e => e.id === b.id && e.text === b.text));
+                            if (!unchanged || !stillFinished(prev, range.endRound)) return prev;
+                            return { ...prev, world: { ...prev.world, chronicle: insertChronicleEntry(chronicle, merged, blockIds) } };
+                        });
+                    }
+                }
+            } catch (e: any) {
+                if (e instanceof AIRequestCancelledError) return;
+                addDebugLog({
+                    id: `debug_chronicle_fail_${Date.now()}`,
+                    timestamp: Date.now(),
+                    characterName: "System (Chronicle Failed)",
+                    prompt: `Round ${stateRef.current.round.roundNumber}`,
+                    response: `Error: ${e?.message || e}`
+                });
+            } finally {
+                isRunning.current = false;
+            }
+        };
+        run();
+    }, [state.round.roundNumber, enabled]);
+};
@@ -4,6 +4,14 @@ import { GameState, GamePhase, DebugLog, LogEntry, GameImage } from '../types';
 import { useMapLogic } from './useMapLogic';
 import { useActionLogic } from './useActionLogic';
 import { usePhaseLogic } from './usePhaseLogic';
+import { useUsageTracking } from './useUsageTracking';
+import { useReplayRecorder } from './useReplayRecorder';
+import { useMemoryIndexer } from './useMemoryIndexer';
+import { useChronicle } from './useChronicle';
+import { useTriggerActions } from './useTriggerActions';
+import { useRelationships } from './useRelationships';
+import { setProviderRateLimits, cancelQueuedRequests } from '../services/aiService';
+import { updateExploredAreas } from '../services/fogUtils';
 import { App } from '@capacitor/app';
 import { Capacitor } from '@capacitor/core';
 
@@ -100,6 +108,29 @@ export const useEngine = ({ state, stateRef, updateState, addLog, addDebugLog, r
         }
     };
 
+    // Token usage / cost accounting & budget enforcement
+    useUsageTracking({ stateRef, updateState, addLog });
+
+    // Deterministic record / replay of AI responses
+    useReplayRecorder({ stateRef, updateState, addLog, replayMode: state.appSettings.replayMode || 'off', replayBundleId: state.replayBundle?.createdAt });
+
+    // Embedding index for retrieval memory
+    useMemoryIndexer({ state, stateRef, updateState, addDebugLog });
+
+    // Rolling chronicle summaries of finished rounds
+    useChronicle({ state, stateRef, updateState, addDebugLog });
+
+    // State-changing actions of fired triggers & event-bound triggers
+    useTriggerActions({ state, stateRef, updateState, addLog });
+
+    // Relationship changes reported by character reactions
+    useRelationships({ updateState, addLog });
+
+    // Keep the AI request scheduler in sync with the per-provider limits
+    useEffect(() => {
+        setProviderRateLimits(state.appSettings.providerRateLimits);
+    }, [state.appSettings.providerRateLimits]);
+
     const { exploreLocation, processLocationChange, resetLocation } = useMapLogic({
         stateRef, updateState, addLog, setIsProcessingAI, setProcessingLabel, handleAiFailure, addDebugLog,
         checkSession: () => requestSessionId.current
@@ -128,6 +159,14 @@ export const useEngine = ({ state, stateRef, updateState, addLog, addDebugLog, r
         wrapAiLogic(async () => processLocationChange());
     }, [state.map.activeLocationId]);
 
+    // --- FOG OF WAR: characters discover the area around where they stand ---
+    useEffect(() => {
+        updateState(prev => {
+            const explored = updateExploredAreas(prev.map, prev.characters);
+            return explored === prev.map.explored ? prev : { ...prev, map: { ...prev.map, explored } };
+        });
+    }, [state.map.charPositions]);
+
     // --- CORE FSM LOOP ---
     useEffect(() => {
         if (state.round.isPaused) return;
@@ -176,9 +215,10 @@ export const useEngine = ({ state, stateRef, updateState, addLog, addDebugLog, r
         // 1. Invalidate current AI session
         requestSessionId.current += 1;
         
-        // 2. Dispatch global abort event for Visualizer
+        // 2. Dispatch global abort event for Visualizer & drop requests still waiting in the scheduler
         const event = new CustomEvent('ai_abort_all');
         window.dispatchEvent(event);
+        cancelQueuedRequests();
 
         // 3. Cancel any pending UI requests (like Player Reaction)
         if (cancelReactionRequest) {
@@ -3,6 +3,13 @@ import { useState, useRef, useEffect } from 'react';
 import { GameState, LogEntry } from '../types';
 import { createInitialGameState } from '../services/gameFactory';
 import { advanceWorldTime } from '../services/timeUtils';
+import { createEmptyUsageStats } from '../services/ai/usageUtils';
+import { createRngState } from '../services/randomUtils';
+import { migrateTriggerConditions } from '../services/triggerService';
+import { restoreMapState } from '../services/mapUtils';
+import { ensureRoadNetwork } from '../services/routeUtils';
+import { seedExploredAreas } from '../services/fogUtils';
+import { emitTriggerEvent } from '../services/triggerActionUtils';
 import { useGameUI } from './game/useGameUI';
 import { useGameHistory } from './game/useGameHistory';
 import { useGamePersistence, AUTOSAVE_KEY } from './game/useGamePersistence';
@@ -33,6 +40,7 @@ export const useGame = () => {
                   // Migrations...
                   if (!parsed.prizePools) parsed.prizePools = createInitialGameState().prizePools;
                   if (!parsed.triggers) parsed.triggers = {};
+                  parsed.triggers = Object.fromEntries(Object.entries(parsed.triggers).map(([id, t]: [string, any]) => [id, migrateTriggerConditions(t)]));
                   if (!parsed.charGenConfig) parsed.charGenConfig = parsed.judgeConfig || createInitialGameState().charGenConfig;
                   if (!parsed.charBehaviorConfig) parsed.charBehaviorConfig = parsed.judgeConfig || createInitialGameState().charBehaviorConfig;
                   if (parsed.prizePools) {
@@ -47,6 +55,9 @@ export const useGame = () => {
                   if (parsed.appSettings.storyLogLightMode === undefined) parsed.appSettings.storyLogLightMode = false;
                   if (parsed.round.autoReaction === undefined) parsed.round.autoReaction = false; // Default to Manual
                   if (parsed.round.isWorldTimeFlowPaused === undefined) parsed.round.isWorldTimeFlowPaused = false;
+                  if (!parsed.usageStats) parsed.usageStats = createEmptyUsageStats();
+                  if (!parsed.rng) parsed.rng = createRngState();
+                  parsed.map = seedExploredAreas(restoreMapState(parsed.map));
                   
                   // Migration for Split Memory Dropout
                   // If old key exists, map to reaction setting
@@ -86,6 +97,19 @@ export const useGame = () => {
       setState(next);
   };
 
+  // New games and saves from before roads existed get a road network once on screen,
+  // so the many route searches never run while loading or inside a state updater
+  useEffect(() => {
+      if (state.map.roads) return;
+      const timer = setTimeout(() => {
+          const map = stateRef.current.map;
+          if (map.roads) return;
+          const { roads } = ensureRoadNetwork(map);
+          updateState(prev => prev.map.roads ? prev : { ...prev, map: { ...prev.map, roads } });
+      }, 0);
+      return () => clearTimeout(timer);
+  }, [state.map.roads]);
+
   // --- Initialize Sub-Hooks ---
   const ui = useGameUI();
   const history = useGameHistory(stateRef, updateState, ui.forceClearReactionRequest);
@@ -143,6 +167,7 @@ export const useGame = () => {
                           }
                       }
                   }));
+                  emitTriggerEvent('world_time', { oldValue: currentStr, newValue: newTimeStr });
               }
           }
       }, 15000);
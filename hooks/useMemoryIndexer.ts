@@ -0,0 +1,99 @@
+import { MutableRefObject, useEffect, useRef } from 'react';
+import { CharacterMemoryIndex, DebugLog, GameState, MemoryRecord } from '../types';
+import { AIRequestCancelledError, buildMemoryEpisodes, MAX_EPISODE_CHARS, MemoryEpisode, resolveEmbeddingBackend, splitEpisode, summarizeChronicle } from '../services/aiService';
+
+interface UseMemoryIndexerProps {
+    state: GameState;
+    stateRef: MutableRefObject<GameState>;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    addDebugLog: (log: DebugLog) => void;
+}
+
+// Embeds each character's episodes of every completed round into GameState.memoryIndex (retrieval memory).
+// Runs when the round advances; records newer than the current round (after a rollback) are pruned first.
+// Long episodes are condensed with the chronicle summarizer (background priority), or split into parts.
+export const useMemoryIndexer = ({ state, stateRef, updateState, addDebugLog }: UseMemoryIndexerProps) => {
+    const isIndexing = useRef(false);
+    const settings = state.appSettings.memoryRetrieval;
+    const backendKey = settings?.enabled ? `${settings.backend}|${settings.embeddingConfig?.provider}|${settings.embeddingConfig?.model}` : '';
+
+    useEffect(() => {
+        if (!settings?.enabled || isIndexing.current) return;
+
+        const run = async () => {
+            isIndexing.current = true;
+            try {
+                const s = stateRef.current;
+                const retrieval = s.appSettings.memoryRetrieval;
+                if (!retrieval?.enabled) return;
+                const backend = resolveEmbeddingBackend(retrieval, s.appSettings.apiKeys);
+                const completedRound = s.round.roundNumber - 1;
+
+                const pending: { charId: string, episode: MemoryEpisode }[] = [];
+                const kept: Record<string, MemoryRecord[]> = {};
+                Object.keys(s.characters).forEach(charId => {
+                    const existing = s.memoryIndex?.[charId];
+                    const valid = existing && existing.backend === backend.signature ? existing : undefined;
+                    kept[charId] = (valid?.records || []).filter(r => r.round <= completedRound);
+                    const fromRound = Math.min(valid?.indexedRound ?? 0, completedRound) + 1;
+                    if (fromRound > completedRound) return;
+                    buildMemoryEpisodes(s.world.history, charId, fromRound, completedRound)
+                        .forEach(episode => pending.push({ charId, episode }));
+                });
+
+                const prepared: { charId: string, episode: MemoryEpisode }[] = [];
+                for (const item of pending) {
+                    if (item.episode.text.length <= MAX_EPISODE_CHARS) {
+                        prepared.push(item);
+                        continue;
+                    }
+                    if (retrieval.summarizeEpisodes !== false) {
+                        try {
+                            const range = { startRound: item.episode.round, endRound: item.episode.round };
+                            const summary = await summarizeChronicle(item.episode.text, range, false, s, addDebugLog);
+                            if (summary) {
+                                prepared.push({ ...item, episode: { ...item.episode, text: summary } });
+                                continue;
+                            }
+                        } catch (e) {
+                            if (e instanceof AIRequestCancelledError) throw e;
+                        }
+                    }
+                    splitEpisode(item.episode).forEach(episode => prepared.push({ charId: item.charId, episode }));
+                }
+
+                const vectors = await backend.embed(prepared.map(p => p.episode.text));
+
+                updateState(prev => {
+                    const nextIndex: Record<string, CharacterMemoryIndex> = {};
+                    Object.keys(kept).forEach(charId => {
+                        if (!prev.characters[charId]) return;
+                        nextIndex[charId] = { backend: backend.signature, indexedRound: completedRound, records: [...kept[charId]] };
+                    });
+                    prepared.forEach(({ charId, episode }, i) => {
+                        if (!nextIndex[charId] || !vectors[i]) return;
+                        nextIndex[charId].records.push({
+                            id: `mem_${charId}_${episode.round}${episode.part ? `_${episode.part}` : ''}`,
+                            round: episode.round,
+                            locationId: episode.locationId,
+                            text: episode.text,
+                            vector: vectors[i]
+                        });
+                    });
+                    return { ...prev, memoryIndex: nextIndex };
+                });
+            } catch (e: any) {
+                addDebugLog({
+                    id: `debug_memory_index_${Date.now()}`,
+                    timestamp: Date.now(),
+                    characterName: "System (Memory Index)",
+                    prompt: `Embedding backend: ${stateRef.current.appSettings.memoryRetrieval?.backend}`,
+                    response: `Error: ${e?.message || e}`
+                });
+            } finally {
+                isIndexing.current = false;
+            }
+        };
+        run();
+    }, [state.round.roundNumber, backendKey]);
+};
@@ -3,6 +3,13 @@ import { MutableRefObject } from 'react';
 import { GameState, GamePhase, DebugLog, AttributeType, AttributeVisibility, Character, LogEntry, Trigger, Card, Conflict, Drive } from '../types';
 import { analyzeSettlement } from '../services/aiService';
 import { DEFAULT_AI_CONFIG } from '../config';
+import { createRandomSource } from '../services/randomUtils';
+import { EmittedTriggerEvent, emitTriggerEvent } from '../services/triggerActionUtils';
+import { applyRelationshipChanges, parseRelationshipChanges } from '../services/relationshipUtils';
+import { applyReputationChange } from '../services/factionUtils';
+import { advanceQuests, getQuestJudgeChecks } from '../services/questUtils';
+import { getLocationBiome, getWeatherTable } from '../services/mapUtils';
+import { advanceJourney, expandForNextLeg } from '../services/journeyUtils';
 
 interface UsePhaseLogicProps {
     stateRef: MutableRefObject<GameState>;
@@ -112,6 +119,7 @@ export const usePhaseLogic = ({
         const normalChars = aliveChars.filter(c => !c.id.startsWith('env_'));
 
         let finalOrder: string[] = [];
+        const rng = createRandomSource(currentState.rng);
 
         // --- NEW: Active Attribute Weighted Selection ---
         if (!currentState.round.isHiddenRound) {
@@ -131,7 +139,7 @@ export const usePhaseLogic = ({
                     if (pool.length === 0) break;
                     
                     const totalWeight = pool.reduce((sum, c) => sum + Math.max(1, getAttrVal(c, '活跃') + 2), 0);
-                    let r = Math.random() * totalWeight;
+                    let r = rng.random() * totalWeight;
                     
                     for (let j = 0; j < pool.length; j++) {
                         const w = Math.max(1, getAttrVal(pool[j], '活跃') + 2);
@@ -154,7 +162,7 @@ export const usePhaseLogic = ({
                     for (let i = 1; i < candidates.length; i++) {
                         const active = getAttrVal(candidates[i], '活跃');
                         const chance = (active + 2) / 100;
-                        if (Math.random() < chance) {
+                        if (rng.random() < chance) {
                             selectedNPCs.push(candidates[i]);
                         }
                     }
@@ -177,7 +185,7 @@ export const usePhaseLogic = ({
             
             finalOrder = participants.map(c => c.id);
             
-            if (envChars.length > 0 && Math.random() < envChance) {
+            if (envChars.length > 0 && rng.random() < envChance) {
                 // Usually just one env char per location, add it at the end
                 finalOrder.push(envChars[0].id);
             }
@@ -201,6 +209,7 @@ export const usePhaseLogic = ({
         updateState(prev => {
             return {
                 ...prev,
+                rng: rng.state(),
                 round: { 
                     ...prev.round, 
                     currentOrder: finalOrder, 
@@ -273,6 +282,27 @@ export const usePhaseLogic = ({
         const apRecovery = 5; 
         const nextRoundNumber = snapshotState.round.roundNumber + 1;
 
+        // --- JOURNEY: advance one leg per round ---
+        let journeyEncounter = false;
+        if (snapshotState.map.journey) {
+            let journeyLogs: string[] = [];
+            let journeyEvents: EmittedTriggerEvent[] = [];
+            const currentMap = stateRef.current.map;
+            const expandedMap = expandForNextLeg(currentMap);
+            if (expandedMap !== currentMap) updateState(prev => ({ ...prev, map: expandedMap }));
+            updateState(prev => {
+                if (!prev.map.journey) return prev;
+                const rng = createRandomSource(prev.rng);
+                const result = advanceJourney(prev, rng);
+                journeyLogs = result.logs;
+                journeyEvents = result.events;
+                journeyEncounter = !!result.encounter;
+                return { ...result.state, rng: rng.state() };
+            });
+            journeyLogs.forEach(l => addLog(l, { type: 'system' }));
+            journeyEvents.forEach(e => emitTriggerEvent(e.event, e.payload));
+        }
+
         // --- HIDDEN ROUND TRIGGER CHECK ---
         const locationId = snapshotState.map.activeLocationId;
         let triggerHiddenRound = false;
@@ -287,6 +317,10 @@ export const usePhaseLogic = ({
                 triggerHiddenRound = true;
             }
         }
+        // Requested by a trigger action
+        if (snapshotState.round.pendingHiddenRound) triggerHiddenRound = true;
+        // Travel encounters play out as a short hidden round with the journey's environment character
+        if (journeyEncounter) triggerHiddenRound = true;
 
         // Prepare Logs
         const ts = Date.now();
@@ -310,19 +344,21 @@ export const usePhaseLogic = ({
                 isPaused: triggerHiddenRound ? false : !shouldContinue, // FORCE continue if hidden round
                 autoAdvanceCount: nextAutoCount,
                 actionPoints: snapshotState.round.actionPoints + apRecovery,
-                isHiddenRound: triggerHiddenRound // Set flag for next round
+                isHiddenRound: triggerHiddenRound, // Set flag for next round
+                pendingHiddenRound: false
             }
         });
 
         // Immediate State Update: Advance Round, Recover AP, Weather RNG
         updateState(prev => {
             let worldAttrsUpdate = { ...prev.world.attributes };
+            const rng = createRandomSource(prev.rng);
 
-            if (Math.random() < (prev.defaultSettings.weatherChangeProbability || 0.1)) {
-                const weatherConfig = prev.defaultSettings.weatherConfig;
+            if (rng.random() < (prev.defaultSettings.weatherChangeProbability || 0.1)) {
+                const weatherConfig = getWeatherTable(prev.defaultSettings, getLocationBiome(prev.map, prev.map.activeLocationId));
                 if (weatherConfig.length > 0) {
                     const totalW = weatherConfig.reduce((a, b) => a + b.weight, 0);
-                    let r = Math.random() * totalW;
+                    let r = rng.random() * totalW;
                     let newStatus = weatherConfig[0].name;
                     for (const w of weatherConfig) {
                         if (r < w.weight) { newStatus = w.name; break; }
@@ -340,6 +376,7 @@ export const usePhaseLogic = ({
 
             return {
                 ...prev,
+                rng: rng.state(),
                 world: {
                     ...prev.world,
                     attributes: worldAttrsUpdate,
@@ -355,7 +392,8 @@ export const usePhaseLogic = ({
                     isPaused: triggerHiddenRound ? false : !shouldContinue, // Ensure continuity for Hidden Round
                     autoAdvanceCount: nextAutoCount,
                     actionPoints: prev.round.actionPoints + apRecovery,
-                    isHiddenRound: triggerHiddenRound
+                    isHiddenRound: triggerHiddenRound,
+                    pendingHiddenRound: false
                 }
             };
         });
@@ -381,9 +419,14 @@ export const usePhaseLogic = ({
                     });
                 });
 
-                // Call AI
+                const questChecks = getQuestJudgeChecks(snapshotState, participants);
+
+                // Call AI. Relationship changes come along with any judged round; rounds with nothing
+                // else to judge only analyze relationships when the setting asks for it (one extra call per round)
                 let settlementResult = null;
-                if (activeConflicts.length > 0 || activeDrives.length > 0) {
+                const hasQuestChecks = questChecks.objectives.length > 0 || questChecks.failures.length > 0;
+                const analyzeRelationships = !!snapshotState.defaultSettings.gameplay.analyzeRelationshipsEachRound && participants.length > 1;
+                if (activeConflicts.length > 0 || activeDrives.length > 0 || hasQuestChecks || analyzeRelationships) {
                     settlementResult = await analyzeSettlement(
                         snapshotState.judgeConfig || DEFAULT_AI_CONFIG,
                         snapshotState.world.history,
@@ -396,7 +439,9 @@ export const usePhaseLogic = ({
                         addDebugLog,
                         snapshotState, 
                         undefined, 
-                        undefined
+                        undefined,
+                        participants,
+                        questChecks
                     );
                 }
 
@@ -405,6 +450,12 @@ export const usePhaseLogic = ({
                 if (settlementResult) {
                     const solvedIds = settlementResult.solvedConflictIds || [];
                     const fulfilledDriveIds = settlementResult.fulfilledDriveIds || [];
+                    const newlySolved: { charId: string, conflictId: string }[] = [];
+                    (Object.values(snapshotState.characters) as Character[]).forEach(c => {
+                        (c.conflicts || []).forEach(conf => {
+                            if (solvedIds.includes(conf.id) && !conf.solved) newlySolved.push({ charId: c.id, conflictId: conf.id });
+                        });
+                    });
                     
                     updateState((prev: GameState) => {
                         const nextChars = { ...prev.characters };
@@ -485,8 +536,50 @@ export const usePhaseLogic = ({
 
                     if (solvedIds.length > 0) addLog(`系统: (第${snapshotState.round.roundNumber}轮结算) ${solvedIds.length} 个矛盾已解决。`);
                     if (fulfilledDriveIds.length > 0) addLog(`系统: (第${snapshotState.round.roundNumber}轮结算) ${fulfilledDriveIds.length} 个欲望已满足。`);
+                    newlySolved.forEach(({ charId, conflictId }) => emitTriggerEvent('conflict_solved', { charId, conflictId, round: snapshotState.round.roundNumber }));
+
+                    // Conflicts tied to a faction change the solver's reputation with it
+                    newlySolved.forEach(({ charId, conflictId }) => {
+                        const conflict = snapshotState.characters[charId]?.conflicts?.find((c: Conflict) => c.id === conflictId);
+                        if (!conflict?.factionId || !conflict.reputationReward) return;
+                        let repLogs: string[] = [];
+                        updateState((prev: GameState) => {
+                            const result = applyReputationChange(prev, charId, conflict.factionId!, conflict.reputationReward!);
+                            repLogs = result.log ? [result.log] : [];
+                            return result.state;
+                        });
+                        repLogs.forEach(log => addLog(`系统: (第${snapshotState.round.roundNumber}轮结算) 声望变化: ${log}`));
+                    });
+
+                    // Relationship shifts between participants only
+                    const relationshipChanges = parseRelationshipChanges(settlementResult.relationshipChanges, participants)
+                        .filter(c => participantsIds.includes(c.fromId) && participantsIds.includes(c.toId));
+                    if (relationshipChanges.length > 0) {
+                        let relationLogs: string[] = [];
+                        updateState((prev: GameState) => {
+                            const result = applyRelationshipChanges(prev, relationshipChanges);
+                            relationLogs = result.logs;
+                            return result.state;
+                        });
+                        relationLogs.forEach(log => addLog(`系统: (第${snapshotState.round.roundNumber}轮结算) 关系变化: ${log}`));
+                    }
                 }
 
+                // Quests advance every settlement: state criteria, deadlines and whatever the AI judged above
+                let questLogs: string[] = [];
+                let questEvents: EmittedTriggerEvent[] = [];
+                updateState((prev: GameState) => {
+                    const result = advanceQuests(prev, {
+                        completedObjectiveIds: settlementResult?.completedObjectiveIds,
+                        failedQuestIds: settlementResult?.failedQuestIds
+                    }, snapshotState.round.roundNumber);
+                    questLogs = result.logs;
+                    questEvents = result.events;
+                    return result.state;
+                });
+                questLogs.forEach(log => addLog(`系统: (第${snapshotState.round.roundNumber}轮结算) 任务: ${log}`));
+                questEvents.forEach(e => emitTriggerEvent(e.event, e.payload));
+
             } catch (e: any) {
                 console.error("Background Settlement Failed", e);
                 if (checkSession() === startSession) {
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { GameState, LogEntry } from '../types';
+import { applyRelationshipChanges, EmittedRelationshipChanges, RELATIONSHIP_CHANGES_EVENT } from '../services/relationshipUtils';
+
+interface UseRelationshipsProps {
+    updateState: (updater: (current: GameState) => GameState) => void;
+    addLog: (text: string, overrides?: Partial<LogEntry>) => void;
+}
+
+// Applies relationship changes reported by AI features (character reactions) and logs them as system entries.
+export const useRelationships = ({ updateState, addLog }: UseRelationshipsProps) => {
+    useEffect(() => {
+        const handleChanges = (e: Event) => {
+            const detail = (e as CustomEvent<EmittedRelationshipChanges>).detail;
+            if (!detail) return;
+            let logs: string[] = [];
+            updateState(prev => {
+                const result = applyRelationshipChanges(prev, detail.changes);
+                logs = result.logs;
+                return result.state;
+            });
+            logs.forEach(log => addLog(`> 关系变化 (${detail.source}): ${log}`, { type: 'system' }));
+        };
+
+        window.addEventListener(RELATIONSHIP_CHANGES_EVENT, handleChanges);
+        return () => window.removeEventListener(RELATIONSHIP_CHANGES_EVENT, handleChanges);
+    }, []);
+};
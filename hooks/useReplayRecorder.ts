@@ -0,0 +1,65 @@
+import { MutableRefObject, useEffect, useRef } from 'react';
+import { GameState, LogEntry, ReplayEntry, ReplayMode } from '../types';
+import { configureReplay, createReplayBundle } from '../services/aiService';
+
+interface UseReplayRecorderProps {
+    stateRef: MutableRefObject<GameState>;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    addLog: (text: string, overrides?: Partial<LogEntry>) => void;
+    replayMode: ReplayMode;
+    replayBundleId?: number; // createdAt of the current bundle; changes when a bundle is imported, loaded or cleared
+}
+
+// Keeps the AI layer's record / replay mode in sync with the settings and collects
+// 'ai_replay_record' events (dispatched by the unified client) into GameState.replayBundle.
+export const useReplayRecorder = ({ stateRef, updateState, addLog, replayMode, replayBundleId }: UseReplayRecorderProps) => {
+    const prevMode = useRef<ReplayMode | null>(null);
+    const prevBundleId = useRef<number | undefined | null>(null);
+
+    useEffect(() => {
+        const isSwitch = prevMode.current !== null && prevMode.current !== replayMode;
+        const isNewBundle = prevBundleId.current !== null && prevBundleId.current !== replayBundleId;
+        prevMode.current = replayMode;
+        prevBundleId.current = replayBundleId;
+        const s = stateRef.current;
+
+        if (replayMode === 'record') {
+            // Loading a save that was recording keeps appending to its bundle; switching into record starts fresh
+            if (isSwitch || !s.replayBundle) {
+                const bundle = createReplayBundle(s.round.roundNumber, s.rng);
+                updateState(prev => ({ ...prev, replayBundle: bundle }));
+                if (isSwitch) addLog(`系统: 开始录制 AI 响应 (第 ${s.round.roundNumber} 轮起)。`);
+            }
+            configureReplay('record');
+        } else if (replayMode === 'replay') {
+            const bundle = s.replayBundle;
+            if (!bundle || bundle.entries.length === 0) {
+                configureReplay('off');
+                if (isSwitch || isNewBundle) addLog(`系统: 没有可回放的录制数据，回放模式未生效。`);
+                return;
+            }
+            configureReplay('replay', bundle);
+            // Rewind the RNG to where recording began so local randomness matches the recorded run
+            if (isSwitch || isNewBundle) {
+                updateState(prev => ({ ...prev, rng: bundle.startRng || prev.rng }));
+                addLog(`系统: 回放模式已启用，共 ${bundle.entries.length} 条录制响应 (录制自第 ${bundle.startRound} 轮)。`);
+            }
+        } else {
+            configureReplay('off');
+        }
+    }, [replayMode, replayBundleId]);
+
+    useEffect(() => {
+        const handleRecord = (e: Event) => {
+            const entry = (e as CustomEvent<ReplayEntry>).detail;
+            if (!entry) return;
+            updateState(prev => {
+                const bundle = prev.replayBundle || createReplayBundle(prev.round.roundNumber, prev.rng);
+                return { ...prev, replayBundle: { ...bundle, entries: [...bundle.entries, entry] } };
+            });
+        };
+
+        window.addEventListener('ai_replay_record', handleRecord);
+        return () => window.removeEventListener('ai_replay_record', handleRecord);
+    }, []);
+};
@@ -0,0 +1,80 @@
+import { MutableRefObject, useEffect, useRef } from 'react';
+import { GameState, LogEntry, Trigger } from '../types';
+import { evaluateTriggerEvent } from '../services/triggerService';
+import { applyTriggerAction, emitTriggerEvent, EmittedTriggerEvent, FiredTriggerActions, TRIGGER_ACTIONS_EVENT, TRIGGER_ENGINE_EVENT } from '../services/triggerActionUtils';
+
+interface UseTriggerActionsProps {
+    state: GameState;
+    stateRef: MutableRefObject<GameState>;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    addLog: (text: string, overrides?: Partial<LogEntry>) => void;
+}
+
+// Events raised while handling an event (e.g. an action changing an attribute) nest; deeper chains are dropped
+const MAX_EVENT_DEPTH = 4;
+
+// Applies the state-changing actions of fired triggers, in order, and logs each of them to the story.
+// Also evaluates event-bound triggers for engine events (round changes are detected here).
+export const useTriggerActions = ({ state, stateRef, updateState, addLog }: UseTriggerActionsProps) => {
+    const eventDepth = useRef(0);
+    const lastRound = useRef(state.round.roundNumber);
+
+    const handleTriggerUpdate = (id: string, updates: Partial<Trigger>) => {
+        updateState(prev => ({
+            ...prev,
+            triggers: {
+                ...prev.triggers,
+                [id]: { ...prev.triggers[id], ...updates }
+            }
+        }));
+    };
+
+    useEffect(() => {
+        const handleFired = (e: Event) => {
+            const batch = (e as CustomEvent<FiredTriggerActions>).detail;
+            if (!batch) return;
+            const ctx = { triggerName: batch.triggerName, contextCharId: batch.contextCharId, values: batch.values };
+
+            batch.actions.forEach(action => {
+                let logs: string[] = [];
+                let events: EmittedTriggerEvent[] = [];
+                updateState(prev => {
+                    const result = applyTriggerAction(prev, action, ctx);
+                    logs = result.logs;
+                    events = result.events || [];
+                    return result.state;
+                });
+                logs.forEach(log => addLog(log, { type: 'system' }));
+                events.forEach(ev => emitTriggerEvent(ev.event, ev.payload));
+            });
+        };
+
+        const handleEngineEvent = (e: Event) => {
+            const detail = (e as CustomEvent<EmittedTriggerEvent>).detail;
+            if (!detail || eventDepth.current >= MAX_EVENT_DEPTH) return;
+            eventDepth.current++;
+            try {
+                const { logs } = evaluateTriggerEvent(stateRef.current, detail.event, detail.payload, handleTriggerUpdate);
+                logs.forEach(log => addLog(log, { type: 'system' }));
+            } finally {
+                eventDepth.current--;
+            }
+        };
+
+        window.addEventListener(TRIGGER_ACTIONS_EVENT, handleFired);
+        window.addEventListener(TRIGGER_ENGINE_EVENT, handleEngineEvent);
+        return () => {
+            window.removeEventListener(TRIGGER_ACTIONS_EVENT, handleFired);
+            window.removeEventListener(TRIGGER_ENGINE_EVENT, handleEngineEvent);
+        };
+    }, []);
+
+    // Round boundaries: only a normal advance by one round counts (not loads or rollbacks)
+    useEffect(() => {
+        const prevRound = lastRound.current;
+        lastRound.current = state.round.roundNumber;
+        if (state.round.roundNumber !== prevRound + 1) return;
+        emitTriggerEvent('round_end', { round: prevRound });
+        emitTriggerEvent('round_start', { round: state.round.roundNumber });
+    }, [state.round.roundNumber]);
+};
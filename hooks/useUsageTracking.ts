@@ -0,0 +1,46 @@
+import { MutableRefObject, useEffect } from 'react';
+import { AIUsageRecord, GameState, LogEntry } from '../types';
+import { accumulateUsage, DEFAULT_MODEL_COSTS, isBudgetExceeded } from '../services/ai/usageUtils';
+
+interface UseUsageTrackingProps {
+    stateRef: MutableRefObject<GameState>;
+    updateState: (updater: (current: GameState) => GameState) => void;
+    addLog: (text: string, overrides?: Partial<LogEntry>) => void;
+}
+
+// Aggregates 'ai_usage_update' events (dispatched by the unified client) into GameState.usageStats
+// and enforces the per-session budget.
+export const useUsageTracking = ({ stateRef, updateState, addLog }: UseUsageTrackingProps) => {
+
+    useEffect(() => {
+        const handleUsage = (e: Event) => {
+            const record = (e as CustomEvent<AIUsageRecord>).detail;
+            if (!record || !record.usage) return;
+
+            const s = stateRef.current;
+            const costTable = { ...DEFAULT_MODEL_COSTS, ...(s.appSettings.modelCosts || {}) };
+            const nextStats = accumulateUsage(s.usageStats, record, s.round.roundNumber, costTable);
+            const budget = s.appSettings.usageBudget;
+            const justExceeded = !nextStats.budgetExceeded && isBudgetExceeded(nextStats, budget);
+
+            updateState(prev => ({
+                ...prev,
+                usageStats: { ...nextStats, budgetExceeded: nextStats.budgetExceeded || justExceeded },
+                round: justExceeded && budget?.onExceed === 'pause'
+                    ? { ...prev.round, isPaused: true, autoAdvance: false }
+                    : prev.round
+            }));
+
+            if (justExceeded) {
+                const spent = `${(nextStats.total.promptTokens + nextStats.total.completionTokens).toLocaleString()} tokens / $${nextStats.total.cost.toFixed(4)}`;
+                addLog(budget?.onExceed === 'pause'
+                    ? `系统: 已达到本次会话的 AI 用量预算 (${spent})，流程已自动暂停。可在开发者设置中调整预算或重置统计。`
+                    : `系统: 警告，已达到本次会话的 AI 用量预算 (${spent})。`
+                );
+            }
+        };
+
+        window.addEventListener('ai_usage_update', handleUsage);
+        return () => window.removeEventListener('ai_usage_update', handleUsage);
+    }, []);
+};
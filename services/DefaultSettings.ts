@@ -4,7 +4,7 @@
 * ... (No changes to comments) ...
 */
 
-import { DefaultSettings, AttributeType, AttributeVisibility, Character, Card, MapLocation, TerrainType } from "../types";
+import { DefaultSettings, AttributeType, AttributeVisibility, Character, Card, MapLocation, TerrainType, BiomeType } from "../types";
 
 const defaultAcquireCard: Card = {
     id: "card_acquire_default",
@@ -313,6 +313,12 @@ const PROMPTS = {
     [宏观认知]
     {{KNOWN_REGIONS}}
 
+    [势力与声望]
+    {{FACTION_CONTEXT}}
+
+    [任务 (Quests)]
+    {{QUEST_CONTEXT}}
+
     [在场角色]
     以下是在场角色，如果角色不在场，将无法进行沟通或互动。
     {{OTHERS_CONTEXT}}
@@ -585,8 +591,10 @@ const PROMPTS = {
       "规避内容": "列举需要规避的重复内容",
       "当前角色": "主要角色/环境",
       "时间影响": "..."
-      "speech": "在规避重复风险的情况下以第三人称详细创作仅主角在触发事件下的反应"
+      "speech": "在规避重复风险的情况下以第三人称详细创作仅主角在触发事件下的反应",
+      "relationshipChanges": [{ "targetName": "在场角色名", "affinity": 0, "trust": 0, "addTags": [], "removeTags": [] }]
     }
+    - relationshipChanges (可选): 仅当触发事件明显改变了主角对某位在场角色的看法时填写。affinity/trust 为好感/信任的变化量 (-20 ~ 20)，addTags/removeTags 为关系标签 (如 恋人、宿敌)。没有变化时输出空数组。
 </user>
   
   `,
@@ -603,6 +611,7 @@ const PROMPTS = {
     [区域上下文]
     {{REGION_CONTEXT_INSTRUCTION}}
     {{REGION_GEN_INSTRUCTION}}
+    {{FACTION_CONTEXT}}
     
     [地形数据]
     {{REGION_STATS_CONTEXT}}
@@ -624,7 +633,7 @@ const PROMPTS = {
     4. 新区域和新地点的内容都应当在符合世界指导的前提下与近期故事产生显著区别，让世界既有联系也有差异。
     5. 如果 [区域上下文] 中提到了本区域包含的地点名称，且当前生成的地点适合其中之一，**请优先使用已存在的地点名称**。
     6. localItems: 包含 3-5 个物品对象的列表 [{ "name": "...", "description": "..." }]。生成该地点特有或具有纪念意义的无用物品（如：宙斯劈过的石头、某人的遗物、生锈的勋章）。描述中必须声明该物品不可使用。
-    7. 请仔细阅读[地形数据]中的内容，其中包含了当地种类（例如城市、村镇、荒地等），还有周边各个方向上的地形等，在描述地点的时候必须参考地形数据来进行。
+    7. 请仔细阅读[地形数据]中的内容，其中包含了当地种类（例如城市、村镇、荒地等）、生物群系 (biome，如森林、沙漠、沼泽) 与气候 (climate)，还有周边各个方向上的地形和群系变化等，在描述地点的时候必须参考地形数据来进行，植被、动物、建筑材料和居民生活方式都应与群系和气候相符。
     8. chars: 根据[人文定义]和地点氛围，生成 0-3 个关键角色信息。这些信息将被提交给角色生成器。
        - "name": 使用[人类真名列表]或根据种族生成。
        - "description": 100字左右的简要设定（外貌、身份、性格）。
@@ -766,17 +775,32 @@ const PROMPTS = {
     
     [快感驱力列表 (Drives)]
     {{DRIVES_LIST}}
+
+    [参与角色之间的关系 (Relationships)]
+    {{RELATIONSHIPS}}
+
+    [待判定任务目标 (Quest Objectives)]
+    {{QUEST_OBJECTIVES}}
+
+    [任务失败条件 (Quest Fail Conditions)]
+    {{QUEST_FAILURES}}
     
     请判断：
     1. 哪些矛盾 (Conflicts) 在近2轮故事中已经不再持续？ (返回 ID)
     2. 哪些快感驱力 (Drives) 在本轮被满足？ (返回 ID)
-    3. 简要分析理由。
+    3. 本轮故事中，参与角色之间的好感 (affinity) 与信任 (trust) 是否发生了变化？(单次变化 -20 ~ 20，没有变化则不要列出)
+    4. 哪些任务目标在故事中已经明确达成？(返回目标 ID，仅限确实发生的事)
+    5. 哪些任务的失败条件已经成立？(返回任务 ID)
+    6. 简要分析理由。
 
     输出格式 (JSON Only):
     {
         "analysis": "思维链分析...",
         "solvedConflictIds": ["id1", ...],
-        "fulfilledDriveIds": ["id2", ...]
+        "fulfilledDriveIds": ["id2", ...],
+        "completedObjectiveIds": ["目标ID", ...],
+        "failedQuestIds": ["任务ID", ...],
+        "relationshipChanges": [{ "fromId": "角色ID", "toId": "角色ID", "affinity": 0, "trust": 0, "addTags": [], "removeTags": [] }]
     }
 </user>
   `,
@@ -925,6 +949,25 @@ const PROMPTS = {
 JSON 结构示例：
 {{JSON_STRUCTURE_EXAMPLE}}
 </user>
+`,
+    summarizeChronicle: `
+<user>
+    任务：编写编年史 (Chronicle)
+    你是这个世界的史官。请将下面的 {{RANGE}} 的{{SOURCE_TYPE}}压缩成一段编年史摘要，供之后的故事回顾使用。
+
+    要求：
+    1. 只保留对后续剧情有影响的内容：关键行动与结果、人物关系变化、获得或失去的重要物品、地点变化、未解决的冲突与悬念。
+    2. 必须写明相关角色与地点的名称，不要使用"他/她"等指代不清的称呼。
+    3. 忽略系统提示、数值结算等机制性文字。
+    4. 使用客观的第三人称叙述，不要加入原文没有的情节。
+    5. 字数控制在 {{MAX_LENGTH}} 字以内。直接输出摘要正文，不要标题、不要 Markdown。
+
+    [世界指导/导演指令]
+    {{WORLD_GUIDANCE}}
+
+    [原始内容]
+    {{SOURCE}}
+</user>
 `
 };
 
@@ -934,7 +977,8 @@ export const INITIAL_DEFAULT_SETTINGS: DefaultSettings = {
         defaultCreationCost: 50, // Updated from 5 to 50
         defaultInitialAP: 50,
         worldTimeScale: 1, // New Default
-        maxNPCsPerRound: 4 // New: Max NPCs to activate per round (Default 4)
+        maxNPCsPerRound: 4, // New: Max NPCs to activate per round (Default 4)
+        analyzeRelationshipsEachRound: false
     },
     templates: {
         character: defaultCharacterTemplate,
@@ -962,7 +1006,80 @@ export const INITIAL_DEFAULT_SETTINGS: DefaultSettings = {
         { name: "精神错乱", weight: 2 },
         { name: "灵异现象", weight: 2 }
     ],
+    // Used for the biome of the active location; biomes without a table use weatherConfig
+    biomeWeatherConfig: {
+        [BiomeType.OCEAN]: [
+            { name: "晴朗", weight: 40 }, { name: "海风", weight: 40 }, { name: "大雾", weight: 20 },
+            { name: "暴雨", weight: 20 }, { name: "风暴", weight: 10 }, { name: "灵异现象", weight: 2 }
+        ],
+        [BiomeType.BEACH]: [
+            { name: "晴朗", weight: 50 }, { name: "海风", weight: 40 }, { name: "阴沉", weight: 20 },
+            { name: "小雨", weight: 15 }, { name: "风暴", weight: 5 }
+        ],
+        [BiomeType.DESERT]: [
+            { name: "烈日", weight: 60 }, { name: "晴朗", weight: 30 }, { name: "热浪", weight: 20 },
+            { name: "沙尘", weight: 20 }, { name: "沙暴", weight: 8 }, { name: "海市蜃楼", weight: 3 }
+        ],
+        [BiomeType.FOREST]: [
+            { name: "晴朗", weight: 30 }, { name: "阴沉", weight: 30 }, { name: "小雨", weight: 30 },
+            { name: "大雾", weight: 20 }, { name: "雷雨", weight: 15 }, { name: "灵异现象", weight: 3 }
+        ],
+        [BiomeType.SWAMP]: [
+            { name: "闷热", weight: 40 }, { name: "大雾", weight: 35 }, { name: "小雨", weight: 30 },
+            { name: "暴雨", weight: 15 }, { name: "瘴气", weight: 10 }, { name: "灵异现象", weight: 5 }
+        ],
+        [BiomeType.TUNDRA]: [
+            { name: "严寒", weight: 40 }, { name: "阴沉", weight: 30 }, { name: "小雪", weight: 30 },
+            { name: "寒风", weight: 25 }, { name: "暴风雪", weight: 8 }, { name: "极光", weight: 5 }
+        ],
+        [BiomeType.SNOW_MOUNTAIN]: [
+            { name: "严寒", weight: 30 }, { name: "大雪", weight: 30 }, { name: "寒风", weight: 25 },
+            { name: "晴朗", weight: 15 }, { name: "暴风雪", weight: 15 }, { name: "雪崩", weight: 3 }
+        ]
+    },
     weatherChangeProbability: 0.3,
+    // Rolled once per journey leg; a region's own encounter list overrides its biome's table
+    encounterChance: 0.3,
+    biomeEncounterConfig: {
+        [BiomeType.OCEAN]: [
+            { name: "风浪", description: "海面骤起风浪，船只剧烈摇晃，有人或物品可能落水。", weight: 30 },
+            { name: "海上来客", description: "远处驶来一艘不明船只，正朝队伍靠近。", weight: 15 },
+            { name: "漂流物", description: "海面上漂来一只被封好的木箱。", weight: 10 }
+        ],
+        [BiomeType.BEACH]: [
+            { name: "搁浅之物", description: "潮水退去，沙滩上留下了某种奇怪的东西。", weight: 25 },
+            { name: "涨潮", description: "潮水涨得比预想中快，道路正在被淹没。", weight: 20 }
+        ],
+        [BiomeType.GRASSLAND]: [
+            { name: "同路旅人", description: "一名旅人在路边休息，似乎想与队伍结伴同行。", weight: 30 },
+            { name: "拦路者", description: "几个来历不明的人拦住了去路。", weight: 15 },
+            { name: "受惊的兽群", description: "一群受惊的野兽正朝队伍的方向狂奔而来。", weight: 10 }
+        ],
+        [BiomeType.FOREST]: [
+            { name: "迷路", description: "林中小径变得模糊，队伍似乎在原地绕圈。", weight: 25 },
+            { name: "林中野兽", description: "灌木丛中传来低沉的吼声，有什么东西在盯着队伍。", weight: 20 },
+            { name: "废弃营地", description: "路旁有一处刚被匆忙遗弃的营地，篝火尚有余温。", weight: 15 }
+        ],
+        [BiomeType.DESERT]: [
+            { name: "沙暴", description: "地平线上卷起一堵沙墙，正迅速逼近。", weight: 25 },
+            { name: "水源告急", description: "随身携带的水比预计消耗得更快。", weight: 20 },
+            { name: "绿洲幻影", description: "远方似乎出现了一片绿洲，但无法确定是否真实。", weight: 10 }
+        ],
+        [BiomeType.SWAMP]: [
+            { name: "陷入泥沼", description: "有人一脚踩进了松软的泥沼，正在下陷。", weight: 25 },
+            { name: "瘴气", description: "浓重的瘴气弥漫开来，令人头晕目眩。", weight: 20 },
+            { name: "沼泽怪影", description: "水面下有巨大的影子缓缓游过。", weight: 10 }
+        ],
+        [BiomeType.TUNDRA]: [
+            { name: "冰裂", description: "脚下的冰面发出碎裂声。", weight: 20 },
+            { name: "雪原狼群", description: "远处传来狼嚎，狼群正在接近。", weight: 20 }
+        ],
+        [BiomeType.SNOW_MOUNTAIN]: [
+            { name: "雪崩", description: "山坡上方传来闷响，积雪开始滑落。", weight: 20 },
+            { name: "失温", description: "刺骨的寒风让队伍中有人开始失温。", weight: 25 },
+            { name: "山洞避难所", description: "风雪中发现了一个可以避难的山洞，里面似乎有人住过。", weight: 10 }
+        ]
+    },
     initialWorldConfig: {
         startRegionName: "都市边缘",
         startRegionDesc: "远离繁华都市的郊区，人烟稀少的安宁地带。",
@@ -0,0 +1,170 @@
+
+import { AICommand, Card, Character, CommandType, MapLocation, PrizePool } from "../../types";
+import { AIToolCall, AIToolDeclaration } from "./core";
+import { JsonSchema } from "./schemaUtils";
+import { AI_COMMAND_SCHEMA, CARD_SCHEMA } from "./schemas";
+
+// --- Tool / Function-Calling Mode for Character Commands ---
+// Each executable CommandType becomes a declared tool whose parameters are narrowed to what the
+// acting character can actually use right now (own skills, inventory, reachable places, local pools).
+
+export const UNKNOWN_DESTINATION = "附近的未知区域";
+const MOVE_RANGE = 1000; // Same radius the action logic uses for nearby destinations
+const COMMAND_FIELDS = AI_COMMAND_SCHEMA.properties!; // Shared with the JSON command format
+
+export interface CommandToolContext {
+    cardPool: Card[];
+    presentChars: Character[];
+    currentLocation?: MapLocation;
+    allLocations?: Record<string, MapLocation>;
+    prizePools?: Record<string, PrizePool>;
+}
+
+// Helper: enum-restricted string, falling back to a plain string when nothing is available
+const enumOf = (values: string[], description: string): JsonSchema => values.length > 0
+    ? { type: 'string', enum: values, description }
+    : { type: 'string', description };
+
+const getReachableDestinations = (current?: MapLocation, allLocations?: Record<string, MapLocation>): string[] => {
+    if (!current || !allLocations) return [];
+    const known: string[] = [];
+    let hasUnknown = false;
+    (Object.values(allLocations) as MapLocation[]).forEach(loc => {
+        if (loc.id === current.id) return;
+        const dist = Math.sqrt((loc.coordinates.x - current.coordinates.x) ** 2 + (loc.coordinates.y - current.coordinates.y) ** 2);
+        if (dist > MOVE_RANGE) return;
+        if (loc.isKnown) known.push(loc.name);
+        else hasUnknown = true;
+    });
+    return hasUnknown ? [...known, UNKNOWN_DESTINATION] : known;
+};
+
+export const buildCommandTools = (char: Character, ctx: CommandToolContext): AIToolDeclaration[] => {
+    const tools: AIToolDeclaration[] = [];
+
+    const inventoryCards = char.inventory
+        .map(id => ctx.cardPool.find(c => c.id === id))
+        .filter((c): c is Card => !!c);
+    const usableCards = [...char.skills, ...inventoryCards].filter(c => c.triggerType === 'active' || c.triggerType === 'reaction');
+    const targets = [char, ...ctx.presentChars.filter(c => c.id !== char.id)];
+
+    if (usableCards.length > 0) {
+        tools.push({
+            name: 'use_skill',
+            description: `使用 [主动行动 (本轮可用)] 中的技能或物品。可用: ${usableCards.map(c => `${c.id}=${c.name}`).join(', ')}`,
+            parameters: {
+                type: 'object',
+                properties: {
+                    skillId: enumOf(usableCards.map(c => c.id), "技能/物品 ID"),
+                    targetId: enumOf(targets.map(c => c.id), `目标角色 ID: ${targets.map(c => `${c.id}=${c.name}`).join(', ')}`),
+                    effectOverrides: { type: 'object', description: "效果为 AI决定 时必填，键为效果序号 (0,1,...)，值为数值", additionalProperties: { type: ['string', 'number'] } }
+                },
+                required: ['skillId', 'targetId']
+            }
+        });
+    }
+
+    const destinations = getReachableDestinations(ctx.currentLocation, ctx.allLocations);
+    if (destinations.length > 0) {
+        tools.push({
+            name: 'move_to',
+            description: "前往 [可移动目的地] 中的地点。",
+            parameters: {
+                type: 'object',
+                properties: { destinationName: enumOf(destinations, "目的地名称") },
+                required: ['destinationName']
+            }
+        });
+    }
+
+    const localPools = (Object.values(ctx.prizePools || {}) as PrizePool[])
+        .filter(p => ctx.currentLocation && p.locationIds?.includes(ctx.currentLocation.id));
+    if (localPools.length > 0) {
+        tools.push({
+            name: 'lottery',
+            description: `与当前地点的奖池互动 (draw 抽取 / deposit 放入 / peek 查看)。奖池: ${localPools.map(p => `${p.id}=${p.name}`).join(', ')}`,
+            parameters: {
+                type: 'object',
+                properties: {
+                    poolId: enumOf(localPools.map(p => p.id), "奖池 ID"),
+                    action: { type: 'string', enum: ['draw', 'deposit', 'peek'] },
+                    amount: { type: 'integer', description: "draw / peek 的数量" },
+                    cardIds: { type: 'array', items: enumOf(inventoryCards.map(c => c.id), "背包物品 ID"), description: "deposit 时放入的背包物品" },
+                    isHidden: { type: 'boolean' }
+                },
+                required: ['poolId', 'action']
+            }
+        });
+    }
+
+    tools.push({
+        name: 'buy_card',
+        description: "购买公开出售的物品或技能 (需检查描述与价格)。",
+        parameters: {
+            type: 'object',
+            properties: { buyCardId: { type: 'string', description: "要购买的卡牌 ID" } },
+            required: ['buyCardId']
+        }
+    });
+
+    tools.push({
+        name: 'create_card',
+        description: "消耗 CP 创造新能力，必须符合世界观和人设。",
+        parameters: {
+            type: 'object',
+            properties: { createdCard: CARD_SCHEMA },
+            required: ['createdCard']
+        }
+    });
+
+    tools.push({
+        name: 'create_attr',
+        description: `为角色新增属性。目标角色 ID: ${targets.map(c => `${c.id}=${c.name}`).join(', ')}`,
+        parameters: {
+            type: 'object',
+            properties: { createdAttributes: COMMAND_FIELDS.createdAttributes },
+            required: ['createdAttributes']
+        }
+    });
+
+    tools.push({
+        name: 'update_attr',
+        description: "修改自身 (self) 或世界 (world) 的属性值。",
+        parameters: {
+            type: 'object',
+            properties: { attributeUpdates: COMMAND_FIELDS.attributeUpdates },
+            required: ['attributeUpdates']
+        }
+    });
+
+    tools.push({
+        name: 'redeem_card',
+        description: `将目标角色背包中的一张卡牌兑换为新卡牌。角色: ${targets.map(c => `${c.id}=${c.name}`).join(', ')}`,
+        parameters: {
+            type: 'object',
+            properties: {
+                targetCharId: enumOf(targets.map(c => c.id), "目标角色 ID"),
+                oldCardId: { type: 'string', description: "被兑换的背包卡牌 ID" },
+                newCard: CARD_SCHEMA
+            },
+            required: ['targetCharId', 'oldCardId', 'newCard']
+        }
+    });
+
+    return tools;
+};
+
+// Every command has a tool (some only while usable); calls to anything else are dropped
+const TOOL_COMMAND_TYPES: CommandType[] = ['use_skill', 'buy_card', 'create_card', 'create_attr', 'update_attr', 'move_to', 'lottery', 'redeem_card'];
+
+// Converts tool calls (in call order) into the AICommands executed by the action logic; unknown tools are dropped
+export const toolCallsToCommands = (calls: AIToolCall[]): AICommand[] => {
+    return calls
+        .filter(call => TOOL_COMMAND_TYPES.includes(call.name as CommandType))
+        .map(call => ({ ...call.args, type: call.name as CommandType }));
+};
+
+export const TOOL_MODE_INSTRUCTION = `
+
+[指令调用方式 (Tool Calling)]
+本轮可用的 commands 已作为工具 (function) 提供。请按执行顺序调用相应工具来提交指令，JSON 输出中省略 commands 字段，其余字段 (narrative, speech, timePassed 等) 照常输出。`;
@@ -1,20 +1,99 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { AIConfig, Provider } from "../../types";
+import { AIConfig, AIRequestPriority, AIRetryPolicy, AIUsage, AIUsageContext, AIUsageRecord, DebugLog, Provider, ProviderRateLimit } from "../../types";
+import { DEFAULT_PROVIDER_RATE_LIMIT, DEFAULT_RETRY_POLICY, PROVIDER_DEFAULT_MODELS } from "../../config";
 import { stripBase64Prefix } from "../imageUtils";
+import { AIResponseParseError, AISchemaValidationError, JsonSchema, RepairContext, parseJsonResponse, toGeminiSchema, validateJsonSchema } from "./schemaUtils";
+import { dispatchReplayRecord, fingerprintRequest, getReplayMode, takeReplayEntry } from "./replayUtils";
+
+interface GenerateParams {
+    model: string;
+    contents: any[];
+    config?: any; // May carry `responseSchema` (JsonSchema) + `schemaName`, or `tools` (AIToolDeclaration[]), translated per provider
+    signal?: AbortSignal; // Set by the retry layer for per-request timeouts
+    withoutTools?: { contents: any[], config?: any }; // Sent instead of a `tools` request to a hop that can't call tools
+}
+
+// Provider-neutral function declaration (JSON Schema parameters)
+export interface AIToolDeclaration {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface AIToolCall {
+    name: string;
+    args: Record<string, any>;
+}
+
+interface GenerateResult {
+    text: string;
+    usage?: AIUsage;
+    toolCalls?: AIToolCall[]; // In call order; only present when `config.tools` was sent (non-streaming only)
+}
+
+interface EmbedResult {
+    vectors: number[][];
+    usage?: AIUsage;
+}
 
 interface UnifiedClient {
     models: {
-        generateContent: (params: { model: string, contents: any[], config?: any }) => Promise<{ text: string }>,
-        generateContentStream?: (params: { model: string, contents: any[], config?: any }) => Promise<AsyncIterable<{ text?: string }>>
+        generateContent: (params: GenerateParams) => Promise<GenerateResult>,
+        // Stream chunks may carry usage (typically only the final chunk)
+        generateContentStream?: (params: GenerateParams) => Promise<AsyncIterable<{ text?: string, usage?: AIUsage }>>,
+        // `contents` holds the texts to embed; one vector per text, in order
+        embedContent?: (params: GenerateParams) => Promise<EmbedResult>
+    },
+    lastUsage?: AIUsage; // Usage of the most recent completed request on this client
+}
+
+// Error carrying the HTTP status so the retry layer can decide whether to retry
+export class AIRequestError extends Error {
+    status?: number;
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'AIRequestError';
+        this.status = status;
     }
 }
 
+// --- Usage Normalizers ---
+// completionTokens always includes reasoning tokens (OpenAI convention) so cost = prompt * in + completion * out
+
+const normalizeGeminiUsage = (meta: any): AIUsage | undefined => {
+    if (!meta) return undefined;
+    const reasoning = meta.thoughtsTokenCount || 0;
+    const completion = (meta.candidatesTokenCount || 0) + reasoning;
+    const prompt = meta.promptTokenCount || 0;
+    return { promptTokens: prompt, completionTokens: completion, reasoningTokens: reasoning, totalTokens: meta.totalTokenCount || (prompt + completion) };
+};
+
+const normalizeOpenAIUsage = (usage: any): AIUsage | undefined => {
+    if (!usage) return undefined;
+    const prompt = usage.prompt_tokens || 0;
+    const completion = usage.completion_tokens || 0;
+    return {
+        promptTokens: prompt,
+        completionTokens: completion,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || 0,
+        totalTokens: usage.total_tokens || (prompt + completion)
+    };
+};
+
+const normalizeAnthropicUsage = (usage: any): AIUsage | undefined => {
+    if (!usage) return undefined;
+    const prompt = (usage.input_tokens || 0) + (usage.cache_read_input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+    const completion = usage.output_tokens || 0;
+    return { promptTokens: prompt, completionTokens: completion, reasoningTokens: 0, totalTokens: prompt + completion };
+};
+
 // Event Dispatcher Helper - Now Exported
+// Every status update also carries the scheduler's queue snapshot (depth / ETA)
 export const dispatchAIStatus = (id: string, color: 'blue' | 'green' | 'yellow' | 'red' | 'gray') => {
     try {
         const event = new CustomEvent('ai_request_update', { 
-            detail: { id, color } 
+            detail: { id, color, queue: getQueueSnapshot() } 
         });
         window.dispatchEvent(event);
     } catch (e) {
@@ -22,6 +101,15 @@ export const dispatchAIStatus = (id: string, color: 'blue' | 'green' | 'yellow'
     }
 };
 
+// Usage Dispatcher - consumed by useUsageTracking to aggregate token usage / cost
+export const dispatchAIUsage = (record: AIUsageRecord) => {
+    try {
+        window.dispatchEvent(new CustomEvent('ai_usage_update', { detail: record }));
+    } catch (e) {
+        // Ignore errors in non-browser envs
+    }
+};
+
 // Helper to determine if a provider supports JSON mode enforcement
 export const supportsJsonMode = (provider: Provider): boolean => {
     return [
@@ -33,6 +121,89 @@ export const supportsJsonMode = (provider: Provider): boolean => {
     ].includes(provider);
 };
 
+// Providers whose APIs accept a JSON Schema for the response (others rely on prompt + client-side validation)
+export const supportsStructuredOutput = (provider: Provider): boolean => {
+    return [
+        Provider.GEMINI,
+        Provider.OPENAI,
+        Provider.XAI,
+        Provider.CLAUDE
+    ].includes(provider);
+};
+
+// Providers with native function calling (tool mode); others keep commands inside the JSON response
+export const supportsToolCalling = (provider: Provider): boolean => {
+    return [
+        Provider.GEMINI,
+        Provider.OPENAI,
+        Provider.XAI,
+        Provider.OPENROUTER,
+        Provider.CLAUDE
+    ].includes(provider);
+};
+
+const DEFAULT_SCHEMA_NAME = "response";
+
+// Helper: Translate our generic config into Gemini's (responseSchema must be Gemini's OpenAPI subset)
+const buildGeminiConfig = (params: GenerateParams) => {
+    if (!params.config) return params.signal ? { abortSignal: params.signal } : undefined;
+    const { responseSchema, schemaName, tools, ...rest } = params.config;
+    const geminiConfig: any = { ...rest };
+    if (tools && tools.length > 0) {
+        geminiConfig.tools = [{
+            functionDeclarations: (tools as AIToolDeclaration[]).map(t => ({
+                name: t.name,
+                description: t.description,
+                parameters: toGeminiSchema(t.parameters)
+            }))
+        }];
+    }
+    if (responseSchema) {
+        const converted = toGeminiSchema(responseSchema);
+        if (converted) {
+            geminiConfig.responseMimeType = 'application/json';
+            geminiConfig.responseSchema = converted;
+        }
+    }
+    if (params.signal) geminiConfig.abortSignal = params.signal;
+    return geminiConfig;
+};
+
+// Helper: OpenAI-compatible response_format (json_schema where supported, json_object otherwise)
+const buildOpenAIResponseFormat = (provider: Provider, config?: any) => {
+    if (config?.responseSchema && supportsStructuredOutput(provider)) {
+        return {
+            type: "json_schema",
+            // strict mode requires every property to be listed as required; we validate client-side instead
+            json_schema: { name: config.schemaName || DEFAULT_SCHEMA_NAME, schema: config.responseSchema, strict: false }
+        };
+    }
+    if (config?.responseMimeType === 'application/json' || config?.responseSchema) {
+        return { type: "json_object" };
+    }
+    return undefined;
+};
+
+// Helper: OpenAI-compatible tool declarations / parsed tool calls
+const buildOpenAITools = (provider: Provider, config?: any) => {
+    const tools: AIToolDeclaration[] | undefined = config?.tools;
+    if (!tools || tools.length === 0 || !supportsToolCalling(provider)) return undefined;
+    return tools.map(t => ({ type: "function", function: { name: t.name, description: t.description, parameters: t.parameters } }));
+};
+
+const parseOpenAIToolCalls = (toolCalls: any[] | undefined): AIToolCall[] | undefined => {
+    if (!toolCalls || toolCalls.length === 0) return undefined;
+    return toolCalls.map(tc => {
+        let args: Record<string, any> = {};
+        try {
+            args = JSON.parse(tc.function?.arguments || "{}");
+        } catch (e) {
+            console.warn("Malformed tool call arguments:", tc.function?.arguments);
+        }
+        return { name: tc.function?.name || "", args };
+    });
+};
+
 // Helper: Convert Gemini format messages to OpenAI format
 const convertGeminiToOpenAIMessages = (contents: any[]) => {
     return contents.map(c => {
@@ -89,13 +260,135 @@ const convertGeminiToOpenAIMessages = (contents: any[]) => {
     });
 };
 
-export const createClient = (config: AIConfig, apiKeys: Record<string, string>): UnifiedClient => {
+// Helper: Convert Gemini format messages to Anthropic Messages API format
+// System messages are lifted into the top-level `system` field; consecutive same-role turns are merged
+// because the Messages API requires strictly alternating user/assistant turns.
+const convertGeminiToAnthropicMessages = (contents: any[]): { system: string, messages: any[] } => {
+    const systemParts: string[] = [];
+    const messages: any[] = [];
+
+    contents.forEach(c => {
+        if (c.role === 'system') {
+            c.parts.forEach((p: any) => {
+                if (p.text) systemParts.push(p.text);
+            });
+            return;
+        }
+
+        const role = c.role === 'model' ? 'assistant' : 'user';
+        const blocks: any[] = [];
+
+        c.parts.forEach((p: any) => {
+            if (p.text && p.text.trim().length > 0) {
+                blocks.push({ type: "text", text: p.text });
+            } else if (p.inlineData && p.inlineData.data) {
+                blocks.push({
+                    type: "image",
+                    source: {
+                        type: "base64",
+                        media_type: p.inlineData.mimeType || 'image/jpeg',
+                        data: stripBase64Prefix(p.inlineData.data).replace(/[\r\n]+/g, '')
+                    }
+                });
+            }
+        });
+
+        if (blocks.length === 0) return;
+
+        const last = messages[messages.length - 1];
+        if (last && last.role === role) {
+            last.content.push(...blocks);
+        } else {
+            messages.push({ role, content: blocks });
+        }
+    });
+
+    // Conversation must start with a user turn
+    if (messages.length === 0 || messages[0].role !== 'user') {
+        messages.unshift({ role: 'user', content: [{ type: "text", text: "(Start)" }] });
+    }
+
+    return { system: systemParts.join('\n\n'), messages };
+};
+
+// Base URLs for built-in OpenAI compatible providers
+const OPENAI_COMPATIBLE_BASE_URLS: Record<string, string> = {
+    [Provider.XAI]: "https://api.x.ai/v1",
+    [Provider.OPENAI]: "https://api.openai.com/v1",
+    [Provider.OPENROUTER]: "https://openrouter.ai/api/v1",
+    [Provider.VOLCANO]: "https://ark.cn-beijing.volces.com/api/v3"
+};
+
+// Helper: Resolve base URL (Custom endpoints use the user supplied URL)
+const resolveOpenAIBaseURL = (config: AIConfig): string => {
+    if (config.provider === Provider.CUSTOM) {
+        const url = (config.baseUrl || "").trim().replace(/\/+$/, '');
+        if (!url) throw new Error("Custom endpoint has no Base URL configured.");
+        return url;
+    }
+    return OPENAI_COMPATIBLE_BASE_URLS[config.provider] || "https://api.openai.com/v1";
+};
+
+// Helper: Build request headers. Local servers often run without auth, so Authorization is only sent when a key exists.
+const buildOpenAIHeaders = (config: AIConfig, apiKey: string): Record<string, string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    if (config.provider === Provider.CUSTOM && config.customHeaders) {
+        Object.entries(config.customHeaders).forEach(([k, v]) => {
+            if (k.trim()) headers[k.trim()] = v;
+        });
+    }
+    return headers;
+};
+
+// --- Embeddings (provider side) ---
+// Gemini uses embedContent; other providers use the OpenAI compatible `/embeddings` route. Claude has no embedding API.
+const embedWithProvider = async (config: AIConfig, apiKey: string, params: GenerateParams): Promise<EmbedResult> => {
+    const texts = params.contents as string[];
+
+    if (config.provider === Provider.GEMINI) {
+        const ai = new GoogleGenAI({ apiKey });
+        const res = await ai.models.embedContent({
+            model: params.model || "gemini-embedding-001",
+            contents: texts,
+            config: params.signal ? { abortSignal: params.signal } : undefined
+        });
+        return { vectors: (res.embeddings || []).map(e => e.values || []) };
+    }
+
+    if (config.provider === Provider.CLAUDE) {
+        throw new AIRequestError("Claude does not provide an embedding API. Use the local backend or another provider.", 400);
+    }
+
+    const response = await fetch(`${resolveOpenAIBaseURL(config)}/embeddings`, {
+        method: 'POST',
+        headers: buildOpenAIHeaders(config, apiKey),
+        body: JSON.stringify({ model: params.model || "text-embedding-3-small", input: texts }),
+        signal: params.signal
+    });
+
+    if (!response.ok) {
+        const errText = await response.text();
+        throw new AIRequestError(`API Error: ${response.status} ${response.statusText} - ${errText}`, response.status);
+    }
+
+    const data = await response.json();
+    return {
+        vectors: [...(data.data || [])]
+            .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+            .map((d: any) => d.embedding || []),
+        usage: normalizeOpenAIUsage(data.usage)
+    };
+};
+
+const createProviderClient = (config: AIConfig, apiKeys: Record<string, string>): UnifiedClient => {
     const apiKey = config.apiKey || apiKeys[config.provider] || "";
     
     if (config.provider === Provider.GEMINI) {
         const ai = new GoogleGenAI({ apiKey });
         return {
             models: {
+                embedContent: (params) => embedWithProvider(config, apiKey, params),
                 generateContent: async (params) => {
                     // Pre-process contents to strip base64 headers for Gemini
                     const processedContents = params.contents.map(c => ({
@@ -116,9 +409,10 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
                     const res = await ai.models.generateContent({
                         model: params.model,
                         contents: processedContents,
-                        config: params.config
+                        config: buildGeminiConfig(params)
                     });
-                    return { text: res.text || "" };
+                    const toolCalls = res.functionCalls?.map(fc => ({ name: fc.name || "", args: (fc.args || {}) as Record<string, any> }));
+                    return { text: res.text || "", usage: normalizeGeminiUsage(res.usageMetadata), toolCalls: toolCalls?.length ? toolCalls : undefined };
                 },
                 generateContentStream: async (params) => {
                     // Similar preprocessing for stream
@@ -140,33 +434,151 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
                     const res = await ai.models.generateContentStream({
                         model: params.model,
                         contents: processedContents,
-                        config: params.config
+                        config: buildGeminiConfig(params)
                     });
                     
-                    // Convert to async iterable that yields { text }
+                    // Convert to async iterable that yields { text } (usage metadata is cumulative, last one wins)
                     return (async function* () {
                          for await (const chunk of res) {
-                             yield { text: chunk.text };
+                             yield { text: chunk.text, usage: normalizeGeminiUsage(chunk.usageMetadata) };
                          }
                     })();
                 }
             }
         }
     }
+
+    if (config.provider === Provider.CLAUDE) {
+        const baseURL = "https://api.anthropic.com/v1";
+        const headers = {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+            // Required for direct calls from the browser / electron renderer
+            'anthropic-dangerous-direct-browser-access': 'true'
+        };
+
+        const buildPayload = (params: { model: string, contents: any[], config?: any }, stream: boolean) => {
+            const { system, messages } = convertGeminiToAnthropicMessages(params.contents);
+            const bodyPayload: any = {
+                model: params.model,
+                messages: messages,
+                max_tokens: params.config?.maxOutputTokens || config.maxOutputTokens || 4096,
+            };
+            if (system) bodyPayload.system = system;
+            if (config.temperature !== undefined) bodyPayload.temperature = Math.min(config.temperature, 1);
+            if (stream) bodyPayload.stream = true;
+            // Structured output: force a single tool call whose input is the response object
+            const schema: JsonSchema | undefined = params.config?.responseSchema;
+            if (schema) {
+                const toolName = params.config.schemaName || DEFAULT_SCHEMA_NAME;
+                bodyPayload.tools = [{ name: toolName, description: "Submit the final response.", input_schema: schema }];
+                bodyPayload.tool_choice = { type: 'tool', name: toolName };
+            } else if (params.config?.tools?.length) {
+                bodyPayload.tools = (params.config.tools as AIToolDeclaration[]).map(t => ({ name: t.name, description: t.description, input_schema: t.parameters }));
+            }
+            return bodyPayload;
+        };
+
+        return {
+            models: {
+                embedContent: (params) => embedWithProvider(config, apiKey, params),
+                generateContent: async (params) => {
+                    const response = await fetch(`${baseURL}/messages`, {
+                        method: 'POST',
+                        headers,
+                        body: JSON.stringify(buildPayload(params, false)),
+                        signal: params.signal
+                    });
+
+                    if (!response.ok) {
+                        const errText = await response.text();
+                        throw new AIRequestError(`API Error: ${response.status} ${response.statusText} - ${errText}`, response.status);
+                    }
+
+                    const data = await response.json();
+                    const blocks: any[] = data.content || [];
+                    const toolBlocks = blocks.filter(b => b.type === 'tool_use');
+                    const textOf = () => blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+                    if (params.config?.responseSchema) {
+                        return { text: toolBlocks[0] ? JSON.stringify(toolBlocks[0].input ?? {}) : textOf(), usage: normalizeAnthropicUsage(data.usage) };
+                    }
+                    return {
+                        text: textOf(),
+                        usage: normalizeAnthropicUsage(data.usage),
+                        toolCalls: toolBlocks.length > 0 ? toolBlocks.map(b => ({ name: b.name, args: b.input || {} })) : undefined
+                    };
+                },
+                generateContentStream: async (params) => {
+                    const response = await fetch(`${baseURL}/messages`, {
+                        method: 'POST',
+                        headers,
+                        body: JSON.stringify(buildPayload(params, true)),
+                        signal: params.signal
+                    });
+
+                    if (!response.ok) {
+                        const errText = await response.text();
+                        throw new AIRequestError(`API Error: ${response.status} - ${errText}`, response.status);
+                    }
+
+                    if (!response.body) throw new Error("No response body for stream.");
+
+                    const reader = response.body.getReader();
+                    const decoder = new TextDecoder();
+
+                    return (async function* () {
+                        let buffer = "";
+                        let rawUsage: any = {};
+                        try {
+                            while (true) {
+                                const { done, value } = await reader.read();
+                                if (done) break;
+                                buffer += decoder.decode(value, { stream: true });
+
+                                const lines = buffer.split('\n');
+                                buffer = lines.pop() || ""; // Keep incomplete line
+
+                                for (const line of lines) {
+                                    const trimmed = line.trim();
+                                    // Anthropic SSE: "event: xxx" lines are followed by "data: {...}" with a matching type field
+                                    if (!trimmed.startsWith('data: ')) continue;
+                                    try {
+                                        const json = JSON.parse(trimmed.slice(6));
+                                        if (json.type === 'content_block_delta' && json.delta?.type === 'text_delta' && json.delta.text) {
+                                            yield { text: json.delta.text };
+                                        } else if (json.type === 'content_block_delta' && json.delta?.type === 'input_json_delta' && json.delta.partial_json) {
+                                            // Forced tool call: the tool input streams as raw JSON fragments
+                                            yield { text: json.delta.partial_json };
+                                        } else if (json.type === 'message_start' && json.message?.usage) {
+                                            rawUsage = { ...rawUsage, ...json.message.usage };
+                                        } else if (json.type === 'message_delta' && json.usage) {
+                                            rawUsage = { ...rawUsage, ...json.usage };
+                                            yield { usage: normalizeAnthropicUsage(rawUsage) };
+                                        } else if (json.type === 'error') {
+                                            throw new Error(`API Error: ${json.error?.type} - ${json.error?.message}`);
+                                        }
+                                    } catch (e: any) {
+                                        if (e.message?.startsWith('API Error')) throw e;
+                                        // Ignore parsing errors for partial chunks
+                                    }
+                                }
+                            }
+                        } finally {
+                            reader.releaseLock();
+                        }
+                    })();
+                }
+            }
+        }
+    }
     
     // Fallback for OpenAI compatible providers
     return {
         models: {
+            embedContent: (params) => embedWithProvider(config, apiKey, params),
             generateContent: async (params) => {
-                const baseURLs: Record<string, string> = {
-                    [Provider.XAI]: "https://api.x.ai/v1",
-                    [Provider.OPENAI]: "https://api.openai.com/v1",
-                    [Provider.OPENROUTER]: "https://openrouter.ai/api/v1",
-                    [Provider.VOLCANO]: "https://ark.cn-beijing.volces.com/api/v3",
-                    [Provider.CLAUDE]: "https://api.anthropic.com/v1"
-                };
-                
-                const baseURL = baseURLs[config.provider] || "https://api.openai.com/v1";
+                const baseURL = resolveOpenAIBaseURL(config);
                 
                 const messages = convertGeminiToOpenAIMessages(params.contents);
 
@@ -182,37 +594,30 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
                 }
 
                 // Translate internal config to OpenAI compatible response_format
-                if (params.config?.responseMimeType === 'application/json') {
-                    bodyPayload.response_format = { type: "json_object" };
-                }
+                const responseFormat = buildOpenAIResponseFormat(config.provider, params.config);
+                if (responseFormat) bodyPayload.response_format = responseFormat;
+
+                const tools = buildOpenAITools(config.provider, params.config);
+                if (tools) bodyPayload.tools = tools;
 
                 const response = await fetch(`${baseURL}/chat/completions`, {
                     method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${apiKey}`
-                    },
-                    body: JSON.stringify(bodyPayload)
+                    headers: buildOpenAIHeaders(config, apiKey),
+                    body: JSON.stringify(bodyPayload),
+                    signal: params.signal
                 });
                 
                 if (!response.ok) {
                     const errText = await response.text();
-                    throw new Error(`API Error: ${response.status} ${response.statusText} - ${errText}`);
+                    throw new AIRequestError(`API Error: ${response.status} ${response.statusText} - ${errText}`, response.status);
                 }
 
                 const data = await response.json();
-                return { text: data.choices?.[0]?.message?.content || "" };
+                const message = data.choices?.[0]?.message;
+                return { text: message?.content || "", usage: normalizeOpenAIUsage(data.usage), toolCalls: parseOpenAIToolCalls(message?.tool_calls) };
             },
             generateContentStream: async (params) => {
-                const baseURLs: Record<string, string> = {
-                    [Provider.XAI]: "https://api.x.ai/v1",
-                    [Provider.OPENAI]: "https://api.openai.com/v1",
-                    [Provider.OPENROUTER]: "https://openrouter.ai/api/v1",
-                    [Provider.VOLCANO]: "https://ark.cn-beijing.volces.com/api/v3",
-                    [Provider.CLAUDE]: "https://api.anthropic.com/v1"
-                };
-                
-                const baseURL = baseURLs[config.provider] || "https://api.openai.com/v1";
+                const baseURL = resolveOpenAIBaseURL(config);
                 
                 const messages = convertGeminiToOpenAIMessages(params.contents);
 
@@ -223,6 +628,11 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
                     stream: true // Enable Streaming
                 };
 
+                // Ask for a final usage chunk (skipped for custom endpoints, older local servers reject unknown fields)
+                if (config.provider !== Provider.CUSTOM) {
+                    bodyPayload.stream_options = { include_usage: true };
+                }
+
                 // Add Reasoning Effort only if explicitly set and NOT 'minimal'
                 if (config.reasoningEffort && config.reasoningEffort !== 'minimal') {
                      bodyPayload.reasoning_effort = config.reasoningEffort;
@@ -230,22 +640,19 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
 
                 // OpenAI streaming handles json_object mode, but sometimes breaks partial JSONs. 
                 // We typically use text stream for better robustness in this custom implementation.
-                if (params.config?.responseMimeType === 'application/json') {
-                    bodyPayload.response_format = { type: "json_object" };
-                }
+                const responseFormat = buildOpenAIResponseFormat(config.provider, params.config);
+                if (responseFormat) bodyPayload.response_format = responseFormat;
 
                 const response = await fetch(`${baseURL}/chat/completions`, {
                     method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${apiKey}`
-                    },
-                    body: JSON.stringify(bodyPayload)
+                    headers: buildOpenAIHeaders(config, apiKey),
+                    body: JSON.stringify(bodyPayload),
+                    signal: params.signal
                 });
 
                 if (!response.ok) {
                     const errText = await response.text();
-                    throw new Error(`API Error: ${response.status} - ${errText}`);
+                    throw new AIRequestError(`API Error: ${response.status} - ${errText}`, response.status);
                 }
 
                 if (!response.body) throw new Error("No response body for stream.");
@@ -275,6 +682,9 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
                                         if (delta) {
                                             yield { text: delta };
                                         }
+                                        if (json.usage) {
+                                            yield { usage: normalizeOpenAIUsage(json.usage) };
+                                        }
                                     } catch (e) {
                                         // Ignore parsing errors for partial chunks
                                     }
@@ -290,14 +700,485 @@ export const createClient = (config: AIConfig, apiKeys: Record<string, string>):
     }
 }
 
+// --- Request Scheduler ---
+// All provider requests pass through a per-provider lane with a concurrency cap and a sliding
+// requests-per-minute window. Waiting requests are ordered by priority, then arrival.
+
+export interface AIQueueSnapshot {
+    active: number; // Requests in flight
+    queued: number; // Requests waiting for a slot
+    etaMs: number; // Estimated wait for the last queued request
+}
+
+// Thrown in replay mode when the bundle has no (more) responses for a request; the session has diverged
+export class AIReplayMissError extends AIRequestError {
+    fingerprint: string;
+    constructor(fingerprint: string) {
+        super(`No recorded response for request ${fingerprint} (replay diverged from the recording)`);
+        this.name = 'AIReplayMissError';
+        this.fingerprint = fingerprint;
+    }
+}
+
+// Thrown to queued requests when the queue is flushed (e.g. the player stops execution); never retried
+export class AIRequestCancelledError extends AIRequestError {
+    constructor() {
+        super("Request cancelled while waiting in queue");
+        this.name = 'AIRequestCancelledError';
+    }
+}
+
+interface QueuedRequest {
+    priority: AIRequestPriority;
+    start: () => void;
+    cancel: (error: Error) => void;
+}
+
+interface SchedulerLane {
+    active: number;
+    waiting: QueuedRequest[];
+    startedAt: number[]; // Start times within the last minute (RPM window)
+    avgDurationMs: number; // Moving average, used for the ETA
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+const PRIORITY_RANK: Record<AIRequestPriority, number> = { interactive: 0, normal: 1, background: 2 };
+const RPM_WINDOW_MS = 60000;
+const INITIAL_DURATION_ESTIMATE_MS = 8000;
+
+const lanes = new Map<Provider, SchedulerLane>();
+let providerRateLimits: Partial<Record<Provider, ProviderRateLimit>> = {};
+
+const getLane = (provider: Provider): SchedulerLane => {
+    let lane = lanes.get(provider);
+    if (!lane) {
+        lane = { active: 0, waiting: [], startedAt: [], avgDurationMs: INITIAL_DURATION_ESTIMATE_MS };
+        lanes.set(provider, lane);
+    }
+    return lane;
+};
+
+const getRateLimit = (provider: Provider): ProviderRateLimit => ({ ...DEFAULT_PROVIDER_RATE_LIMIT, ...(providerRateLimits[provider] || {}) });
+
+// Milliseconds until the RPM window allows another start (0 = now)
+const getRpmDelay = (lane: SchedulerLane, limit: ProviderRateLimit, now: number): number => {
+    lane.startedAt = lane.startedAt.filter(t => now - t < RPM_WINDOW_MS);
+    if (!limit.requestsPerMinute || lane.startedAt.length < limit.requestsPerMinute) return 0;
+    return lane.startedAt[lane.startedAt.length - limit.requestsPerMinute] + RPM_WINDOW_MS - now;
+};
+
+export const getQueueSnapshot = (): AIQueueSnapshot => {
+    let active = 0;
+    let queued = 0;
+    let etaMs = 0;
+    const now = Date.now();
+    lanes.forEach((lane, provider) => {
+        active += lane.active;
+        queued += lane.waiting.length;
+        if (lane.waiting.length === 0) return;
+        const limit = getRateLimit(provider);
+        const concurrencyEta = Math.ceil(lane.waiting.length / Math.max(1, limit.maxConcurrent)) * lane.avgDurationMs;
+        let rpmEta = 0;
+        if (limit.requestsPerMinute) {
+            const freeInWindow = Math.max(0, limit.requestsPerMinute - lane.startedAt.filter(t => now - t < RPM_WINDOW_MS).length);
+            const overflow = lane.waiting.length - freeInWindow;
+            if (overflow > 0) rpmEta = Math.ceil(overflow / limit.requestsPerMinute) * RPM_WINDOW_MS;
+        }
+        etaMs = Math.max(etaMs, concurrencyEta, rpmEta);
+    });
+    return { active, queued, etaMs };
+};
+
+const dispatchQueueSnapshot = () => {
+    try {
+        window.dispatchEvent(new CustomEvent('ai_request_update', { detail: { queue: getQueueSnapshot() } }));
+    } catch (e) {
+        // Ignore errors in non-browser envs
+    }
+};
+
+const pumpLane = (provider: Provider) => {
+    const lane = getLane(provider);
+    const limit = getRateLimit(provider);
+    if (lane.timer) {
+        clearTimeout(lane.timer);
+        lane.timer = undefined;
+    }
+    while (lane.waiting.length > 0 && lane.active < Math.max(1, limit.maxConcurrent)) {
+        const now = Date.now();
+        const delay = getRpmDelay(lane, limit, now);
+        if (delay > 0) {
+            lane.timer = setTimeout(() => pumpLane(provider), delay);
+            break;
+        }
+        const next = lane.waiting.shift()!;
+        lane.active++;
+        lane.startedAt.push(now);
+        next.start();
+    }
+    dispatchQueueSnapshot();
+};
+
+// Resolves with a release callback once a slot is free; the caller must release exactly once (extra calls are ignored)
+const acquireSlot = (provider: Provider, priority: AIRequestPriority): Promise<() => void> => {
+    return new Promise((resolve, reject) => {
+        const lane = getLane(provider);
+        const request: QueuedRequest = {
+            priority,
+            start: () => {
+                const startedAt = Date.now();
+                let released = false;
+                resolve(() => {
+                    if (released) return;
+                    released = true;
+                    lane.active--;
+                    lane.avgDurationMs = lane.avgDurationMs * 0.7 + (Date.now() - startedAt) * 0.3;
+                    pumpLane(provider);
+                });
+            },
+            cancel: reject
+        };
+        const insertAt = lane.waiting.findIndex(w => PRIORITY_RANK[w.priority] > PRIORITY_RANK[priority]);
+        if (insertAt === -1) lane.waiting.push(request);
+        else lane.waiting.splice(insertAt, 0, request);
+        pumpLane(provider);
+    });
+};
+
+// Applies new per-provider limits (called when settings change); running requests are unaffected
+export const setProviderRateLimits = (limits?: Partial<Record<Provider, ProviderRateLimit>>) => {
+    providerRateLimits = limits || {};
+    lanes.forEach((_, provider) => pumpLane(provider));
+};
+
+// Rejects every request still waiting for a slot (in-flight requests continue)
+export const cancelQueuedRequests = () => {
+    lanes.forEach(lane => {
+        const waiting = lane.waiting;
+        lane.waiting = [];
+        waiting.forEach(w => w.cancel(new AIRequestCancelledError()));
+    });
+    dispatchQueueSnapshot();
+};
+
+// --- Retry Policy & Fallback Chain ---
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeConfig = (config: AIConfig) => `${config.provider}/${config.model || "(default)"}`;
+
+// Network failures and timeouts carry no status and are always considered transient
+const isRetryableError = (e: any, policy: Required<AIRetryPolicy>): boolean => {
+    if (e instanceof AIRequestCancelledError || e instanceof AIReplayMissError) return false;
+    const status = typeof e?.status === 'number' ? e.status : undefined;
+    if (status === undefined) return true;
+    return policy.retryStatuses.includes(status);
+};
+
+// Statuses meaning "this provider can't serve right now" even when not worth retrying on the same provider
+const AVAILABILITY_STATUSES = [402, 529];
+
+// Only outages move on to the next hop; bad requests / auth errors would fail the same way (or worse) elsewhere
+const shouldFallBack = (e: any, policy: Required<AIRetryPolicy>): boolean => {
+    if (isRetryableError(e, policy)) return true;
+    return typeof e?.status === 'number' && AVAILABILITY_STATUSES.includes(e.status);
+};
+
+// Runs a request against one config with retries, exponential backoff and a per-attempt timeout.
+// Each attempt waits for a scheduler slot first (queue time doesn't count towards the timeout).
+// With `holdSlot`, a successful call takes ownership of `release` (used by streams until drained).
+const runWithRetry = async <R>(
+    config: AIConfig,
+    policy: Required<AIRetryPolicy>,
+    priority: AIRequestPriority,
+    call: (signal: AbortSignal | undefined, release: () => void) => Promise<R>,
+    holdSlot: boolean = false
+): Promise<R> => {
+    let lastError: any;
+    for (let attempt = 0; attempt < Math.max(1, policy.maxAttempts); attempt++) {
+        if (attempt > 0) {
+            const delay = Math.min(policy.backoffBaseMs * Math.pow(2, attempt - 1), policy.backoffMaxMs);
+            await sleep(delay);
+        }
+
+        const release = await acquireSlot(config.provider, priority);
+        const controller = policy.timeoutMs > 0 ? new AbortController() : undefined;
+        const timer = controller ? setTimeout(() => controller.abort(), policy.timeoutMs) : undefined;
+        let keepSlot = false;
+        try {
+            const result = await call(controller?.signal, release);
+            keepSlot = holdSlot;
+            return result;
+        } catch (e: any) {
+            lastError = controller?.signal.aborted
+                ? new AIRequestError(`Request timed out after ${policy.timeoutMs}ms`)
+                : e;
+            console.warn(`[${describeConfig(config)}] attempt ${attempt + 1} failed:`, lastError);
+            if (!isRetryableError(lastError, policy)) break;
+        } finally {
+            if (timer) clearTimeout(timer);
+            if (!keepSlot) release();
+        }
+    }
+    throw lastError;
+};
+
+/**
+ * Creates a client for the given config. Requests follow `config.retryPolicy` and, when the primary
+ * provider keeps failing with a transient or availability error, walk through `config.fallbacks` in order.
+ * Each hop is reported via onDebug.
+ * Streams only fall back before the first chunk arrives (the timeout covers connection setup only).
+ * All requests are queued through the scheduler with the given priority.
+ */
+export const createClient = (
+    config: AIConfig,
+    apiKeys: Record<string, string>,
+    onDebug?: (log: DebugLog) => void,
+    usageContext?: AIUsageContext,
+    priority: AIRequestPriority = 'normal'
+): UnifiedClient => {
+    const policy: Required<AIRetryPolicy> = { ...DEFAULT_RETRY_POLICY, ...(config.retryPolicy || {}) } as Required<AIRetryPolicy>;
+
+    // Fallback hops inherit sampling / context settings from the primary config, but never its model name:
+    // a hop without a model uses its provider's default, and is skipped if the provider has none (custom)
+    const chain: AIConfig[] = [
+        config,
+        ...(config.fallbacks || [])
+            .filter(f => f.provider && (f.model || PROVIDER_DEFAULT_MODELS[f.provider]))
+            .map(f => ({
+                ...config,
+                provider: f.provider,
+                model: f.model || PROVIDER_DEFAULT_MODELS[f.provider],
+                // Never leak the primary's key / endpoint to another provider
+                apiKey: f.apiKey,
+                baseUrl: f.baseUrl,
+                customHeaders: f.customHeaders,
+                fallbacks: undefined
+            }))
+    ];
+
+    const clients = chain.map(c => createProviderClient(c, apiKeys));
+
+    const runChain = async <R>(
+        params: GenerateParams,
+        invoke: (client: UnifiedClient, params: GenerateParams, release: () => void) => Promise<R>,
+        holdSlot: boolean = false
+    ): Promise<{ result: R, hop: AIConfig }> => {
+        let lastError: any;
+        for (let i = 0; i < chain.length; i++) {
+            const hopConfig = chain[i];
+            // The primary uses the caller's model; fallbacks always carry their own
+            const model = i === 0 ? params.model : hopConfig.model!;
+            const hopParams = params.withoutTools && params.config?.tools?.length && !supportsToolCalling(hopConfig.provider)
+                ? { ...params, ...params.withoutTools }
+                : params;
+            try {
+                const result = await runWithRetry(hopConfig, policy, priority, (signal, release) => invoke(clients[i], { ...hopParams, model, signal }, release), holdSlot);
+                return { result, hop: { ...hopConfig, model } };
+            } catch (e: any) {
+                if (e instanceof AIRequestCancelledError || !shouldFallBack(e, policy)) throw e;
+                lastError = e;
+                const next = chain[i + 1];
+                if (next && onDebug) {
+                    onDebug({
+                        id: `debug_fallback_${Date.now()}_${i}`,
+                        timestamp: Date.now(),
+                        characterName: "System (AI Fallback)",
+                        prompt: `${describeConfig({ ...hopConfig, model })} -> ${describeConfig(next)}`,
+                        response: `Error: ${e?.message || e}`
+                    });
+                }
+            }
+        }
+        throw lastError;
+    };
+
+    // Record / replay is keyed on the caller's request (primary provider + model), independent of fallback hops
+    const fingerprintOf = (params: GenerateParams) => fingerprintRequest(config.provider, params.model, params.contents, params.config);
+
+    const takeReplay = (params: GenerateParams) => {
+        const fingerprint = fingerprintOf(params);
+        const entry = takeReplayEntry(fingerprint);
+        if (!entry) {
+            if (onDebug) {
+                onDebug({
+                    id: `debug_replay_${Date.now()}`,
+                    timestamp: Date.now(),
+                    characterName: "System (Replay)",
+                    prompt: `${describeConfig({ ...config, model: params.model })} [${usageContext?.feature || 'unknown'}]`,
+                    response: `Error: no recorded response for ${fingerprint}`
+                });
+            }
+            throw new AIReplayMissError(fingerprint);
+        }
+        return entry;
+    };
+
+    const record = (params: GenerateParams, stream: boolean, text: string, chunks?: string[], toolCalls?: AIToolCall[]) => {
+        if (getReplayMode() !== 'record') return;
+        dispatchReplayRecord({
+            fingerprint: fingerprintOf(params),
+            feature: usageContext?.feature,
+            characterId: usageContext?.characterId,
+            stream,
+            text,
+            chunks,
+            toolCalls,
+            timestamp: Date.now()
+        });
+    };
+
+    const unified: UnifiedClient = {
+        models: {
+            generateContent: async (params) => {
+                if (getReplayMode() === 'replay') {
+                    const entry = takeReplay(params);
+                    unified.lastUsage = undefined;
+                    return { text: entry.text, toolCalls: entry.toolCalls };
+                }
+                const { result, hop } = await runChain(params, (client, p) => client.models.generateContent(p));
+                recordUsage(hop, result.usage);
+                record(params, false, result.text, undefined, result.toolCalls);
+                return result;
+            },
+            generateContentStream: async (params) => {
+                if (getReplayMode() === 'replay') {
+                    const entry = takeReplay(params);
+                    unified.lastUsage = undefined;
+                    const chunks = entry.chunks || [entry.text];
+                    return (async function* () {
+                        for (const text of chunks) yield { text };
+                    })();
+                }
+                let releaseSlot = () => {};
+                const { result: stream, hop } = await runChain(params, (client, p, release) => {
+                    releaseSlot = release;
+                    if (client.models.generateContentStream) return client.models.generateContentStream(p);
+                    // Provider without streaming: wrap the full response as a single chunk
+                    return client.models.generateContent(p).then(res => (async function* () { yield { text: res.text, usage: res.usage }; })());
+                }, true);
+                // Pass chunks through, keep the latest usage and record it once the stream is drained.
+                // The scheduler slot is released exactly once: when the stream ends, fails, or the consumer stops.
+                // A plain async generator can't do this: its finally never runs if return() comes before the first next().
+                const source = stream[Symbol.asyncIterator]();
+                const chunks: string[] = [];
+                let usage: AIUsage | undefined;
+                let settled = false;
+                const settle = (drained: boolean) => {
+                    if (settled) return;
+                    settled = true;
+                    releaseSlot();
+                    if (!drained) return;
+                    recordUsage(hop, usage);
+                    record(params, true, chunks.join(''), chunks);
+                };
+                const wrapped: AsyncIterableIterator<{ text?: string, usage?: AIUsage }> = {
+                    [Symbol.asyncIterator]() { return wrapped; },
+                    next: async () => {
+                        if (settled) return { done: true, value: undefined };
+                        try {
+                            const res = await source.next();
+                            if (res.done) {
+                                settle(true);
+                                return res;
+                            }
+                            if (res.value.usage) usage = res.value.usage;
+                            if (res.value.text) chunks.push(res.value.text);
+                            return res;
+                        } catch (e) {
+                            settle(false);
+                            throw e;
+                        }
+                    },
+                    return: async (value?: any) => {
+                        settle(false);
+                        await source.return?.();
+                        return { done: true, value };
+                    },
+                    throw: async (e?: any) => {
+                        settle(false);
+                        await source.return?.();
+                        throw e;
+                    }
+                };
+                return wrapped;
+            },
+            // Vectors are recorded as JSON text so replayed sessions never reach the embedding API
+            embedContent: async (params) => {
+                if (getReplayMode() === 'replay') {
+                    const entry = takeReplay(params);
+                    unified.lastUsage = undefined;
+                    return { vectors: JSON.parse(entry.text) };
+                }
+                const { result, hop } = await runChain(params, (client, p) => client.models.embedContent!(p));
+                recordUsage(hop, result.usage);
+                record(params, false, JSON.stringify(result.vectors));
+                return result;
+            }
+        }
+    };
+
+    const recordUsage = (hop: AIConfig, usage?: AIUsage) => {
+        unified.lastUsage = usage;
+        if (usage) {
+            dispatchAIUsage({
+                provider: hop.provider,
+                model: hop.model || "",
+                usage,
+                feature: usageContext?.feature,
+                characterId: usageContext?.characterId,
+                timestamp: Date.now()
+            });
+        }
+    };
+
+    return unified;
+};
+
+// --- Embeddings ---
+// Returns one vector per input text, in order. Goes through the scheduler, usage tracking and record / replay
+// like any other request. Fallback providers are ignored: vectors from another model aren't comparable.
+export const embedTexts = async (
+    config: AIConfig,
+    apiKeys: Record<string, string>,
+    texts: string[],
+    onDebug?: (log: DebugLog) => void
+): Promise<number[][]> => {
+    if (texts.length === 0) return [];
+    const client = createClient({ ...config, fallbacks: undefined }, apiKeys, onDebug, { feature: 'memoryAI' }, 'background');
+    const result = await client.models.embedContent!({ model: config.model || "", contents: texts });
+    return result.vectors;
+};
+
+// --- Model Discovery (Custom Endpoints) ---
+// Queries the OpenAI compatible `/models` route (llama.cpp, vLLM, Ollama all expose it)
+export const listAvailableModels = async (config: AIConfig, apiKey: string): Promise<string[]> => {
+    const baseURL = resolveOpenAIBaseURL(config);
+    const response = await fetch(`${baseURL}/models`, {
+        method: 'GET',
+        headers: buildOpenAIHeaders(config, apiKey)
+    });
+
+    if (!response.ok) {
+        const errText = await response.text();
+        throw new AIRequestError(`API Error: ${response.status} ${response.statusText} - ${errText}`, response.status);
+    }
+
+    const data = await response.json();
+    const list: any[] = Array.isArray(data) ? data : (data.data || data.models || []);
+    return list
+        .map(m => typeof m === 'string' ? m : (m.id || m.name))
+        .filter((id: any): id is string => typeof id === 'string' && id.length > 0);
+};
+
 // --- Connection Test Utility ---
 export const testModelConnection = async (
     config: AIConfig,
     apiKey: string
 ): Promise<{ success: boolean; response: string; requestDetails: any; latency: number }> => {
     const start = Date.now();
-    // Create a temporary client with the specific key
-    const client = createClient(config, { [config.provider]: apiKey });
+    // Create a temporary client with the specific key (no fallback: test the configured provider itself)
+    const client = createProviderClient(config, { [config.provider]: apiKey });
     
     const testMessage = "Hello! Please reply with 'Connection Successful' if you receive this.";
     const contents = [{ role: 'user', parts: [{ text: testMessage }] }];
@@ -316,7 +1197,8 @@ export const testModelConnection = async (
             requestDetails: {
                 provider: config.provider,
                 model: config.model,
-                endpoint: config.provider === 'gemini' ? 'GoogleGenAI SDK' : 'REST /chat/completions',
+                endpoint: config.provider === Provider.GEMINI ? 'GoogleGenAI SDK' : (config.provider === Provider.CLAUDE ? 'REST /messages' : 'REST /chat/completions'),
+                baseUrl: config.provider === Provider.CUSTOM ? config.baseUrl : undefined,
                 messages: contents,
                 reasoningEffort: config.reasoningEffort
             }
@@ -337,16 +1219,23 @@ export const testModelConnection = async (
     }
 };
 
+/**
+ * Calls the API until the response parses, matches `schema` (if given) and passes `validator`.
+ * After a failed attempt, `callApi` receives a RepairContext so it can re-prompt with the error.
+ */
 export const robustGenerate = async <T>(
-    callApi: () => Promise<{ text: string }>,
+    callApi: (repair?: RepairContext) => Promise<{ text: string }>,
     validator: (json: any) => any,
     maxRetries: number = 3,
-    onFailure?: (error: any, rawResponse?: string) => void
+    onFailure?: (error: any, rawResponse?: string) => void,
+    schema?: JsonSchema,
+    initialRepair?: RepairContext
 ): Promise<T | null> => {
     let attempts = 0;
     // Generate a unique ID for this specific request sequence
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
     let lastRawText = "";
+    let repair = initialRepair;
 
     while (attempts < maxRetries) {
         try {
@@ -354,12 +1243,13 @@ export const robustGenerate = async <T>(
             const color = attempts === 0 ? 'blue' : (attempts === 1 ? 'yellow' : 'red');
             dispatchAIStatus(requestId, color);
 
-            const result = await callApi();
+            const result = await callApi(repair);
             lastRawText = result.text;
-            let text = result.text;
-            // Clean markdown code blocks if present
-            text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-            const json = JSON.parse(text);
+            const json = parseJsonResponse(result.text);
+            if (schema) {
+                const issues = validateJsonSchema(json, schema);
+                if (issues.length > 0) throw new AISchemaValidationError(issues, result.text);
+            }
             const validated = validator(json);
             if (validated) {
                 dispatchAIStatus(requestId, 'green'); // Success
@@ -367,8 +1257,13 @@ export const robustGenerate = async <T>(
             } else {
                 throw new Error("Validation Failed");
             }
-        } catch (e) {
+        } catch (e: any) {
             console.warn(`Generate attempt ${attempts + 1} failed:`, e);
+            if (e instanceof AIRequestCancelledError || e instanceof AIReplayMissError) break;
+            // Network/API errors have nothing to repair; format errors are fed back to the model
+            repair = (e instanceof AISchemaValidationError || e instanceof AIResponseParseError || e?.message === "Validation Failed")
+                ? { rawResponse: lastRawText, error: e }
+                : undefined;
             if (attempts === maxRetries - 1 && onFailure) {
                 onFailure(e, lastRawText);
             }
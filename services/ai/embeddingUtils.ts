@@ -0,0 +1,116 @@
+
+import { MemoryRetrievalSettings, Provider } from "../../types";
+import { embedTexts } from "./core";
+import { hashString } from "../randomUtils";
+
+// --- Embedding Backends for Retrieval Memory ---
+// Backends are looked up by id from a registry so new ones (e.g. an in-browser model) can be plugged in
+// without touching the indexer. `signature` identifies the vector space: indexes built with another
+// signature are rebuilt instead of being compared.
+
+export interface EmbeddingBackend {
+    id: string;
+    signature: string;
+    embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export type EmbeddingBackendFactory = (settings: MemoryRetrievalSettings, apiKeys: Record<string, string>) => EmbeddingBackend;
+
+export interface EmbeddingBackendInfo {
+    id: string;
+    label: string;
+    factory: EmbeddingBackendFactory;
+}
+
+const backends = new Map<string, EmbeddingBackendInfo>();
+
+export const registerEmbeddingBackend = (id: string, label: string, factory: EmbeddingBackendFactory) => {
+    backends.set(id, { id, label, factory });
+};
+
+export const listEmbeddingBackends = (): { id: string, label: string }[] => {
+    return Array.from(backends.values()).map(({ id, label }) => ({ id, label }));
+};
+
+// Unknown ids fall back to the local backend so a save from another build still works
+export const resolveEmbeddingBackend = (settings: MemoryRetrievalSettings, apiKeys: Record<string, string>): EmbeddingBackend => {
+    const info = backends.get(settings.backend) || backends.get(LOCAL_BACKEND_ID)!;
+    return info.factory(settings, apiKeys);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    const len = Math.min(a.length, b.length);
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < len; i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+// --- Local Backend ---
+// Feature hashing of CJK character uni/bi-grams and latin words into a fixed-size vector.
+// Purely lexical, but deterministic and offline, which is enough to surface episodes sharing names, places and items.
+
+export const LOCAL_BACKEND_ID = 'local';
+const LOCAL_DIMENSIONS = 128;
+
+const tokenize = (text: string): string[] => {
+    const tokens: string[] = [];
+    const cleaned = text.toLowerCase().replace(/<[^>]+>/g, ' ');
+    const segments = cleaned.match(/[\u3400-\u9fff]+|[a-z0-9_]+/g) || [];
+    segments.forEach(seg => {
+        if (/^[a-z0-9_]+$/.test(seg)) {
+            if (seg.length > 1) tokens.push(seg);
+            return;
+        }
+        for (let i = 0; i < seg.length; i++) {
+            tokens.push(seg[i]);
+            if (i + 1 < seg.length) tokens.push(seg.slice(i, i + 2));
+        }
+    });
+    return tokens;
+};
+
+export const embedLocally = (text: string): number[] => {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+
+    const vector = new Array(LOCAL_DIMENSIONS).fill(0);
+    counts.forEach((count, token) => {
+        const h = hashString(token);
+        const sign = (hashString(`~${token}`) & 1) ? 1 : -1;
+        // Bigrams carry more meaning than single characters
+        const weight = (token.length > 1 ? 1.5 : 1) * (1 + Math.log(count));
+        vector[h % LOCAL_DIMENSIONS] += sign * weight;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    // Rounded to keep saves small
+    return vector.map(v => Math.round((v / norm) * 1000) / 1000);
+};
+
+registerEmbeddingBackend(LOCAL_BACKEND_ID, '本地 (离线, 关键词哈希)', () => ({
+    id: LOCAL_BACKEND_ID,
+    signature: `${LOCAL_BACKEND_ID}:${LOCAL_DIMENSIONS}`,
+    embed: async (texts) => texts.map(embedLocally)
+}));
+
+// --- Provider Backend ---
+const PROVIDER_BATCH_SIZE = 64;
+
+registerEmbeddingBackend('provider', '模型服务商 (Embedding API)', (settings, apiKeys) => {
+    const config = settings.embeddingConfig || { provider: Provider.OPENAI };
+    return {
+        id: 'provider',
+        signature: `provider:${config.provider}:${config.model || 'default'}`,
+        embed: async (texts) => {
+            const result: number[][] = [];
+            for (let i = 0; i < texts.length; i += PROVIDER_BATCH_SIZE) {
+                result.push(...await embedTexts(config, apiKeys, texts.slice(i, i + PROVIDER_BATCH_SIZE)));
+            }
+            return result;
+        }
+    };
+});
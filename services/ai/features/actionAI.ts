@@ -1,8 +1,12 @@
 
 import { AIConfig, Character, LogEntry, GameAttribute, Card, MapLocation, MapRegion, PrizePool, TurnAction, AppSettings, DefaultSettings, GameState, Trigger, DebugLog } from "../../../types";
-import { createClient, robustGenerate, supportsJsonMode, dispatchAIStatus } from "../core";
+import { createClient, robustGenerate, supportsJsonMode, supportsToolCalling, dispatchAIStatus, AIToolCall, AIRequestCancelledError } from "../core";
+import { AIResponseParseError, AISchemaValidationError, RepairContext, appendRepairTurn, parseJsonResponse, validateJsonSchema } from "../schemaUtils";
+import { REACTION_SCHEMA, TURN_ACTION_SCHEMA } from "../schemas";
+import { TOOL_MODE_INSTRUCTION, buildCommandTools, toolCallsToCommands } from "../commandTools";
 import { buildContextMessages, fillPrompt, getPleasureInstruction, parsePromptStructure } from "../promptUtils";
-import { getCharacterMemory } from "../memoryUtils";
+import { buildRetrievalQuery, getCharacterMemory, getRetrievedMemory } from "../memoryUtils";
+import { formatChronicle, withChronicle } from "../../chronicleUtils";
 import { evaluateTriggers } from "../../triggerService";
 import { DEFAULT_AI_CONFIG } from "../../../config";
 import { 
@@ -12,6 +16,10 @@ import {
 } from "../../contextUtils";
 import { ImageContextBuilder } from "../ImageContextBuilder";
 import { getNaturalTimeDelta } from "../../timeUtils";
+import { forkRandomSource } from "../../randomUtils";
+import { emitRelationshipChanges, parseRelationshipChanges } from "../../relationshipUtils";
+import { formatCharacterFactionContext } from "../../factionUtils";
+import { formatQuestContext } from "../../questUtils";
 
 // Helper to extract JSON-like string content from partial stream buffer
 // Matches "narrative": "..." or "speech": "..." even if broken
@@ -106,6 +114,21 @@ const calculateLastPresentTime = (charId: string, history: LogEntry[], currentWo
     return getNaturalTimeDelta(currentWorldTimeStr, foundTimeStr);
 };
 
+// Helper: Folds tool calls into the JSON text so tool mode shares validation with JSON mode.
+// Commands written into the JSON are kept only when the model made no tool calls.
+const mergeToolCallsIntoAction = (text: string, toolCalls?: AIToolCall[]): string => {
+    let action: any;
+    try {
+        action = parseJsonResponse(text);
+    } catch (e) {
+        // Models often answer in plain prose alongside tool calls
+        if (!toolCalls || toolCalls.length === 0) return text;
+        action = { narrative: text.trim() };
+    }
+    if (toolCalls && toolCalls.length > 0) action.commands = toolCallsToCommands(toolCalls);
+    return JSON.stringify(action);
+};
+
 export const determineCharacterAction = async (
     char: Character,
     history: LogEntry[],
@@ -133,7 +156,7 @@ export const determineCharacterAction = async (
         ? char.aiConfig 
         : (fullGameState?.charBehaviorConfig || fullGameState?.judgeConfig || DEFAULT_AI_CONFIG);
         
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'actionAI', characterId: char.id });
 
     // Initialize Image Context Builder
     const imageBuilder = new ImageContextBuilder();
@@ -159,9 +182,11 @@ export const determineCharacterAction = async (
         : (appSettings.actionMemoryDropoutProbability ?? 0.34);
 
     let effectiveMemoryRounds = capacity;
+    // Seeded per character & story position so a replayed session rebuilds identical prompts
+    const rng = forkRandomSource(fullGameState?.rng, `act_${char.id}_${history.length}`);
     
     // 3. Apply Dropout
-    if (Math.random() < dropoutProb) {
+    if (rng.random() < dropoutProb) {
         effectiveMemoryRounds = 4; // Force short memory (4 rounds) for Action
         if (onDebug) {
             onDebug({
@@ -176,7 +201,7 @@ export const determineCharacterAction = async (
     // -----------------------------------
 
     // Get Filtered Character Memory
-    const memoryStr = getCharacterMemory(
+    const recentMemory = getCharacterMemory(
         history, 
         char.id, 
         locationId, 
@@ -187,8 +212,21 @@ export const determineCharacterAction = async (
         fullGameState?.map.locations // Pass Locs Map
     );
 
+    // Recall relevant episodes older than the recency window
+    const retrievedMemory = await getRetrievedMemory(
+        fullGameState?.memoryIndex?.[char.id],
+        buildRetrievalQuery(history, char.id, currentLocation?.name),
+        appSettings.memoryRetrieval,
+        appSettings.apiKeys,
+        (fullGameState?.round.roundNumber ?? 0) - capacity,
+        fullGameState?.map.locations,
+        onDebug
+    );
+    const chronicleStr = formatChronicle(fullGameState?.world.chronicle, (fullGameState?.round.roundNumber ?? 0) - capacity, appSettings.maxInputTokens);
+    const memoryStr = withChronicle(chronicleStr, retrievedMemory ? `${retrievedMemory}\n${recentMemory}` : recentMemory);
+
     // Calculate Pleasure Instruction
-    const pleasureInstruction = getPleasureInstruction(char);
+    const pleasureInstruction = getPleasureInstruction(char, rng.random);
 
     // Calculate Region Conflicts
     let regionConflicts = "(无区域数据)";
@@ -212,8 +250,10 @@ export const determineCharacterAction = async (
         SELF_CONTEXT: formatSelfDetailed(char, cardPool, locationId, imageBuilder),
         LOCATION_CONTEXT: formatLocationInfo(currentLocation, imageBuilder),
         KNOWN_REGIONS: formatKnownRegions(knownRegions),
+        FACTION_CONTEXT: formatCharacterFactionContext(fullGameState, char.id, locationId),
+        QUEST_CONTEXT: formatQuestContext(fullGameState, char.id),
         NEARBY_CONTEXT: nearbyContext || "未知",
-        OTHERS_CONTEXT: formatOtherCharacters(char.id, otherChars, locationId, cardPool, imageBuilder),
+        OTHERS_CONTEXT: formatOtherCharacters(char.id, otherChars, locationId, cardPool, imageBuilder, fullGameState?.relationships),
         HISTORY_CONTEXT: memoryStr,
         SPECIFIC_CONTEXT: formatCharacterPersona(char, imageBuilder),
         SHOP_CONTEXT: "（此处可列出商店物品，暂略）", 
@@ -232,21 +272,47 @@ export const determineCharacterAction = async (
         if (logs.length > 0 && onLog) logs.forEach(onLog);
     }
 
+    // Tool mode: commands are submitted as native function calls; JSON commands remain the fallback
+    const useTools = appSettings.commandMode === 'tools' && supportsToolCalling(finalConfig.provider);
+
     // Use Parser to handle <user>/<assistant> tags and interleave images via callback
-    const promptMessages = parsePromptStructure(prompt, (t) => imageBuilder.interleave(t));
+    const buildMessages = (text: string) => {
+        const promptMessages = parsePromptStructure(text, (t) => imageBuilder.interleave(t));
+        return buildContextMessages(globalContextConfig, finalConfig.contextConfig, char.contextConfig, promptMessages, appSettings);
+    };
 
-    const messages = buildContextMessages(globalContextConfig, finalConfig.contextConfig, char.contextConfig, promptMessages, appSettings);
+    const jsonMessages = buildMessages(prompt);
+    const messages = useTools ? buildMessages(prompt + TOOL_MODE_INSTRUCTION) : jsonMessages;
     
     // Create Request ID for Visualizer
     const requestId = `act_${char.id}_${Date.now()}`;
 
-    const genConfig = {
+    // Providers reject forced JSON output combined with function calling, so tool mode relies on the prompt for the JSON text
+    const jsonConfig = {
         responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-        maxOutputTokens: appSettings.maxOutputTokens
+        maxOutputTokens: appSettings.maxOutputTokens,
+        responseSchema: TURN_ACTION_SCHEMA,
+        schemaName: 'turn_action'
     };
+    const genConfig = useTools
+        ? {
+            maxOutputTokens: appSettings.maxOutputTokens,
+            tools: buildCommandTools(char, {
+                cardPool,
+                presentChars: otherChars,
+                currentLocation,
+                allLocations,
+                prizePools
+            })
+        }
+        : jsonConfig;
 
-    // STREAMING LOGIC
-    if (appSettings.enableStreaming !== false && client.models.generateContentStream && onStream) {
+    // Set when a streamed response is malformed; the non-streaming path then re-prompts with the error
+    let streamRepair: RepairContext | undefined;
+
+    // STREAMING LOGIC (tool calls are only returned by non-streaming requests)
+    if (!useTools && appSettings.enableStreaming !== false && client.models.generateContentStream && onStream) {
+        let fullBuffer = "";
         try {
             dispatchAIStatus(requestId, 'blue'); // Visualizer Start (Processing)
 
@@ -256,7 +322,6 @@ export const determineCharacterAction = async (
                 config: genConfig
             });
 
-            let fullBuffer = "";
             let currentNarrative = "";
             let currentSpeech = "";
 
@@ -282,9 +347,10 @@ export const determineCharacterAction = async (
                 }
             }
 
-            // Stream finished, parse final JSON
-            let cleanText = fullBuffer.replace(/```json/g, '').replace(/```/g, '').trim();
-            const json = JSON.parse(cleanText);
+            // Stream finished, parse and validate final JSON
+            const json = parseJsonResponse(fullBuffer);
+            const issues = validateJsonSchema(json, TURN_ACTION_SCHEMA);
+            if (issues.length > 0) throw new AISchemaValidationError(issues, fullBuffer);
 
             if (onDebug) {
                 onDebug({
@@ -292,7 +358,8 @@ export const determineCharacterAction = async (
                     timestamp: Date.now(),
                     characterName: char.name,
                     prompt: JSON.stringify(messages, null, 2),
-                    response: fullBuffer
+                    response: fullBuffer,
+                    usage: client.lastUsage
                 });
             }
 
@@ -300,21 +367,31 @@ export const determineCharacterAction = async (
             return json as TurnAction;
 
         } catch (e: any) {
-            console.warn("Stream/Parse failed, falling back or returning partial state:", e);
+            console.warn("Stream/Parse failed, falling back to non-streaming generation:", e);
             dispatchAIStatus(requestId, 'gray'); // Visualizer Fail
-            
-            // If we have some content, try to salvage it manually into a TurnAction
-            return { narrative: "", speech: "", commands: [] };
+
+            // Stopped by the player while queued: don't re-issue the request
+            if (e instanceof AIRequestCancelledError) return { narrative: "", speech: "", commands: [] };
+
+            // Malformed output is repaired by re-prompting; other errors simply retry without streaming
+            if (e instanceof AIResponseParseError || e instanceof AISchemaValidationError) {
+                streamRepair = { rawResponse: fullBuffer, error: e };
+            }
         }
     }
 
     // FALLBACK TO NON-STREAMING
     const result = await robustGenerate<TurnAction>(
-        () => client.models.generateContent({
-            model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
-            config: genConfig
-        }),
+        async (repair) => {
+            const res = await client.models.generateContent({
+                model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
+                contents: appendRepairTurn(messages, repair),
+                config: genConfig,
+                // A fallback provider without function calling gets the JSON command format instead
+                withoutTools: useTools ? { contents: appendRepairTurn(jsonMessages, repair), config: jsonConfig } : undefined
+            });
+            return useTools ? { text: mergeToolCallsIntoAction(res.text, res.toolCalls) } : res;
+        },
         (json) => json && (json.narrative || json.speech || json.commands),
         3,
         (error, rawResponse) => {
@@ -328,7 +405,9 @@ export const determineCharacterAction = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        TURN_ACTION_SCHEMA,
+        streamRepair
     );
 
     if (onDebug && result) {
@@ -337,13 +416,20 @@ export const determineCharacterAction = async (
             timestamp: Date.now(),
             characterName: char.name,
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
     return result || { narrative: "...", commands: [] };
 };
 
+// Reactions may shift how the reacting character feels about others; applied by useRelationships
+const reportReactionRelationships = (char: Character, raw: any, characters?: Record<string, Character> | Character[]) => {
+    if (!characters || char.id.startsWith('env_')) return;
+    emitRelationshipChanges(parseRelationshipChanges(raw, characters, char.id).filter(c => c.fromId === char.id), char.name);
+};
+
 export const determineCharacterReaction = async (
     char: Character,
     triggerEvent: string,
@@ -367,7 +453,7 @@ export const determineCharacterReaction = async (
         ? char.aiConfig 
         : (fullGameState?.charBehaviorConfig || fullGameState?.judgeConfig || DEFAULT_AI_CONFIG);
         
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'actionAI', characterId: char.id }, 'interactive');
 
     // Initialize Image Context Builder
     const imageBuilder = new ImageContextBuilder();
@@ -389,9 +475,10 @@ export const determineCharacterReaction = async (
         : (appSettings.reactionMemoryDropoutProbability ?? 0.34);
     
     let effectiveMemoryRounds = capacity;
+    const rng = forkRandomSource(fullGameState?.rng, `react_${char.id}_${history.length}`);
 
     // 3. Apply Dropout
-    if (Math.random() < dropoutProb) {
+    if (rng.random() < dropoutProb) {
         effectiveMemoryRounds = 2; // Force short memory (2 rounds) for Reaction
         if (onDebug) {
             onDebug({
@@ -405,7 +492,7 @@ export const determineCharacterReaction = async (
     }
     // ----------------------------
 
-    const memoryStr = getCharacterMemory(
+    const recentMemory = getCharacterMemory(
         history, 
         char.id, 
         locationId, 
@@ -415,10 +502,22 @@ export const determineCharacterReaction = async (
         fullGameState?.characters, // Pass Maps
         fullGameState?.map.locations
     );
-    const othersStr = otherChars ? formatOtherCharacters(char.id, otherChars, locationId, cardPool, imageBuilder) : "无";
+
+    const retrievedMemory = await getRetrievedMemory(
+        fullGameState?.memoryIndex?.[char.id],
+        buildRetrievalQuery(history, char.id, triggerEvent),
+        appSettings.memoryRetrieval,
+        appSettings.apiKeys,
+        (fullGameState?.round.roundNumber ?? 0) - capacity,
+        fullGameState?.map.locations,
+        onDebug
+    );
+    const chronicleStr = formatChronicle(fullGameState?.world.chronicle, (fullGameState?.round.roundNumber ?? 0) - capacity, appSettings.maxInputTokens);
+    const memoryStr = withChronicle(chronicleStr, retrievedMemory ? `${retrievedMemory}\n${recentMemory}` : recentMemory);
+    const othersStr = otherChars ? formatOtherCharacters(char.id, otherChars, locationId, cardPool, imageBuilder, fullGameState?.relationships) : "无";
     
     // Calculate Pleasure Instruction
-    const pleasureInstruction = getPleasureInstruction(char);
+    const pleasureInstruction = getPleasureInstruction(char, rng.random);
 
     // Inject Images for Reaction Trigger if available in the last log
     let enhancedTriggerEvent = triggerEvent;
@@ -468,7 +567,9 @@ export const determineCharacterReaction = async (
 
     const genConfig = {
         responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-        maxOutputTokens: appSettings.maxOutputTokens
+        maxOutputTokens: appSettings.maxOutputTokens,
+        responseSchema: REACTION_SCHEMA,
+        schemaName: 'reaction'
     };
 
     // STREAMING LOGIC
@@ -506,11 +607,13 @@ export const determineCharacterReaction = async (
                     timestamp: Date.now(),
                     characterName: char.name,
                     prompt: JSON.stringify(messages, null, 2),
-                    response: fullBuffer
+                    response: fullBuffer,
+                    usage: client.lastUsage
                 });
             }
 
             dispatchAIStatus(requestId, 'green'); // Visualizer Success
+            reportReactionRelationships(char, json.relationshipChanges, fullGameState?.characters || otherChars);
             return json.speech || "";
 
         } catch (e: any) {
@@ -521,10 +624,10 @@ export const determineCharacterReaction = async (
         }
     }
 
-    const result = await robustGenerate<{ speech: string }>(
-        () => client.models.generateContent({
+    const result = await robustGenerate<{ speech: string, relationshipChanges?: any[] }>(
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             config: genConfig
         }),
         (json) => json && json.speech,
@@ -540,7 +643,8 @@ export const determineCharacterReaction = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        REACTION_SCHEMA
     );
 
     if (onDebug && result) {
@@ -549,9 +653,12 @@ export const determineCharacterReaction = async (
             timestamp: Date.now(),
             characterName: char.name,
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
+    if (result) reportReactionRelationships(char, result.relationshipChanges, fullGameState?.characters || otherChars);
+
     return result ? result.speech : "";
 };
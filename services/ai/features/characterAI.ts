@@ -1,6 +1,8 @@
 
 import { AIConfig, AppSettings, DefaultSettings, LogEntry, GameState, Trigger, DebugLog, GameImage } from "../../../types";
 import { createClient, robustGenerate, supportsJsonMode } from "../core";
+import { appendRepairTurn } from "../schemaUtils";
+import { CHARACTER_SCHEMA } from "../schemas";
 import { buildContextMessages, fillPrompt, parsePromptStructure } from "../promptUtils";
 import { getGlobalMemory } from "../memoryUtils";
 import { evaluateTriggers } from "../../triggerService";
@@ -29,7 +31,7 @@ export const generateCharacter = async (
     settingImages?: GameImage[]
 ): Promise<any> => {
     const finalConfig = config.provider ? config : DEFAULT_AI_CONFIG;
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'characterAI' }, 'background');
 
     // Initialize Image Builder for multimodal context
     const imageBuilder = new ImageContextBuilder();
@@ -94,13 +96,15 @@ export const generateCharacter = async (
     const messages = buildContextMessages(globalContextConfig, finalConfig.contextConfig, undefined, promptParts, appSettings);
 
     const result = await robustGenerate(
-        () => client.models.generateContent({
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             // Optimization: Enable JSON mode for compatible providers
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: appSettings.maxOutputTokens
+                maxOutputTokens: appSettings.maxOutputTokens,
+                responseSchema: CHARACTER_SCHEMA,
+                schemaName: 'character'
             }
         }),
         (json) => json && (json.name || json.description),
@@ -116,7 +120,8 @@ export const generateCharacter = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        CHARACTER_SCHEMA
     );
 
     if (onDebug && result) {
@@ -125,7 +130,8 @@ export const generateCharacter = async (
             timestamp: Date.now(),
             characterName: "System (Char Gen)",
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
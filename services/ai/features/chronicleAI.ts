@@ -0,0 +1,55 @@
+
+import { ChronicleEntry, DebugLog, GameState } from "../../../types";
+import { createClient } from "../core";
+import { buildContextMessages, fillPrompt, parsePromptStructure } from "../promptUtils";
+import { DEFAULT_AI_CONFIG } from "../../../config";
+import { INITIAL_DEFAULT_SETTINGS } from "../../DefaultSettings";
+import { formatChronicleRange } from "../../chronicleUtils";
+
+/**
+ * Compresses one finished round (raw log text) or a block of round summaries into a chronicle summary.
+ * Runs at background priority with the judge model; returns plain text.
+ */
+export const summarizeChronicle = async (
+    source: string,
+    range: Pick<ChronicleEntry, 'startRound' | 'endRound'>,
+    isBlock: boolean,
+    gameState: GameState,
+    onDebug?: (log: DebugLog) => void
+): Promise<string> => {
+    const finalConfig = gameState.judgeConfig?.provider ? gameState.judgeConfig : DEFAULT_AI_CONFIG;
+    const appSettings = gameState.appSettings;
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'chronicleAI' }, 'background');
+
+    // Saves from before the chronicle existed have no prompt for it
+    const template = gameState.defaultSettings.prompts.summarizeChronicle || INITIAL_DEFAULT_SETTINGS.prompts.summarizeChronicle;
+    const prompt = fillPrompt(template, {
+        RANGE: formatChronicleRange(range),
+        SOURCE_TYPE: isBlock ? "各轮编年史摘要" : "故事记录",
+        MAX_LENGTH: isBlock ? "400" : "200",
+        WORLD_GUIDANCE: gameState.world.worldGuidance || "",
+        SOURCE: source
+    }, appSettings);
+
+    const promptParts = parsePromptStructure(prompt, (t) => [{ text: t }]);
+    const messages = buildContextMessages(gameState.globalContext, finalConfig.contextConfig, undefined, promptParts, appSettings);
+
+    const result = await client.models.generateContent({
+        model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
+        contents: messages,
+        config: { maxOutputTokens: appSettings.maxOutputTokens }
+    });
+
+    if (onDebug) {
+        onDebug({
+            id: `debug_chronicle_${range.startRound}_${Date.now()}`,
+            timestamp: Date.now(),
+            characterName: `System (Chronicle ${formatChronicleRange(range)})`,
+            prompt: JSON.stringify(messages, null, 2),
+            response: result.text,
+            usage: client.lastUsage
+        });
+    }
+
+    return result.text.trim();
+};
@@ -1,11 +1,15 @@
 
-import { AIConfig, AppSettings, DefaultSettings, GameAttribute, GameState, LogEntry, Trigger, DebugLog } from "../../../types";
+import { AIConfig, AppSettings, Character, DefaultSettings, GameAttribute, GameState, LogEntry, Trigger, DebugLog } from "../../../types";
 import { createClient, robustGenerate, supportsJsonMode } from "../core";
+import { appendRepairTurn } from "../schemaUtils";
+import { CONDITIONS_BATCH_SCHEMA, SETTLEMENT_SCHEMA } from "../schemas";
 import { buildContextMessages, fillPrompt, parsePromptStructure } from "../promptUtils";
 import { getGlobalMemory } from "../memoryUtils";
+import { formatChronicle, withChronicle } from "../../chronicleUtils";
 import { evaluateTriggers } from "../../triggerService";
 import { DEFAULT_AI_CONFIG } from "../../../config";
 import { ImageContextBuilder } from "../ImageContextBuilder";
+import { formatRelationshipsAmong } from "../../relationshipUtils";
 
 export const checkConditionsBatch = async (
     config: AIConfig,
@@ -23,10 +27,13 @@ export const checkConditionsBatch = async (
     imageBuilder?: ImageContextBuilder // New Param
 ): Promise<any> => {
     const finalConfig = config.provider ? config : DEFAULT_AI_CONFIG;
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'logicAI' });
+
+    const currentRound = fullGameState?.round.roundNumber ?? 0;
+    const chronicleStr = formatChronicle(fullGameState?.world.chronicle, currentRound - (appSettings.maxShortHistoryRounds || 5), appSettings.maxInputTokens);
 
     let prompt = fillPrompt(defaultSettings.prompts.checkConditionsBatch, {
-        SHORT_HISTORY: context.history,
+        SHORT_HISTORY: withChronicle(chronicleStr, context.history),
         WORLD: JSON.stringify(context.world, null, 2),
         ENTITIES: JSON.stringify(entitiesContext, null, 2),
         ITEMS: JSON.stringify(items, null, 2)
@@ -53,13 +60,15 @@ export const checkConditionsBatch = async (
     const messages = buildContextMessages(globalContextConfig, finalConfig.contextConfig, undefined, promptParts, appSettings);
 
     const result = await robustGenerate<{ results: any }>(
-        () => client.models.generateContent({
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             // Optimization: Enable JSON mode for compatible providers
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: appSettings.maxOutputTokens
+                maxOutputTokens: appSettings.maxOutputTokens,
+                responseSchema: CONDITIONS_BATCH_SCHEMA,
+                schemaName: 'condition_results'
             }
         }),
         (json) => json && json.results,
@@ -75,7 +84,8 @@ export const checkConditionsBatch = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        CONDITIONS_BATCH_SCHEMA
     );
 
     if (onDebug && result) {
@@ -84,7 +94,8 @@ export const checkConditionsBatch = async (
             timestamp: Date.now(),
             characterName: "System (Logic)",
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
@@ -103,20 +114,28 @@ export const analyzeSettlement = async (
     onDebug?: (log: DebugLog) => void,
     fullGameState?: GameState,
     onLog?: (msg: string) => void,
-    onTriggerUpdate?: (id: string, updates: Partial<Trigger>) => void
-): Promise<{ solvedConflictIds: string[], fulfilledDriveIds: string[] } | null> => {
+    onTriggerUpdate?: (id: string, updates: Partial<Trigger>) => void,
+    participants: Character[] = [],
+    questChecks: { objectives: any[], failures: any[] } = { objectives: [], failures: [] }
+): Promise<{ solvedConflictIds: string[], fulfilledDriveIds: string[], completedObjectiveIds?: string[], failedQuestIds?: string[], relationshipChanges?: any[] } | null> => {
     const finalConfig = config.provider ? config : DEFAULT_AI_CONFIG;
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'logicAI' });
 
     // Initialize Image Builder for Settlement
     const imageBuilder = new ImageContextBuilder();
 
+    const lastRound = history[history.length-1].round;
+    const chronicleStr = formatChronicle(fullGameState?.world.chronicle, lastRound - 5, appSettings.maxInputTokens);
+
     let prompt = fillPrompt(defaultSettings.prompts.analyzeSettlement, {
         WORLD_STATE: JSON.stringify(worldAttributes, null, 2),
         // Pass imageBuilder to getGlobalMemory to capture images in history
-        SHORT_HISTORY: getGlobalMemory(history, history[history.length-1].round, 5, appSettings.maxInputTokens, imageBuilder),
+        SHORT_HISTORY: withChronicle(chronicleStr, getGlobalMemory(history, lastRound, 5, appSettings.maxInputTokens, imageBuilder)),
         CONFLICTS_LIST: JSON.stringify(activeConflicts, null, 2),
-        DRIVES_LIST: JSON.stringify(activeDrives, null, 2)
+        DRIVES_LIST: JSON.stringify(activeDrives, null, 2),
+        RELATIONSHIPS: formatRelationshipsAmong(fullGameState?.relationships, participants),
+        QUEST_OBJECTIVES: questChecks.objectives.length > 0 ? JSON.stringify(questChecks.objectives, null, 2) : "(无)",
+        QUEST_FAILURES: questChecks.failures.length > 0 ? JSON.stringify(questChecks.failures, null, 2) : "(无)"
     }, appSettings);
 
     if (fullGameState) {
@@ -128,14 +147,16 @@ export const analyzeSettlement = async (
     const promptParts = parsePromptStructure(prompt, (t) => imageBuilder.interleave(t));
     const messages = buildContextMessages(globalContextConfig, finalConfig.contextConfig, undefined, promptParts, appSettings);
 
-    const result = await robustGenerate<{ solvedConflictIds: string[], fulfilledDriveIds: string[] }>(
-        () => client.models.generateContent({
+    const result = await robustGenerate<{ solvedConflictIds: string[], fulfilledDriveIds: string[], completedObjectiveIds?: string[], failedQuestIds?: string[], relationshipChanges?: any[] }>(
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             // Optimization: Enable JSON mode for compatible providers
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: appSettings.maxOutputTokens
+                maxOutputTokens: appSettings.maxOutputTokens,
+                responseSchema: SETTLEMENT_SCHEMA,
+                schemaName: 'settlement'
             }
         }),
         (json) => json && (Array.isArray(json.solvedConflictIds) || Array.isArray(json.fulfilledDriveIds)),
@@ -151,7 +172,8 @@ export const analyzeSettlement = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        SETTLEMENT_SCHEMA
     );
 
     if (onDebug && result) {
@@ -160,7 +182,8 @@ export const analyzeSettlement = async (
             timestamp: Date.now(),
             characterName: "System (Settlement)",
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
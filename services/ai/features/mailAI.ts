@@ -1,6 +1,8 @@
 
 import { AIConfig, AppSettings, Character, GameState, LetterTemplate, DebugLog, GameAttribute, MapLocation, MapRegion, GameImage } from "../../../types";
 import { createClient, robustGenerate, supportsJsonMode } from "../core";
+import { appendRepairTurn } from "../schemaUtils";
+import { buildLetterSchema } from "../schemas";
 import { buildContextMessages, fillPrompt, replaceGlobalVariables } from "../promptUtils";
 import { getCharacterMemory } from "../memoryUtils";
 import { formatCharacterPersona, formatLocationInfo, formatSelfDetailed, filterWorldAttributes } from "../../contextUtils";
@@ -20,7 +22,7 @@ export const generateLetter = async (
         ? char.aiConfig 
         : (gameState.charBehaviorConfig || gameState.judgeConfig || DEFAULT_AI_CONFIG);
         
-    const client = createClient(finalConfig, gameState.appSettings.apiKeys);
+    const client = createClient(finalConfig, gameState.appSettings.apiKeys, onDebug, { feature: 'mailAI', characterId: char.id });
 
     // Initialize Image Context Builder
     const imageBuilder = new ImageContextBuilder();
@@ -111,13 +113,17 @@ export const generateLetter = async (
 
     const messages = buildContextMessages(gameState.globalContext, finalConfig.contextConfig, char.contextConfig, promptParts, gameState.appSettings);
 
+    const letterSchema = buildLetterSchema(template);
+
     const result = await robustGenerate<any>(
-        () => client.models.generateContent({
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: gameState.appSettings.maxOutputTokens
+                maxOutputTokens: gameState.appSettings.maxOutputTokens,
+                responseSchema: letterSchema,
+                schemaName: 'letter'
             }
         }),
         (json) => {
@@ -136,7 +142,8 @@ export const generateLetter = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        letterSchema
     );
 
     if (onDebug && result) {
@@ -145,7 +152,8 @@ export const generateLetter = async (
             timestamp: Date.now(),
             characterName: `Mail System (${char.name})`,
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
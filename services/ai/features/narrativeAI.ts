@@ -1,6 +1,8 @@
 
 import { Character, LogEntry, GameAttribute, Card, AppSettings, DefaultSettings, MapLocation, MapRegion, GameState, AIConfig, DebugLog } from "../../../types";
 import { createClient, robustGenerate, supportsJsonMode, dispatchAIStatus } from "../core";
+import { appendRepairTurn } from "../schemaUtils";
+import { UNVEIL_SCHEMA } from "../schemas";
 import { buildContextMessages, fillPrompt, replaceGlobalVariables, parsePromptStructure } from "../promptUtils";
 import { getGlobalMemory, getCharacterMemory } from "../memoryUtils";
 import { DEFAULT_AI_CONFIG } from "../../../config";
@@ -29,7 +31,7 @@ export const generateObservation = async (
         ? char.aiConfig
         : (fullGameState?.judgeConfig || DEFAULT_AI_CONFIG);
 
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'narrativeAI', characterId: char.id }, 'interactive');
 
     // Initialize Image Context Builder
     const imageBuilder = new ImageContextBuilder();
@@ -75,7 +77,7 @@ export const generateObservation = async (
         SPECIFIC_CONTEXT: formatCharacterPersona(char, imageBuilder),
         LOCATION_CONTEXT: formatLocationInfo(currentLocation, imageBuilder),
         NEARBY_CONTEXT: nearbyContext || "未知",
-        OTHERS_CONTEXT: formatOtherCharacters(char.id, otherChars, locationId, cardPool, imageBuilder),
+        OTHERS_CONTEXT: formatOtherCharacters(char.id, otherChars, locationId, cardPool, imageBuilder, fullGameState?.relationships),
         HISTORY_CONTEXT: memoryStr,
         WORLD_STATE: JSON.stringify(filterWorldAttributes(worldAttributes), null, 2),
         REGION_CONFLICT: regionConflicts,
@@ -103,7 +105,8 @@ export const generateObservation = async (
                 timestamp: Date.now(),
                 characterName: "System (Observation)",
                 prompt: JSON.stringify(messages, null, 2),
-                response: result.text
+                response: result.text,
+                usage: client.lastUsage
             });
         }
         dispatchAIStatus(requestId, 'green'); // Visualizer Success
@@ -136,7 +139,7 @@ export const generateUnveil = async (
     fullGameState?: GameState
 ): Promise<{ results: Array<{ charId: string, unveilText: string }> } | null> => {
     const finalConfig = config.provider ? config : DEFAULT_AI_CONFIG;
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'narrativeAI' });
 
     const imageBuilder = new ImageContextBuilder();
 
@@ -165,12 +168,14 @@ export const generateUnveil = async (
     const messages = buildContextMessages(globalContextConfig, finalConfig.contextConfig, undefined, promptParts, appSettings);
 
     const result = await robustGenerate<{ results: Array<{ charId: string, unveilText: string }> }>(
-        () => client.models.generateContent({
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: appSettings.maxOutputTokens
+                maxOutputTokens: appSettings.maxOutputTokens,
+                responseSchema: UNVEIL_SCHEMA,
+                schemaName: 'unveil_results'
             }
         }),
         (json) => json && Array.isArray(json.results),
@@ -186,7 +191,8 @@ export const generateUnveil = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        UNVEIL_SCHEMA
     );
 
     if (onDebug && result) {
@@ -195,7 +201,8 @@ export const generateUnveil = async (
             timestamp: Date.now(),
             characterName: "System (Unveil)",
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
@@ -1,11 +1,14 @@
 
 import { AIConfig, LogEntry, Character, AppSettings, GameAttribute, DefaultSettings, GameState, Trigger, DebugLog, GameImage } from "../../../types";
 import { createClient, robustGenerate, supportsJsonMode } from "../core";
+import { appendRepairTurn } from "../schemaUtils";
+import { LOCATION_DETAILS_SCHEMA, TURN_ORDER_SCHEMA } from "../schemas";
 import { buildContextMessages, fillPrompt, parsePromptStructure } from "../promptUtils";
 import { getGlobalMemory } from "../memoryUtils";
 import { evaluateTriggers } from "../../triggerService";
 import { DEFAULT_AI_CONFIG } from "../../../config";
 import { ImageContextBuilder } from "../ImageContextBuilder";
+import { formatFactionContextAt } from "../../factionUtils";
 
 export const determineTurnOrder = async (
     config: AIConfig,
@@ -25,7 +28,7 @@ export const determineTurnOrder = async (
     onTriggerUpdate?: (id: string, updates: Partial<Trigger>) => void
 ): Promise<{ order: string[], worldUpdates?: Record<string, any> }> => {
     const finalConfig = config.provider ? config : DEFAULT_AI_CONFIG;
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'worldAI' });
 
     // Image Builder
     const imageBuilder = new ImageContextBuilder();
@@ -55,13 +58,15 @@ export const determineTurnOrder = async (
     const messages = buildContextMessages(globalContextConfig, finalConfig.contextConfig, undefined, promptParts, appSettings);
 
     const result = await robustGenerate<{ order: string[], worldUpdates?: Record<string, any> }>(
-        () => client.models.generateContent({
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             // Optimization: Enable JSON mode for compatible providers
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: appSettings.maxOutputTokens
+                maxOutputTokens: appSettings.maxOutputTokens,
+                responseSchema: TURN_ORDER_SCHEMA,
+                schemaName: 'turn_order'
             }
         }),
         (json) => json && Array.isArray(json.order),
@@ -77,7 +82,8 @@ export const determineTurnOrder = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        TURN_ORDER_SCHEMA
     );
 
     if (onDebug && result) {
@@ -86,7 +92,8 @@ export const determineTurnOrder = async (
             timestamp: Date.now(),
             characterName: "System (Order)",
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
@@ -125,7 +132,7 @@ export const generateLocationDetails = async (
     chars?: { name: string, description: string, appearanceImageId?: string }[]
 }> => {
     const finalConfig = config.provider ? config : DEFAULT_AI_CONFIG;
-    const client = createClient(finalConfig, appSettings.apiKeys);
+    const client = createClient(finalConfig, appSettings.apiKeys, onDebug, { feature: 'worldAI' });
 
     const imageBuilder = new ImageContextBuilder();
 
@@ -158,7 +165,8 @@ export const generateLocationDetails = async (
         NEARBY_LOCATIONS_CONTEXT: nearbyLocationsContext || "（附近无已知地点）",
         LOCATION_INSTRUCTION: locationInstruction + locImagesStr,
         CULTURE_INSTRUCTION: cultureInstruction + charImagesStr,
-        SUGGESTED_NAMES: suggestedNames.join(", ")
+        SUGGESTED_NAMES: suggestedNames.join(", "),
+        FACTION_CONTEXT: formatFactionContextAt(fullGameState, coords)
     }, appSettings);
 
     if (fullGameState) {
@@ -177,13 +185,15 @@ export const generateLocationDetails = async (
         localItems?: {name: string, description: string}[],
         chars?: { name: string, description: string, appearanceImageId?: string }[]
     }>(
-        () => client.models.generateContent({
+        (repair) => client.models.generateContent({
             model: finalConfig.model || DEFAULT_AI_CONFIG.model!,
-            contents: messages,
+            contents: appendRepairTurn(messages, repair),
             // Optimization: Enable JSON mode for compatible providers
             config: { 
                 responseMimeType: supportsJsonMode(finalConfig.provider) ? 'application/json' : undefined,
-                maxOutputTokens: appSettings.maxOutputTokens
+                maxOutputTokens: appSettings.maxOutputTokens,
+                responseSchema: LOCATION_DETAILS_SCHEMA,
+                schemaName: 'location_details'
             }
         }),
         (json) => json && json.name && json.description,
@@ -199,7 +209,8 @@ export const generateLocationDetails = async (
                     response: `Error: ${error.message}\n\nRaw Response:\n${rawResponse || "(No Response)"}`
                 });
             }
-        }
+        },
+        LOCATION_DETAILS_SCHEMA
     );
 
     if (onDebug && result) {
@@ -208,7 +219,8 @@ export const generateLocationDetails = async (
             timestamp: Date.now(),
             characterName: "System (Location)",
             prompt: JSON.stringify(messages, null, 2),
-            response: JSON.stringify(result, null, 2)
+            response: JSON.stringify(result, null, 2),
+            usage: client.lastUsage
         });
     }
 
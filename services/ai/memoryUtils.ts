@@ -1,7 +1,8 @@
 
-import { LogEntry, Character, MapLocation } from "../../types";
+import { LogEntry, Character, MapLocation, CharacterMemoryIndex, MemoryRecord, MemoryRetrievalSettings, DebugLog } from "../../types";
 import { ImageContextBuilder } from "./ImageContextBuilder";
 import { estimateTokenCount } from "./promptUtils";
+import { cosineSimilarity, resolveEmbeddingBackend } from "./embeddingUtils";
 
 export const getGlobalMemory = (
     history: LogEntry[], 
@@ -49,6 +50,91 @@ export const getGlobalMemory = (
     return finalSelection.reverse().join('\n');
 };
 
+// Helper: Did this entry happen in front of the character (hidden rounds only count for participants)?
+const isWitnessedBy = (entry: LogEntry, charId: string, currentLocationId?: string): boolean => {
+    // --- HIDDEN ROUND CHECK ---
+    if (entry.snapshot && entry.snapshot.isHiddenRound) {
+         const participants = entry.snapshot.currentOrder || [];
+         const isSystem = charId === 'system'; 
+         const isEnv = charId.startsWith('env_'); 
+         const hasActed = entry.actingCharId === charId;
+         const isParticipant = participants.includes(charId) || hasActed;
+         
+         if (!isParticipant && !isSystem && !isEnv) return false;
+    }
+    // ---------------------------
+
+    if (entry.presentCharIds && entry.presentCharIds.includes(charId)) return true;
+    if (currentLocationId && entry.locationId === currentLocationId) return true;
+    if (entry.actingCharId === charId) return true;
+    
+    // Environment character fallback
+    if (charId.startsWith('env_')) {
+         const suffix = charId.replace('env_', '');
+         if (entry.locationId === suffix) return true;
+    }
+    return false;
+};
+
+// Helper: Strips markup and engine mechanics a character shouldn't recall as text. Returns null if nothing remains.
+const cleanMemoryText = (entry: LogEntry, currentRound: number): string | null => {
+    // --- Universal Cleaning Phase 1: HTML & Whitespace ---
+    // Clean HTML tags first to ensure regex matches text correctly
+    let text = entry.content.replace(/<[^>]+>/g, '').trim();
+
+    // --- Universal Cleaning Phase 2: System Logs ---
+    // Aggressively filter out system logs for character memory
+    // Matches "系统:", "系统：", "[系统]", or just "系统" at start
+    if (text.match(/^(系统|\[系统\])[:：\s]/)) return null;
+    if (text.startsWith('系统')) return null; // Catch-all for malformed
+    if (text.includes("--- 轮次结算")) return null;
+    
+    // --- Universal Cleaning Phase 3: Specific Blacklist ---
+    // These concepts are meta-game mechanics characters shouldn't explicitly recall as text
+    if (text.includes("(后台)") || text.includes("正在寻找")) return null; // Population logs
+    if (text.includes("欲望已满足")) return null; // Settlement details
+    if (text.includes("新欲望已产生")) return null; // Env generation
+    if (text.includes("引擎全局设置")) return null; // Settings
+    if (text.includes("快速移动至")) return null; // Fast travel mechanics
+    if (text.includes("发现当地角色")) return null; // Population logs
+
+    // === NEW FILTERS (ENHANCED) ===
+    // 1. Skill Activation with Target marker (Mechanical)
+    if (text.includes("(目标: ")) return null;
+
+    // 2. Mechanic Logs starting with > (Retain only acquisition/trade)
+    // Matches "> " or "＞ "
+    if (text.startsWith('>') || text.startsWith('＞')) {
+        const keepKeywords = ["获得", "交易", "抽取", "放入","查看","发现", "移动", "燃命"];
+        // If it doesn't contain any of the keep keywords, filter it out
+        if (!keepKeywords.some(k => text.includes(k))) return null;
+    }
+    // ==============================
+
+    // Simplify Time/World Status Logs
+    // Pattern: "当前故事时间：2077年1月1日08时00分，世界状态：日间阴天" -> "2077年1月1日08时00分，日间阴天"
+    const timeMatch = text.match(/当前故事时间：(.*?)，世界状态：(.*)/);
+    if (timeMatch) {
+        text = `${timeMatch[1]}，${timeMatch[2]}`;
+    }
+
+    // --- History Specific Filtering (Past Rounds) ---
+    if (entry.round < currentRound) {
+        // Filter Skill Activation prompts: "Name 发动了...技能..."
+        if (text.match(/发动了.*技能/)) return null;
+
+        // Note: Previous logic filtered all '>' lines here. 
+        // We removed that to allow the 'keepKeywords' logic above to persist trade logs from the past.
+
+        // Filter No-check success (Redundant if caught by > rule, but harmless to keep)
+        if (text.includes('(行为生效)')) return null;
+    }
+
+    // Remove empty lines after cleaning
+    if (!text.trim()) return null;
+    return text;
+};
+
 /**
  * Extracts character-specific memory with Logarithmic Decay Sampling.
  * 
@@ -79,30 +165,7 @@ export const getCharacterMemory = (
     const roundMap = new Map<number, LogEntry[]>();
     
     history.forEach(entry => {
-        // --- HIDDEN ROUND CHECK ---
-        if (entry.snapshot && entry.snapshot.isHiddenRound) {
-             const participants = entry.snapshot.currentOrder || [];
-             const isSystem = charId === 'system'; 
-             const isEnv = charId.startsWith('env_'); 
-             const hasActed = entry.actingCharId === charId;
-             const isParticipant = participants.includes(charId) || hasActed;
-             
-             if (!isParticipant && !isSystem && !isEnv) return;
-        }
-        // ---------------------------
-
-        let isPresent = false;
-        if (entry.presentCharIds && entry.presentCharIds.includes(charId)) isPresent = true;
-        if (!isPresent && currentLocationId && entry.locationId === currentLocationId) isPresent = true;
-        if (!isPresent && entry.actingCharId === charId) isPresent = true;
-        
-        // Environment character fallback
-        if (!isPresent && charId.startsWith('env_')) {
-             const suffix = charId.replace('env_', '');
-             if (entry.locationId === suffix) isPresent = true;
-        }
-
-        if (isPresent) {
+        if (isWitnessedBy(entry, charId, currentLocationId)) {
             if (!roundMap.has(entry.round)) roundMap.set(entry.round, []);
             roundMap.get(entry.round)?.push(entry);
         }
@@ -170,60 +233,8 @@ export const getCharacterMemory = (
             
             const roundLines = entries
                 .map(entry => {
-                    // --- Universal Cleaning Phase 1: HTML & Whitespace ---
-                    // Clean HTML tags first to ensure regex matches text correctly
-                    let text = entry.content.replace(/<[^>]+>/g, '').trim();
-
-                    // --- Universal Cleaning Phase 2: System Logs ---
-                    // Aggressively filter out system logs for character memory
-                    // Matches "系统:", "系统：", "[系统]", or just "系统" at start
-                    if (text.match(/^(系统|\[系统\])[:：\s]/)) return null;
-                    if (text.startsWith('系统')) return null; // Catch-all for malformed
-                    if (text.includes("--- 轮次结算")) return null;
-                    
-                    // --- Universal Cleaning Phase 3: Specific Blacklist ---
-                    // These concepts are meta-game mechanics characters shouldn't explicitly recall as text
-                    if (text.includes("(后台)") || text.includes("正在寻找")) return null; // Population logs
-                    if (text.includes("欲望已满足")) return null; // Settlement details
-                    if (text.includes("新欲望已产生")) return null; // Env generation
-                    if (text.includes("引擎全局设置")) return null; // Settings
-                    if (text.includes("快速移动至")) return null; // Fast travel mechanics
-                    if (text.includes("发现当地角色")) return null; // Population logs
-
-                    // === NEW FILTERS (ENHANCED) ===
-                    // 1. Skill Activation with Target marker (Mechanical)
-                    if (text.includes("(目标: ")) return null;
-
-                    // 2. Mechanic Logs starting with > (Retain only acquisition/trade)
-                    // Matches "> " or "＞ "
-                    if (text.startsWith('>') || text.startsWith('＞')) {
-                        const keepKeywords = ["获得", "交易", "抽取", "放入","查看","发现", "移动", "燃命"];
-                        // If it doesn't contain any of the keep keywords, filter it out
-                        if (!keepKeywords.some(k => text.includes(k))) return null;
-                    }
-                    // ==============================
-
-                    // Simplify Time/World Status Logs
-                    // Pattern: "当前故事时间：2077年1月1日08时00分，世界状态：日间阴天" -> "2077年1月1日08时00分，日间阴天"
-                    const timeMatch = text.match(/当前故事时间：(.*?)，世界状态：(.*)/);
-                    if (timeMatch) {
-                        text = `${timeMatch[1]}，${timeMatch[2]}`;
-                    }
-
-                    // --- History Specific Filtering (Past Rounds) ---
-                    if (entry.round < currentRound) {
-                        // Filter Skill Activation prompts: "Name 发动了...技能..."
-                        if (text.match(/发动了.*技能/)) return null;
-
-                        // Note: Previous logic filtered all '>' lines here. 
-                        // We removed that to allow the 'keepKeywords' logic above to persist trade logs from the past.
-
-                        // Filter No-check success (Redundant if caught by > rule, but harmless to keep)
-                        if (text.includes('(行为生效)')) return null;
-                    }
-
-                    // Remove empty lines after cleaning
-                    if (!text.trim()) return null;
+                    let text = cleanMemoryText(entry, currentRound);
+                    if (text === null) return null;
 
                     // --- Image Injection ---
                     if (imageBuilder && entry.images && entry.images.length > 0) {
@@ -271,3 +282,134 @@ export const getCharacterMemory = (
     // 4. Return in Chronological Order (Oldest -> Newest)
     return finalBlocks.reverse().join('\n');
 };
+
+// --- Retrieval Memory ---
+// Every completed round becomes one episode per character (only what they witnessed) and is embedded
+// by useMemoryIndexer. When a character acts, the episodes most similar to the current situation are recalled
+// next to the decay sample above, so important old events are not lost purely because of their age.
+// Rounds longer than MAX_EPISODE_CHARS are summarized by the indexer before embedding; when that is off or
+// fails, they are embedded in parts (splitEpisode) so the whole round stays retrievable.
+
+export const MAX_EPISODE_CHARS = 400; // Longer episodes are summarized or split (characters)
+const QUERY_ENTRY_COUNT = 6;
+
+export interface MemoryEpisode {
+    round: number;
+    locationId?: string;
+    text: string;
+    part?: number; // Set on the parts of a split episode (1-based)
+}
+
+export const buildMemoryEpisodes = (history: LogEntry[], charId: string, fromRound: number, toRound: number): MemoryEpisode[] => {
+    const roundMap = new Map<number, LogEntry[]>();
+    history.forEach(entry => {
+        if (entry.round < fromRound || entry.round > toRound) return;
+        if (!isWitnessedBy(entry, charId)) return;
+        if (!roundMap.has(entry.round)) roundMap.set(entry.round, []);
+        roundMap.get(entry.round)?.push(entry);
+    });
+
+    const episodes: MemoryEpisode[] = [];
+    Array.from(roundMap.keys()).sort((a, b) => a - b).forEach(round => {
+        const entries = roundMap.get(round) || [];
+        // Treat every round as past so the history-specific filters apply
+        const lines = entries
+            .map(entry => cleanMemoryText(entry, toRound + 1))
+            .filter((line): line is string => line !== null);
+        if (lines.length === 0) return;
+
+        episodes.push({ round, locationId: entries.find(e => e.locationId)?.locationId, text: lines.join('\n') });
+    });
+    return episodes;
+};
+
+// Splits a long episode at line breaks into parts of at most MAX_EPISODE_CHARS (overlong lines are cut up)
+export const splitEpisode = (episode: MemoryEpisode): MemoryEpisode[] => {
+    if (episode.text.length <= MAX_EPISODE_CHARS) return [episode];
+    const pieces = episode.text.split('\n').flatMap(line => {
+        const chunks: string[] = [];
+        for (let i = 0; i < line.length; i += MAX_EPISODE_CHARS) chunks.push(line.slice(i, i + MAX_EPISODE_CHARS));
+        return chunks;
+    });
+    const parts: string[] = [];
+    pieces.forEach(piece => {
+        const last = parts.length - 1;
+        if (last >= 0 && parts[last].length + 1 + piece.length <= MAX_EPISODE_CHARS) parts[last] += '\n' + piece;
+        else parts.push(piece);
+    });
+    return parts.map((text, i) => ({ ...episode, text, part: i + 1 }));
+};
+
+// Helper: The latest lines the character witnessed, used as the retrieval query
+export const buildRetrievalQuery = (history: LogEntry[], charId: string, extra: string = ""): string => {
+    const lastRound = history.length > 0 ? history[history.length - 1].round : 0;
+    const recent: string[] = [];
+    for (let i = history.length - 1; i >= 0 && recent.length < QUERY_ENTRY_COUNT; i--) {
+        const entry = history[i];
+        if (!isWitnessedBy(entry, charId)) continue;
+        const text = cleanMemoryText(entry, lastRound);
+        if (text) recent.unshift(text);
+    }
+    return [extra, ...recent].filter(t => t).join('\n');
+};
+
+export const retrieveRelevantMemories = async (
+    index: CharacterMemoryIndex | undefined,
+    queryText: string,
+    settings: MemoryRetrievalSettings,
+    apiKeys: Record<string, string>,
+    beforeRound: number // Only episodes older than this (newer ones are covered by the recency sample)
+): Promise<{ record: MemoryRecord, score: number }[]> => {
+    if (!index || !settings.enabled || !queryText.trim()) return [];
+    const backend = resolveEmbeddingBackend(settings, apiKeys);
+    // Index is stale (backend switched); the indexer rebuilds it
+    if (index.backend !== backend.signature) return [];
+
+    const candidates = index.records.filter(r => r.round < beforeRound);
+    if (candidates.length === 0) return [];
+
+    const [query] = await backend.embed([queryText]);
+    if (!query) return [];
+    return candidates
+        .map(record => ({ record, score: cosineSimilarity(query, record.vector) }))
+        .filter(hit => hit.score >= settings.minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(0, settings.topK));
+};
+
+/**
+ * Recalled old episodes for a character, formatted for the memory section of a prompt
+ * (chronological, marked with round and place). Embedding failures only skip retrieval.
+ */
+export const getRetrievedMemory = async (
+    index: CharacterMemoryIndex | undefined,
+    queryText: string,
+    settings: MemoryRetrievalSettings | undefined,
+    apiKeys: Record<string, string>,
+    beforeRound: number,
+    locationMap?: Record<string, MapLocation>,
+    onDebug?: (log: DebugLog) => void
+): Promise<string> => {
+    if (!settings?.enabled) return "";
+    try {
+        const hits = await retrieveRelevantMemories(index, queryText, settings, apiKeys, beforeRound);
+        return hits
+            .sort((a, b) => a.record.round - b.record.round)
+            .map(({ record }) => {
+                const locName = record.locationId ? locationMap?.[record.locationId]?.name : undefined;
+                return `[R${record.round}${locName ? ` ${locName}` : ''} 回忆] ${record.text}`;
+            })
+            .join('\n');
+    } catch (e: any) {
+        if (onDebug) {
+            onDebug({
+                id: `debug_memory_retrieval_${Date.now()}`,
+                timestamp: Date.now(),
+                characterName: "System (Memory Retrieval)",
+                prompt: queryText,
+                response: `Error: ${e?.message || e}`
+            });
+        }
+        return "";
+    }
+};
@@ -223,7 +223,7 @@ export const buildContextMessages = (
 };
 
 // --- Logic Helper: Pleasure Instruction Generation ---
-export const getPleasureInstruction = (char: Character): string => {
+export const getPleasureInstruction = (char: Character, random: () => number = Math.random): string => {
     // 1. Get Pleasure Value
     let pleasureVal = 50;
     const getAttr = (k: string) => {
@@ -239,7 +239,7 @@ export const getPleasureInstruction = (char: Character): string => {
     let selectedDriveStr = "无特定渴望";
     if (char.drives && char.drives.length > 0) {
         const totalWeight = char.drives.reduce((sum, d) => sum + (d.weight || 50), 0);
-        let r = Math.random() * totalWeight;
+        let r = random() * totalWeight;
         let selected = char.drives[0];
         for (const d of char.drives) {
             r -= (d.weight || 50);
@@ -0,0 +1,66 @@
+
+import { Provider, ReplayBundle, ReplayEntry, ReplayMode, RngState } from "../../types";
+import { hashString } from "../randomUtils";
+
+// --- Deterministic Record / Replay ---
+// In record mode every AI response is captured (keyed by a fingerprint of the request) and appended to the
+// save's ReplayBundle. In replay mode responses are served from the bundle instead of the network, so a
+// session with the same seed and player inputs reproduces exactly, without tokens or network access.
+
+export const REPLAY_BUNDLE_VERSION = 1;
+
+export const createReplayBundle = (startRound: number, startRng?: RngState): ReplayBundle => ({
+    version: REPLAY_BUNDLE_VERSION,
+    createdAt: Date.now(),
+    startRound,
+    startRng,
+    entries: []
+});
+
+// Two hashes + length keep accidental collisions between long prompts negligible
+export const fingerprintRequest = (provider: Provider, model: string, contents: any[], config?: any): string => {
+    const text = JSON.stringify({ provider, model, contents, config: config || {} });
+    return `${hashString(text).toString(16)}${hashString(`#${text}`).toString(16)}_${text.length.toString(16)}`;
+};
+
+let activeMode: ReplayMode = 'off';
+// Fingerprint -> remaining entries (FIFO), so identical requests replay their responses in recorded order
+let pendingEntries = new Map<string, ReplayEntry[]>();
+
+export const configureReplay = (mode: ReplayMode, bundle?: ReplayBundle) => {
+    activeMode = mode;
+    pendingEntries = new Map();
+    if (mode === 'replay' && bundle) {
+        bundle.entries.forEach(entry => {
+            const list = pendingEntries.get(entry.fingerprint) || [];
+            list.push(entry);
+            pendingEntries.set(entry.fingerprint, list);
+        });
+    }
+};
+
+export const getReplayMode = (): ReplayMode => activeMode;
+
+export const takeReplayEntry = (fingerprint: string): ReplayEntry | undefined => {
+    return pendingEntries.get(fingerprint)?.shift();
+};
+
+export const countPendingReplayEntries = (): number => {
+    let count = 0;
+    pendingEntries.forEach(list => { count += list.length; });
+    return count;
+};
+
+// Helper: recorded entries are collected into GameState by useReplayRecorder
+export const dispatchReplayRecord = (entry: ReplayEntry) => {
+    try {
+        window.dispatchEvent(new CustomEvent('ai_replay_record', { detail: entry }));
+    } catch (e) {
+        // Ignore errors in non-browser envs
+    }
+};
+
+export const isReplayBundle = (data: any): data is ReplayBundle => {
+    return !!data && typeof data.version === 'number' && Array.isArray(data.entries)
+        && data.entries.every((e: any) => e && typeof e.fingerprint === 'string' && typeof e.text === 'string');
+};
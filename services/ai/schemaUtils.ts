@@ -0,0 +1,173 @@
+
+// --- JSON Schema Utilities for Structured Output ---
+// A small, dependency-free subset of JSON Schema: enough to describe our AI response shapes,
+// translate them to each provider's structured-output format and validate responses client-side.
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema; // Default: allowed
+    items?: JsonSchema;
+    enum?: (string | number | boolean | null)[];
+}
+
+// Context passed back into the request builder when the previous response failed validation
+export interface RepairContext {
+    rawResponse: string;
+    error: Error;
+}
+
+export class AIResponseParseError extends Error {
+    rawResponse: string;
+    constructor(message: string, rawResponse: string) {
+        super(message);
+        this.name = 'AIResponseParseError';
+        this.rawResponse = rawResponse;
+    }
+}
+
+export class AISchemaValidationError extends Error {
+    issues: string[];
+    rawResponse: string;
+    constructor(issues: string[], rawResponse: string) {
+        super(`Schema validation failed: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`);
+        this.name = 'AISchemaValidationError';
+        this.issues = issues;
+        this.rawResponse = rawResponse;
+    }
+}
+
+const typeOf = (value: any): JsonSchemaType => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: any, expected: JsonSchemaType): boolean => {
+    const actual = typeOf(value);
+    if (expected === 'number') return actual === 'number' || actual === 'integer';
+    return actual === expected;
+};
+
+// Returns a list of human-readable issues (empty = valid)
+export const validateJsonSchema = (value: any, schema: JsonSchema, path: string = '$'): string[] => {
+    const issues: string[] = [];
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!allowed.some(t => matchesType(value, t))) {
+            issues.push(`${path}: expected ${allowed.join('|')}, got ${typeOf(value)}`);
+            return issues;
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        (schema.required || []).forEach(key => {
+            if (value[key] === undefined) issues.push(`${path}.${key}: required`);
+        });
+        Object.entries(value).forEach(([key, child]) => {
+            const propSchema = schema.properties?.[key];
+            if (propSchema) {
+                issues.push(...validateJsonSchema(child, propSchema, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                issues.push(`${path}.${key}: unexpected property`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                issues.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`));
+            }
+        });
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, idx) => issues.push(...validateJsonSchema(item, schema.items!, `${path}[${idx}]`)));
+    }
+
+    return issues;
+};
+
+// Strips markdown fences and parses; falls back to the outermost {...} block for chatty responses
+export const parseJsonResponse = (raw: string): any => {
+    const text = raw.replace(/```json/g, '').replace(/```/g, '').trim();
+    try {
+        return JSON.parse(text);
+    } catch (e: any) {
+        const start = text.indexOf('{');
+        const end = text.lastIndexOf('}');
+        if (start !== -1 && end > start) {
+            try {
+                return JSON.parse(text.slice(start, end + 1));
+            } catch (inner) {
+                // Fall through to typed error
+            }
+        }
+        throw new AIResponseParseError(`Invalid JSON: ${e.message}`, raw);
+    }
+};
+
+/**
+ * Converts to Gemini's OpenAPI-style `responseSchema`.
+ * Returns undefined when a required part uses constructs Gemini can't express (free-form maps),
+ * in which case callers fall back to plain JSON mode + client-side validation.
+ */
+export const toGeminiSchema = (schema: JsonSchema): any | undefined => {
+    const types = Array.isArray(schema.type) ? schema.type : (schema.type ? [schema.type] : []);
+    const nonNull = types.filter(t => t !== 'null');
+    const nullable = types.includes('null');
+
+    if (nonNull.length > 1) {
+        const variants = nonNull.map(t => toGeminiSchema({ ...schema, type: t }));
+        if (variants.some(v => !v)) return undefined;
+        return { anyOf: variants, nullable: nullable || undefined, description: schema.description };
+    }
+
+    const type = nonNull[0];
+    const result: any = {};
+    if (type) result.type = type.toUpperCase();
+    if (nullable) result.nullable = true;
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum.filter(v => typeof v === 'string');
+
+    if (type === 'object') {
+        if (!schema.properties || Object.keys(schema.properties).length === 0) return undefined;
+        result.properties = {};
+        for (const [key, child] of Object.entries(schema.properties)) {
+            const converted = toGeminiSchema(child);
+            if (converted) {
+                result.properties[key] = converted;
+            } else if (schema.required?.includes(key)) {
+                return undefined;
+            } // Optional free-form fields are simply left out of the Gemini schema
+        }
+        result.propertyOrdering = Object.keys(result.properties);
+        if (schema.required && schema.required.length > 0) result.required = schema.required;
+    }
+
+    if (type === 'array' && schema.items) {
+        const items = toGeminiSchema(schema.items);
+        if (!items) return undefined;
+        result.items = items;
+    }
+
+    return result;
+};
+
+// Appends the failed response plus a correction request so the model can repair its own output
+export const appendRepairTurn = (messages: any[], repair?: RepairContext): any[] => {
+    if (!repair) return messages;
+    const issues = repair.error instanceof AISchemaValidationError
+        ? repair.error.issues.slice(0, 10).map(i => `- ${i}`).join('\n')
+        : `- ${repair.error.message}`;
+    return [
+        ...messages,
+        { role: 'model', parts: [{ text: repair.rawResponse || "(空回复)" }] },
+        { role: 'user', parts: [{ text: `你上一次的回复未能通过格式校验：\n${issues}\n\n请修正以上问题，仅输出完整且合法的 JSON，不要包含任何其它文字。` }] }
+    ];
+};
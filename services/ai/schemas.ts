@@ -0,0 +1,284 @@
+
+import { LetterTemplate } from "../../types";
+import { JsonSchema } from "./schemaUtils";
+
+// --- Response Schemas per AI Feature ---
+// Gemini's responseSchema drops undeclared keys, so the chain-of-thought keys the default prompts ask for ("语言", "叙事类型"...)
+// are declared as optional properties, in the prompt's order ahead of the fields they lead up to (propertyOrdering follows key order).
+
+const STR: JsonSchema = { type: 'string' };
+const NUM: JsonSchema = { type: 'number' };
+const STR_OR_NUM: JsonSchema = { type: ['string', 'number'] };
+const STR_LIST: JsonSchema = { type: 'array', items: STR };
+
+// Helper: Optional free-text reasoning keys
+const reasoningKeys = (...keys: string[]): Record<string, JsonSchema> => Object.fromEntries(keys.map(k => [k, STR]));
+
+// Content self-check written before the narrative by the action and reaction prompts
+const CONTENT_CHECK_KEYS: Record<string, JsonSchema> = {
+    进阶类型: { type: ['array', 'string'], items: STR },
+    ...reasoningKeys('视觉刺激', '重复风险', '规避内容', '当前角色', '时间影响')
+};
+
+const EFFECT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: STR,
+        targetType: STR,
+        targetId: STR,
+        targetAttribute: STR,
+        value: STR_OR_NUM,
+        dynamicValue: { type: 'boolean' },
+        conditionDescription: STR
+    },
+    required: ['targetAttribute', 'value']
+};
+
+export const CARD_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: STR,
+        description: STR,
+        itemType: STR,
+        triggerType: STR,
+        cost: NUM,
+        effects: { type: 'array', items: EFFECT_SCHEMA }
+    },
+    required: ['name', 'description']
+};
+
+const DRIVE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: { condition: STR, amount: NUM, weight: NUM },
+    required: ['condition', 'amount']
+};
+
+export const AI_COMMAND_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        type: { type: 'string', enum: ['use_skill', 'buy_card', 'create_card', 'create_attr', 'update_attr', 'move_to', 'lottery', 'redeem_card'] },
+        skillId: STR,
+        targetId: STR,
+        buyCardId: STR,
+        createdCard: CARD_SCHEMA,
+        createdAttributes: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { targetId: STR, attribute: { type: 'object', properties: { name: STR, value: STR_OR_NUM } } },
+                required: ['attribute']
+            }
+        },
+        attributeUpdates: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    target: { type: 'string', enum: ['self', 'world'] },
+                    key: STR,
+                    value: STR_OR_NUM,
+                    visibility: STR
+                },
+                required: ['key', 'value']
+            }
+        },
+        destinationName: STR,
+        poolId: STR,
+        action: { type: 'string', enum: ['draw', 'deposit', 'peek'] },
+        amount: NUM,
+        cardIds: STR_LIST,
+        itemName: STR,
+        isHidden: { type: 'boolean' },
+        targetCharId: STR,
+        oldCardId: STR,
+        newCard: CARD_SCHEMA,
+        effectOverrides: { type: 'object', additionalProperties: STR_OR_NUM }
+    },
+    required: ['type']
+};
+
+export const TURN_ACTION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...reasoningKeys('语言', '叙事类型'),
+        ...CONTENT_CHECK_KEYS,
+        narrative: STR,
+        speech: STR,
+        ...reasoningKeys('行为翻译'), // Turns the narrative into the commands below
+        timePassed: STR,
+        commands: { type: 'array', items: AI_COMMAND_SCHEMA },
+        generatedConflicts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { targetCharId: STR, desc: STR, apReward: NUM },
+                required: ['targetCharId', 'desc']
+            }
+        },
+        generatedDrives: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { targetCharId: STR, drive: DRIVE_SCHEMA },
+                required: ['targetCharId', 'drive']
+            }
+        }
+    }
+};
+
+// Relative relationship change; reactions name only the other side (the reacting character is the subject)
+const RELATIONSHIP_CHANGE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        fromId: STR,
+        toId: STR,
+        targetName: STR,
+        affinity: NUM,
+        trust: NUM,
+        addTags: STR_LIST,
+        removeTags: STR_LIST
+    }
+};
+
+export const REACTION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...reasoningKeys('语言'),
+        ...CONTENT_CHECK_KEYS,
+        speech: STR,
+        relationshipChanges: { type: 'array', items: RELATIONSHIP_CHANGE_SCHEMA }
+    },
+    required: ['speech']
+};
+
+export const CONDITIONS_BATCH_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...reasoningKeys('语言'),
+        // Map keyed by item id
+        results: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                properties: {
+                    result: { type: 'boolean' },
+                    reason: STR,
+                    derivedValue: { type: ['number', 'string', 'null'] },
+                    targetName: { type: ['string', 'null'] },
+                    newAttribute: { type: ['object', 'null'], properties: { name: STR, type: STR } },
+                    tradeResult: {
+                        type: ['object', 'null'],
+                        properties: {
+                            itemName: STR,
+                            itemType: STR,
+                            description: STR,
+                            transactionType: { type: 'string', enum: ['buy', 'sell'] },
+                            price: NUM,
+                            sourceCharacterName: STR
+                        }
+                    }
+                },
+                required: ['result']
+            }
+        }
+    },
+    required: ['results']
+};
+
+export const SETTLEMENT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        analysis: STR,
+        solvedConflictIds: STR_LIST,
+        fulfilledDriveIds: STR_LIST,
+        completedObjectiveIds: STR_LIST,
+        failedQuestIds: STR_LIST,
+        relationshipChanges: { type: 'array', items: RELATIONSHIP_CHANGE_SCHEMA }
+    }
+};
+
+export const TURN_ORDER_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        order: STR_LIST,
+        worldUpdates: { type: 'object', additionalProperties: STR_OR_NUM }
+    },
+    required: ['order']
+};
+
+const NAMED_ENTRY_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: { name: STR, description: STR },
+    required: ['name', 'description']
+};
+
+export const LOCATION_DETAILS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: STR,
+        description: STR,
+        region: NAMED_ENTRY_SCHEMA,
+        localItems: { type: 'array', items: NAMED_ENTRY_SCHEMA },
+        chars: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { name: STR, description: STR, appearanceImageId: STR },
+                required: ['name', 'description']
+            }
+        }
+    },
+    required: ['name', 'description']
+};
+
+// `attributes` is a free-form map Gemini can't express; requiring it keeps this schema away from Gemini (plain JSON mode there)
+export const CHARACTER_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...reasoningKeys('设计语言', '种族'),
+        name: STR,
+        appearance: STR,
+        description: STR,
+        style: STR,
+        attributes: { type: 'object', additionalProperties: STR_OR_NUM },
+        skills: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { name: STR, description: STR, trigger: STR, condition: STR, effect_attr: STR, effect_val: STR_OR_NUM }
+            }
+        },
+        drives: { type: 'array', items: DRIVE_SCHEMA },
+        conflicts: {
+            type: 'array',
+            items: { type: 'object', properties: { desc: STR, apReward: NUM }, required: ['desc'] }
+        }
+    },
+    required: ['attributes']
+};
+
+export const UNVEIL_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        results: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { ...reasoningKeys('语言'), charId: STR, unveilText: STR },
+                required: ['charId', 'unveilText']
+            }
+        }
+    },
+    required: ['results']
+};
+
+// Letters are shaped by the user's template: { intro, [paragraph.key]: { [fragment.key]: string } }
+export const buildLetterSchema = (template: LetterTemplate): JsonSchema => {
+    const properties: Record<string, JsonSchema> = { intro: STR };
+    template.paragraphs.forEach(p => {
+        const fragments: Record<string, JsonSchema> = {};
+        p.fragments.forEach(f => { fragments[f.key] = STR_OR_NUM; });
+        properties[p.key] = { type: 'object', properties: fragments };
+    });
+    return { type: 'object', properties };
+};
@@ -0,0 +1,90 @@
+
+import { AIUsageRecord, ModelCost, UsageBudget, UsageStats, UsageTotals } from "../../types";
+
+// Default price table (USD per 1M tokens). Users can override / extend in Developer settings.
+export const DEFAULT_MODEL_COSTS: Record<string, ModelCost> = {
+    'grok-4-1-fast-reasoning': { input: 0.2, output: 0.5 },
+    'grok-4-1-fast': { input: 0.2, output: 0.5 },
+    'gemini-3-pro-preview': { input: 2, output: 12 },
+    'gpt-5-2025-08-07': { input: 1.25, output: 10 },
+    'claude-sonnet-4-5-20250929': { input: 3, output: 15 },
+    'doubao-seed-1-6-251015': { input: 0.11, output: 1.11 },
+    'deepseek/deepseek-v3.2': { input: 0.28, output: 0.42 }
+};
+
+export const SYSTEM_USAGE_KEY = 'system';
+
+export const createEmptyTotals = (): UsageTotals => ({
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    reasoningTokens: 0,
+    cost: 0
+});
+
+export const createEmptyUsageStats = (): UsageStats => ({
+    sessionStartedAt: Date.now(),
+    total: createEmptyTotals(),
+    byCharacter: {},
+    byFeature: {},
+    byRound: {},
+    byModel: {},
+    budgetExceeded: false
+});
+
+// Helper: Exact match first, then the longest key that prefixes the model name (e.g. dated snapshots)
+export const findModelCost = (model: string, costTable: Record<string, ModelCost>): ModelCost | undefined => {
+    if (costTable[model]) return costTable[model];
+    const key = Object.keys(costTable)
+        .filter(k => model.startsWith(k))
+        .sort((a, b) => b.length - a.length)[0];
+    return key ? costTable[key] : undefined;
+};
+
+export const calculateCost = (record: AIUsageRecord, costTable: Record<string, ModelCost>): number => {
+    const price = findModelCost(record.model, costTable);
+    if (!price) return 0;
+    return (record.usage.promptTokens * price.input + record.usage.completionTokens * price.output) / 1_000_000;
+};
+
+const addToTotals = (totals: UsageTotals | undefined, record: AIUsageRecord, cost: number): UsageTotals => {
+    const base = totals || createEmptyTotals();
+    return {
+        requests: base.requests + 1,
+        promptTokens: base.promptTokens + record.usage.promptTokens,
+        completionTokens: base.completionTokens + record.usage.completionTokens,
+        reasoningTokens: base.reasoningTokens + (record.usage.reasoningTokens || 0),
+        cost: base.cost + cost
+    };
+};
+
+// Returns a new stats object with the record added to every aggregation bucket
+export const accumulateUsage = (
+    stats: UsageStats | undefined,
+    record: AIUsageRecord,
+    roundNumber: number,
+    costTable: Record<string, ModelCost>
+): UsageStats => {
+    const current = stats || createEmptyUsageStats();
+    const cost = calculateCost(record, costTable);
+    const charKey = record.characterId || SYSTEM_USAGE_KEY;
+    const featureKey = record.feature || 'unknown';
+    const modelKey = `${record.provider}/${record.model}`;
+
+    return {
+        ...current,
+        total: addToTotals(current.total, record, cost),
+        byCharacter: { ...current.byCharacter, [charKey]: addToTotals(current.byCharacter[charKey], record, cost) },
+        byFeature: { ...current.byFeature, [featureKey]: addToTotals(current.byFeature[featureKey], record, cost) },
+        byRound: { ...current.byRound, [roundNumber]: addToTotals(current.byRound[roundNumber], record, cost) },
+        byModel: { ...current.byModel, [modelKey]: addToTotals(current.byModel[modelKey], record, cost) }
+    };
+};
+
+export const isBudgetExceeded = (stats: UsageStats, budget?: UsageBudget): boolean => {
+    if (!budget || !budget.enabled) return false;
+    const tokens = stats.total.promptTokens + stats.total.completionTokens;
+    if (budget.maxTokens && tokens >= budget.maxTokens) return true;
+    if (budget.maxCost && stats.total.cost >= budget.maxCost) return true;
+    return false;
+};
@@ -5,9 +5,15 @@
  */
 
 // Core Utilities
-export { createClient, robustGenerate, testModelConnection } from "./ai/core";
+export type { AIQueueSnapshot } from "./ai/core";
+export { createClient, robustGenerate, testModelConnection, listAvailableModels, AIRequestError, AIRequestCancelledError, AIReplayMissError, supportsToolCalling, embedTexts, setProviderRateLimits, cancelQueuedRequests, getQueueSnapshot } from "./ai/core";
+export { configureReplay, createReplayBundle, countPendingReplayEntries, isReplayBundle } from "./ai/replayUtils";
+export { AIResponseParseError, AISchemaValidationError, validateJsonSchema } from "./ai/schemaUtils";
 export { fillPrompt, buildContextMessages, getPleasureInstruction } from "./ai/promptUtils";
-export { getGlobalMemory, getCharacterMemory } from "./ai/memoryUtils";
+export { getGlobalMemory, getCharacterMemory, buildMemoryEpisodes, splitEpisode, getRetrievedMemory, MAX_EPISODE_CHARS } from "./ai/memoryUtils";
+export type { MemoryEpisode } from "./ai/memoryUtils";
+export type { EmbeddingBackend, EmbeddingBackendFactory } from "./ai/embeddingUtils";
+export { registerEmbeddingBackend, listEmbeddingBackends, resolveEmbeddingBackend } from "./ai/embeddingUtils";
 
 // Data Utilities
 export { normalizeCard } from "./cardUtils";
@@ -19,3 +25,4 @@ export { checkConditionsBatch, analyzeSettlement } from "./ai/features/logicAI";
 export { determineTurnOrder, generateLocationDetails } from "./ai/features/worldAI";
 export { generateObservation, generateUnveil } from "./ai/features/narrativeAI";
 export { generateLetter } from "./ai/features/mailAI";
+export { summarizeChronicle } from "./ai/features/chronicleAI";
@@ -0,0 +1,80 @@
+
+import { ChronicleEntry, ChronicleSettings, LogEntry } from "../types";
+import { estimateTokenCount } from "./ai/promptUtils";
+
+// --- Chronicle (Rolling Summaries) ---
+// Each finished round is summarized into a level-0 entry; once enough round summaries fall behind the
+// recent window they are merged into a single level-1 block summary. Entries are kept sorted by round.
+
+export const DEFAULT_CHRONICLE_SETTINGS: ChronicleSettings = { enabled: false, blockSize: 10, keepRecentRounds: 10 };
+
+// Helper: Rounds already covered by some entry
+const isCovered = (chronicle: ChronicleEntry[], round: number) => chronicle.some(e => round >= e.startRound && round <= e.endRound);
+
+// Finished rounds (before `currentRound`) that have story content but no summary yet, oldest first
+export const getUnsummarizedRounds = (history: LogEntry[], chronicle: ChronicleEntry[] = [], currentRound: number): number[] => {
+    const rounds = new Set<number>();
+    history.forEach(entry => {
+        if (entry.round < currentRound && !isCovered(chronicle, entry.round)) rounds.add(entry.round);
+    });
+    return Array.from(rounds).sort((a, b) => a - b);
+};
+
+// The oldest run of `blockSize` consecutive round summaries outside the recent window, if any
+export const findMergeableBlock = (chronicle: ChronicleEntry[] = [], currentRound: number, settings: ChronicleSettings): ChronicleEntry[] | null => {
+    const size = Math.max(2, settings.blockSize);
+    const candidates = chronicle
+        .filter(e => e.level === 0 && e.endRound < currentRound - settings.keepRecentRounds)
+        .sort((a, b) => a.startRound - b.startRound);
+    if (candidates.length < size) return null;
+    return candidates.slice(0, size);
+};
+
+export const insertChronicleEntry = (chronicle: ChronicleEntry[] = [], entry: ChronicleEntry, replaces: string[] = []): ChronicleEntry[] => {
+    return [...chronicle.filter(e => !replaces.includes(e.id)), entry].sort((a, b) => a.startRound - b.startRound);
+};
+
+// Rolling back so that `round` is unfinished again drops every summary touching it or later rounds
+export const invalidateChronicle = (chronicle: ChronicleEntry[] | undefined, history: LogEntry[]): ChronicleEntry[] | undefined => {
+    if (!chronicle) return chronicle;
+    const lastRound = history.length > 0 ? history[history.length - 1].round : 0;
+    return chronicle.filter(e => e.endRound < lastRound);
+};
+
+// Helper: Raw text of one round for the summarizer
+export const formatRoundForChronicle = (history: LogEntry[], round: number): string => {
+    return history
+        .filter(e => e.round === round)
+        .map(e => e.content.replace(/<[^>]+>/g, '').trim())
+        .filter(t => t)
+        .join('\n');
+};
+
+export const formatChronicleRange = (entry: Pick<ChronicleEntry, 'startRound' | 'endRound'>) =>
+    entry.startRound === entry.endRound ? `第${entry.startRound}轮` : `第${entry.startRound}-${entry.endRound}轮`;
+
+/**
+ * Chronicle entries that end before `beforeRound`, for prompt injection ahead of raw history.
+ * Newest entries win when the budget (about 1/8 of the input limit) runs out.
+ */
+export const formatChronicle = (chronicle: ChronicleEntry[] | undefined, beforeRound: number, tokenLimit: number = 64000): string => {
+    if (!chronicle || chronicle.length === 0) return "";
+    const budget = Math.max(500, Math.floor(tokenLimit / 8));
+    const lines: string[] = [];
+    let tokens = 0;
+    const eligible = chronicle.filter(e => e.endRound < beforeRound).sort((a, b) => b.startRound - a.startRound);
+    for (const entry of eligible) {
+        const line = `[${formatChronicleRange(entry)}] ${entry.text}`;
+        const cost = estimateTokenCount(line);
+        if (tokens + cost > budget) break;
+        lines.push(line);
+        tokens += cost;
+    }
+    return lines.reverse().join('\n');
+};
+
+// Helper: Chronicle block followed by the raw history it precedes
+export const withChronicle = (chronicleStr: string, historyStr: string): string => {
+    if (!chronicleStr) return historyStr;
+    return `[编年史 (更早的剧情摘要)]\n${chronicleStr}\n\n[近期经过]\n${historyStr}`;
+};
@@ -1,6 +1,7 @@
 
-import { AttributeVisibility, Card, Character, ContextSegment, GameAttribute, MapLocation, MapRegion, PrizePool, CharPosition, GameImage } from "../types";
+import { AttributeVisibility, Card, Character, ContextSegment, GameAttribute, MapLocation, MapRegion, PrizePool, CharPosition, GameImage, RelationshipGraph } from "../types";
 import { ImageContextBuilder } from "./ai/ImageContextBuilder";
+import { formatRelationshipLine, getRelationship, hasRelationship } from "./relationshipUtils";
 
 // --- Visibility Logic ---
 export const getVisibleAttributes = (observerId: string, targetId: string, attributes: Record<string, GameAttribute>): Record<string, any> => {
@@ -179,7 +180,8 @@ export const formatOtherCharacters = (
     allChars: Character[], 
     currentLocId?: string, 
     cardPool: Card[] = [],
-    imageBuilder?: ImageContextBuilder
+    imageBuilder?: ImageContextBuilder,
+    relationships?: RelationshipGraph
 ): string => {
     const nearby = allChars.filter(c => c.id !== charId); 
     
@@ -228,10 +230,15 @@ export const formatOtherCharacters = (
             : "  (无活跃矛盾)";
 
         // Drives removed from others context to focus on external behaviors/conflicts
+
+        // Only the viewer's own feelings are shown; how the other side feels stays hidden
+        const relationStr = !isEnvironment && hasRelationship(relationships, charId, c.id)
+            ? `\n  - 你对TA的关系: ${formatRelationshipLine(getRelationship(relationships, charId, c.id))}`
+            : "";
         
         return `> ${c.name} (ID: ${c.id}): 
   [外观]: ${appearanceStr}${charImageStr}
-  - 属性: ${JSON.stringify(attrs)}
+  - 属性: ${JSON.stringify(attrs)}${relationStr}
   - 已知能力/物品:
 ${cardListStr}
   - 当前状态/矛盾:
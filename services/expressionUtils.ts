@@ -0,0 +1,366 @@
+
+import { Character, GameState } from "../types";
+import { getAttr } from "./attributeUtils";
+
+// --- Expression Language ---
+// Values starting with "=" are small expressions, e.g. "= clamp(self.健康 - 2d6, 0, 100)".
+// They are tokenized and parsed into an AST (never eval'd) and evaluated against the game state.
+//
+//   References: self.X / target.X (character attributes), world.X (world attributes), var.KEY (global variables),
+//               round, time.year|month|day|hour|minute|second
+//   Operators:  + - * / % and parentheses ("+" concatenates when either side is text)
+//   Functions:  min, max, clamp, floor, ceil, round, abs
+//   Dice:       2d6, d20 (drawn from the random source passed in, so results follow the game seed)
+
+export class ExpressionError extends Error {
+    position: number;
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+export type ExpressionValue = number | string;
+
+export type ExpressionNode =
+    | { kind: 'number', value: number, pos: number }
+    | { kind: 'string', value: string, pos: number }
+    | { kind: 'dice', count: number, sides: number, pos: number }
+    | { kind: 'ref', path: string[], pos: number }
+    | { kind: 'unary', op: '-' | '+', operand: ExpressionNode, pos: number }
+    | { kind: 'binary', op: '+' | '-' | '*' | '/' | '%', left: ExpressionNode, right: ExpressionNode, pos: number }
+    | { kind: 'call', name: string, args: ExpressionNode[], pos: number };
+
+export interface ExpressionContext {
+    gameState: GameState;
+    self?: Character;
+    target?: Character;
+    random: () => number;
+}
+
+type Token =
+    | { type: 'number', value: number, pos: number }
+    | { type: 'string', value: string, pos: number }
+    | { type: 'dice', count: number, sides: number, pos: number }
+    | { type: 'ident', value: string, pos: number }
+    | { type: 'punct', value: string, pos: number }
+    | { type: 'end', pos: number };
+
+// Dice are capped so a typo like "1000d1000" can't stall a turn
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+const FUNCTIONS: Record<string, { min: number, max: number, fn: (args: number[]) => number }> = {
+    min: { min: 1, max: Infinity, fn: args => Math.min(...args) },
+    max: { min: 1, max: Infinity, fn: args => Math.max(...args) },
+    clamp: { min: 3, max: 3, fn: ([v, lo, hi]) => Math.max(lo, Math.min(hi, v)) },
+    floor: { min: 1, max: 1, fn: ([v]) => Math.floor(v) },
+    ceil: { min: 1, max: 1, fn: ([v]) => Math.ceil(v) },
+    round: { min: 1, max: 1, fn: ([v]) => Math.round(v) },
+    abs: { min: 1, max: 1, fn: ([v]) => Math.abs(v) }
+};
+
+const TIME_PARTS = ['year', 'month', 'day', 'hour', 'minute', 'second'];
+
+// Helper: Identifier characters (ASCII word characters plus any non-ASCII, so CJK attribute names work)
+const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch) || ch.charCodeAt(0) > 0x7f;
+const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch) || ch.charCodeAt(0) > 0x7f;
+
+const tokenize = (src: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < src.length) {
+        const ch = src[i];
+        if (/\s/.test(ch)) { i++; continue; }
+        const start = i;
+
+        if (/[0-9]/.test(ch)) {
+            while (i < src.length && /[0-9.]/.test(src[i])) i++;
+            const text = src.slice(start, i);
+            if (!/^\d+(\.\d+)?$/.test(text)) throw new ExpressionError(`无效数字 "${text}"`, start);
+            // "2d6": a count directly followed by d + sides
+            if (src[i] === 'd' && /[0-9]/.test(src[i + 1] || "") && /^\d+$/.test(text)) {
+                i++;
+                const sidesStart = i;
+                while (i < src.length && /[0-9]/.test(src[i])) i++;
+                tokens.push({ type: 'dice', count: Number(text), sides: Number(src.slice(sidesStart, i)), pos: start });
+            } else {
+                tokens.push({ type: 'number', value: Number(text), pos: start });
+            }
+            continue;
+        }
+
+        if (isIdentStart(ch)) {
+            while (i < src.length && isIdentPart(src[i])) i++;
+            const text = src.slice(start, i);
+            if (/^d\d+$/.test(text)) tokens.push({ type: 'dice', count: 1, sides: Number(text.slice(1)), pos: start });
+            else tokens.push({ type: 'ident', value: text, pos: start });
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            i++;
+            let value = "";
+            while (i < src.length && src[i] !== ch) value += src[i++];
+            if (i >= src.length) throw new ExpressionError("字符串缺少结束引号", start);
+            i++;
+            tokens.push({ type: 'string', value, pos: start });
+            continue;
+        }
+
+        if ('+-*/%(),.'.includes(ch)) {
+            tokens.push({ type: 'punct', value: ch, pos: start });
+            i++;
+            continue;
+        }
+
+        throw new ExpressionError(`无法识别的字符 "${ch}"`, start);
+    }
+
+    tokens.push({ type: 'end', pos: src.length });
+    return tokens;
+};
+
+// Recursive descent: expr := term (('+'|'-') term)*, term := unary (('*'|'/'|'%') unary)*, unary := ('-'|'+')* primary
+const parseTokens = (tokens: Token[]): ExpressionNode => {
+    let index = 0;
+    const peek = () => tokens[index];
+    const isPunct = (value: string) => { const t = peek(); return t.type === 'punct' && t.value === value; };
+    const expect = (value: string) => {
+        const t = peek();
+        if (!isPunct(value)) throw new ExpressionError(`此处应为 "${value}"`, t.pos);
+        index++;
+    };
+
+    const parseExpr = (): ExpressionNode => {
+        let left = parseTerm();
+        while (isPunct('+') || isPunct('-')) {
+            const t = tokens[index++] as { value: string, pos: number };
+            left = { kind: 'binary', op: t.value as '+' | '-', left, right: parseTerm(), pos: t.pos };
+        }
+        return left;
+    };
+
+    const parseTerm = (): ExpressionNode => {
+        let left = parseUnary();
+        while (isPunct('*') || isPunct('/') || isPunct('%')) {
+            const t = tokens[index++] as { value: string, pos: number };
+            left = { kind: 'binary', op: t.value as '*' | '/' | '%', left, right: parseUnary(), pos: t.pos };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isPunct('-') || isPunct('+')) {
+            const t = tokens[index++] as { value: string, pos: number };
+            return { kind: 'unary', op: t.value as '-' | '+', operand: parseUnary(), pos: t.pos };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const t = peek();
+        switch (t.type) {
+            case 'number':
+                index++;
+                return { kind: 'number', value: t.value, pos: t.pos };
+            case 'string':
+                index++;
+                return { kind: 'string', value: t.value, pos: t.pos };
+            case 'dice':
+                index++;
+                if (t.count < 1 || t.count > MAX_DICE) throw new ExpressionError(`骰子数量需在 1-${MAX_DICE} 之间`, t.pos);
+                if (t.sides < 1 || t.sides > MAX_SIDES) throw new ExpressionError(`骰子面数需在 1-${MAX_SIDES} 之间`, t.pos);
+                return { kind: 'dice', count: t.count, sides: t.sides, pos: t.pos };
+            case 'ident': {
+                index++;
+                if (isPunct('(')) {
+                    // Own keys only, so names like "constructor" can't reach Object.prototype
+                    const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, t.value) ? FUNCTIONS[t.value] : undefined;
+                    if (!fn) throw new ExpressionError(`未知函数 "${t.value}"`, t.pos);
+                    index++;
+                    const args: ExpressionNode[] = [];
+                    if (!isPunct(')')) {
+                        args.push(parseExpr());
+                        while (isPunct(',')) { index++; args.push(parseExpr()); }
+                    }
+                    expect(')');
+                    if (args.length < fn.min || args.length > fn.max) {
+                        throw new ExpressionError(`${t.value} 需要 ${fn.min === fn.max ? fn.min : `至少 ${fn.min}`} 个参数`, t.pos);
+                    }
+                    return { kind: 'call', name: t.value, args, pos: t.pos };
+                }
+                const path = [t.value];
+                while (isPunct('.')) {
+                    index++;
+                    const part = peek();
+                    // Attribute names may start with a digit or be a number (e.g. world.2)
+                    if (part.type === 'ident') path.push(part.value);
+                    else if (part.type === 'number') path.push(String(part.value));
+                    else throw new ExpressionError("\".\" 后应为名称", part.pos);
+                    index++;
+                }
+                validateRef(path, t.pos);
+                return { kind: 'ref', path, pos: t.pos };
+            }
+            case 'punct':
+                if (t.value === '(') {
+                    index++;
+                    const inner = parseExpr();
+                    expect(')');
+                    return inner;
+                }
+                throw new ExpressionError(`意外的 "${t.value}"`, t.pos);
+            case 'end':
+                throw new ExpressionError("表达式不完整", t.pos);
+        }
+    };
+
+    const root = parseExpr();
+    const rest = peek();
+    if (rest.type !== 'end') throw new ExpressionError("表达式在此处多余", rest.pos);
+    return root;
+};
+
+// Helper: References are checked at parse time so editors can report typos before the game runs
+const validateRef = (path: string[], pos: number) => {
+    const [scope, ...rest] = path;
+    switch (scope) {
+        case 'round':
+            if (rest.length) throw new ExpressionError("round 没有子字段", pos);
+            return;
+        case 'time':
+            if (rest.length !== 1 || !TIME_PARTS.includes(rest[0])) throw new ExpressionError(`time 后应为 ${TIME_PARTS.join("/")}`, pos);
+            return;
+        case 'self':
+        case 'target':
+        case 'world':
+        case 'var':
+            if (rest.length === 0) throw new ExpressionError(`${scope} 后应为 ".名称"`, pos);
+            return;
+        default:
+            throw new ExpressionError(`未知引用 "${scope}" (可用: self, target, world, var, round, time)`, pos);
+    }
+};
+
+// True for values that should be evaluated as an expression rather than used literally
+export const isExpression = (value: any): value is string => {
+    return typeof value === 'string' && value.trim().startsWith('=');
+};
+
+export const parseExpression = (src: string): ExpressionNode => {
+    // Positions are reported relative to the text after "="
+    const body = src.trim().replace(/^=/, "");
+    return parseTokens(tokenize(body));
+};
+
+// Editor helper: readable parse error for an expression value, or null if it's fine / not an expression
+export const getExpressionError = (value: any): string | null => {
+    if (!isExpression(value)) return null;
+    try {
+        parseExpression(value);
+        return null;
+    } catch (e: any) {
+        if (e instanceof ExpressionError) return `${e.message} (第 ${e.position + 1} 个字符)`;
+        return String(e?.message || e);
+    }
+};
+
+// Helper: Numbers stay numbers, numeric strings become numbers, other text stays text
+const toValue = (raw: any): ExpressionValue => {
+    if (typeof raw === 'number') return raw;
+    const text = String(raw ?? "");
+    const num = Number(text);
+    return text.trim() !== "" && !isNaN(num) ? num : text;
+};
+
+const toNumber = (value: ExpressionValue, pos: number): number => {
+    if (typeof value === 'number') return value;
+    throw new ExpressionError(`"${value}" 不是数值`, pos);
+};
+
+const resolveRef = (node: Extract<ExpressionNode, { kind: 'ref' }>, ctx: ExpressionContext): ExpressionValue => {
+    const [scope, ...rest] = node.path;
+    const name = rest.join(".");
+    const { gameState } = ctx;
+
+    switch (scope) {
+        case 'round':
+            return gameState.round.roundNumber;
+        case 'time': {
+            const parts = String(gameState.world.attributes['worldTime']?.value || "").split(":").map(Number);
+            const value = parts[TIME_PARTS.indexOf(name)];
+            if (value === undefined || isNaN(value)) throw new ExpressionError("世界时间无效", node.pos);
+            return value;
+        }
+        case 'self':
+        case 'target': {
+            const char = scope === 'self' ? ctx.self : ctx.target;
+            if (!char) throw new ExpressionError(`此处没有 ${scope} 角色`, node.pos);
+            const attr = getAttr(char, name);
+            if (!attr) throw new ExpressionError(`${char.name} 没有属性 "${name}"`, node.pos);
+            return toValue(attr.value);
+        }
+        case 'world': {
+            const attrs = gameState.world.attributes;
+            const attr = attrs[name] || Object.values(attrs).find(a => a.name === name);
+            if (!attr) throw new ExpressionError(`世界没有属性 "${name}"`, node.pos);
+            return toValue(attr.value);
+        }
+        case 'var': {
+            const variable = (gameState.appSettings.globalVariables || []).find(v => v.key === name);
+            if (!variable) throw new ExpressionError(`未定义变量 "${name}"`, node.pos);
+            return toValue(variable.value);
+        }
+        default:
+            throw new ExpressionError(`未知引用 "${scope}"`, node.pos);
+    }
+};
+
+const evaluateNode = (node: ExpressionNode, ctx: ExpressionContext): ExpressionValue => {
+    switch (node.kind) {
+        case 'number':
+        case 'string':
+            return node.value;
+        case 'dice': {
+            let total = 0;
+            for (let i = 0; i < node.count; i++) total += Math.floor(ctx.random() * node.sides) + 1;
+            return total;
+        }
+        case 'ref':
+            return resolveRef(node, ctx);
+        case 'unary': {
+            const value = toNumber(evaluateNode(node.operand, ctx), node.pos);
+            return node.op === '-' ? -value : value;
+        }
+        case 'binary': {
+            const left = evaluateNode(node.left, ctx);
+            const right = evaluateNode(node.right, ctx);
+            if (node.op === '+' && (typeof left === 'string' || typeof right === 'string')) return `${left}${right}`;
+            const a = toNumber(left, node.left.pos);
+            const b = toNumber(right, node.right.pos);
+            switch (node.op) {
+                case '+': return a + b;
+                case '-': return a - b;
+                case '*': return a * b;
+                case '/':
+                case '%':
+                    if (b === 0) throw new ExpressionError("除数为 0", node.pos);
+                    return node.op === '/' ? a / b : a % b;
+            }
+        }
+        case 'call':
+            return FUNCTIONS[node.name].fn(node.args.map(arg => toNumber(evaluateNode(arg, ctx), arg.pos)));
+    }
+};
+
+/**
+ * Evaluates an expression value ("= ..."). Throws ExpressionError on parse or evaluation errors
+ * (missing attribute, text used as a number, division by zero).
+ * Dice draw from `ctx.random`; pass a seeded source to keep results reproducible.
+ */
+export const evaluateExpression = (src: string, ctx: ExpressionContext): ExpressionValue => {
+    return evaluateNode(parseExpression(src), ctx);
+};
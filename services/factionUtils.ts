@@ -0,0 +1,152 @@
+
+import { Faction, GameState, MapRegion, MapSettlement } from "../types";
+import { isPointInPolygon } from "./geometryUtils";
+
+// --- Factions ---
+// Territory and membership live on the faction (regionIds / settlementIds / memberIds), so a region or
+// character can be claimed by several factions; the first faction in insertion order "controls" a region.
+
+export const REPUTATION_MIN = -100;
+export const REPUTATION_MAX = 100;
+
+export const DEFAULT_FACTION_COLORS = ["#ef4444", "#3b82f6", "#22c55e", "#eab308", "#a855f7", "#f97316", "#14b8a6", "#ec4899"];
+
+// Effect target attributes "声望:<faction>" / "reputation:<faction>" change the target's reputation with that faction
+const REPUTATION_EFFECT_PREFIXES = ["声望:", "声望：", "reputation:"];
+
+export const createFaction = (name: string, existing: Faction[] = []): Faction => ({
+    id: `faction_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    name,
+    description: "",
+    color: DEFAULT_FACTION_COLORS[existing.length % DEFAULT_FACTION_COLORS.length],
+    memberIds: [],
+    regionIds: [],
+    settlementIds: [],
+    attributes: {},
+    reputation: {}
+});
+
+export const getFactionList = (state: GameState): Faction[] => Object.values(state.factions || {});
+
+export const getRegionFaction = (state: GameState, regionId?: string): Faction | undefined => {
+    if (!regionId) return undefined;
+    return getFactionList(state).find(f => f.regionIds.includes(regionId));
+};
+
+export const getSettlementFaction = (state: GameState, settlementId?: string): Faction | undefined => {
+    if (!settlementId) return undefined;
+    return getFactionList(state).find(f => f.settlementIds.includes(settlementId));
+};
+
+export const getCharacterFactions = (state: GameState, charId: string): Faction[] => {
+    return getFactionList(state).filter(f => f.memberIds.includes(charId));
+};
+
+// Controlling faction at a world point: a settlement's owner wins over the surrounding region's
+export const getFactionAt = (state: GameState, point: { x: number, y: number }, regionId?: string): { faction: Faction, settlement?: MapSettlement, region?: MapRegion } | null => {
+    const settlement = (Object.values(state.map.settlements || {}) as MapSettlement[]).find(s => isPointInPolygon(point, s.vertices));
+    const settlementFaction = getSettlementFaction(state, settlement?.id);
+    if (settlement && settlementFaction) return { faction: settlementFaction, settlement };
+
+    const region = regionId
+        ? state.map.regions[regionId]
+        : (Object.values(state.map.regions || {}) as MapRegion[]).find(r => isPointInPolygon(point, r.vertices));
+    const regionFaction = getRegionFaction(state, region?.id);
+    if (region && regionFaction) return { faction: regionFaction, region };
+    return null;
+};
+
+export const getReputation = (faction: Faction, charId: string): number => faction.reputation[charId] ?? 0;
+
+export const clampReputation = (value: number): number => {
+    return Math.max(REPUTATION_MIN, Math.min(REPUTATION_MAX, Math.round(value)));
+};
+
+export const describeReputation = (value: number): string => {
+    if (value <= -60) return "死敌";
+    if (value <= -20) return "敌视";
+    if (value < 20) return "中立";
+    if (value < 60) return "友善";
+    return "崇敬";
+};
+
+// Resolves "声望:<faction name or id>"; null for ordinary attributes
+export const getReputationEffectFaction = (state: GameState, attributeName: string): Faction | null => {
+    const prefix = REPUTATION_EFFECT_PREFIXES.find(p => attributeName.toLowerCase().startsWith(p));
+    if (!prefix) return null;
+    const key = attributeName.slice(prefix.length).trim();
+    return getFactionList(state).find(f => f.id === key || f.name === key) || null;
+};
+
+export const applyReputationChange = (
+    state: GameState,
+    charId: string,
+    factionId: string,
+    delta: number
+): { state: GameState, log: string | null } => {
+    const faction = state.factions?.[factionId];
+    const char = state.characters[charId];
+    if (!faction || !char || !delta) return { state, log: null };
+
+    const current = getReputation(faction, charId);
+    const next = clampReputation(current + delta);
+    if (next === current) return { state, log: null };
+
+    return {
+        state: {
+            ...state,
+            factions: {
+                ...state.factions,
+                [factionId]: { ...faction, reputation: { ...faction.reputation, [charId]: next } }
+            }
+        },
+        log: `${char.name} 在 [${faction.name}] 的声望 ${next > current ? '+' : ''}${next - current} (当前: ${next}, ${describeReputation(next)})`
+    };
+};
+
+// Helper: One faction as prompt text
+const formatFaction = (faction: Faction): string => {
+    const attrList = Object.values(faction.attributes).map(a => `${a.name}=${a.value}`);
+    const attrs = attrList.length > 0 ? ` (${attrList.join(', ')})` : "";
+    return `[${faction.name}] ${faction.description || "(无描述)"}${attrs}`;
+};
+
+// Membership and standing of a character, plus who controls where they are (character actions)
+export const formatCharacterFactionContext = (state: GameState | undefined, charId: string, locationId?: string): string => {
+    if (!state || getFactionList(state).length === 0) return "（本世界尚无势力）";
+    const lines: string[] = [];
+
+    const memberships = getCharacterFactions(state, charId);
+    lines.push(memberships.length > 0 ? `所属势力: ${memberships.map(formatFaction).join('; ')}` : "所属势力: 无");
+
+    const standings = getFactionList(state)
+        .filter(f => f.reputation[charId] !== undefined)
+        .map(f => `${f.name} ${getReputation(f, charId)} (${describeReputation(getReputation(f, charId))})`);
+    if (standings.length > 0) lines.push(`声望: ${standings.join(', ')}`);
+
+    const location = locationId ? state.map.locations[locationId] : undefined;
+    const control = location ? getFactionAt(state, location.coordinates, location.regionId) : null;
+    lines.push(control
+        ? `当前地点控制者: ${formatFaction(control.faction)}${control.faction.memberIds.includes(charId) ? " (你是其成员)" : ""}`
+        : "当前地点控制者: 无 (无主之地)");
+
+    return lines.join('\n');
+};
+
+// Who controls the place being generated (location generation)
+export const formatFactionContextAt = (state: GameState | undefined, point: { x: number, y: number }): string => {
+    if (!state) return "";
+    const control = getFactionAt(state, point);
+    if (!control) return getFactionList(state).length > 0 ? "此处不属于任何已知势力。" : "";
+    const place = control.settlement ? "所在城镇" : "所在区域";
+    return `${place}由势力 ${formatFaction(control.faction)} 控制。地点描述应体现该势力的存在 (旗帜、守卫、习俗、法令等)。`;
+};
+
+// "rgba(r,g,b,a)" for a hex color, matching the rgba strings regions use
+export const factionColorToRgba = (hex: string, alpha: number): string => {
+    const clean = hex.replace('#', '');
+    const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean;
+    const num = parseInt(full, 16);
+    if (isNaN(num)) return `rgba(255,255,255,${alpha})`;
+    return `rgba(${(num >> 16) & 255},${(num >> 8) & 255},${num & 255},${alpha})`;
+};
@@ -0,0 +1,104 @@
+import { Character, GameState, MapState } from "../types";
+import { MAP_CONSTANTS } from "../constants";
+import { getTerrainHeight } from "./mapUtils";
+
+// --- Fog of War ---
+// Every character remembers the coarse cells it has seen (within sight of where it stood or walked).
+// The map is rendered for the union of the player characters' cells; environment characters are not tracked.
+
+type Point = { x: number, y: number };
+
+const CELL = MAP_CONSTANTS.FOG_CELL_SIZE;
+const ELEVATION_SIGHT_FACTOR = 2; // Extra meters of view per meter above sea level
+const ROUTE_SIGHT_RADIUS = CELL; // Narrow strip revealed along a travelled path
+
+export const getFogCellKey = (x: number, y: number): string => `${Math.floor(x / CELL)}_${Math.floor(y / CELL)}`;
+
+export const getFogCellCenter = (key: string): Point => {
+    const [cx, cy] = key.split('_').map(Number);
+    return { x: (cx + 0.5) * CELL, y: (cy + 0.5) * CELL };
+};
+
+export const getSightRadius = (map: MapState, x: number, y: number): number => {
+    const elevation = Math.max(0, getTerrainHeight(x, y, map.seed) - MAP_CONSTANTS.SEA_LEVEL);
+    return MAP_CONSTANTS.SIGHT_RADIUS + elevation * ELEVATION_SIGHT_FACTOR;
+};
+
+// Helper: Adds the cells whose centers lie within radius of the point
+const revealCircle = (cells: Set<string>, x: number, y: number, radius: number) => {
+    const minX = Math.floor((x - radius) / CELL), maxX = Math.floor((x + radius) / CELL);
+    const minY = Math.floor((y - radius) / CELL), maxY = Math.floor((y + radius) / CELL);
+    for (let cx = minX; cx <= maxX; cx++) {
+        for (let cy = minY; cy <= maxY; cy++) {
+            const dx = (cx + 0.5) * CELL - x;
+            const dy = (cy + 0.5) * CELL - y;
+            if (dx * dx + dy * dy <= radius * radius) cells.add(`${cx}_${cy}`);
+        }
+    }
+    cells.add(getFogCellKey(x, y));
+};
+
+// Helper: Samples a polyline every cell and reveals a strip around it
+const revealPath = (cells: Set<string>, path: Point[]) => {
+    for (let k = 1; k < path.length; k++) {
+        const a = path[k - 1], b = path[k];
+        const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / CELL));
+        for (let s = 0; s <= steps; s++) {
+            revealCircle(cells, a.x + (b.x - a.x) * s / steps, a.y + (b.y - a.y) * s / steps, ROUTE_SIGHT_RADIUS);
+        }
+    }
+};
+
+// Extends each character's explored cells from its current position and last route.
+// Returns the previous object when nothing new was seen, so callers can skip the update.
+export const updateExploredAreas = (map: MapState, characters: Record<string, Character>): Record<string, string[]> | undefined => {
+    let explored = map.explored;
+    Object.entries(map.charPositions).forEach(([charId, pos]) => {
+        if (!characters[charId] || charId.startsWith('env_')) return;
+        const previous = explored?.[charId] || [];
+        const cells = new Set(previous);
+        revealCircle(cells, pos.x, pos.y, getSightRadius(map, pos.x, pos.y));
+        if (pos.route) revealPath(cells, pos.route);
+        if (cells.size === previous.length) return;
+        explored = { ...(explored || {}), [charId]: Array.from(cells) };
+    });
+    return explored;
+};
+
+// Saves from before fog-of-war: everyone has seen the surroundings of every known place
+export const seedExploredAreas = (map: MapState): MapState => {
+    if (map.explored) return map;
+    const cells = new Set<string>();
+    Object.values(map.locations).forEach(loc => {
+        if (loc.isKnown) revealCircle(cells, loc.coordinates.x, loc.coordinates.y, getSightRadius(map, loc.coordinates.x, loc.coordinates.y));
+    });
+    const known = Array.from(cells);
+    const explored: Record<string, string[]> = {};
+    Object.keys(map.charPositions).forEach(charId => {
+        if (!charId.startsWith('env_')) explored[charId] = known;
+    });
+    return { ...map, explored };
+};
+
+// Union of the given characters' cells; null means no fog (nobody is tracked yet)
+export const getExploredCells = (map: MapState, charIds: string[]): Set<string> | null => {
+    const lists = charIds.map(id => map.explored?.[id]).filter((l): l is string[] => !!l);
+    if (lists.length === 0) return null;
+    return new Set(lists.flat());
+};
+
+// What the player sees: the union over all player characters
+export const getPlayerExploredCells = (state: GameState): Set<string> | null => {
+    const playerIds = (Object.values(state.characters) as Character[]).filter(c => c.isPlayer).map(c => c.id);
+    return getExploredCells(state.map, playerIds);
+};
+
+export const isPointExplored = (cells: Set<string> | null, x: number, y: number): boolean => {
+    return !cells || cells.has(getFogCellKey(x, y));
+};
+
+// Characters without any record yet are treated as knowing the whole map
+export const hasCharacterSeen = (map: MapState, charId: string, point: Point): boolean => {
+    const cells = map.explored?.[charId];
+    return !cells || cells.includes(getFogCellKey(point.x, point.y));
+};
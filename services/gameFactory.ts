@@ -5,9 +5,11 @@ import { DEFAULT_API_CONFIG } from '../config';
 import { generateInitialMap } from './mapUtils';
 import { INITIAL_DEFAULT_SETTINGS } from './DefaultSettings';
 import { DEFAULT_THEME_CONFIG } from './themeService';
+import { createEmptyUsageStats } from './ai/usageUtils';
+import { createRngState } from './randomUtils';
 
-export const createInitialGameState = (initialWorldConfig?: InitialWorldConfig): GameState => {
-  const { map, characters } = generateInitialMap(initialWorldConfig || INITIAL_DEFAULT_SETTINGS.initialWorldConfig);
+export const createInitialGameState = (initialWorldConfig?: InitialWorldConfig, worldSeed?: number): GameState => {
+  const { map, characters } = generateInitialMap(initialWorldConfig || INITIAL_DEFAULT_SETTINGS.initialWorldConfig, worldSeed);
   
   const initialLog: LogEntry = {
       id: `log_init_${Date.now()}`,
@@ -136,10 +138,18 @@ export const createInitialGameState = (initialWorldConfig?: InitialWorldConfig):
         },
         useNativeChooser: false,
         enableStreaming: true,
-        autoScrollOnNewLog: false
+        commandMode: 'json',
+        replayMode: 'off',
+        memoryRetrieval: { enabled: false, backend: 'local', topK: 3, minScore: 0.25, summarizeEpisodes: true },
+        chronicle: { enabled: false, blockSize: 10, keepRecentRounds: 10 },
+        autoScrollOnNewLog: false,
+        modelCosts: {},
+        usageBudget: { enabled: false, maxTokens: 0, maxCost: 0, onExceed: 'warn' }
     },
     defaultSettings: INITIAL_DEFAULT_SETTINGS,
     devMode: false,
-    debugLogs: []
+    debugLogs: [],
+    usageStats: createEmptyUsageStats(),
+    rng: createRngState()
   };
 };
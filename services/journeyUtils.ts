@@ -0,0 +1,322 @@
+import { Character, EncounterEntry, GameState, Journey, JourneyLeg, MapLocation, MapRegion, MapState, RouteBlocker, TravelRoute } from "../types";
+import { MAP_CONSTANTS } from "../constants";
+import { BIOME_LABELS, createEnvironmentCharacter, getBiomeAt, getTerrainHeight, isPointInPolygon } from "./mapUtils";
+import { expandMapAt, findRoute, formatRoute, formatTravelDuration, getTraversalAbilities } from "./routeUtils";
+import { advanceWorldTime } from "./timeUtils";
+import { RandomSource } from "./randomUtils";
+import { EmittedTriggerEvent } from "./triggerActionUtils";
+import { generateRandomFlagAvatar } from "../assets/imageLibrary";
+import { DEFAULT_AI_CONFIG } from "../config";
+
+// --- Journeys ---
+// Known destinations further than JOURNEY_MIN_DISTANCE are reached leg by leg. The party (followers at the
+// start) waits at a transient camp location with its own environment character; each round's settlement
+// moves the camp one leg on and may roll an encounter, which turns the next round into a hidden round.
+// Journeys belong to the player's party and start from the map panel only. Move commands (AI characters,
+// queued player actions) still move a single character at once, paying the route's time and physique.
+
+type Point = { x: number, y: number };
+
+export const JOURNEY_LOCATION_ID = "loc_journey";
+export const JOURNEY_MIN_DISTANCE = MAP_CONSTANTS.CHUNK_SIZE; // Shorter routes stay instant
+export const DEFAULT_ENCOUNTER_CHANCE = 0.3;
+
+const LEG_LENGTH = MAP_CONSTANTS.CHUNK_SIZE; // Roughly one chunk per leg
+const JOURNEY_ENV_ID = `env_${JOURNEY_LOCATION_ID}`;
+
+// Party members that travel together: followers standing at the location
+export const getJourneyTravellerIds = (state: GameState, locationId?: string): string[] => {
+    return (Object.values(state.characters) as Character[])
+        .filter(c => c.isFollowing && !c.id.startsWith('env_') && state.map.charPositions[c.id]?.locationId === locationId)
+        .map(c => c.id);
+};
+
+// Route for the whole party; a crossing counts when any member has the card for it
+export const planPartyRoute = (state: GameState, from: Point, destinationId: string, travellerIds: string[]): TravelRoute | null => {
+    const dest = state.map.locations[destinationId];
+    if (!dest) return null;
+    const canCross = Array.from(new Set(travellerIds.flatMap(id => {
+        const char = state.characters[id];
+        return char ? getTraversalAbilities(char, state.cardPool) : [] as RouteBlocker[];
+    })));
+    return findRoute(state.map, from, dest.coordinates, { canCross });
+};
+
+// Helper: Point at a given distance along a polyline
+const pointAlong = (path: Point[], dist: number): Point => {
+    let remaining = dist;
+    for (let k = 1; k < path.length; k++) {
+        const seg = Math.hypot(path[k].x - path[k - 1].x, path[k].y - path[k - 1].y);
+        if (remaining <= seg && seg > 0) {
+            const t = remaining / seg;
+            return { x: path[k - 1].x + (path[k].x - path[k - 1].x) * t, y: path[k - 1].y + (path[k].y - path[k - 1].y) * t };
+        }
+        remaining -= seg;
+    }
+    return path[path.length - 1];
+};
+
+export const splitRouteIntoLegs = (route: TravelRoute): JourneyLeg[] => {
+    const count = Math.max(1, Math.ceil(route.distance / LEG_LENGTH));
+    let pathLength = 0;
+    for (let k = 1; k < route.path.length; k++) {
+        pathLength += Math.hypot(route.path[k].x - route.path[k - 1].x, route.path[k].y - route.path[k - 1].y);
+    }
+    return Array.from({ length: count }, (_, k) => ({
+        ...(k === count - 1 ? route.path[route.path.length - 1] : pointAlong(route.path, pathLength * (k + 1) / count)),
+        distance: Math.round(route.distance / count),
+        travelSeconds: Math.round(route.travelSeconds / count)
+    }));
+};
+
+// Helper: Region containing a point
+const findRegionAt = (state: GameState, point: Point): MapRegion | undefined => {
+    return (Object.values(state.map.regions) as MapRegion[]).find(r => isPointInPolygon(point, r.vertices));
+};
+
+// Region table first, then the biome's table
+export const getEncounterTable = (state: GameState, point: Point): EncounterEntry[] => {
+    const region = findRegionAt(state, point);
+    if (region?.encounters && region.encounters.length > 0) return region.encounters;
+    const biome = getBiomeAt(point.x, point.y, state.map.seed);
+    return state.defaultSettings.biomeEncounterConfig?.[biome] || [];
+};
+
+const drawEncounter = (table: EncounterEntry[], rng: RandomSource): EncounterEntry | null => {
+    const total = table.reduce((sum, e) => sum + Math.max(0, e.weight), 0);
+    if (total <= 0) return null;
+    let r = rng.random() * total;
+    for (const entry of table) {
+        const w = Math.max(0, entry.weight);
+        if (r < w) return entry;
+        r -= w;
+    }
+    return null;
+};
+
+// Helper: Describes where the camp is ("区域名" or biome)
+const describePlace = (state: GameState, point: Point): string => {
+    const region = findRegionAt(state, point);
+    return region?.name || BIOME_LABELS[getBiomeAt(point.x, point.y, state.map.seed)];
+};
+
+// Helper: Creates or moves the camp location, its environment character and the travellers
+const placeJourneyCamp = (state: GameState, journey: Journey, point: Point, description: string): GameState => {
+    const region = findRegionAt(state, point);
+    const existing = state.map.locations[JOURNEY_LOCATION_ID];
+    const camp: MapLocation = {
+        id: JOURNEY_LOCATION_ID,
+        name: `旅途中 · ${describePlace(state, point)}`,
+        description,
+        coordinates: { x: point.x, y: point.y, z: Math.max(getTerrainHeight(point.x, point.y, state.map.seed), MAP_CONSTANTS.SEA_LEVEL) },
+        isKnown: true,
+        isTransient: true,
+        radius: 40,
+        associatedNpcIds: [JOURNEY_ENV_ID],
+        regionId: region?.id,
+        avatarUrl: existing?.avatarUrl || generateRandomFlagAvatar(true)
+    };
+
+    const characters = { ...state.characters };
+    if (!characters[JOURNEY_ENV_ID]) {
+        characters[JOURNEY_ENV_ID] = createEnvironmentCharacter(JOURNEY_LOCATION_ID, "旅途", "中的环境",
+            "【系统代理】旅途沿路的自然环境、过路人与突发状况。根据地点描述中的旅途遭遇讲述发生的事件，不输出在场角色的台词。");
+        characters[JOURNEY_ENV_ID].aiConfig = { ...(state.judgeConfig || DEFAULT_AI_CONFIG) };
+    }
+
+    const charPositions = { ...state.map.charPositions };
+    [JOURNEY_ENV_ID, ...journey.travellerIds].forEach(id => {
+        if (!characters[id]) return;
+        charPositions[id] = { ...charPositions[id], x: point.x, y: point.y, locationId: JOURNEY_LOCATION_ID };
+    });
+
+    return {
+        ...state,
+        characters,
+        map: { ...state.map, locations: { ...state.map.locations, [JOURNEY_LOCATION_ID]: camp }, charPositions, journey, activeLocationId: JOURNEY_LOCATION_ID }
+    };
+};
+
+// Helper: Removes the camp and its environment character
+const removeJourneyCamp = (state: GameState): GameState => {
+    const locations = { ...state.map.locations };
+    delete locations[JOURNEY_LOCATION_ID];
+    const characters = { ...state.characters };
+    delete characters[JOURNEY_ENV_ID];
+    const charPositions = { ...state.map.charPositions };
+    delete charPositions[JOURNEY_ENV_ID];
+    return {
+        ...state,
+        characters,
+        map: { ...state.map, locations, charPositions, journey: undefined },
+        round: {
+            ...state.round,
+            currentOrder: state.round.currentOrder.filter(id => id !== JOURNEY_ENV_ID),
+            defaultOrder: state.round.defaultOrder.filter(id => id !== JOURNEY_ENV_ID)
+        }
+    };
+};
+
+export const startJourney = (state: GameState, destinationId: string, route: TravelRoute, travellerIds: string[]): { state: GameState, log: string } => {
+    const dest = state.map.locations[destinationId];
+    const journey: Journey = {
+        id: `journey_${Date.now()}`,
+        originId: state.map.activeLocationId,
+        destinationId,
+        travellerIds,
+        legs: splitRouteIntoLegs(route),
+        legIndex: 0,
+        path: route.path,
+        startedRound: state.round.roundNumber
+    };
+    return {
+        state: placeJourneyCamp(state, journey, route.path[0], `启程前往 [${dest?.name || "目的地"}]。`),
+        log: `系统: 踏上前往 [${dest?.name || "目的地"}] 的旅程 (${formatRoute(route)}，共 ${journey.legs.length} 段，每轮推进一段)。`
+    };
+};
+
+// New destination from wherever the camp currently is
+export const redirectJourney = (state: GameState, destinationId: string, route: TravelRoute): { state: GameState, log: string } => {
+    const journey = state.map.journey;
+    if (!journey) return startJourney(state, destinationId, route, getJourneyTravellerIds(state, state.map.activeLocationId));
+    const dest = state.map.locations[destinationId];
+    const next: Journey = { ...journey, destinationId, legs: splitRouteIntoLegs(route), legIndex: 0, path: route.path };
+    return {
+        state: placeJourneyCamp(state, next, route.path[0], `改道前往 [${dest?.name || "目的地"}]。`),
+        log: `系统: 旅程改道前往 [${dest?.name || "目的地"}] (${formatRoute(route)}，共 ${next.legs.length} 段)。`
+    };
+};
+
+// Stops where the party is; the spot becomes an unknown location that can be explored
+export const abortJourney = (state: GameState): { state: GameState, log: string } => {
+    const journey = state.map.journey;
+    const camp = state.map.locations[JOURNEY_LOCATION_ID];
+    if (!journey || !camp) return { state: removeJourneyCamp(state), log: "系统: 旅程已中止。" };
+
+    const { x, y } = camp.coordinates;
+    const stop: MapLocation = {
+        id: `loc_unk_${x.toFixed(0)}_${y.toFixed(0)}_j${Date.now()}`, // Aborting twice at one spot must not collide
+        name: "未知地点",
+        description: "旅途中断之处，等待探索。",
+        coordinates: camp.coordinates,
+        isKnown: false,
+        radius: 50,
+        associatedNpcIds: [],
+        regionId: camp.regionId,
+        avatarUrl: generateRandomFlagAvatar(true)
+    };
+
+    const cleared = removeJourneyCamp(state);
+    const charPositions = { ...cleared.map.charPositions };
+    journey.travellerIds.forEach(id => {
+        if (cleared.characters[id]) charPositions[id] = { x, y, locationId: stop.id };
+    });
+
+    return {
+        state: {
+            ...cleared,
+            map: { ...cleared.map, locations: { ...cleared.map.locations, [stop.id]: stop }, charPositions, activeLocationId: stop.id }
+        },
+        log: `系统: 旅程中止，队伍停留在途中的未知地点 (已完成 ${journey.legIndex}/${journey.legs.length} 段)。`
+    };
+};
+
+// Helper: Party reaches the destination
+const arriveJourney = (state: GameState, journey: Journey): { state: GameState, log: string } => {
+    const dest = state.map.locations[journey.destinationId];
+    const cleared = removeJourneyCamp(state);
+    if (!dest) return { state: cleared, log: "系统: 旅程的目的地已不存在，旅程结束。" };
+
+    // New arrivals don't know the place yet (same as a direct move)
+    let maxId = 0;
+    (Object.values(cleared.characters) as Character[]).forEach(c => {
+        c.conflicts?.forEach(x => {
+            const n = parseInt(x.id);
+            if (!isNaN(n) && n > maxId) maxId = n;
+        });
+    });
+
+    const characters = { ...cleared.characters };
+    const charPositions = { ...cleared.map.charPositions };
+    journey.travellerIds.forEach(id => {
+        const char = characters[id];
+        if (!char) return;
+        charPositions[id] = { x: dest.coordinates.x, y: dest.coordinates.y, locationId: dest.id, route: journey.path };
+        maxId++;
+        characters[id] = {
+            ...char,
+            conflicts: [...(char.conflicts || []), { id: String(maxId), desc: "刚到此地，对当地情况不熟悉", apReward: 2, solved: false }]
+        };
+    });
+
+    return {
+        state: { ...cleared, characters, map: { ...cleared.map, charPositions, activeLocationId: dest.id } },
+        log: `系统: 旅程结束，队伍抵达 [${dest.name}]。`
+    };
+};
+
+// Generates the terrain (and roads) around the camp's next stop. Map expansion runs route searches,
+// so callers do this before advanceJourney, outside the state updater.
+export const expandForNextLeg = (map: MapState): MapState => {
+    const journey = map.journey;
+    if (!journey || journey.legIndex + 1 >= journey.legs.length) return map;
+    const leg = journey.legs[journey.legIndex];
+    return leg ? expandMapAt(map, leg.x, leg.y) : map;
+};
+
+// One leg per call (round settlement): time passes, the camp moves on and an encounter may occur
+export const advanceJourney = (
+    state: GameState,
+    rng: RandomSource
+): { state: GameState, logs: string[], events: EmittedTriggerEvent[], encounter: EncounterEntry | null } => {
+    const journey = state.map.journey;
+    if (!journey) return { state, logs: [], events: [], encounter: null };
+
+    const logs: string[] = [];
+    const events: EmittedTriggerEvent[] = [];
+    const leg = journey.legs[journey.legIndex];
+    let next = state;
+
+    const timeAttr = state.world.attributes['worldTime'];
+    if (leg && timeAttr) {
+        const oldValue = String(timeAttr.value);
+        const newValue = advanceWorldTime(oldValue, leg.travelSeconds);
+        next = { ...next, world: { ...next.world, attributes: { ...next.world.attributes, worldTime: { ...timeAttr, value: newValue } } } };
+        events.push({ event: 'world_time', payload: { oldValue, newValue } });
+    }
+
+    const legIndex = journey.legIndex + 1;
+    if (!leg || legIndex >= journey.legs.length) {
+        const arrived = arriveJourney(next, journey);
+        return { state: arrived.state, logs: [...logs, arrived.log], events, encounter: null };
+    }
+
+    const chance = state.defaultSettings.encounterChance ?? DEFAULT_ENCOUNTER_CHANCE;
+    const table = getEncounterTable(next, leg);
+    const encounter = table.length > 0 && rng.random() < chance ? drawEncounter(table, rng) : null;
+
+    const dest = next.map.locations[journey.destinationId];
+    const description = encounter
+        ? `前往 [${dest?.name || "目的地"}] 的路上。旅途遭遇: ${encounter.name} —— ${encounter.description}`
+        : `前往 [${dest?.name || "目的地"}] 的路上 (第 ${legIndex}/${journey.legs.length} 段)。`;
+    next = placeJourneyCamp(next, { ...journey, legIndex }, leg, description);
+
+    logs.push(`系统: 旅途推进 (${legIndex}/${journey.legs.length})，行进 ${formatTravelDuration(leg.travelSeconds)}，途经 ${describePlace(next, leg)}。`);
+    if (encounter) logs.push(`系统: 旅途遭遇 [${encounter.name}]: ${encounter.description}`);
+
+    return { state: next, logs, events, encounter };
+};
+
+// Encounter tables are edited as text, one "名称 | 描述 | 权重" per line
+export const formatEncounterLines = (entries: EncounterEntry[] = []): string => {
+    return entries.map(e => `${e.name} | ${e.description} | ${e.weight}`).join('\n');
+};
+
+export const parseEncounterLines = (text: string): EncounterEntry[] => {
+    return text.split('\n').flatMap((line): EncounterEntry[] => {
+        const parts = line.split('|').map(p => p.trim());
+        if (!parts[0]) return [];
+        const weight = Number(parts[2]);
+        return [{ name: parts[0], description: parts[1] || "", weight: isFinite(weight) && parts[2] ? weight : 1 }];
+    });
+};
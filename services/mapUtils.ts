@@ -8,7 +8,7 @@
 
 
 
-import { MapChunk, MapState, MapLocation, MapRegion, Character, AttributeType, AttributeVisibility, TerrainType, MapSettlement, LogEntry, InitialWorldConfig } from "../types";
+import { MapChunk, MapState, MapLocation, MapRegion, Character, AttributeType, AttributeVisibility, TerrainType, BiomeType, MapSettlement, LogEntry, InitialWorldConfig, DefaultSettings, WeatherType } from "../types";
 import { MAP_CONSTANTS } from "../constants";
 import { PRNG, generateIrregularPolygon, isPointInPolygon } from "./geometryUtils";
 import { defaultAcquireCard, defaultInteractCard, defaultTradeCard, INITIAL_DEFAULT_SETTINGS } from "./DefaultSettings";
@@ -99,6 +99,67 @@ export const getTerrainHeight = (x: number, y: number, seed: number): number =>
     return Math.max(-450, totalHeight);
 };
 
+// --- Biomes & Climate ---
+// Temperature and moisture are two extra low-frequency noise fields (0..1). Temperature also drops with
+// altitude, so highlands turn to tundra and snow before the lowlands around them.
+
+export const BIOME_LABELS: Record<BiomeType, string> = {
+    [BiomeType.OCEAN]: "海洋/湖泊",
+    [BiomeType.BEACH]: "海滩",
+    [BiomeType.GRASSLAND]: "草原",
+    [BiomeType.FOREST]: "森林",
+    [BiomeType.DESERT]: "沙漠",
+    [BiomeType.SWAMP]: "沼泽",
+    [BiomeType.TUNDRA]: "冻原",
+    [BiomeType.SNOW_MOUNTAIN]: "雪山"
+};
+
+// Helper: Stretches averaged noise (which clusters around 0.5) back towards 0..1
+const spreadNoise = (value: number) => Math.max(0, Math.min(1, (value - 0.5) * 2.5 + 0.5));
+
+export const getClimateAt = (x: number, y: number, seed: number, height: number = getTerrainHeight(x, y, seed)): { temperature: number, moisture: number } => {
+    const climateScale = 0.0004;
+    const baseTemp = spreadNoise(interpolatedNoise(x * climateScale, y * climateScale, seed + 7777));
+    const moisture = spreadNoise(interpolatedNoise(x * climateScale, y * climateScale, seed + 31337));
+    // Lapse rate: the snow line is roughly where temperature bottoms out
+    const temperature = Math.max(0, baseTemp - Math.max(0, height) / MAP_CONSTANTS.SNOW_LINE * 0.3);
+    return { temperature, moisture };
+};
+
+export const getBiome = (height: number, temperature: number, moisture: number): BiomeType => {
+    if (height < MAP_CONSTANTS.SEA_LEVEL) return BiomeType.OCEAN;
+    if (height > MAP_CONSTANTS.SNOW_LINE || (height > MAP_CONSTANTS.PEAK_HEIGHT && temperature < 0.15)) return BiomeType.SNOW_MOUNTAIN;
+    if (height < MAP_CONSTANTS.SEA_LEVEL + 4) return BiomeType.BEACH;
+    if (temperature < 0.15) return BiomeType.TUNDRA;
+    if (temperature > 0.55 && moisture < 0.4) return BiomeType.DESERT;
+    if (moisture > 0.7 && height < 60) return BiomeType.SWAMP;
+    if (moisture > 0.5) return BiomeType.FOREST;
+    return BiomeType.GRASSLAND;
+};
+
+export const getBiomeAt = (x: number, y: number, seed: number, height: number = getTerrainHeight(x, y, seed)): BiomeType => {
+    const { temperature, moisture } = getClimateAt(x, y, seed, height);
+    return getBiome(height, temperature, moisture);
+};
+
+export const describeClimate = (temperature: number, moisture: number): string => {
+    const temp = temperature < 0.15 ? "严寒" : temperature < 0.4 ? "凉爽" : temperature < 0.6 ? "温和" : temperature < 0.8 ? "温暖" : "炎热";
+    const wet = moisture < 0.3 ? "干旱" : moisture < 0.5 ? "半干旱" : moisture < 0.7 ? "湿润" : "潮湿";
+    return `${temp} / ${wet}`;
+};
+
+// Weather table for a biome; falls back to the global list when the biome has none
+export const getWeatherTable = (settings: DefaultSettings, biome?: BiomeType): WeatherType[] => {
+    const table = biome ? settings.biomeWeatherConfig?.[biome] : undefined;
+    return table && table.length > 0 ? table : settings.weatherConfig;
+};
+
+export const getLocationBiome = (map: MapState, locationId?: string | null): BiomeType | undefined => {
+    const loc = locationId ? map.locations[locationId] : undefined;
+    if (!loc) return undefined;
+    return getBiomeAt(loc.coordinates.x, loc.coordinates.y, map.seed, loc.coordinates.z);
+};
+
 export const generateChunk = (xIndex: number, yIndex: number, seed: number): MapChunk => {
     const id = `chunk_${xIndex}_${yIndex}`;
     const visualResolution = MAP_CONSTANTS.VISUALIZER_GRID_SIZE; 
@@ -176,14 +237,14 @@ export const generateUnknownLocations = (chunk: MapChunk, chunkSeed: number): Ma
         const z = getTerrainHeight(globalX, globalY, chunk.seed);
         
         locations.push({
-            id: `loc_unk_${globalX.toFixed(0)}_${globalY.toFixed(0)}_${Date.now()}_${Math.floor(rng.next()*1000)}`, 
+            id: `loc_unk_${globalX.toFixed(0)}_${globalY.toFixed(0)}_${i}`, 
             name: "未知地点",
             description: z < MAP_CONSTANTS.SEA_LEVEL ? "隐约可见的水下遗迹或沉船。" : "遥远的一处地标，等待探索。",
             coordinates: { x: globalX, y: globalY, z },
             isKnown: false,
             radius: 50,
             associatedNpcIds: [],
-            avatarUrl: generateRandomFlagAvatar(true) // Auto blurred avatar for unknown
+            avatarUrl: generateRandomFlagAvatar(true, () => rng.next()) // Auto blurred avatar for unknown
         });
     }
     return locations;
@@ -239,7 +300,7 @@ export const getTerrainTypeAt = (
     x: number, y: number, seed: number, 
     chunks?: Record<string, MapChunk>, 
     settlements?: Record<string, MapSettlement>
-): { height: number, type: TerrainType } => {
+): { height: number, type: TerrainType, biome: BiomeType } => {
     
     let height = getTerrainHeight(x, y, seed);
     let isRiver = false;
@@ -264,23 +325,25 @@ export const getTerrainTypeAt = (
          }
     }
 
-    if (isRiver) return { height, type: TerrainType.RIVER };
-    if (height < MAP_CONSTANTS.SEA_LEVEL) return { height, type: TerrainType.WATER };
+    const biome = getBiomeAt(x, y, seed, height);
+    if (isRiver) return { height, type: TerrainType.RIVER, biome };
+    if (height < MAP_CONSTANTS.SEA_LEVEL) return { height, type: TerrainType.WATER, biome };
 
     if (settlements) {
         const point = { x, y };
         for (const s of Object.values(settlements)) {
             const maxR = s.type === TerrainType.CITY ? 2000 : 600; 
             if (Math.abs(x - s.center.x) > maxR || Math.abs(y - s.center.y) > maxR) continue;
-            if (isPointInPolygon(point, s.vertices)) return { height, type: s.type };
+            if (isPointInPolygon(point, s.vertices)) return { height, type: s.type, biome };
         }
     }
 
-    return { height, type: TerrainType.LAND };
+    return { height, type: TerrainType.LAND, biome };
 };
 
 export const analyzeTerrainAround = (x: number, y: number, seed: number, chunks?: Record<string, MapChunk>, settlements?: Record<string, MapSettlement>) => {
     const centerData = getTerrainTypeAt(x, y, seed, chunks, settlements);
+    const climate = getClimateAt(x, y, seed, centerData.height);
     
     const directions = [
         { name: "正北 (North)", dx: 0, dy: 1 },
@@ -301,6 +364,8 @@ export const analyzeTerrainAround = (x: number, y: number, seed: number, chunks?
         let heightSum = 0;
         let nearestDiffTypeDist: number | null = null;
         let nearestDiffType: TerrainType | null = null;
+        let nearestDiffBiomeDist: number | null = null;
+        let nearestDiffBiome: BiomeType | null = null;
         
         for (let i = 1; i <= steps; i++) {
             const tx = x + dir.dx * i * stepSize;
@@ -312,13 +377,19 @@ export const analyzeTerrainAround = (x: number, y: number, seed: number, chunks?
                 nearestDiffTypeDist = i * stepSize;
                 nearestDiffType = tData.type;
             }
+            if (nearestDiffBiomeDist === null && tData.biome !== centerData.biome) {
+                nearestDiffBiomeDist = i * stepSize;
+                nearestDiffBiome = tData.biome;
+            }
         }
         
         return {
             direction: dir.name,
             avgHeight: Math.round(heightSum / steps),
             nearestDiffTypeDist,
-            nearestDiffType
+            nearestDiffType,
+            nearestDiffBiomeDist,
+            nearestDiffBiome: nearestDiffBiome ? BIOME_LABELS[nearestDiffBiome] : null
         };
     });
 
@@ -327,6 +398,8 @@ export const analyzeTerrainAround = (x: number, y: number, seed: number, chunks?
         y: Math.round(y),
         z: Math.round(centerData.height),
         terrainType: centerData.type,
+        biome: BIOME_LABELS[centerData.biome],
+        climate: describeClimate(climate.temperature, climate.moisture),
         isUnderwater: centerData.type === TerrainType.WATER,
         surroundings
     };
@@ -337,12 +410,19 @@ export interface RegionStats {
     maxHeight: number;
     avgHeight: number;
     composition: Record<TerrainType, number>; // Percentage
+    biomes: Partial<Record<string, number>>; // Percentage by biome label, only biomes present
+    dominantBiome: string | null;
 }
 
+// Helper: Stats for a region with no sample points
+const emptyRegionStats = (): RegionStats => ({
+    minHeight: 0, maxHeight: 0, avgHeight: 0,
+    composition: { [TerrainType.LAND]: 100, [TerrainType.WATER]: 0, [TerrainType.RIVER]: 0, [TerrainType.CITY]: 0, [TerrainType.TOWN]: 0 },
+    biomes: {}, dominantBiome: null
+});
+
 export const analyzeRegionStats = (region: MapRegion, seed: number, chunks?: Record<string, MapChunk>, settlements?: Record<string, MapSettlement>): RegionStats => {
-    if (!region.vertices || region.vertices.length === 0) {
-        return { minHeight: 0, maxHeight: 0, avgHeight: 0, composition: { [TerrainType.LAND]: 100, [TerrainType.WATER]: 0, [TerrainType.RIVER]: 0, [TerrainType.CITY]: 0, [TerrainType.TOWN]: 0 } };
-    }
+    if (!region.vertices || region.vertices.length === 0) return emptyRegionStats();
 
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
     region.vertices.forEach(v => {
@@ -353,6 +433,7 @@ export const analyzeRegionStats = (region: MapRegion, seed: number, chunks?: Rec
     let minHeight = Infinity; let maxHeight = -Infinity;
     let totalHeight = 0; let pointsCount = 0;
     const counts: Record<TerrainType, number> = { [TerrainType.LAND]: 0, [TerrainType.WATER]: 0, [TerrainType.RIVER]: 0, [TerrainType.CITY]: 0, [TerrainType.TOWN]: 0 };
+    const biomeCounts: Partial<Record<BiomeType, number>> = {};
     const step = 50; 
 
     for (let x = minX; x <= maxX; x += step) {
@@ -364,12 +445,13 @@ export const analyzeRegionStats = (region: MapRegion, seed: number, chunks?: Rec
                 if (h > maxHeight) maxHeight = h;
                 totalHeight += h;
                 counts[tData.type] = (counts[tData.type] || 0) + 1;
+                biomeCounts[tData.biome] = (biomeCounts[tData.biome] || 0) + 1;
                 pointsCount++;
             }
         }
     }
 
-    if (pointsCount === 0) return { minHeight: 0, maxHeight: 0, avgHeight: 0, composition: { [TerrainType.LAND]: 100, [TerrainType.WATER]: 0, [TerrainType.RIVER]: 0, [TerrainType.CITY]: 0, [TerrainType.TOWN]: 0 } };
+    if (pointsCount === 0) return emptyRegionStats();
 
     const composition: any = {};
     Object.keys(counts).forEach(key => {
@@ -377,7 +459,12 @@ export const analyzeRegionStats = (region: MapRegion, seed: number, chunks?: Rec
         composition[k] = Math.round((counts[k] / pointsCount) * 100);
     });
 
-    return { minHeight: Math.round(minHeight), maxHeight: Math.round(maxHeight), avgHeight: Math.round(totalHeight / pointsCount), composition };
+    const biomes: Partial<Record<string, number>> = {};
+    const sortedBiomes = (Object.entries(biomeCounts) as [BiomeType, number][]).sort((a, b) => b[1] - a[1]);
+    sortedBiomes.forEach(([biome, count]) => { biomes[BIOME_LABELS[biome]] = Math.round((count / pointsCount) * 100); });
+    const dominantBiome = sortedBiomes.length > 0 ? BIOME_LABELS[sortedBiomes[0][0]] : null;
+
+    return { minHeight: Math.round(minHeight), maxHeight: Math.round(maxHeight), avgHeight: Math.round(totalHeight / pointsCount), composition, biomes, dominantBiome };
 };
 
 export const generateRegion = (centerX: number, centerY: number, seed: number, existingRegions: MapRegion[] = []): MapRegion => {
@@ -424,8 +511,7 @@ export const createEnvironmentCharacter = (
     };
 };
 
-export const generateInitialMap = (config?: InitialWorldConfig): { map: MapState, characters: Record<string, Character> } => {
-    const seed = Math.random() * 10000;
+export const generateInitialMap = (config?: InitialWorldConfig, seed: number = createWorldSeed()): { map: MapState, characters: Record<string, Character> } => {
     
     // Use provided config or fallback to defaults
     const startRegionName = config?.startRegionName || "都市边缘";
@@ -485,6 +571,7 @@ export const generateInitialMap = (config?: InitialWorldConfig): { map: MapState
 
     return {
         map: {
+            seed,
             chunks: chunks,
             locations: locationsMap,
             regions: { [startRegion.id]: startRegion },
@@ -544,4 +631,43 @@ export const checkMapExpansion = (playerX: number, playerY: number, currentMap:
 
     if (!changed) return currentMap;
     return { ...currentMap, chunks: newChunks, locations: newLocations, settlements: newSettlements };
-};
\ No newline at end of file
+};
+
+// --- World Seed ---
+// Terrain is a pure function of the seed: chunk heights and rivers, settlements and unknown locations come out
+// the same for the same seed and chunk index. Saves therefore leave chunk heightmaps out and rebuild them on load.
+
+export const createWorldSeed = (): number => Math.floor(Math.random() * 1000000);
+
+// Typed seeds: whole numbers are used as-is, any other text is hashed so a word always builds the same world.
+// Empty input means "pick one at random" (null).
+export const parseWorldSeed = (input: string): number | null => {
+    const text = input.trim();
+    if (!text) return null;
+    if (/^\d+$/.test(text)) return Number(text) % 2147483647;
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % 1000000;
+};
+
+// Save form of the map: chunks keep their index and seed only
+export const compactMapForSave = (map: MapState): MapState => ({
+    ...map,
+    chunks: Object.fromEntries(Object.entries(map.chunks).map(([key, chunk]) => [key, {
+        id: chunk.id, xIndex: chunk.xIndex, yIndex: chunk.yIndex, size: chunk.size, seed: chunk.seed, heightMap: []
+    }]))
+});
+
+// Load migration: saves from before the seed field adopt the chunks' seed (how it used to be inferred),
+// and compacted chunks are regenerated.
+export const restoreMapState = (map: MapState): MapState => {
+    const chunkList = Object.values(map.chunks || {}) as MapChunk[];
+    const seed = map.seed ?? chunkList[0]?.seed ?? createWorldSeed();
+    const chunks: Record<string, MapChunk> = {};
+    Object.entries(map.chunks || {}).forEach(([key, chunk]) => {
+        chunks[key] = chunk.heightMap && chunk.heightMap.length > 0 ? chunk : generateChunk(chunk.xIndex, chunk.yIndex, chunk.seed ?? seed);
+    });
+    return { ...map, seed, chunks };
+};
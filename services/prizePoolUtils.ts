@@ -0,0 +1,75 @@
+
+import { AttributeVisibility, Card, PrizeItem, PrizePool } from "../types";
+import { normalizeCard } from "./cardUtils";
+
+// Requested amount clamped to the pool's draw limits
+export const clampDrawAmount = (pool: PrizePool, amount: number): number => {
+    return Math.max(pool.minDraws || 1, Math.min(pool.maxDraws || 1, amount));
+};
+
+// Weighted draw without replacement. Consumes one random number per drawn item.
+export const drawPrizeItems = (items: PrizeItem[], amount: number, random: () => number): { drawn: PrizeItem[], remaining: PrizeItem[] } => {
+    const drawn: PrizeItem[] = [];
+    let remaining = [...items];
+
+    for (let i = 0; i < amount; i++) {
+        const totalWeight = remaining.reduce((sum, item) => sum + (item.weight || 1), 0);
+        if (totalWeight <= 0) break;
+
+        let r = random() * totalWeight;
+        let selected: PrizeItem | null = null;
+        for (const item of remaining) {
+            if (r < (item.weight || 1)) {
+                selected = item;
+                break;
+            }
+            r -= (item.weight || 1);
+        }
+        if (selected) {
+            drawn.push(selected);
+            remaining = remaining.filter(itm => itm.id !== selected!.id);
+        }
+    }
+
+    return { drawn, remaining };
+};
+
+// Inventory card IDs for drawn items. Re-uses a card with the same name & description, otherwise creates one.
+export const resolvePrizeCards = (items: PrizeItem[], cardPool: Card[]): { newCards: Card[], inventoryIds: string[] } => {
+    const newCards: Card[] = [];
+    const inventoryIds: string[] = [];
+
+    items.forEach(item => {
+        const existing = cardPool.find(c => c.name === item.name && c.description === item.description)
+                         || newCards.find(c => c.name === item.name && c.description === item.description);
+
+        if (existing) {
+            inventoryIds.push(existing.id);
+        } else {
+            const newCard = normalizeCard({
+                id: `prize_card_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+                name: item.name,
+                description: item.description,
+                itemType: 'consumable',
+                triggerType: 'active',
+                cost: 0,
+                effects: [
+                    {
+                        id: `eff_prize_${Date.now()}`,
+                        name: "奖池物品",
+                        targetType: 'self',
+                        targetAttribute: '健康',
+                        value: 0,
+                        conditionDescription: "奖池内物品",
+                        conditionContextKeys: []
+                    }
+                ],
+                visibility: item.isHidden ? AttributeVisibility.PRIVATE : AttributeVisibility.PUBLIC
+            });
+            newCards.push(newCard);
+            inventoryIds.push(newCard.id);
+        }
+    });
+
+    return { newCards, inventoryIds };
+};
@@ -0,0 +1,289 @@
+
+import { AttributeType, AttributeVisibility, Card, Character, GameState, Quest, QuestCriterion, QuestCriterionType, QuestObjective, QuestReward, QuestStatus } from "../types";
+import { getAttr } from "./attributeUtils";
+import { compare } from "./triggerService";
+import { EmittedTriggerEvent } from "./triggerActionUtils";
+
+// --- Quests ---
+// Quests live on their owner (char.quests) like conflicts. At settlement the engine unlocks quests whose
+// prerequisites are done, checks fail conditions and deadlines, and completes objectives: attr / card /
+// location criteria are read from state, 'ai' criteria come back from the settlement AI with the conflicts.
+
+export const QUEST_STATUS_LABELS: Record<QuestStatus, string> = {
+    locked: "未解锁",
+    active: "进行中",
+    completed: "已完成",
+    failed: "已失败"
+};
+
+export const QUEST_CRITERION_LABELS: Record<QuestCriterionType, string> = {
+    attr: "属性达标",
+    card: "持有卡牌",
+    location: "到达地点",
+    ai: "AI 判定"
+};
+
+export const createQuest = (): Quest => ({
+    id: `quest_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    title: "新任务",
+    desc: "",
+    status: 'active',
+    objectives: [],
+    rewards: {}
+});
+
+export const createQuestObjective = (): QuestObjective => ({
+    id: `qobj_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    desc: "",
+    criterion: { type: 'ai' },
+    completed: false
+});
+
+// Every quest in the world with its owner
+export const getAllQuests = (state: GameState): { quest: Quest, owner: Character }[] => {
+    return (Object.values(state.characters) as Character[]).flatMap(owner => (owner.quests || []).map(quest => ({ quest, owner })));
+};
+
+export const findQuest = (state: GameState, questId: string): { quest: Quest, owner: Character } | undefined => {
+    return getAllQuests(state).find(entry => entry.quest.id === questId);
+};
+
+// Objectives whose prerequisites are all completed and that aren't completed yet
+export const getOpenObjectives = (quest: Quest): QuestObjective[] => {
+    const done = new Set(quest.objectives.filter(o => o.completed).map(o => o.id));
+    return quest.objectives.filter(o => !o.completed && (o.prerequisiteIds || []).every(id => done.has(id)));
+};
+
+export const isQuestDeadlinePassed = (state: GameState, quest: Quest): boolean => {
+    const now = String(state.world.attributes['worldTime']?.value ?? "");
+    return !!quest.deadline && !!now && now > quest.deadline;
+};
+
+// Helper: Cards the character holds (skills and inventory)
+const getHeldCards = (state: GameState, char: Character): Card[] => [
+    ...char.skills,
+    ...char.inventory.map(id => state.cardPool.find(c => c.id === id)).filter(Boolean) as Card[]
+];
+
+// Engine-checkable criteria; 'ai' criteria always return null (decided by the settlement AI)
+export const isCriterionMet = (state: GameState, char: Character, criterion: QuestCriterion): boolean | null => {
+    switch (criterion.type) {
+        case 'attr': {
+            const value = getAttr(char, criterion.targetName || "")?.value;
+            return value !== undefined && compare(value, criterion.comparator || '>=', criterion.value ?? "");
+        }
+        case 'card': {
+            const ref = (criterion.targetName || "").trim();
+            return !!ref && getHeldCards(state, char).some(c => c.id === ref || c.name === ref);
+        }
+        case 'location':
+            return !!criterion.locationId && state.map.charPositions[char.id]?.locationId === criterion.locationId;
+        default:
+            return null;
+    }
+};
+
+export const describeCriterion = (state: GameState, criterion: QuestCriterion): string => {
+    switch (criterion.type) {
+        case 'attr':
+            return `${criterion.targetName || "?"} ${criterion.comparator || '>='} ${criterion.value ?? "?"}`;
+        case 'card': {
+            const ref = criterion.targetName || "?";
+            return `持有 [${state.cardPool.find(c => c.id === ref)?.name || ref}]`;
+        }
+        case 'location':
+            return `到达 ${state.map.locations[criterion.locationId || ""]?.name || "未知地点"}`;
+        default:
+            return criterion.desc || "(由 AI 根据故事判定)";
+    }
+};
+
+export const describeQuestReward = (state: GameState, rewards: QuestReward): string => {
+    const parts: string[] = [];
+    if (rewards.ap) parts.push(`${rewards.ap} AP`);
+    if (rewards.cp) parts.push(`${rewards.cp} CP`);
+    (rewards.cardIds || []).forEach(id => parts.push(`[${state.cardPool.find(c => c.id === id)?.name || id}]`));
+    (rewards.attributeChanges || []).forEach(a => parts.push(`${a.name} ${a.delta > 0 ? '+' : ''}${a.delta}`));
+    return parts.length > 0 ? parts.join(', ') : "无";
+};
+
+// AI-judged checks for the settlement prompt: open 'ai' objectives and 'ai' fail conditions of active quests
+export const getQuestJudgeChecks = (state: GameState, owners: Character[]): { objectives: any[], failures: any[] } => {
+    const objectives: any[] = [];
+    const failures: any[] = [];
+    owners.forEach(owner => {
+        (owner.quests || []).filter(q => q.status === 'active').forEach(quest => {
+            getOpenObjectives(quest).filter(o => o.criterion.type === 'ai').forEach(o => {
+                objectives.push({ id: o.id, charName: owner.name, quest: quest.title, objective: o.criterion.desc || o.desc });
+            });
+            const aiFails = (quest.failConditions || []).filter(c => c.type === 'ai' && c.desc);
+            if (aiFails.length > 0) {
+                failures.push({ id: quest.id, charName: owner.name, quest: quest.title, failIf: aiFails.map(c => c.desc) });
+            }
+        });
+    });
+    return { objectives, failures };
+};
+
+/**
+ * Grants quest rewards to the owner. AP goes to the shared player pool;
+ * CP, cards and attribute changes go to the owner.
+ */
+export const applyQuestRewards = (state: GameState, ownerId: string, rewards: QuestReward): GameState => {
+    const owner = state.characters[ownerId];
+    if (!owner) return state;
+    const attributes = { ...owner.attributes };
+
+    const addToAttribute = (name: string, delta: number) => {
+        const existing = getAttr({ ...owner, attributes }, name);
+        if (existing && isNaN(Number(existing.value))) return;
+        const base = existing || { id: name, name, type: AttributeType.NUMBER, value: 0, visibility: AttributeVisibility.PUBLIC };
+        attributes[base.id] = { ...base, value: Math.round(Number(base.value) + delta) };
+    };
+
+    if (rewards.cp) addToAttribute(getAttr(owner, 'cp')?.id || 'cp', rewards.cp);
+    (rewards.attributeChanges || []).forEach(a => a.name && a.delta && addToAttribute(a.name, a.delta));
+    const cardIds = (rewards.cardIds || []).filter(id => state.cardPool.some(c => c.id === id));
+
+    return {
+        ...state,
+        round: rewards.ap ? { ...state.round, actionPoints: state.round.actionPoints + rewards.ap } : state.round,
+        characters: {
+            ...state.characters,
+            [ownerId]: { ...owner, attributes, inventory: [...owner.inventory, ...cardIds] }
+        }
+    };
+};
+
+// Helper: Marks a quest's linked conflict solved with the usual CP reward
+const solveLinkedConflict = (state: GameState, ownerId: string, conflictId: string): { state: GameState, solved: boolean } => {
+    const owner = state.characters[ownerId];
+    const conflict = owner?.conflicts.find(c => c.id === conflictId);
+    if (!owner || !conflict || conflict.solved) return { state, solved: false };
+    const withCP = applyQuestRewards(state, ownerId, { cp: conflict.apReward });
+    const updated = withCP.characters[ownerId];
+    return {
+        state: {
+            ...withCP,
+            characters: {
+                ...withCP.characters,
+                [ownerId]: { ...updated, conflicts: updated.conflicts.map(c => c.id === conflictId ? { ...c, solved: true, solvedTimestamp: Date.now() } : c) }
+            }
+        },
+        solved: true
+    };
+};
+
+/**
+ * Settlement step for all quests: unlocks, fail checks (deadline, fail conditions), objective completion,
+ * then completion with rewards. `judged` holds the IDs the settlement AI reported for 'ai' criteria;
+ * `round` is the settled round (the live state may already be in the next one).
+ */
+export const advanceQuests = (
+    state: GameState,
+    judged: { completedObjectiveIds?: string[], failedQuestIds?: string[] } = {},
+    round: number = state.round.roundNumber
+): { state: GameState, logs: string[], events: EmittedTriggerEvent[] } => {
+    const aiCompleted = judged.completedObjectiveIds || [];
+    const aiFailed = judged.failedQuestIds || [];
+    const logs: string[] = [];
+    const events: EmittedTriggerEvent[] = [];
+    let next = state;
+
+    const isCompleted = (questId: string) => findQuest(next, questId)?.quest.status === 'completed';
+    const setQuest = (ownerId: string, quest: Quest) => {
+        const owner = next.characters[ownerId];
+        next = {
+            ...next,
+            characters: { ...next.characters, [ownerId]: { ...owner, quests: (owner.quests || []).map(q => q.id === quest.id ? quest : q) } }
+        };
+    };
+
+    getAllQuests(state).forEach(({ quest: initial, owner: { id: ownerId } }) => {
+        let quest = initial;
+        const owner = () => next.characters[ownerId];
+
+        if (quest.status === 'locked') {
+            if (!(quest.prerequisiteQuestIds || []).every(isCompleted)) return;
+            quest = { ...quest, status: 'active', startedRound: round };
+            logs.push(`${owner().name} 的任务 [${quest.title}] 已解锁。`);
+        }
+        if (quest.status !== 'active') return;
+
+        const deadlinePassed = isQuestDeadlinePassed(next, quest);
+        const failMet = aiFailed.includes(quest.id) || (quest.failConditions || []).some(c => isCriterionMet(next, owner(), c));
+        if (deadlinePassed || failMet) {
+            const failedBy = deadlinePassed ? "已超过期限" : "失败条件已达成";
+            setQuest(ownerId, { ...quest, status: 'failed', endedRound: round });
+            logs.push(`${owner().name} 的任务 [${quest.title}] 失败 (${failedBy})。`);
+            events.push({ event: 'quest_failed', payload: { charId: ownerId, questId: quest.id, round } });
+            return;
+        }
+
+        // Repeat so objectives unlocked by a completion this settlement can complete as well
+        let changed = true;
+        while (changed) {
+            changed = false;
+            const open = getOpenObjectives(quest).filter(o => {
+                const met = isCriterionMet(next, owner(), o.criterion);
+                return met === null ? aiCompleted.includes(o.id) : met;
+            });
+            if (open.length === 0) break;
+            const doneIds = open.map(o => o.id);
+            quest = { ...quest, objectives: quest.objectives.map(o => doneIds.includes(o.id) ? { ...o, completed: true, completedRound: round } : o) };
+            open.forEach(o => logs.push(`${owner().name} 完成了任务目标: ${quest.title} - ${o.desc || describeCriterion(next, o.criterion)}`));
+            changed = true;
+        }
+
+        if (quest.objectives.length === 0 || quest.objectives.some(o => !o.completed)) {
+            setQuest(ownerId, quest);
+            return;
+        }
+
+        setQuest(ownerId, { ...quest, status: 'completed', endedRound: round });
+        next = applyQuestRewards(next, ownerId, quest.rewards);
+        logs.push(`${owner().name} 完成了任务 [${quest.title}]！奖励: ${describeQuestReward(next, quest.rewards)}`);
+        events.push({ event: 'quest_completed', payload: { charId: ownerId, questId: quest.id, round } });
+
+        if (quest.conflictId) {
+            const result = solveLinkedConflict(next, ownerId, quest.conflictId);
+            next = result.state;
+            if (result.solved) events.push({ event: 'conflict_solved', payload: { charId: ownerId, conflictId: quest.conflictId, round } });
+        }
+    });
+
+    return { state: next, logs, events };
+};
+
+// Helper: One quest as prompt text
+const formatQuest = (state: GameState, quest: Quest): string => {
+    const lines = [`[${quest.title}] ${quest.desc || ""}`.trim()];
+    const open = new Set(getOpenObjectives(quest).map(o => o.id));
+    quest.objectives.forEach(o => {
+        const mark = o.completed ? "[x]" : open.has(o.id) ? "[ ]" : "[-]";
+        lines.push(`  ${mark} ${o.desc || describeCriterion(state, o.criterion)}${!o.completed && o.criterion.type !== 'ai' ? ` (条件: ${describeCriterion(state, o.criterion)})` : ""}`);
+    });
+    if (quest.deadline) lines.push(`  期限: ${quest.deadline} 之前`);
+    const failIf = (quest.failConditions || []).map(c => describeCriterion(state, c));
+    if (failIf.length > 0) lines.push(`  失败条件: ${failIf.join('; ')}`);
+    lines.push(`  奖励: ${describeQuestReward(state, quest.rewards)}`);
+    return lines.join('\n');
+};
+
+// Active quests the character owns or handed out, for their action prompt
+export const formatQuestContext = (state: GameState | undefined, charId: string): string => {
+    if (!state) return "（无进行中的任务）";
+    const active = getAllQuests(state).filter(({ quest }) => quest.status === 'active');
+    const own = active.filter(({ owner }) => owner.id === charId);
+    const given = active.filter(({ quest, owner }) => quest.giverId === charId && owner.id !== charId);
+    if (own.length === 0 && given.length === 0) return "（无进行中的任务）";
+
+    const sections: string[] = [];
+    if (own.length > 0) {
+        sections.push(`你的任务 ([x] 已完成, [ ] 可进行, [-] 需先完成前置目标):\n${own.map(({ quest }) => formatQuest(state, quest)).join('\n')}`);
+    }
+    if (given.length > 0) {
+        sections.push(`你委托给他人的任务:\n${given.map(({ quest, owner }) => `${owner.name}: ${formatQuest(state, quest)}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+};
@@ -0,0 +1,56 @@
+
+import { RngState } from "../types";
+
+// --- Seeded Random ---
+// Mulberry32: tiny, fast and good enough for gameplay. The whole generator state is one uint32,
+// so it lives in GameState and travels with saves, making turn order / lottery / weather reproducible.
+
+export const createRngState = (seed: number = Math.floor(Math.random() * 0x100000000)): RngState => ({
+    seed: seed >>> 0,
+    cursor: seed >>> 0
+});
+
+const step = (cursor: number): { value: number, cursor: number } => {
+    const next = (cursor + 0x6D2B79F5) >>> 0;
+    let t = next;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, cursor: next };
+};
+
+// Helper: 32-bit FNV-1a string hash
+export const hashString = (text: string): number => {
+    let h = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+export interface RandomSource {
+    random: () => number; // [0, 1), drop-in for Math.random
+    state: () => RngState; // Current state, to be written back into GameState
+}
+
+// Sequential draws from the GameState RNG. Callers must commit `state()` back into GameState.
+// Without a stored state (legacy saves) it falls back to Math.random.
+export const createRandomSource = (rng?: RngState): RandomSource => {
+    if (!rng) return { random: Math.random, state: () => createRngState() };
+    let cursor = rng.cursor;
+    return {
+        random: () => {
+            const r = step(cursor);
+            cursor = r.cursor;
+            return r.value;
+        },
+        state: () => ({ seed: rng.seed, cursor })
+    };
+};
+
+// Independent stream derived from the current state and a salt, without advancing the main RNG.
+// Used by services that can't write back into GameState (e.g. memory dropout inside AI features).
+export const forkRandomSource = (rng: RngState | undefined, salt: string): RandomSource => {
+    if (!rng) return createRandomSource();
+    return createRandomSource({ seed: rng.seed, cursor: (rng.cursor ^ hashString(salt)) >>> 0 });
+};
@@ -0,0 +1,190 @@
+
+import { Character, GameState, Relationship, RelationshipChange, RelationshipField, RelationshipGraph } from "../types";
+
+// --- Relationship Graph ---
+// Directed: relationships[a][b] is how a feels about b. Missing entries read as a neutral relationship.
+// Changes come from skill effects (好感 / 信任 targets), settlement analysis and reactions; reactions are
+// produced inside AI features, so they travel to useRelationships as a window event like trigger actions.
+
+export const RELATIONSHIP_CHANGES_EVENT = 'relationship_changes';
+
+export const RELATIONSHIP_MIN = -100;
+export const RELATIONSHIP_MAX = 100;
+
+// Largest single change accepted from AI output, so one reaction can't flip a relationship
+export const MAX_AI_RELATIONSHIP_DELTA = 20;
+
+export const RELATIONSHIP_FIELD_LABELS: Record<RelationshipField, string> = {
+    affinity: "好感",
+    trust: "信任",
+    tags: "标签"
+};
+
+// Effect target attributes that change the target's feelings toward the card's user instead of an attribute
+const EFFECT_FIELD_ALIASES: Record<string, RelationshipField> = {
+    "好感": 'affinity', "好感度": 'affinity', "affinity": 'affinity',
+    "信任": 'trust', "信任度": 'trust', "trust": 'trust'
+};
+
+export interface EmittedRelationshipChanges {
+    changes: RelationshipChange[];
+    source: string; // Shown in the log, e.g. the reacting character's name
+}
+
+export const emitRelationshipChanges = (changes: RelationshipChange[], source: string) => {
+    if (changes.length === 0) return;
+    try {
+        window.dispatchEvent(new CustomEvent(RELATIONSHIP_CHANGES_EVENT, { detail: { changes, source } }));
+    } catch (e) {
+        // Ignore errors in non-browser envs
+    }
+};
+
+export const createNeutralRelationship = (): Relationship => ({ affinity: 0, trust: 0, tags: [] });
+
+export const getRelationship = (graph: RelationshipGraph | undefined, fromId: string, toId: string): Relationship => {
+    return graph?.[fromId]?.[toId] || createNeutralRelationship();
+};
+
+export const hasRelationship = (graph: RelationshipGraph | undefined, fromId: string, toId: string): boolean => {
+    return !!graph?.[fromId]?.[toId];
+};
+
+export const getRelationshipEffectField = (attributeName: string): RelationshipField | null => {
+    return EFFECT_FIELD_ALIASES[attributeName.trim().toLowerCase()] || null;
+};
+
+export const clampRelationshipValue = (value: number): number => {
+    return Math.max(RELATIONSHIP_MIN, Math.min(RELATIONSHIP_MAX, Math.round(value)));
+};
+
+export const describeAffinity = (affinity: number): string => {
+    if (affinity <= -60) return "敌视";
+    if (affinity <= -20) return "反感";
+    if (affinity < 20) return "中立";
+    if (affinity < 60) return "友好";
+    return "亲密";
+};
+
+export const describeTrust = (trust: number): string => {
+    if (trust <= -60) return "极度戒备";
+    if (trust <= -20) return "怀疑";
+    if (trust < 20) return "观望";
+    if (trust < 60) return "信赖";
+    return "托付";
+};
+
+// Helper: "+5" / "-3"
+const formatDelta = (value: number): string => (value > 0 ? `+${value}` : String(value));
+
+// Applies relative changes in order. Unknown characters and self-relationships are ignored.
+export const applyRelationshipChanges = (
+    state: GameState,
+    changes: RelationshipChange[]
+): { state: GameState, logs: string[] } => {
+    const graph: RelationshipGraph = { ...(state.relationships || {}) };
+    const logs: string[] = [];
+
+    changes.forEach(change => {
+        const from = state.characters[change.fromId];
+        const to = state.characters[change.toId];
+        if (!from || !to || from.id === to.id) return;
+
+        const current = getRelationship(graph, from.id, to.id);
+        const next: Relationship = {
+            affinity: clampRelationshipValue(current.affinity + (Number(change.affinity) || 0)),
+            trust: clampRelationshipValue(current.trust + (Number(change.trust) || 0)),
+            tags: current.tags
+                .filter(tag => !(change.removeTags || []).includes(tag))
+                .concat((change.addTags || []).filter(tag => tag && !current.tags.includes(tag)))
+        };
+
+        const parts: string[] = [];
+        if (next.affinity !== current.affinity) parts.push(`好感 ${formatDelta(next.affinity - current.affinity)} (当前: ${next.affinity})`);
+        if (next.trust !== current.trust) parts.push(`信任 ${formatDelta(next.trust - current.trust)} (当前: ${next.trust})`);
+        const added = next.tags.filter(tag => !current.tags.includes(tag));
+        const removed = current.tags.filter(tag => !next.tags.includes(tag));
+        if (added.length > 0) parts.push(`新增标签 [${added.join(', ')}]`);
+        if (removed.length > 0) parts.push(`移除标签 [${removed.join(', ')}]`);
+        if (parts.length === 0) return;
+
+        graph[from.id] = { ...(graph[from.id] || {}), [to.id]: next };
+        logs.push(`${from.name} 对 ${to.name}: ${parts.join(', ')}`);
+    });
+
+    return { state: logs.length > 0 ? { ...state, relationships: graph } : state, logs };
+};
+
+// Replaces one character's outgoing relationships (character editor). Neutral, untagged entries are dropped.
+export const setOutgoingRelationships = (state: GameState, fromId: string, outgoing: Record<string, Relationship>): GameState => {
+    const cleaned: Record<string, Relationship> = {};
+    Object.entries(outgoing).forEach(([toId, rel]) => {
+        if (toId === fromId || !state.characters[toId]) return;
+        const next: Relationship = {
+            affinity: clampRelationshipValue(rel.affinity),
+            trust: clampRelationshipValue(rel.trust),
+            tags: Array.from(new Set(rel.tags.map(tag => tag.trim()).filter(Boolean)))
+        };
+        if (next.affinity === 0 && next.trust === 0 && next.tags.length === 0) return;
+        cleaned[toId] = next;
+    });
+    const graph: RelationshipGraph = { ...(state.relationships || {}) };
+    if (Object.keys(cleaned).length > 0) graph[fromId] = cleaned;
+    else delete graph[fromId];
+    return { ...state, relationships: graph };
+};
+
+// Normalizes AI output ({ fromId?, toId?, targetName?, affinity, trust, addTags, removeTags }).
+// Targets may be given by ID or name; deltas are capped to MAX_AI_RELATIONSHIP_DELTA.
+export const parseRelationshipChanges = (
+    raw: any,
+    characters: Record<string, Character> | Character[],
+    defaultFromId?: string
+): RelationshipChange[] => {
+    if (!Array.isArray(raw)) return [];
+    const list = Array.isArray(characters) ? characters : Object.values(characters);
+    const resolve = (ref: any): string | undefined => {
+        if (ref === undefined || ref === null || ref === "") return undefined;
+        const key = String(ref).trim();
+        return (list.find(c => c.id === key) || list.find(c => c.name === key))?.id;
+    };
+    const capDelta = (value: any): number => {
+        const num = Number(value);
+        if (!isFinite(num)) return 0;
+        return Math.max(-MAX_AI_RELATIONSHIP_DELTA, Math.min(MAX_AI_RELATIONSHIP_DELTA, Math.round(num)));
+    };
+    const toTags = (value: any): string[] => Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+    return raw.flatMap((item: any): RelationshipChange[] => {
+        if (!item || typeof item !== 'object') return [];
+        const fromId = resolve(item.fromId ?? item.fromName) || defaultFromId;
+        const toId = resolve(item.toId ?? item.targetId ?? item.targetName ?? item.toName);
+        if (!fromId || !toId || fromId === toId) return [];
+        return [{
+            fromId,
+            toId,
+            affinity: capDelta(item.affinity),
+            trust: capDelta(item.trust),
+            addTags: toTags(item.addTags),
+            removeTags: toTags(item.removeTags)
+        }];
+    });
+};
+
+// One line per known relationship of charId, for prompts
+export const formatRelationshipLine = (rel: Relationship): string => {
+    const tagStr = rel.tags.length > 0 ? `, 标签: ${rel.tags.join('/')}` : "";
+    return `${describeAffinity(rel.affinity)} (好感 ${rel.affinity}), ${describeTrust(rel.trust)} (信任 ${rel.trust})${tagStr}`;
+};
+
+// Relationships among a group of characters, for settlement analysis
+export const formatRelationshipsAmong = (graph: RelationshipGraph | undefined, characters: Character[]): string => {
+    const lines: string[] = [];
+    characters.forEach(from => {
+        characters.forEach(to => {
+            if (from.id === to.id || !hasRelationship(graph, from.id, to.id)) return;
+            lines.push(`${from.name} (ID: ${from.id}) -> ${to.name} (ID: ${to.id}): ${formatRelationshipLine(getRelationship(graph, from.id, to.id))}`);
+        });
+    });
+    return lines.length > 0 ? lines.join('\n') : "(尚无记录的关系，均为中立)";
+};
@@ -0,0 +1,369 @@
+
+import { Card, Character, MapLocation, MapRoad, MapSettlement, MapState, RoadKind, RouteBlocker, TravelRoute } from "../types";
+import { MAP_CONSTANTS } from "../constants";
+import { checkMapExpansion, getTerrainHeight } from "./mapUtils";
+
+// --- Roads & Travel ---
+// Routes are found with A* on a grid matching the chunk height maps (one cell per visualizer step).
+// Step cost is travel time: slopes and river fords slow travellers down, roads speed them up, and
+// deep water / terrain above the snow line can only be crossed with a suitable card or vehicle.
+
+type Point = { x: number, y: number };
+
+const GRID = MAP_CONSTANTS.CHUNK_SIZE / MAP_CONSTANTS.VISUALIZER_GRID_SIZE;
+const WALK_SPEED = 1.25; // m/s on flat open ground (~4.5 km/h)
+const SLOPE_PENALTY = 6; // Extra cost per unit of gradient
+const RIVER_FACTOR = 3; // Fording a stream or wading through shallows
+const WADE_DEPTH = 30; // Water shallower than this (below sea level) can be waded
+const BOAT_FACTOR = 1.5;
+const CLIMB_FACTOR = 2.5;
+const ROAD_FACTOR = 0.5;
+const SEARCH_MARGIN = 1000; // Meters searched beyond the box spanned by start and end
+const MAX_SEARCH_NODES = 60000;
+const SEARCH_SCALES = [1, 4, 16]; // Grid coarsening tried in turn when a search runs out of budget
+
+const ROAD_LINKS = 2; // Each node connects to its nearest neighbours
+const ROAD_MAX_LENGTH = 3000;
+
+export const ROUTE_BLOCKER_LABELS: Record<RouteBlocker, string> = {
+    water: "水域",
+    mountain: "雪山峭壁"
+};
+
+// Card names that let a traveller cross otherwise impassable terrain
+const TRAVERSAL_KEYWORDS: Record<RouteBlocker, string[]> = {
+    water: ["船", "舟", "筏", "游泳", "潜水", "飞行", "boat", "ship", "raft", "swim", "dive", "fly"],
+    mountain: ["攀登", "攀岩", "登山", "飞行", "滑翔", "climb", "fly", "glide"]
+};
+
+export const getTraversalAbilities = (char: Character, cardPool: Card[]): RouteBlocker[] => {
+    const cards = [...char.skills, ...cardPool.filter(c => char.inventory.includes(c.id))];
+    return (Object.keys(TRAVERSAL_KEYWORDS) as RouteBlocker[]).filter(blocker =>
+        cards.some(card => TRAVERSAL_KEYWORDS[blocker].some(k => card.name.toLowerCase().includes(k)))
+    );
+};
+
+// Helper: Height / river lookup per grid cell, reading loaded chunks before falling back to noise
+const createTerrainSampler = (map: MapState) => {
+    const cache = new Map<string, { height: number, isRiver: boolean }>();
+    const riverSets: Record<string, Set<number>> = {};
+    const visualRes = MAP_CONSTANTS.VISUALIZER_GRID_SIZE;
+
+    return (gx: number, gy: number) => {
+        const key = `${gx},${gy}`;
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        const x = gx * GRID;
+        const y = gy * GRID;
+        const cx = Math.floor(x / MAP_CONSTANTS.CHUNK_SIZE);
+        const cy = Math.floor(y / MAP_CONSTANTS.CHUNK_SIZE);
+        const chunkKey = `${cx}_${cy}`;
+        const chunk = map.chunks[chunkKey];
+        let result = { height: 0, isRiver: false };
+
+        if (chunk && chunk.heightMap.length > 0) {
+            const i = Math.round((x - cx * MAP_CONSTANTS.CHUNK_SIZE) / GRID);
+            const j = Math.round((y - cy * MAP_CONSTANTS.CHUNK_SIZE) / GRID);
+            const idx = i * (visualRes + 1) + j;
+            if (!riverSets[chunkKey]) riverSets[chunkKey] = new Set(chunk.rivers || []);
+            result = { height: chunk.heightMap[idx] ?? getTerrainHeight(x, y, map.seed), isRiver: riverSets[chunkKey].has(idx) };
+        } else {
+            result = { height: getTerrainHeight(x, y, map.seed), isRiver: false };
+        }
+        cache.set(key, result);
+        return result;
+    };
+};
+
+// Helper: Grid cells covered by existing roads
+const getRoadCells = (roads?: Record<string, MapRoad>): Set<string> => {
+    const cells = new Set<string>();
+    Object.values(roads || {}).forEach(road => {
+        for (let k = 1; k < road.path.length; k++) {
+            const a = road.path[k - 1];
+            const b = road.path[k];
+            const samples = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / (GRID / 2)));
+            for (let s = 0; s <= samples; s++) {
+                const t = s / samples;
+                cells.add(`${Math.round((a.x + (b.x - a.x) * t) / GRID)},${Math.round((a.y + (b.y - a.y) * t) / GRID)}`);
+            }
+        }
+    });
+    return cells;
+};
+
+// Helper: Drops intermediate cells that continue in the same direction
+const simplifyPath = (points: Point[]): Point[] => {
+    if (points.length <= 2) return points;
+    const result: Point[] = [points[0]];
+    for (let k = 1; k < points.length - 1; k++) {
+        const prev = result[result.length - 1];
+        const next = points[k + 1];
+        const cross = (points[k].x - prev.x) * (next.y - points[k].y) - (points[k].y - prev.y) * (next.x - points[k].x);
+        if (Math.abs(cross) > 1e-6) result.push(points[k]);
+    }
+    result.push(points[points.length - 1]);
+    return result;
+};
+
+interface RouteOptions {
+    canCross?: RouteBlocker[];
+    useRoads?: boolean; // Default true
+    fineOnly?: boolean; // Give up instead of retrying on a coarser grid
+}
+
+type SearchResult = { path: Point[], distance: number, roadDistance: number, travelSeconds: number, crossed: RouteBlocker[] } | null | 'too_far';
+
+// Helper: One A* search on a grid `scale` times coarser than the height maps.
+// Returns null when no path exists under the given crossing rules, 'too_far' when the search budget runs out first.
+const searchRoute = (
+    map: MapState,
+    from: Point,
+    to: Point,
+    canCross: RouteBlocker[],
+    roadCells: Set<string>,
+    scale: number = 1
+): SearchResult => {
+    const terrain = createTerrainSampler(map);
+    const sample = (gx: number, gy: number) => terrain(gx * scale, gy * scale);
+    const isRoad = (gx: number, gy: number) => roadCells.has(`${gx * scale},${gy * scale}`);
+    const step = GRID * scale;
+    const sx = Math.round(from.x / step), sy = Math.round(from.y / step);
+    const tx = Math.round(to.x / step), ty = Math.round(to.y / step);
+
+    const margin = Math.ceil(SEARCH_MARGIN / step);
+    const minX = Math.min(sx, tx) - margin, maxX = Math.max(sx, tx) + margin;
+    const minY = Math.min(sy, ty) - margin, maxY = Math.max(sy, ty) + margin;
+    const toIndex = (gx: number, gy: number) => (gx - minX) * (maxY - minY + 1) + (gy - minY);
+
+    const blockerAt = (gx: number, gy: number): RouteBlocker | null => {
+        const t = sample(gx, gy);
+        if (!t.isRiver && t.height < MAP_CONSTANTS.SEA_LEVEL - WADE_DEPTH) return 'water';
+        if (t.height > MAP_CONSTANTS.SNOW_LINE) return 'mountain';
+        return null;
+    };
+
+    const stepCost = (ax: number, ay: number, bx: number, by: number, len: number): number => {
+        const a = sample(ax, ay);
+        const b = sample(bx, by);
+        let factor = 1 + SLOPE_PENALTY * Math.abs(b.height - a.height) / len;
+        const blocker = blockerAt(bx, by);
+        if (blocker === 'water') {
+            if (!canCross.includes('water')) return Infinity;
+            factor = BOAT_FACTOR;
+        } else if (b.isRiver || b.height < MAP_CONSTANTS.SEA_LEVEL) {
+            factor *= RIVER_FACTOR;
+        }
+        if (blocker === 'mountain') {
+            if (!canCross.includes('mountain')) return Infinity;
+            factor *= CLIMB_FACTOR;
+        }
+        if (isRoad(bx, by)) factor *= ROAD_FACTOR;
+        return len * factor / WALK_SPEED;
+    };
+
+    // Heuristic assumes the cheapest possible step (flat road) so it never overestimates
+    const heuristic = (gx: number, gy: number) => Math.hypot(gx - tx, gy - ty) * step * ROAD_FACTOR / WALK_SPEED;
+
+    const gScore = new Map<number, number>();
+    const cameFrom = new Map<number, number>();
+    const closed = new Set<number>();
+    const heap: { idx: number, gx: number, gy: number, f: number }[] = [];
+    const push = (node: { idx: number, gx: number, gy: number, f: number }) => {
+        heap.push(node);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (heap[parent].f <= heap[i].f) break;
+            [heap[parent], heap[i]] = [heap[i], heap[parent]];
+            i = parent;
+        }
+    };
+    const pop = () => {
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length > 0) {
+            heap[0] = last;
+            let i = 0;
+            while (true) {
+                const l = i * 2 + 1, r = l + 1;
+                let smallest = i;
+                if (l < heap.length && heap[l].f < heap[smallest].f) smallest = l;
+                if (r < heap.length && heap[r].f < heap[smallest].f) smallest = r;
+                if (smallest === i) break;
+                [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    };
+
+    const startIdx = toIndex(sx, sy);
+    const goalIdx = toIndex(tx, ty);
+    gScore.set(startIdx, 0);
+    push({ idx: startIdx, gx: sx, gy: sy, f: heuristic(sx, sy) });
+
+    let expanded = 0;
+    while (heap.length > 0) {
+        const current = pop();
+        if (closed.has(current.idx)) continue;
+        if (current.idx === goalIdx) break;
+        closed.add(current.idx);
+        if (++expanded > MAX_SEARCH_NODES) return 'too_far';
+
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                if (dx === 0 && dy === 0) continue;
+                const nx = current.gx + dx, ny = current.gy + dy;
+                if (nx < minX || nx > maxX || ny < minY || ny > maxY) continue;
+                const nIdx = toIndex(nx, ny);
+                if (closed.has(nIdx)) continue;
+                const cost = stepCost(current.gx, current.gy, nx, ny, dx !== 0 && dy !== 0 ? step * Math.SQRT2 : step);
+                if (!isFinite(cost)) continue;
+                const tentative = gScore.get(current.idx)! + cost;
+                if (tentative < (gScore.get(nIdx) ?? Infinity)) {
+                    gScore.set(nIdx, tentative);
+                    cameFrom.set(nIdx, current.idx);
+                    push({ idx: nIdx, gx: nx, gy: ny, f: tentative + heuristic(nx, ny) });
+                }
+            }
+        }
+    }
+
+    if (!gScore.has(goalIdx)) return null;
+
+    // Reconstruct cells from goal back to start
+    const height = maxY - minY + 1;
+    const cells: Point[] = [];
+    let idx: number | undefined = goalIdx;
+    while (idx !== undefined) {
+        cells.unshift({ x: Math.floor(idx / height) + minX, y: (idx % height) + minY });
+        idx = cameFrom.get(idx);
+    }
+
+    let distance = 0, roadDistance = 0;
+    const crossed: RouteBlocker[] = [];
+    for (let k = 1; k < cells.length; k++) {
+        const len = Math.hypot(cells[k].x - cells[k - 1].x, cells[k].y - cells[k - 1].y) * step;
+        distance += len;
+        if (isRoad(cells[k].x, cells[k].y)) roadDistance += len;
+        const blocker = blockerAt(cells[k].x, cells[k].y);
+        if (blocker && !crossed.includes(blocker)) crossed.push(blocker);
+    }
+
+    const points = simplifyPath(cells.map(c => ({ x: c.x * step, y: c.y * step })));
+    points[0] = { x: from.x, y: from.y };
+    points[points.length - 1] = { x: to.x, y: to.y };
+
+    return { path: points, distance: Math.round(distance), roadDistance: Math.round(roadDistance), travelSeconds: Math.round(gScore.get(goalIdx)!), crossed };
+};
+
+// Helper: Long trips are searched again on coarser grids (approximate: thin rivers and ridges may be missed)
+const searchAtAnyScale = (map: MapState, from: Point, to: Point, canCross: RouteBlocker[], roadCells: Set<string>, fineOnly?: boolean): SearchResult => {
+    for (const scale of fineOnly ? [1] : SEARCH_SCALES) {
+        const result = searchRoute(map, from, to, canCross, roadCells, scale);
+        if (result !== 'too_far') return result;
+    }
+    return 'too_far';
+};
+
+// Shortest-time route between two world points. When the traveller's crossings are not enough,
+// the returned route shows the way that would work and names what blocks it.
+// Returns null when there is no way through at all, or the trip is too long to plan; callers must refuse the move.
+export const findRoute = (map: MapState, from: Point, to: Point, options: RouteOptions = {}): TravelRoute | null => {
+    const canCross = options.canCross || [];
+    const roadCells = options.useRoads === false ? new Set<string>() : getRoadCells(map.roads);
+
+    const straight = Math.hypot(to.x - from.x, to.y - from.y);
+    if (straight < GRID) return { path: [from, to], distance: Math.round(straight), roadDistance: 0, travelSeconds: Math.round(straight / WALK_SPEED) };
+
+    const result = searchAtAnyScale(map, from, to, canCross, roadCells, options.fineOnly);
+    if (result === 'too_far') return null;
+    if (result) {
+        const { crossed, ...route } = result;
+        return route;
+    }
+
+    const allCrossings = Object.keys(ROUTE_BLOCKER_LABELS) as RouteBlocker[];
+    if (allCrossings.every(b => canCross.includes(b))) return null;
+    const unrestricted = searchAtAnyScale(map, from, to, allCrossings, roadCells, options.fineOnly);
+    if (!unrestricted || unrestricted === 'too_far') return null;
+    const { crossed, ...route } = unrestricted;
+    return { ...route, blockedBy: crossed.find(b => !canCross.includes(b)) };
+};
+
+// Physique spent on a journey: 1 per 10 minutes of travel
+export const getTravelPhysiqueCost = (route: TravelRoute): number => Math.max(1, Math.round(route.travelSeconds / 600));
+
+export const formatTravelDuration = (seconds: number): string => {
+    const minutes = Math.max(1, Math.round(seconds / 60));
+    if (minutes < 60) return `${minutes}分钟`;
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 > 0 ? `${hours}小时${minutes % 60}分钟` : `${hours}小时`;
+};
+
+export const formatRoute = (route: TravelRoute): string => {
+    const km = (route.distance / 1000).toFixed(1);
+    const road = route.roadDistance > 0 ? `, 其中道路 ${(route.roadDistance / 1000).toFixed(1)} 公里` : "";
+    return `路程 ${km} 公里${road}, 耗时 ${formatTravelDuration(route.travelSeconds)}`;
+};
+
+// --- Road Network ---
+
+interface RoadNode { id: string, point: Point, isSettlement: boolean }
+
+const getRoadNodes = (map: MapState): RoadNode[] => [
+    ...(Object.values(map.settlements || {}) as MapSettlement[]).map(s => ({ id: s.id, point: s.center, isSettlement: true })),
+    ...(Object.values(map.locations) as MapLocation[]).filter(l => l.isKnown && !l.isTransient).map(l => ({ id: l.id, point: l.coordinates, isSettlement: false }))
+];
+
+const getRoadId = (a: string, b: string) => `road_${[a, b].sort().join('__')}`;
+
+// Connects the given nodes (default: every settlement and known location) to their nearest neighbours.
+// Existing roads are kept; new roads prefer following them so the network merges.
+// Pairs without a walkable fine-grid route are left unconnected rather than joined by a guessed road.
+// Runs many searches: call it outside state updaters.
+export const extendRoadNetwork = (map: MapState, nodeIds?: string[]): Record<string, MapRoad> => {
+    const roads: Record<string, MapRoad> = { ...(map.roads || {}) };
+    const nodes = getRoadNodes(map);
+    const sources = nodeIds ? nodes.filter(n => nodeIds.includes(n.id)) : nodes;
+
+    sources.forEach(node => {
+        const nearest = nodes
+            .filter(other => other.id !== node.id)
+            .map(other => ({ other, dist: Math.hypot(other.point.x - node.point.x, other.point.y - node.point.y) }))
+            .filter(({ dist }) => dist <= ROAD_MAX_LENGTH)
+            .sort((a, b) => a.dist - b.dist)
+            .slice(0, ROAD_LINKS);
+
+        nearest.forEach(({ other }) => {
+            const id = getRoadId(node.id, other.id);
+            if (roads[id]) return;
+            const route = findRoute({ ...map, roads }, node.point, other.point, { fineOnly: true });
+            if (!route || route.blockedBy) return;
+            const kind: RoadKind = node.isSettlement && other.isSettlement ? 'road' : 'trail';
+            roads[id] = { id, fromId: node.id, toId: other.id, kind, path: route.path, length: route.distance };
+        });
+    });
+    return roads;
+};
+
+// Maps without roads yet (new games, saves from before roads existed) get the full network
+export const ensureRoadNetwork = (map: MapState): MapState => map.roads ? map : { ...map, roads: extendRoadNetwork(map) };
+
+// Roads linking a place that is about to become known; computed before the state update, then merged in.
+// Empty while the map has no network yet (the full build will include the place).
+export const planRoadsForLocation = (map: MapState, loc: MapLocation): Record<string, MapRoad> => {
+    if (!map.roads) return {};
+    const withLocation = { ...map, locations: { ...map.locations, [loc.id]: { ...loc, isKnown: true } } };
+    return extendRoadNetwork(withLocation, [loc.id]);
+};
+
+// Map expansion around a point; newly generated settlements join the road network
+export const expandMapAt = (map: MapState, x: number, y: number): MapState => {
+    const expanded = checkMapExpansion(x, y, map, map.seed);
+    if (expanded === map) return map;
+    const newSettlementIds = Object.keys(expanded.settlements).filter(id => !map.settlements[id]);
+    return newSettlementIds.length > 0 && map.roads ? { ...expanded, roads: extendRoadNetwork(expanded, newSettlementIds) } : expanded;
+};
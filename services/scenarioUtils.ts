@@ -0,0 +1,281 @@
+
+import { Card, GameState, InitialWorldConfig, PrizePool, PromptsConfig, ScenarioConflictMode, ScenarioContent, ScenarioManifest, ScenarioModule, Trigger } from "../types";
+import { INITIAL_DEFAULT_SETTINGS } from "./DefaultSettings";
+import { normalizeCard } from "./cardUtils";
+import { migrateTriggerConditions } from "./triggerService";
+
+// --- Scenario Modules ---
+// A versioned manifest plus reusable content, independent of any playthrough. On import every new entity gets a
+// fresh ID and references between module entities are rewritten (trigger actions -> pools / cards, template
+// inventory -> cards). Entities match existing ones by name (variables by key, prompts by key) and the
+// conflict mode decides what happens on a match:
+//   merge:   keep the existing ID, module fields win, fields only the game has are kept (pools keep extra items)
+//   replace: the module entity replaces the existing one (the ID is kept so game references stay valid)
+//   skip:    the existing entity stays untouched; module references point to it
+
+export const SCENARIO_MODULE_VERSION = 1;
+
+export interface ScenarioSelection {
+    triggerIds: string[];
+    poolIds: string[];
+    cardIds: string[];
+    variableKeys: string[];
+    promptKeys: (keyof PromptsConfig)[];
+    characterTemplate: boolean;
+    locationTemplate: boolean;
+    initialWorldConfig: boolean;
+}
+
+export type ScenarioEntityKind = 'trigger' | 'pool' | 'card' | 'variable' | 'prompt' | 'template' | 'world';
+
+const KIND_LABELS: Record<ScenarioEntityKind, string> = {
+    trigger: "触发器",
+    pool: "奖池",
+    card: "卡牌",
+    variable: "变量",
+    prompt: "Prompt",
+    template: "模板",
+    world: "初始世界"
+};
+
+export interface ScenarioConflict {
+    kind: ScenarioEntityKind;
+    name: string;
+}
+
+export interface ScenarioImportReport {
+    added: string[];
+    merged: string[];
+    replaced: string[];
+    skipped: string[];
+}
+
+// Helper: Deep copy so modules never share objects with the game state
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Helper: Changed from the built-in default (a default template / prompt never counts as a conflict)
+const isCustomized = (value: any, defaultValue: any): boolean => {
+    return value !== undefined && JSON.stringify(value) !== JSON.stringify(defaultValue);
+};
+
+// Prompts that differ from the built-in defaults, i.e. worth exporting as overrides
+export const getPromptOverrides = (prompts: PromptsConfig): (keyof PromptsConfig)[] => {
+    return (Object.keys(prompts) as (keyof PromptsConfig)[]).filter(key => prompts[key] !== INITIAL_DEFAULT_SETTINGS.prompts[key]);
+};
+
+export const createScenarioModule = (
+    state: GameState,
+    selection: ScenarioSelection,
+    info: Pick<ScenarioManifest, 'name' | 'moduleVersion' | 'author' | 'description'>
+): ScenarioModule => {
+    const content: ScenarioContent = {};
+    const defaults = state.defaultSettings;
+
+    // Runtime counters are playthrough state
+    const triggers = (Object.values(state.triggers || {}) as Trigger[])
+        .filter(t => selection.triggerIds.includes(t.id))
+        .map(t => ({ ...clone(t), runtime: undefined }));
+    if (triggers.length > 0) content.triggers = triggers;
+
+    const pools = (Object.values(state.prizePools || {}) as PrizePool[]).filter(p => selection.poolIds.includes(p.id)).map(clone);
+    if (pools.length > 0) content.prizePools = pools;
+
+    const cards = state.cardPool.filter(c => selection.cardIds.includes(c.id)).map(clone);
+    if (cards.length > 0) content.cards = cards;
+
+    const variables = (state.appSettings.globalVariables || []).filter(v => selection.variableKeys.includes(v.key)).map(clone);
+    if (variables.length > 0) content.globalVariables = variables;
+
+    if (selection.promptKeys.length > 0) {
+        const prompts: Partial<PromptsConfig> = {};
+        selection.promptKeys.forEach(key => { prompts[key] = defaults.prompts[key]; });
+        content.prompts = prompts;
+    }
+
+    if (selection.characterTemplate) content.characterTemplate = clone(defaults.templates.character);
+    if (selection.locationTemplate) content.locationTemplate = clone(defaults.templates.location);
+    if (selection.initialWorldConfig && defaults.initialWorldConfig) content.initialWorldConfig = clone(defaults.initialWorldConfig);
+
+    return {
+        manifest: {
+            format: 'scenario_module',
+            version: SCENARIO_MODULE_VERSION,
+            id: `scn_${Date.now()}`,
+            createdAt: Date.now(),
+            ...info
+        },
+        content
+    };
+};
+
+export const isScenarioModule = (data: any): data is ScenarioModule => {
+    return !!data && data.manifest?.format === 'scenario_module' && typeof data.manifest.version === 'number'
+        && typeof data.manifest.name === 'string' && !!data.content && typeof data.content === 'object';
+};
+
+// Readable reason a parsed file can't be imported, or null
+export const validateScenarioModule = (data: any): string | null => {
+    if (!isScenarioModule(data)) return "文件不是有效的剧本模组";
+    if (data.manifest.version > SCENARIO_MODULE_VERSION) return `模组格式版本 ${data.manifest.version} 高于当前支持的版本 ${SCENARIO_MODULE_VERSION}，请更新游戏`;
+    return null;
+};
+
+// Matches between module content and the game, for the import preview
+export const findScenarioConflicts = (state: GameState, module: ScenarioModule): ScenarioConflict[] => {
+    const { content } = module;
+    const defaults = state.defaultSettings;
+    const conflicts: ScenarioConflict[] = [];
+
+    (content.triggers || []).forEach(t => {
+        if ((Object.values(state.triggers || {}) as Trigger[]).some(e => e.name === t.name)) conflicts.push({ kind: 'trigger', name: t.name });
+    });
+    (content.prizePools || []).forEach(p => {
+        if ((Object.values(state.prizePools || {}) as PrizePool[]).some(e => e.name === p.name)) conflicts.push({ kind: 'pool', name: p.name });
+    });
+    (content.cards || []).forEach(c => {
+        if (state.cardPool.some(e => e.name === c.name)) conflicts.push({ kind: 'card', name: c.name });
+    });
+    (content.globalVariables || []).forEach(v => {
+        if ((state.appSettings.globalVariables || []).some(e => e.key === v.key)) conflicts.push({ kind: 'variable', name: v.key });
+    });
+    (Object.keys(content.prompts || {}) as (keyof PromptsConfig)[]).forEach(key => {
+        if (isCustomized(defaults.prompts[key], INITIAL_DEFAULT_SETTINGS.prompts[key])) conflicts.push({ kind: 'prompt', name: key });
+    });
+    if (content.characterTemplate && isCustomized(defaults.templates.character, INITIAL_DEFAULT_SETTINGS.templates.character)) {
+        conflicts.push({ kind: 'template', name: "角色模板" });
+    }
+    if (content.locationTemplate && isCustomized(defaults.templates.location, INITIAL_DEFAULT_SETTINGS.templates.location)) {
+        conflicts.push({ kind: 'template', name: "地点模板" });
+    }
+    if (content.initialWorldConfig && isCustomized(defaults.initialWorldConfig, INITIAL_DEFAULT_SETTINGS.initialWorldConfig)) {
+        conflicts.push({ kind: 'world', name: "初始世界配置" });
+    }
+    return conflicts;
+};
+
+export const formatScenarioEntity = (kind: ScenarioEntityKind, name: string): string => `${KIND_LABELS[kind]}「${name}」`;
+
+/**
+ * Imports a module into a game state. Returns the next state and what happened to each module entity.
+ * References to game-specific characters / locations (e.g. a trigger condition on one character) are kept
+ * as-is; prize pool locations that don't exist in this game are dropped.
+ */
+export const applyScenarioModule = (state: GameState, module: ScenarioModule, mode: ScenarioConflictMode): { state: GameState, report: ScenarioImportReport } => {
+    const content = clone(module.content);
+    const defaults = state.defaultSettings;
+    const report: ScenarioImportReport = { added: [], merged: [], replaced: [], skipped: [] };
+    const stamp = Date.now();
+    let seq = 0;
+    const newId = (prefix: string) => `${prefix}_${stamp}_${seq++}`;
+
+    // Helper: Resolves one matched / unmatched entity. Returns the entity to store (or null to keep the existing one).
+    const resolve = <T extends { id: string }>(kind: ScenarioEntityKind, name: string, incoming: T, existing: T | undefined, merge: (a: T, b: T) => T): T | null => {
+        const label = formatScenarioEntity(kind, name);
+        if (!existing) {
+            report.added.push(label);
+            return incoming;
+        }
+        if (mode === 'skip') {
+            report.skipped.push(label);
+            return null;
+        }
+        if (mode === 'replace') {
+            report.replaced.push(label);
+            return { ...incoming, id: existing.id };
+        }
+        report.merged.push(label);
+        return { ...merge(existing, incoming), id: existing.id };
+    };
+
+    // Helper: Upserts a list of named entities, recording old module ID -> ID in this game
+    const importNamed = <T extends { id: string, name: string }>(kind: ScenarioEntityKind, prefix: string, current: T[], incoming: T[], merge: (a: T, b: T) => T, idMap: Record<string, string>): T[] => {
+        const next = [...current];
+        incoming.forEach(item => {
+            const index = next.findIndex(e => e.name === item.name);
+            const existing = index === -1 ? undefined : next[index];
+            const resolved = resolve(kind, item.name, { ...item, id: existing?.id || newId(prefix) }, existing, merge);
+            idMap[item.id] = existing?.id || (resolved ? resolved.id : item.id);
+            if (!resolved) return;
+            if (index === -1) next.push(resolved);
+            else next[index] = resolved;
+        });
+        return next;
+    };
+
+    // 1. Cards first: pools, templates and trigger actions may refer to them
+    const cardIds: Record<string, string> = {};
+    const cardPool = importNamed<Card>('card', 'card', state.cardPool, (content.cards || []).map(normalizeCard), (a, b) => ({ ...a, ...b }), cardIds);
+
+    // 2. Prize Pools
+    const poolIds: Record<string, string> = {};
+    const incomingPools = (content.prizePools || []).map(p => ({ ...p, locationIds: (p.locationIds || []).filter(id => !!state.map.locations[id]) }));
+    const pools = importNamed<PrizePool>('pool', 'pool', Object.values(state.prizePools || {}) as PrizePool[], incomingPools, (a, b) => ({
+        ...a,
+        ...b,
+        locationIds: Array.from(new Set([...(a.locationIds || []), ...(b.locationIds || [])])),
+        items: [...a.items, ...b.items.filter(i => !a.items.some(e => e.name === i.name))]
+    }), poolIds);
+
+    // 3. Triggers (actions re-pointed to the imported pools / cards)
+    const incomingTriggers = (content.triggers || []).map(t => migrateTriggerConditions({
+        ...t,
+        runtime: undefined,
+        actions: t.actions?.map(a => ({
+            ...a,
+            poolId: a.poolId ? (poolIds[a.poolId] || a.poolId) : a.poolId,
+            targetName: (a.type === 'grant_card' || a.type === 'remove_card') && a.targetName && cardIds[a.targetName] ? cardIds[a.targetName] : a.targetName
+        }))
+    }));
+    const triggers = importNamed<Trigger>('trigger', 'trig', Object.values(state.triggers || {}) as Trigger[], incomingTriggers, (a, b) => ({ ...a, ...b, runtime: a.runtime }), {});
+
+    // 4. Global Variables (by key)
+    const variables = [...(state.appSettings.globalVariables || [])];
+    (content.globalVariables || []).forEach(v => {
+        const index = variables.findIndex(e => e.key === v.key);
+        const resolved = resolve('variable', v.key, { ...v, id: newId('var') }, index === -1 ? undefined : variables[index], (a, b) => ({ ...a, value: b.value }));
+        if (!resolved) return;
+        if (index === -1) variables.push(resolved);
+        else variables[index] = resolved;
+    });
+
+    // 5. Prompts, templates and initial world (singletons: only customized values count as existing)
+    const resolveSingleton = <T>(kind: ScenarioEntityKind, name: string, incoming: T, current: T, defaultValue: T, merge: (a: T, b: T) => T): T => {
+        if (JSON.stringify(incoming) === JSON.stringify(current)) return current;
+        const existing = isCustomized(current, defaultValue) ? { id: name, value: current } : undefined;
+        const resolved = resolve(kind, name, { id: name, value: incoming }, existing, (a, b) => ({ id: name, value: merge(a.value, b.value) }));
+        return resolved ? resolved.value : current;
+    };
+
+    const prompts = { ...defaults.prompts };
+    (Object.entries(content.prompts || {}) as [keyof PromptsConfig, string][]).forEach(([key, text]) => {
+        prompts[key] = resolveSingleton('prompt', key, text, prompts[key], INITIAL_DEFAULT_SETTINGS.prompts[key], (_, b) => b);
+    });
+
+    const templates = { ...defaults.templates };
+    if (content.characterTemplate) {
+        const incoming = { ...content.characterTemplate, inventory: (content.characterTemplate.inventory || []).map(id => cardIds[id] || id) };
+        templates.character = resolveSingleton('template', "角色模板", incoming, templates.character, INITIAL_DEFAULT_SETTINGS.templates.character,
+            (a, b) => ({ ...a, ...b, attributes: { ...a.attributes, ...b.attributes } }));
+    }
+    if (content.locationTemplate) {
+        templates.location = resolveSingleton('template', "地点模板", content.locationTemplate, templates.location, INITIAL_DEFAULT_SETTINGS.templates.location,
+            (a, b) => ({ ...a, ...b, attributes: { ...(a.attributes || {}), ...(b.attributes || {}) } }));
+    }
+
+    const initialWorldConfig = content.initialWorldConfig
+        ? resolveSingleton<InitialWorldConfig | undefined>('world', "初始世界配置", content.initialWorldConfig, defaults.initialWorldConfig, INITIAL_DEFAULT_SETTINGS.initialWorldConfig,
+            (a, b) => ({ ...a, ...b } as InitialWorldConfig))
+        : defaults.initialWorldConfig;
+
+    return {
+        state: {
+            ...state,
+            cardPool,
+            prizePools: Object.fromEntries(pools.map(p => [p.id, p])),
+            triggers: Object.fromEntries(triggers.map(t => [t.id, t])),
+            appSettings: { ...state.appSettings, globalVariables: variables },
+            defaultSettings: { ...defaults, prompts, templates, initialWorldConfig }
+        },
+        report
+    };
+};
@@ -101,6 +101,12 @@ const parseAnyTimeFormat = (str: string): Date | null => {
     return null;
 };
 
+// Helper: Timestamp (ms) of a world time string, or null when it can't be read
+export const parseWorldTime = (str: string): number | null => {
+    const date = parseAnyTimeFormat(str);
+    return date && !isNaN(date.getTime()) ? date.getTime() : null;
+};
+
 export const getNaturalTimeDelta = (currentStr: string, pastStr: string): string => {
     const curr = parseAnyTimeFormat(currentStr);
     const past = parseAnyTimeFormat(pastStr);
@@ -0,0 +1,275 @@
+
+import { AppSettings, AttributeType, AttributeVisibility, Character, GameAttribute, GameState, TriggerAction, TriggerEvent, TriggerEventPayload } from "../types";
+import { replaceGlobalVariables } from "./ai/promptUtils";
+import { getAttr, removeInstances } from "./attributeUtils";
+import { createRandomSource } from "./randomUtils";
+import { clampDrawAmount, drawPrizeItems, resolvePrizeCards } from "./prizePoolUtils";
+
+// --- Trigger Actions & Events ---
+// Triggers are evaluated inside AI features, which can't write GameState. Fired actions are handed to the
+// engine as a window event; useTriggerActions applies them one at a time with applyTriggerAction.
+// Engine events (moves, skills, round changes...) travel the same way so any hook can emit them.
+
+export const TRIGGER_ACTIONS_EVENT = 'trigger_actions';
+export const TRIGGER_ENGINE_EVENT = 'trigger_event';
+
+export interface EmittedTriggerEvent {
+    event: TriggerEvent;
+    payload: TriggerEventPayload;
+}
+
+export interface FiredTriggerActions {
+    triggerId: string;
+    triggerName: string;
+    actions: TriggerAction[];
+    contextCharId?: string;
+    values: Record<string, any>; // {{condition N}} values of the firing evaluation
+}
+
+export const dispatchTriggerActions = (batch: FiredTriggerActions) => {
+    try {
+        window.dispatchEvent(new CustomEvent(TRIGGER_ACTIONS_EVENT, { detail: batch }));
+    } catch (e) {
+        // Ignore errors in non-browser envs
+    }
+};
+
+export const emitTriggerEvent = (event: TriggerEvent, payload: TriggerEventPayload = {}) => {
+    try {
+        window.dispatchEvent(new CustomEvent(TRIGGER_ENGINE_EVENT, { detail: { event, payload } }));
+    } catch (e) {
+        // Ignore errors in non-browser envs
+    }
+};
+
+// Trigger-local {{condition N}} values first, then global variables
+export const replaceTriggerMacros = (text: string, values: Record<string, any>, appSettings?: AppSettings): string => {
+    let result = text;
+    Object.entries(values).forEach(([key, val]) => {
+        result = result.split(`{{${key}}}`).join(String(val));
+    });
+    return replaceGlobalVariables(result, appSettings);
+};
+
+// Helper: Same bounds as skill effects (CP is only floored, other numbers stay within -1..100)
+const clampCharValue = (attr: GameAttribute, value: number): number => {
+    const isCP = attr.id === 'cp' || attr.id === '创造点' || attr.name.toLowerCase() === 'cp' || attr.name === '创造点';
+    return isCP ? Math.max(-1, value) : Math.max(-1, Math.min(100, value));
+};
+
+// Helper: New attribute value for set/add. Returns null when a delta or its base isn't numeric.
+const computeAttribute = (attr: GameAttribute | undefined, name: string, raw: string, isDelta: boolean, defaultBase: number): GameAttribute | null => {
+    const num = Number(raw);
+    const isNum = raw.trim() !== "" && !isNaN(num);
+    if (isDelta && !isNum) return null;
+
+    const base: GameAttribute = attr || {
+        id: name,
+        name,
+        type: isNum ? AttributeType.NUMBER : AttributeType.TEXT,
+        value: isNum ? defaultBase : "",
+        visibility: AttributeVisibility.PUBLIC
+    };
+    if (isDelta) return isNaN(Number(base.value)) ? null : { ...base, value: Math.round(Number(base.value) + num) };
+    if (base.type === AttributeType.NUMBER && isNum) return { ...base, value: num };
+    return { ...base, value: raw };
+};
+
+export interface AttributeChange {
+    char: Character;
+    attribute: GameAttribute;
+    oldValue?: string | number;
+    events: EmittedTriggerEvent[]; // attribute_changed, plus health_zero when health just dropped to 0
+    isDown: boolean; // Health just dropped to 0 or below (never for environment characters)
+}
+
+/**
+ * Adds to (`isDelta`) or sets one character attribute. Shared by skill effects and trigger actions.
+ * Numbers stay within the skill bounds; a missing attribute starts at 50. Returns null when a delta
+ * or its base isn't numeric. `sourceCharId` (who caused the change) is reported as the events' targetId.
+ */
+export const applyAttributeChange = (char: Character, attrName: string, raw: string | number, isDelta: boolean, sourceCharId?: string): AttributeChange | null => {
+    const existing = getAttr(char, attrName);
+    const attribute = computeAttribute(existing, attrName, String(raw), isDelta, 50);
+    if (!attribute) return null;
+    if (typeof attribute.value === 'number') attribute.value = clampCharValue(attribute, attribute.value);
+
+    const oldValue = existing?.value;
+    const events: EmittedTriggerEvent[] = [];
+    if (oldValue !== attribute.value) {
+        events.push({ event: 'attribute_changed', payload: { charId: char.id, targetId: sourceCharId, attrName: attribute.name, oldValue, newValue: attribute.value } });
+    }
+    const isHealth = attribute.name === '健康' || attribute.name.toLowerCase() === 'health';
+    const isDown = isHealth && Number(attribute.value) <= 0 && Number(oldValue ?? 1) > 0 && !char.id.startsWith('env_');
+    if (isDown) events.push({ event: 'health_zero', payload: { charId: char.id, targetId: sourceCharId } });
+
+    return {
+        char: { ...char, attributes: { ...char.attributes, [existing?.id || attribute.id]: attribute } },
+        attribute,
+        oldValue,
+        events,
+        isDown
+    };
+};
+
+export interface TriggerActionContext {
+    triggerName: string;
+    contextCharId?: string;
+    values: Record<string, any>;
+}
+
+/**
+ * Applies one trigger action to a state snapshot.
+ * Returns the next state, the story log lines describing the change (or why it was skipped)
+ * and the engine events the change causes.
+ */
+export const applyTriggerAction = (state: GameState, action: TriggerAction, ctx: TriggerActionContext): { state: GameState, logs: string[], events?: EmittedTriggerEvent[] } => {
+    const prefix = `> 触发 [${ctx.triggerName}]`;
+    const text = (v: any) => replaceTriggerMacros(String(v ?? ""), ctx.values, state.appSettings);
+    const skip = (reason: string) => ({ state, logs: [`${prefix} 未执行: ${reason}`] });
+
+    const charId = action.characterId === 'current' ? (ctx.contextCharId || state.round.activeCharId) : action.characterId;
+    const char: Character | undefined = charId ? state.characters[charId] : undefined;
+    const withChar = (next: Character): GameState => ({ ...state, characters: { ...state.characters, [next.id]: next } });
+
+    switch (action.type) {
+        case 'set_attr':
+        case 'add_attr': {
+            const attrName = text(action.targetName).trim();
+            if (!attrName) return skip("未指定属性");
+            const raw = text(action.value);
+            const isDelta = action.type === 'add_attr';
+
+            if (action.characterId === 'world') {
+                const attrs = state.world.attributes;
+                const key = Object.keys(attrs).find(k => k === attrName || attrs[k].name === attrName) || attrName;
+                const next = computeAttribute(attrs[key], attrName, raw, isDelta, 0);
+                if (!next) return skip(`"${raw}" 不是数值`);
+                return {
+                    state: { ...state, world: { ...state.world, attributes: { ...attrs, [key]: next } } },
+                    logs: [`${prefix}: 世界 ${next.name} ${isDelta ? `${Number(raw) > 0 ? '+' : ''}${raw} (当前: ${next.value})` : `= ${next.value}`}`]
+                };
+            }
+
+            if (!char) return skip("目标角色不存在");
+            const change = applyAttributeChange(char, attrName, raw, isDelta);
+            if (!change) return skip(`"${raw}" 不是数值`);
+
+            const next = change.attribute;
+            const logs = [`${prefix}: ${char.name} ${next.name} ${isDelta ? `${Number(raw) > 0 ? '+' : ''}${raw} (当前: ${next.value})` : `= ${next.value}`}`];
+            if (change.isDown) logs.push(`系统: [${char.name}] 已死亡或失去意识 (HP <= 0)。`);
+            return { state: withChar(change.char), logs, events: change.events };
+        }
+        case 'grant_card': {
+            if (!char) return skip("目标角色不存在");
+            const ref = text(action.targetName).trim();
+            const card = state.cardPool.find(c => c.id === ref) || state.cardPool.find(c => c.name === ref);
+            if (!card) return skip(`卡池中没有 [${ref}]`);
+            return {
+                state: withChar({ ...char, inventory: [...char.inventory, card.id] }),
+                logs: [`${prefix}: ${char.name} 获得了 [${card.name}]`]
+            };
+        }
+        case 'remove_card': {
+            if (!char) return skip("目标角色不存在");
+            const ref = text(action.targetName).trim();
+            const cardId = char.inventory.find(id => id === ref || state.cardPool.find(c => c.id === id)?.name === ref);
+            if (!cardId) return skip(`${char.name} 没有 [${ref}]`);
+            const cardName = state.cardPool.find(c => c.id === cardId)?.name || ref;
+            return {
+                state: withChar({ ...char, inventory: removeInstances(char.inventory, [cardId]) }),
+                logs: [`${prefix}: ${char.name} 失去了 [${cardName}]`]
+            };
+        }
+        case 'move_char': {
+            if (!char) return skip("目标角色不存在");
+            const dest = action.locationId ? state.map.locations[action.locationId] : undefined;
+            if (!dest) return skip("目标地点无效");
+            const fromId = state.map.charPositions[char.id]?.locationId;
+            const events: EmittedTriggerEvent[] = [];
+            if (fromId !== dest.id) {
+                if (fromId) events.push({ event: 'leave_location', payload: { charId: char.id, locationId: fromId } });
+                events.push({ event: 'enter_location', payload: { charId: char.id, locationId: dest.id } });
+            }
+            return {
+                state: {
+                    ...state,
+                    map: {
+                        ...state.map,
+                        charPositions: {
+                            ...state.map.charPositions,
+                            [char.id]: { x: dest.coordinates.x, y: dest.coordinates.y, locationId: dest.id }
+                        }
+                    }
+                },
+                logs: [`${prefix}: ${char.name} 移动到了 ${dest.isKnown ? `[${dest.name}]` : "未知地点"}`],
+                events
+            };
+        }
+        case 'add_conflict': {
+            if (!char) return skip("目标角色不存在");
+            const desc = text(action.value).trim();
+            if (!desc) return skip("矛盾描述为空");
+            // Conflict IDs are global sequential numbers
+            let maxId = 0;
+            (Object.values(state.characters) as Character[]).forEach(c => {
+                c.conflicts?.forEach(x => { const n = parseInt(x.id); if (!isNaN(n) && n > maxId) maxId = n; });
+            });
+            const conflict = { id: String(maxId + 1), desc, apReward: action.amount ?? 5, solved: false };
+            return {
+                state: withChar({ ...char, conflicts: [...(char.conflicts || []), conflict] }),
+                logs: [`${prefix}: ${char.name} 产生了新矛盾「${desc}」`]
+            };
+        }
+        case 'add_drive': {
+            if (!char) return skip("目标角色不存在");
+            const condition = text(action.value).trim();
+            if (!condition) return skip("欲望条件为空");
+            const drive = { id: `drive_trig_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`, condition, amount: action.amount ?? 10, weight: 50 };
+            return {
+                state: withChar({ ...char, drives: [...(char.drives || []), drive] }),
+                logs: [`${prefix}: ${char.name} 产生了新欲望「${condition}」`]
+            };
+        }
+        case 'hidden_round': {
+            return {
+                state: { ...state, round: { ...state.round, pendingHiddenRound: true } },
+                logs: [`${prefix}: 下一轮将进入隐藏轮次。`]
+            };
+        }
+        case 'draw_prize': {
+            if (!char) return skip("目标角色不存在");
+            const pool = action.poolId ? state.prizePools[action.poolId] : undefined;
+            if (!pool) return skip("奖池不存在");
+            const rng = createRandomSource(state.rng);
+            const { drawn, remaining } = drawPrizeItems(pool.items, clampDrawAmount(pool, action.amount ?? 1), rng.random);
+            if (drawn.length === 0) return { state: { ...state, rng: rng.state() }, logs: [`${prefix}: ${pool.name} 是空的。`] };
+            const { newCards, inventoryIds } = resolvePrizeCards(drawn, state.cardPool);
+            return {
+                state: {
+                    ...withChar({ ...char, inventory: [...char.inventory, ...inventoryIds] }),
+                    rng: rng.state(),
+                    cardPool: [...state.cardPool, ...newCards],
+                    prizePools: { ...state.prizePools, [pool.id]: { ...pool, items: remaining } }
+                },
+                logs: [`${prefix}: ${char.name} 从 [${pool.name}] 中获得了 ${drawn.map(i => `[${i.name}]`).join(", ")}`],
+                events: [{ event: 'lottery_draw', payload: { charId: char.id, poolId: pool.id, cardName: drawn.map(i => i.name).join(", ") } }]
+            };
+        }
+        case 'set_variable': {
+            const key = text(action.targetName).trim();
+            if (!key) return skip("未指定变量名");
+            const value = text(action.value);
+            const vars = state.appSettings.globalVariables || [];
+            const nextVars = vars.some(v => v.key === key)
+                ? vars.map(v => v.key === key ? { ...v, value } : v)
+                : [...vars, { id: `var_${Date.now()}`, key, value }];
+            return {
+                state: { ...state, appSettings: { ...state.appSettings, globalVariables: nextVars } },
+                logs: [`${prefix}: 变量 {{${key}}} = ${value}`]
+            };
+        }
+        default:
+            return skip("未知动作类型");
+    }
+};
@@ -1,6 +1,10 @@
 
-import { Trigger, TriggerCondition, GameState, TriggerPhase, Character, Card, LogEntry } from "../types";
-import { replaceGlobalVariables } from "./ai/promptUtils";
+import { Trigger, TriggerCondition, TriggerConditionGroup, TriggerConditionNode, ConditionOperator, GameState, TriggerPhase, TriggerEvent, TriggerEventPayload, TriggerRuntimeState, Character, Card, LogEntry, RelationshipField } from "../types";
+import { advanceWorldTime, parseWorldTime } from "./timeUtils";
+import { forkRandomSource } from "./randomUtils";
+import { dispatchTriggerActions, replaceTriggerMacros } from "./triggerActionUtils";
+import { evaluateExpression, isExpression } from "./expressionUtils";
+import { getRelationship } from "./relationshipUtils";
 
 // Local Helper: Get Global Memory (Extracted from aiService to avoid circular dependency)
 // Updated to accept tokenLimit for consistent truncation
@@ -17,7 +21,7 @@ const getGlobalMemory = (history: LogEntry[], currentRound: number, roundsToKeep
 };
 
 // Helper: Compare logic with enhanced type safety for number-strings
-const compare = (val1: any, op: string, val2: any): boolean => {
+export const compare = (val1: any, op: string, val2: any): boolean => {
     // Attempt to convert both to numbers first
     const n1 = Number(val1);
     const n2 = Number(val2);
@@ -69,240 +73,515 @@ const getAttrValue = (char: Character, key: string) => {
     return undefined;
 };
 
-export interface TriggerResult {
-    promptSuffix: string;
-    logs: string[];
+// Helper: Characters selected by a condition ('current' / 'target' resolve to a single character)
+const resolveConditionTargets = (cond: TriggerCondition, gameState: GameState, contextCharId?: string, payload?: TriggerEventPayload): Character[] => {
+    if (cond.characterId === 'current' || cond.characterId === 'target') {
+        // Dynamic Context Resolution
+        const targetId = cond.characterId === 'target' ? payload?.targetId : (contextCharId || gameState.round.activeCharId);
+        return targetId && gameState.characters[targetId] ? [gameState.characters[targetId]] : [];
+    }
+
+    // Standard Selection
+    let targets: Character[];
+    if (cond.locationId === 'all' || !cond.locationId) {
+        targets = Object.values(gameState.characters);
+    } else {
+        targets = Object.values(gameState.characters).filter(c => 
+            gameState.map.charPositions[c.id]?.locationId === cond.locationId
+        );
+    }
+    if (cond.characterId && cond.characterId !== 'all') {
+        targets = targets.filter(c => c.id === cond.characterId);
+    }
+    return targets;
+};
+
+// Helper: Other side of a relationship condition: 'current', 'target', a character ID, or anyone (empty / 'all')
+const resolveRelationshipOthers = (cond: TriggerCondition, gameState: GameState, contextCharId?: string, payload?: TriggerEventPayload): Character[] => {
+    const ref = cond.otherCharacterId;
+    if (!ref || ref === 'all') return Object.values(gameState.characters);
+    const id = ref === 'current' ? (contextCharId || gameState.round.activeCharId) : ref === 'target' ? payload?.targetId : ref;
+    return id && gameState.characters[id] ? [gameState.characters[id]] : [];
+};
+
+// Helper: Tag checks. exists / not_exists without a value test for any tag at all.
+const matchRelationshipTags = (tags: string[], comparator: string, value: any): string | null => {
+    const search = value === undefined || value === null ? "" : String(value);
+    const hit = comparator === 'contains'
+        ? tags.find(t => t.includes(search))
+        : search ? tags.find(t => t === search) : tags[0];
+    if (comparator === 'not_exists') return hit === undefined ? "None" : null;
+    return hit ?? null;
+};
+
+// Helper: Threshold of a condition. "= ..." values are expressions evaluated with `self` = the checked character;
+// dice use a fork of the game RNG. A failing expression yields null (condition not met).
+const resolveConditionValue = (cond: TriggerCondition, gameState: GameState, self?: Character, payload?: TriggerEventPayload): any => {
+    if (!isExpression(cond.value)) return cond.value;
+    try {
+        const target = payload?.targetId ? gameState.characters[payload.targetId] : undefined;
+        const salt = `expr:${cond.id}:${gameState.round.roundNumber}:${gameState.round.turnIndex}:${self?.id || ""}`;
+        return evaluateExpression(cond.value, { gameState, self, target, random: forkRandomSource(gameState.rng, salt).random });
+    } catch (e) {
+        return null;
+    }
+};
+
+export interface ConditionResult {
+    isMet: boolean;
+    actualValue: any; // The value found in game state (used by {{condition N}})
+    threshold?: any; // Compared value after expression evaluation (null = expression failed)
+    observed?: any; // Value read from game state, also when not met (world / event conditions)
+    targets?: { id: string, name: string, value?: any }[]; // Characters checked by character conditions
 }
 
-export const evaluateTriggers = (
-    gameState: GameState, 
-    phase: TriggerPhase,
-    onTriggerUpdate?: (id: string, updates: Partial<Trigger>) => void,
-    contextCharId?: string
-): TriggerResult => {
-    const allTriggers = Object.values(gameState.triggers || {});
+// Evaluates a single leaf condition.
+const evaluateCondition = (
+    cond: TriggerCondition,
+    gameState: GameState,
+    contextCharId?: string,
+    payload?: TriggerEventPayload
+): ConditionResult => {
+    let isMet = false;
+    let actualValue: any = null; // The value found in game state
+    let threshold: any = cond.value;
+    let observed: any;
+    let checked: ConditionResult['targets'];
 
-    // 1. Filter by Phase & Enabled
-    const relevantTriggers = allTriggers.filter(t => t.enabled && t.phase === phase);
+    const contextChar = gameState.characters[contextCharId || gameState.round.activeCharId || ""];
 
-    // 2. Evaluate Conditions
-    const passedTriggers: { trigger: Trigger, values: Record<string, any> }[] = [];
+    // --- Condition Evaluation Logic ---
+    switch (cond.type) {
+        case 'char_attr': {
+            const targets = resolveConditionTargets(cond, gameState, contextCharId, payload);
 
-    relevantTriggers.forEach(trigger => {
-        let allConditionsMet = true;
-        const conditionValues: Record<string, any> = {}; // Store actual values for macros {{condition N}}
+            checked = targets.map(c => ({ id: c.id, name: c.name, value: getAttrValue(c, cond.targetName || "") }));
 
-        // If no conditions, it's always met
-        if (trigger.conditions.length === 0) {
-             passedTriggers.push({ trigger, values: {} });
-             return;
+            // Check Logic
+            for (const char of targets) {
+                const val = getAttrValue(char, cond.targetName || "");
+                threshold = resolveConditionValue(cond, gameState, char, payload);
+                if (val !== undefined && threshold !== null && compare(val, cond.comparator as string, threshold)) {
+                    isMet = true;
+                    actualValue = val;
+                    break; 
+                }
+            }
+            break;
         }
+        case 'char_card': {
+            const targets = resolveConditionTargets(cond, gameState, contextCharId, payload);
+            checked = targets.map(c => ({ id: c.id, name: c.name }));
 
-        for (let i = 0; i < trigger.conditions.length; i++) {
-            const cond = trigger.conditions[i];
-            let isMet = false;
-            let actualValue: any = null; // The value found in game state
-
-            // --- Condition Evaluation Logic ---
-            switch (cond.type) {
-                case 'char_attr': {
-                    // Target Resolution
-                    let targets: Character[] = [];
-                    
-                    if (cond.characterId === 'current') {
-                        // Dynamic Context Resolution
-                        const targetId = contextCharId || gameState.round.activeCharId;
-                        if (targetId && gameState.characters[targetId]) {
-                            targets = [gameState.characters[targetId]];
-                        }
-                    } else {
-                        // Standard Selection
-                        if (cond.locationId === 'all' || !cond.locationId) {
-                            targets = Object.values(gameState.characters);
-                        } else {
-                            targets = Object.values(gameState.characters).filter(c => 
-                                gameState.map.charPositions[c.id]?.locationId === cond.locationId
-                            );
-                        }
-                        
-                        if (cond.characterId && cond.characterId !== 'all') {
-                            targets = targets.filter(c => c.id === cond.characterId);
-                        }
-                    }
+            const searchName = (cond.targetName || "").toLowerCase();
 
-                    // Check Logic
-                    for (const char of targets) {
-                        const val = getAttrValue(char, cond.targetName || "");
-                        if (val !== undefined && compare(val, cond.comparator as string, cond.value)) {
-                            isMet = true;
-                            actualValue = val;
-                            break; 
-                        }
-                    }
-                    break;
-                }
-                case 'char_card': {
-                    let targets: Character[] = [];
-                    
-                    if (cond.characterId === 'current') {
-                        const targetId = contextCharId || gameState.round.activeCharId;
-                        if (targetId && gameState.characters[targetId]) {
-                            targets = [gameState.characters[targetId]];
-                        }
-                    } else {
-                        if (cond.locationId === 'all' || !cond.locationId) targets = Object.values(gameState.characters);
-                        else targets = Object.values(gameState.characters).filter(c => gameState.map.charPositions[c.id]?.locationId === cond.locationId);
-                        
-                        if (cond.characterId && cond.characterId !== 'all') targets = targets.filter(c => c.id === cond.characterId);
-                    }
+            for (const char of targets) {
+                // Combine Inventory & Skills
+                const allCards = [
+                    ...char.skills,
+                    ...char.inventory.map(id => gameState.cardPool.find(c => c.id === id)).filter(Boolean) as Card[]
+                ];
+                
+                const found = allCards.find(c => {
+                    const cName = c.name.toLowerCase();
+                    if (cond.comparator === 'exact') return cName === searchName;
+                    return cName.includes(searchName);
+                });
 
-                    const searchName = (cond.targetName || "").toLowerCase();
-
-                    for (const char of targets) {
-                        // Combine Inventory & Skills
-                        const allCards = [
-                            ...char.skills,
-                            ...char.inventory.map(id => gameState.cardPool.find(c => c.id === id)).filter(Boolean) as Card[]
-                        ];
-                        
-                        const found = allCards.find(c => {
-                            const cName = c.name.toLowerCase();
-                            if (cond.comparator === 'exact') return cName === searchName;
-                            return cName.includes(searchName);
-                        });
-
-                        // Standard exists check
-                        if (['exists', 'contains', 'exact'].includes(cond.comparator)) {
-                            if (found) { isMet = true; actualValue = found.name; break; }
-                        }
-                    }
-                    
-                    // Special handling for 'not_exists': check if NO ONE has it
-                    if (cond.comparator === 'not_exists') {
-                        const anyFound = targets.some(char => {
-                             const allCards = [...char.skills, ...char.inventory.map(id => gameState.cardPool.find(c => c.id === id)).filter(Boolean) as Card[]];
-                             return allCards.some(c => {
-                                 const cName = c.name.toLowerCase();
-                                 return cName.includes(searchName);
-                             });
-                        });
-                        if (!anyFound) { isMet = true; actualValue = "None"; }
-                        else { isMet = false; }
-                    }
-                    break;
+                // Standard exists check
+                if (['exists', 'contains', 'exact'].includes(cond.comparator)) {
+                    if (found) { isMet = true; actualValue = found.name; break; }
                 }
-                case 'world_time': {
-                    const timeAttr = gameState.world.attributes['worldTime'];
-                    if (timeAttr) {
-                        const curVal = String(timeAttr.value);
-                        const targetVal = String(cond.value || "");
-                        if (compare(curVal, cond.comparator as string, targetVal)) {
-                            isMet = true;
-                            actualValue = curVal;
-                        }
-                    }
-                    break;
+            }
+            
+            // Special handling for 'not_exists': check if NO ONE has it
+            if (cond.comparator === 'not_exists') {
+                const anyFound = targets.some(char => {
+                     const allCards = [...char.skills, ...char.inventory.map(id => gameState.cardPool.find(c => c.id === id)).filter(Boolean) as Card[]];
+                     return allCards.some(c => {
+                         const cName = c.name.toLowerCase();
+                         return cName.includes(searchName);
+                     });
+                });
+                if (!anyFound) { isMet = true; actualValue = "None"; }
+                else { isMet = false; }
+            }
+            break;
+        }
+        case 'world_time': {
+            const timeAttr = gameState.world.attributes['worldTime'];
+            if (timeAttr) {
+                const curVal = String(timeAttr.value);
+                observed = curVal;
+                threshold = resolveConditionValue(cond, gameState, contextChar, payload);
+                if (threshold !== null && compare(curVal, cond.comparator as string, String(threshold || ""))) {
+                    isMet = true;
+                    actualValue = curVal;
+                }
+            }
+            break;
+        }
+        case 'world_attr': {
+            const attr = gameState.world.attributes[cond.targetName || ""];
+            observed = attr?.value;
+            threshold = resolveConditionValue(cond, gameState, contextChar, payload);
+            if (attr && threshold !== null) {
+                if (compare(attr.value, cond.comparator as string, threshold)) {
+                    isMet = true;
+                    actualValue = attr.value;
                 }
-                case 'world_attr': {
-                    const attr = gameState.world.attributes[cond.targetName || ""];
-                    if (attr) {
-                        if (compare(attr.value, cond.comparator as string, cond.value)) {
+            }
+            break;
+        }
+        case 'char_name': {
+            const exists = Object.values(gameState.characters).some(c => c.name === cond.targetName);
+            if (cond.comparator === 'exists' && exists) { isMet = true; actualValue = cond.targetName; }
+            if (cond.comparator === 'not_exists' && !exists) { isMet = true; actualValue = "None"; }
+            break;
+        }
+        case 'loc_name': {
+            const exists = Object.values(gameState.map.locations).some(l => l.name === cond.targetName);
+            if (cond.comparator === 'exists' && exists) { isMet = true; actualValue = cond.targetName; }
+            if (cond.comparator === 'not_exists' && !exists) { isMet = true; actualValue = "None"; }
+            break;
+        }
+        case 'region_name': {
+            const exists = Object.values(gameState.map.regions).some(r => r.name === cond.targetName);
+            if (cond.comparator === 'exists' && exists) { isMet = true; actualValue = cond.targetName; }
+            if (cond.comparator === 'not_exists' && !exists) { isMet = true; actualValue = "None"; }
+            break;
+        }
+        case 'history': {
+            // Get recent history text
+            const rounds = cond.historyRounds || 5;
+            const currentRound = gameState.round.roundNumber;
+            // FIX: Pass maxInputTokens from settings to respect memory limits
+            const historyText = getGlobalMemory(gameState.world.history, currentRound, rounds, gameState.appSettings.maxInputTokens);
+            const search = (cond.value || "").toString();
+            const found = historyText.includes(search);
+            
+            if (cond.comparator === 'contains' && found) { isMet = true; actualValue = search; }
+            if (cond.comparator === 'not_exists' && !found) { isMet = true; actualValue = "None"; }
+            break;
+        }
+        case 'relationship': {
+            // How a checked character feels about another: affinity / trust (numbers) or tags
+            const sources = resolveConditionTargets(cond, gameState, contextCharId, payload);
+            const others = resolveRelationshipOthers(cond, gameState, contextCharId, payload);
+            const field: RelationshipField = cond.targetName === 'trust' || cond.targetName === 'tags' ? cond.targetName : 'affinity';
+            checked = [];
+
+            for (const from of sources) {
+                for (const to of others) {
+                    if (from.id === to.id) continue;
+                    const rel = getRelationship(gameState.relationships, from.id, to.id);
+                    const val = field === 'tags' ? rel.tags.join('/') : rel[field];
+                    checked.push({ id: from.id, name: `${from.name}→${to.name}`, value: val });
+                    if (isMet) continue;
+
+                    if (field === 'tags') {
+                        const hit = matchRelationshipTags(rel.tags, cond.comparator, cond.value);
+                        if (hit !== null) { isMet = true; actualValue = hit; }
+                    } else {
+                        threshold = resolveConditionValue(cond, gameState, from, payload);
+                        if (threshold !== null && compare(val, cond.comparator as string, threshold)) {
                             isMet = true;
-                            actualValue = attr.value;
+                            actualValue = val;
                         }
                     }
-                    break;
-                }
-                case 'char_name': {
-                    const exists = Object.values(gameState.characters).some(c => c.name === cond.targetName);
-                    if (cond.comparator === 'exists' && exists) { isMet = true; actualValue = cond.targetName; }
-                    if (cond.comparator === 'not_exists' && !exists) { isMet = true; actualValue = "None"; }
-                    break;
-                }
-                case 'loc_name': {
-                    const exists = Object.values(gameState.map.locations).some(l => l.name === cond.targetName);
-                    if (cond.comparator === 'exists' && exists) { isMet = true; actualValue = cond.targetName; }
-                    if (cond.comparator === 'not_exists' && !exists) { isMet = true; actualValue = "None"; }
-                    break;
-                }
-                case 'region_name': {
-                    const exists = Object.values(gameState.map.regions).some(r => r.name === cond.targetName);
-                    if (cond.comparator === 'exists' && exists) { isMet = true; actualValue = cond.targetName; }
-                    if (cond.comparator === 'not_exists' && !exists) { isMet = true; actualValue = "None"; }
-                    break;
-                }
-                case 'history': {
-                    // Get recent history text
-                    const rounds = cond.historyRounds || 5;
-                    const currentRound = gameState.round.roundNumber;
-                    // FIX: Pass maxInputTokens from settings to respect memory limits
-                    const historyText = getGlobalMemory(gameState.world.history, currentRound, rounds, gameState.appSettings.maxInputTokens);
-                    const search = (cond.value || "").toString();
-                    const found = historyText.includes(search);
-                    
-                    if (cond.comparator === 'contains' && found) { isMet = true; actualValue = search; }
-                    if (cond.comparator === 'not_exists' && !found) { isMet = true; actualValue = "None"; }
-                    break;
                 }
             }
-
-            if (!isMet) {
-                allConditionsMet = false;
-                break;
-            } else {
-                // Store value for Macro: {{condition 1}}, {{condition 2}}... (1-based index)
-                conditionValues[`condition ${i + 1}`] = actualValue;
-            }
+            break;
         }
-
-        if (allConditionsMet) {
-            passedTriggers.push({ trigger, values: conditionValues });
-            
-            // Handle Auto-Disable Logic
-            if (trigger.maxTriggers !== undefined && trigger.maxTriggers > -1) {
-                const newVal = Math.max(0, trigger.maxTriggers - 1);
-                const updates: Partial<Trigger> = { maxTriggers: newVal };
-                
-                if (newVal === 0) {
-                    updates.enabled = false;
-                }
-                
-                if (onTriggerUpdate) {
-                    onTriggerUpdate(trigger.id, updates);
-                }
+        case 'event': {
+            // Field of the event payload (never met outside event triggers)
+            const val = payload ? (payload as Record<string, any>)[cond.targetName || ""] : undefined;
+            observed = val;
+            threshold = resolveConditionValue(cond, gameState, contextChar, payload);
+            if (payload && threshold !== null && compare(val ?? "", cond.comparator as string, threshold)) {
+                isMet = true;
+                actualValue = val ?? "";
             }
+            break;
         }
+    }
+
+    return { isMet, actualValue, threshold, observed, targets: checked };
+};
+
+// --- Condition Trees ---
+
+export const isConditionGroup = (node: TriggerConditionNode): node is TriggerConditionGroup => {
+    return (node as TriggerConditionGroup).kind === 'group';
+};
+
+export const createConditionGroup = (operator: ConditionOperator = 'and', children: TriggerConditionNode[] = []): TriggerConditionGroup => ({
+    id: `group_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    kind: 'group',
+    operator,
+    children
+});
+
+// Root group of a trigger; legacy flat lists read as a single AND group
+export const getConditionTree = (trigger: Trigger): TriggerConditionGroup => {
+    return trigger.conditionTree || { id: `group_root_${trigger.id}`, kind: 'group', operator: 'and', children: trigger.conditions || [] };
+};
+
+// Save migration: moves the flat list into an AND root group (no-op for migrated triggers)
+export const migrateTriggerConditions = (trigger: Trigger): Trigger => {
+    if (trigger.conditionTree) return trigger;
+    return { ...trigger, conditionTree: getConditionTree(trigger), conditions: [] };
+};
+
+// Leaves in depth-first order; position + 1 is the N of {{condition N}}
+export const flattenConditions = (node: TriggerConditionNode): TriggerCondition[] => {
+    if (!isConditionGroup(node)) return [node];
+    return node.children.flatMap(flattenConditions);
+};
+
+export const updateConditionNode = (root: TriggerConditionGroup, id: string, updater: (node: TriggerConditionNode) => TriggerConditionNode): TriggerConditionGroup => {
+    const visit = (node: TriggerConditionNode): TriggerConditionNode => {
+        if (node.id === id) return updater(node);
+        if (!isConditionGroup(node)) return node;
+        return { ...node, children: node.children.map(visit) };
+    };
+    return visit(root) as TriggerConditionGroup;
+};
+
+export const removeConditionNode = (root: TriggerConditionGroup, id: string): TriggerConditionGroup => {
+    const visit = (group: TriggerConditionGroup): TriggerConditionGroup => ({
+        ...group,
+        children: group.children
+            .filter(child => child.id !== id)
+            .map(child => isConditionGroup(child) ? visit(child) : child)
     });
+    return visit(root);
+};
 
-    // 3. Construct Result
-    let combinedPrompt = "";
-    const combinedLogs: string[] = [];
+// Evaluates the whole tree without short-circuiting, so every leaf gets its macro value.
+// Empty groups are true (an empty NOT is false).
+const evaluateConditionTree = (
+    root: TriggerConditionGroup,
+    gameState: GameState,
+    contextCharId?: string,
+    payload?: TriggerEventPayload,
+    trace?: TriggerConditionTrace[]
+): { isMet: boolean, values: Record<string, any> } => {
+    const values: Record<string, any> = {};
+    let leafIndex = 0;
 
-    passedTriggers.forEach(({ trigger, values }) => {
-        // Macro Replacement Helper using shared util
-        const replaceMacros = (text: string): string => {
-            let result = text;
-            
-            // 1. Trigger Conditions (Local scope)
-            Object.entries(values).forEach(([key, val]) => {
-                // Replace {{condition N}}
-                result = result.split(`{{${key}}}`).join(String(val));
-            });
+    const visit = (node: TriggerConditionNode): boolean => {
+        if (!isConditionGroup(node)) {
+            const result = evaluateCondition(node, gameState, contextCharId, payload);
+            leafIndex++;
+            // Store value for Macro: {{condition 1}}, {{condition 2}}... (1-based, depth-first)
+            values[`condition ${leafIndex}`] = result.isMet ? result.actualValue : "";
+            trace?.push({ ...result, index: leafIndex, condition: node });
+            return result.isMet;
+        }
+        const results = node.children.map(visit);
+        switch (node.operator) {
+            case 'or': return results.length === 0 || results.some(r => r);
+            case 'not': return !results.every(r => r);
+            default: return results.every(r => r);
+        }
+    };
+
+    return { isMet: visit(root), values };
+};
+
+// --- Cooldowns, Schedules & Counters ---
+
+// Counter key the trigger's limits apply to: 'global', the context character, or that character's location
+export const getTriggerCounterKey = (trigger: Trigger, gameState: GameState, contextCharId?: string, payload?: TriggerEventPayload): string => {
+    const charId = contextCharId || gameState.round.activeCharId;
+    switch (trigger.counterScope) {
+        case 'character':
+            return charId || 'global';
+        case 'location':
+            return payload?.locationId || (charId && gameState.map.charPositions[charId]?.locationId) || gameState.map.activeLocationId || 'global';
+        default:
+            return 'global';
+    }
+};
+
+// Scoped fire limit, cooldown and schedule gates (conditions and probability are checked separately)
+export const isTriggerReady = (trigger: Trigger, gameState: GameState, counterKey: string): boolean => {
+    const last = trigger.runtime?.lastFired[counterKey];
+    const round = gameState.round.roundNumber;
+    // World times are compared as timestamps: "2077:5:1" and "2077:05:01" are the same moment
+    const now = parseWorldTime(String(gameState.world.attributes['worldTime']?.value ?? ""));
+
+    const isScoped = (trigger.counterScope || 'global') !== 'global';
+    if (isScoped && trigger.maxTriggers !== undefined && trigger.maxTriggers > -1 && (trigger.runtime?.fireCounts[counterKey] || 0) >= trigger.maxTriggers) {
+        return false;
+    }
+
+    if (trigger.cooldown && trigger.cooldown.amount > 0 && last) {
+        if (trigger.cooldown.unit === 'rounds') {
+            if (round - last.round < trigger.cooldown.amount) return false;
+        } else if (last.time && now !== null) {
+            const readyAt = parseWorldTime(advanceWorldTime(last.time, trigger.cooldown.amount));
+            if (readyAt !== null && readyAt > now) return false;
+        }
+    }
+
+    const everyRounds = trigger.schedule?.everyRounds || 0;
+    if (everyRounds > 0 && (round % everyRounds !== 0 || last?.round === round)) return false;
+
+    const atTime = trigger.schedule?.atTime;
+    if (atTime) {
+        const target = parseWorldTime(atTime);
+        const lastTime = last?.time ? parseWorldTime(last.time) : null;
+        if (target === null || now === null || now < target || (lastTime !== null && lastTime >= target)) return false;
+    }
+
+    return true;
+};
+
+export const recordTriggerFire = (runtime: TriggerRuntimeState | undefined, counterKey: string, gameState: GameState): TriggerRuntimeState => {
+    const time = gameState.world.attributes['worldTime']?.value;
+    return {
+        fireCounts: { ...(runtime?.fireCounts || {}), [counterKey]: (runtime?.fireCounts[counterKey] || 0) + 1 },
+        lastFired: { ...(runtime?.lastFired || {}), [counterKey]: { round: gameState.round.roundNumber, time: time !== undefined ? String(time) : undefined } }
+    };
+};
+
+// Helper: Probability roll from a fork of the game RNG, so record/replay stays deterministic
+const rollTriggerChance = (trigger: Trigger, gameState: GameState, hook: string, counterKey: string): boolean => {
+    const probability = trigger.probability ?? 1;
+    if (probability >= 1) return true;
+    if (probability <= 0) return false;
+    const salt = `trigger:${trigger.id}:${hook}:${gameState.round.roundNumber}:${gameState.round.turnIndex}:${counterKey}:${trigger.runtime?.fireCounts[counterKey] || 0}`;
+    return forkRandomSource(gameState.rng, salt).random() < probability;
+};
+
+export interface TriggerResult {
+    promptSuffix: string;
+    logs: string[];
+}
+
+// Helper: A 'world_time' trigger with a threshold only fires on the advance that crosses it
+const crossesTimeThreshold = (trigger: Trigger, payload?: TriggerEventPayload): boolean => {
+    if (!trigger.timeThreshold) return true;
+    const before = String(payload?.oldValue ?? "");
+    const after = String(payload?.newValue ?? "");
+    return compare(before, '<', trigger.timeThreshold) && compare(after, '>=', trigger.timeThreshold);
+};
+
+// Helper: {{event.<field>}} macros, plus resolved character names
+const getEventMacroValues = (gameState: GameState, payload: TriggerEventPayload): Record<string, any> => {
+    const values: Record<string, any> = {};
+    Object.entries(payload).forEach(([key, val]) => { values[`event.${key}`] = val ?? ""; });
+    values['event.charName'] = payload.charId ? gameState.characters[payload.charId]?.name || "" : "";
+    values['event.targetName'] = payload.targetId ? gameState.characters[payload.targetId]?.name || "" : "";
+    return values;
+};
+
+// --- Evaluation ---
+
+// Dry-run details of one leaf condition; `index` is its {{condition N}} number
+export interface TriggerConditionTrace extends ConditionResult {
+    index: number;
+    condition: TriggerCondition;
+}
+
+// Where a trigger stopped: disabled, world-time threshold not crossed, limits/cooldown/schedule,
+// conditions, probability roll, or it fired
+export type TriggerTraceStatus = 'disabled' | 'time_threshold' | 'not_ready' | 'conditions' | 'chance' | 'fired';
+
+export interface TriggerTrace {
+    trigger: Trigger;
+    counterKey: string;
+    status: TriggerTraceStatus;
+    conditions: TriggerConditionTrace[];
+    values: Record<string, any>; // Macro values ({{condition N}}, {{event.x}})
+    urgentRequirement?: string; // Macro-expanded, only when fired
+    systemLog?: string; // Macro-expanded, only when fired
+}
+
+export interface TriggerDryRunResult extends TriggerResult {
+    traces: TriggerTrace[];
+}
+
+interface FiredTrigger {
+    trigger: Trigger;
+    values: Record<string, any>;
+    updates: Partial<Trigger>;
+}
+
+// Shared by evaluateTriggers and dryRunTriggers. Changes nothing: returns the triggers that fire with the
+// updates firing causes. With `traces`, every trigger of the phase is traced (including disabled ones).
+const collectFiredTriggers = (
+    gameState: GameState,
+    phase: TriggerPhase | TriggerEvent,
+    contextCharId?: string,
+    payload?: TriggerEventPayload,
+    traces?: TriggerTrace[]
+): FiredTrigger[] => {
+    const fired: FiredTrigger[] = [];
 
-            // 2. Global Variables (Global scope) via Shared Util
-            result = replaceGlobalVariables(result, gameState.appSettings);
+    // 1. Filter by Phase
+    const phaseTriggers = Object.values(gameState.triggers || {}).filter(t => t.phase === phase);
 
-            return result;
+    phaseTriggers.forEach(trigger => {
+        const counterKey = getTriggerCounterKey(trigger, gameState, contextCharId, payload);
+        const conditions: TriggerConditionTrace[] = [];
+        const trace = (status: TriggerTraceStatus, values: Record<string, any> = {}) => {
+            traces?.push({ trigger, counterKey, status, conditions, values });
         };
 
-        if (trigger.urgentRequirement) {
-            const req = replaceMacros(trigger.urgentRequirement);
-            combinedPrompt += `\n[紧急需求 / URGENT (Trigger: ${trigger.name})]: ${req}`;
+        if (!trigger.enabled) return trace('disabled');
+        if (phase === 'world_time' && !crossesTimeThreshold(trigger, payload)) return trace('time_threshold');
+        if (!isTriggerReady(trigger, gameState, counterKey)) return trace('not_ready');
+
+        // 2. Evaluate Conditions
+        const { isMet, values: conditionValues } = evaluateConditionTree(getConditionTree(trigger), gameState, contextCharId, payload, traces ? conditions : undefined);
+        const values = payload ? { ...getEventMacroValues(gameState, payload), ...conditionValues } : conditionValues;
+        if (!isMet) return trace('conditions', values);
+        if (!rollTriggerChance(trigger, gameState, phase, counterKey)) return trace('chance', values);
+        trace('fired', values);
+
+        const updates: Partial<Trigger> = { runtime: recordTriggerFire(trigger.runtime, counterKey, gameState) };
+
+        // Handle Auto-Disable Logic (global counter only; scoped counters are limited in isTriggerReady)
+        if ((trigger.counterScope || 'global') === 'global' && trigger.maxTriggers !== undefined && trigger.maxTriggers > -1) {
+            const newVal = Math.max(0, trigger.maxTriggers - 1);
+            updates.maxTriggers = newVal;
+            updates.maxTriggersInitial = trigger.maxTriggersInitial ?? trigger.maxTriggers;
+            
+            if (newVal === 0) {
+                updates.enabled = false;
+            }
         }
 
-        if (trigger.systemLog) {
-            const log = replaceMacros(trigger.systemLog);
-            combinedLogs.push(log);
+        fired.push({ trigger, values, updates });
+    });
+
+    return fired;
+};
+
+// Helper: Macro Replacement: {{condition N}} (local scope), then Global Variables
+const expandTriggerText = (fired: FiredTrigger, gameState: GameState) => {
+    const replaceMacros = (text: string): string => replaceTriggerMacros(text, fired.values, gameState.appSettings);
+    return {
+        urgentRequirement: fired.trigger.urgentRequirement ? replaceMacros(fired.trigger.urgentRequirement) : undefined,
+        systemLog: fired.trigger.systemLog ? replaceMacros(fired.trigger.systemLog) : undefined
+    };
+};
+
+// Helper: Combined prompt suffix and log lines of the fired triggers
+const buildTriggerResult = (fired: FiredTrigger[], gameState: GameState): TriggerResult => {
+    let combinedPrompt = "";
+    const combinedLogs: string[] = [];
+
+    fired.forEach(f => {
+        const { urgentRequirement, systemLog } = expandTriggerText(f, gameState);
+        if (urgentRequirement) {
+            combinedPrompt += `\n[紧急需求 / URGENT (Trigger: ${f.trigger.name})]: ${urgentRequirement}`;
+        }
+        if (systemLog) {
+            combinedLogs.push(systemLog);
         }
     });
 
@@ -311,3 +590,59 @@ export const evaluateTriggers = (
         logs: combinedLogs
     };
 };
+
+export const evaluateTriggers = (
+    gameState: GameState, 
+    phase: TriggerPhase | TriggerEvent,
+    onTriggerUpdate?: (id: string, updates: Partial<Trigger>) => void,
+    contextCharId?: string,
+    payload?: TriggerEventPayload
+): TriggerResult => {
+    const fired = collectFiredTriggers(gameState, phase, contextCharId, payload);
+
+    if (onTriggerUpdate) {
+        fired.forEach(f => onTriggerUpdate(f.trigger.id, f.updates));
+    }
+
+    const result = buildTriggerResult(fired, gameState);
+
+    // State-changing actions are applied by the engine (useTriggerActions)
+    fired.forEach(({ trigger, values }) => {
+        if (trigger.actions && trigger.actions.length > 0) {
+            dispatchTriggerActions({ triggerId: trigger.id, triggerName: trigger.name, actions: trigger.actions, contextCharId, values });
+        }
+    });
+
+    return result;
+};
+
+/**
+ * Debugger: evaluates a phase exactly like evaluateTriggers, but consumes nothing (maxTriggers, cooldowns,
+ * counters), writes no logs and dispatches no actions. Returns the would-be result and a trace per trigger.
+ */
+export const dryRunTriggers = (
+    gameState: GameState,
+    phase: TriggerPhase | TriggerEvent,
+    contextCharId?: string,
+    payload?: TriggerEventPayload
+): TriggerDryRunResult => {
+    const traces: TriggerTrace[] = [];
+    const fired = collectFiredTriggers(gameState, phase, contextCharId, payload, traces);
+
+    fired.forEach(f => {
+        const trace = traces.find(t => t.trigger.id === f.trigger.id);
+        if (trace) Object.assign(trace, expandTriggerText(f, gameState));
+    });
+
+    return { ...buildTriggerResult(fired, gameState), traces };
+};
+
+// Event-bound triggers: `current` is the payload's charId. Only systemLog and actions apply (no prompt is being built).
+export const evaluateTriggerEvent = (
+    gameState: GameState,
+    event: TriggerEvent,
+    payload: TriggerEventPayload,
+    onTriggerUpdate?: (id: string, updates: Partial<Trigger>) => void
+): TriggerResult => {
+    return evaluateTriggers(gameState, event, onTriggerUpdate, payload.charId, payload);
+};
@@ -16,6 +16,7 @@ export enum Provider {
   OPENROUTER = 'openrouter', // OpenRouter
   OPENAI = 'openai',
   CLAUDE = 'claude',
+  CUSTOM = 'custom', // User-defined OpenAI-compatible endpoint (llama.cpp / vLLM / Ollama ...)
 }
 
 export enum TerrainType {
@@ -26,6 +27,18 @@ export enum TerrainType {
     TOWN = 'Town',   // 村镇
 }
 
+// Climate-driven ground cover, independent of TerrainType (a town or river still sits in a biome)
+export enum BiomeType {
+    OCEAN = 'Ocean',                // 海洋/湖泊
+    BEACH = 'Beach',                // 海滩
+    GRASSLAND = 'Grassland',        // 草原
+    FOREST = 'Forest',              // 森林
+    DESERT = 'Desert',              // 沙漠
+    SWAMP = 'Swamp',                // 沼泽
+    TUNDRA = 'Tundra',              // 冻原
+    SNOW_MOUNTAIN = 'SnowMountain', // 雪山
+}
+
 export interface GlobalContextMessage {
     role: 'user' | 'model' | 'system'; 
     content: string;
@@ -47,6 +60,87 @@ export interface AIConfig {
   maxOutputTokens?: number;
   reasoningEffort?: ReasoningEffort; // New: Thinking Level
   contextConfig?: GlobalContextConfig; // New: Model specific context
+  baseUrl?: string; // New: Base URL for Provider.CUSTOM (e.g. http://localhost:11434/v1)
+  customHeaders?: Record<string, string>; // New: Extra HTTP headers for Provider.CUSTOM
+  fallbacks?: AIFallbackTarget[]; // New: Ordered fallback chain, tried when this provider keeps failing
+  retryPolicy?: AIRetryPolicy; // New: Per-config retry / backoff / timeout
+}
+
+// --- Token Usage & Cost Accounting ---
+
+export type AIFeature = 'actionAI' | 'logicAI' | 'worldAI' | 'mailAI' | 'narrativeAI' | 'characterAI' | 'chronicleAI' | 'memoryAI';
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number; // Includes reasoning tokens
+  reasoningTokens?: number;
+  totalTokens: number;
+}
+
+export interface AIUsageContext {
+  feature: AIFeature;
+  characterId?: string; // Omitted for system-level calls
+}
+
+export interface AIUsageRecord extends Partial<AIUsageContext> {
+  provider: Provider;
+  model: string;
+  usage: AIUsage;
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  cost: number; // USD
+}
+
+export interface UsageStats {
+  sessionStartedAt: number;
+  total: UsageTotals;
+  byCharacter: Record<string, UsageTotals>; // Key: charId or 'system'
+  byFeature: Record<string, UsageTotals>;
+  byRound: Record<number, UsageTotals>;
+  byModel: Record<string, UsageTotals>; // Key: provider/model
+  budgetExceeded?: boolean; // Set once the session budget has been hit (prevents repeated warnings)
+}
+
+export interface ModelCost {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+export interface UsageBudget {
+  enabled: boolean;
+  maxTokens?: number; // 0 / undefined = unlimited
+  maxCost?: number; // USD, 0 / undefined = unlimited
+  onExceed: 'warn' | 'pause';
+}
+
+export interface AIFallbackTarget {
+  provider: Provider;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  customHeaders?: Record<string, string>;
+}
+
+export interface AIRetryPolicy {
+  maxAttempts?: number; // Attempts per provider before moving to the next fallback
+  backoffBaseMs?: number; // Delay before 2nd attempt, doubled each time
+  backoffMaxMs?: number;
+  retryStatuses?: number[]; // HTTP statuses worth retrying (network errors / timeouts always are)
+  timeoutMs?: number; // Per-request timeout, 0 = none
+}
+
+// Scheduling: player-facing calls jump ahead of background generation
+export type AIRequestPriority = 'interactive' | 'normal' | 'background';
+
+export interface ProviderRateLimit {
+  maxConcurrent: number; // Requests in flight at once
+  requestsPerMinute: number; // 0 = unlimited
 }
 
 export interface ContextConfig {
@@ -109,6 +203,56 @@ export interface Conflict {
     apReward: number; // Action Points (Player) & CP (Character) rewarded when solved
     solved: boolean; 
     solvedTimestamp?: number; // When it was solved
+    factionId?: string; // Faction whose reputation changes when this conflict is solved
+    reputationReward?: number; // Reputation delta with factionId on solve (may be negative)
+}
+
+// --- QUEST TYPES ---
+// Multi-step goals kept per character next to conflicts. Checked during settlement.
+export type QuestStatus = 'locked' | 'active' | 'completed' | 'failed';
+
+// attr: owner's attribute vs value; card: owner holds a card; location: owner is at a location; ai: judged by the settlement AI
+export type QuestCriterionType = 'attr' | 'card' | 'location' | 'ai';
+
+export interface QuestCriterion {
+    type: QuestCriterionType;
+    targetName?: string; // Attribute name (attr) or card name / ID (card)
+    comparator?: Comparator; // attr only (default '>=')
+    value?: string | number; // attr threshold
+    locationId?: string; // location only
+    desc?: string; // ai: condition the judge checks against the story
+}
+
+export interface QuestObjective {
+    id: string;
+    desc: string;
+    criterion: QuestCriterion;
+    prerequisiteIds?: string[]; // Objectives of the same quest that must be completed first
+    completed: boolean;
+    completedRound?: number;
+}
+
+export interface QuestReward {
+    ap?: number; // Player action points
+    cp?: number; // Owner's CP
+    cardIds?: string[]; // Added to the owner's inventory
+    attributeChanges?: { name: string, delta: number }[];
+}
+
+export interface Quest {
+    id: string;
+    title: string;
+    desc: string;
+    giverId?: string; // Character who handed out the quest (also sees it in prompts)
+    status: QuestStatus;
+    objectives: QuestObjective[]; // All must be completed
+    prerequisiteQuestIds?: string[]; // 'locked' quests unlock once these are completed
+    failConditions?: QuestCriterion[]; // Any met -> failed
+    deadline?: string; // World time (YYYY:MM:DD:HH:MM:SS); failed once passed
+    rewards: QuestReward;
+    conflictId?: string; // Owner's conflict this quest resolves when completed
+    startedRound?: number;
+    endedRound?: number;
 }
 
 // --- IMAGE SYSTEM TYPES ---
@@ -175,6 +319,7 @@ export interface Character {
   inventory: string[]; // IDs of cards in the Inventory (Hand)
   drives: Drive[]; // Conditions to gain Pleasure
   conflicts: Conflict[]; // Conflicts specific to this character
+  quests?: Quest[]; // Multi-step quests owned by this character
   
   useAiOverride?: boolean; // New: If true, use aiConfig. If false, use global.
   aiConfig?: AIConfig; // Only for NPCs
@@ -224,7 +369,27 @@ export interface PrizePool {
 // --- TRIGGER SYSTEM TYPES ---
 export type TriggerPhase = keyof PromptsConfig;
 
-export type ConditionType = 'char_attr' | 'char_card' | 'world_time' | 'world_attr' | 'char_name' | 'loc_name' | 'region_name' | 'history';
+// Engine events a trigger can be bound to instead of a prompt phase
+export type TriggerEvent = 'round_start' | 'round_end' | 'enter_location' | 'leave_location' | 'card_used' | 'lottery_draw' | 'conflict_solved' | 'attribute_changed' | 'health_zero' | 'world_time' | 'quest_completed' | 'quest_failed';
+
+// Data carried by an engine event. 'current' resolves to charId and 'target' to targetId;
+// the 'event' condition type and {{event.<field>}} macros read the fields directly.
+export interface TriggerEventPayload {
+    charId?: string; // Acting / affected character
+    targetId?: string; // Other character involved (skill target, skill user for attribute changes)
+    locationId?: string;
+    cardId?: string;
+    cardName?: string;
+    poolId?: string;
+    conflictId?: string;
+    questId?: string;
+    attrName?: string;
+    oldValue?: string | number; // Attribute value or world time before the event
+    newValue?: string | number;
+    round?: number;
+}
+
+export type ConditionType = 'char_attr' | 'char_card' | 'world_time' | 'world_attr' | 'char_name' | 'loc_name' | 'region_name' | 'history' | 'event' | 'relationship';
 
 export type Comparator = '>' | '>=' | '=' | '!=' | '<' | '<=';
 export type StringComparator = 'exists' | 'not_exists' | 'contains' | 'exact';
@@ -234,23 +399,77 @@ export interface TriggerCondition {
     type: ConditionType;
     // Target Selectors
     locationId?: string; // Location ID or 'all'
-    characterId?: string; // Character ID or 'all'
-    targetName?: string; // For Attr name, Card name, Char name, Loc name
+    characterId?: string; // Character ID, 'all', 'current' or 'target' (event payload)
+    targetName?: string; // For Attr name, Card name, Char name, Loc name, event payload field, relationship field
+    otherCharacterId?: string; // Relationship: the character being felt about (ID, 'current' or 'target')
     // Logic
     comparator: Comparator | StringComparator;
     value?: string | number; // The threshold
     historyRounds?: number; // For history type
 }
 
+// Nested boolean group. 'not' is true when the AND of its children is false.
+export type ConditionOperator = 'and' | 'or' | 'not';
+
+export interface TriggerConditionGroup {
+    id: string;
+    kind: 'group';
+    operator: ConditionOperator;
+    children: TriggerConditionNode[];
+}
+
+export type TriggerConditionNode = TriggerCondition | TriggerConditionGroup;
+
+export type TriggerActionType = 'set_attr' | 'add_attr' | 'grant_card' | 'remove_card' | 'move_char' | 'add_conflict' | 'add_drive' | 'hidden_round' | 'draw_prize' | 'set_variable';
+
+// State change run when a trigger fires. Text fields support {{condition N}} and global variable macros.
+export interface TriggerAction {
+    id: string;
+    type: TriggerActionType;
+    characterId?: string; // Character ID or 'current'; 'world' targets world attributes (set_attr / add_attr)
+    targetName?: string; // Attribute name, card name or ID, or global variable key
+    locationId?: string; // Destination for move_char
+    poolId?: string; // Prize pool for draw_prize
+    value?: string | number; // New value / delta, conflict or drive text, variable value
+    amount?: number; // Conflict AP reward, drive pleasure reward, or number of draws
+}
+
+export type TriggerCounterScope = 'global' | 'character' | 'location';
+
+export interface TriggerCooldown {
+    amount: number;
+    unit: 'rounds' | 'seconds'; // seconds = world time
+}
+
+export interface TriggerSchedule {
+    atTime?: string; // Fires once world time reaches this (YYYY:MM:DD:HH:MM:SS)
+    everyRounds?: number; // Fires only on rounds divisible by N, at most once per round
+}
+
+// Firing history per counter key ('global', a character ID or a location ID)
+export interface TriggerRuntimeState {
+    fireCounts: Record<string, number>;
+    lastFired: Record<string, { round: number, time?: string }>;
+}
+
 export interface Trigger {
     id: string;
     name: string;
-    phase: TriggerPhase;
-    conditions: TriggerCondition[];
+    phase: TriggerPhase | TriggerEvent;
+    conditions: TriggerCondition[]; // Legacy flat list (all must pass); migrated into conditionTree on load
+    conditionTree?: TriggerConditionGroup; // Root group. Leaves are numbered depth-first for {{condition N}}
     urgentRequirement: string; // Appended to prompt
     systemLog: string; // Added to story
     enabled: boolean;
-    maxTriggers?: number; // New: Auto-disable after X triggers. -1 means infinite.
+    maxTriggers?: number; // New: Auto-disable after X triggers. -1 means infinite. Per key (no auto-disable) for scoped counters.
+    maxTriggersInitial?: number; // Global scope: maxTriggers before the first fire counted it down; restored when the counters are reset
+    actions?: TriggerAction[]; // Run in order after the prompt/log effects
+    timeThreshold?: string; // 'world_time' event only: fires when world time crosses this value
+    cooldown?: TriggerCooldown;
+    schedule?: TriggerSchedule;
+    probability?: number; // 0..1 chance to fire once conditions pass (default 1)
+    counterScope?: TriggerCounterScope; // Scope of maxTriggers, cooldowns and schedules (default 'global')
+    runtime?: TriggerRuntimeState;
 }
 // ---------------------------
 
@@ -269,6 +488,7 @@ export interface MapRegion {
     vertices: {x: number, y: number}[]; // Polygon vertices
     center: {x: number, y: number};
     color: string; // RGBA string for visualization
+    encounters?: EncounterEntry[]; // Travel encounters here; overrides the biome table when non-empty
 }
 
 // New: Settlements (Cities/Towns)
@@ -280,6 +500,57 @@ export interface MapSettlement {
     center: {x: number, y: number};
 }
 
+// Roads connect settlements and known locations; 'road' joins two settlements, 'trail' anything else
+export type RoadKind = 'road' | 'trail';
+
+export interface MapRoad {
+    id: string;
+    fromId: string; // Settlement or location ID
+    toId: string;
+    kind: RoadKind;
+    path: {x: number, y: number}[];
+    length: number; // Meters along path
+}
+
+// Terrain a route cannot cross on foot
+export type RouteBlocker = 'water' | 'mountain';
+
+export interface TravelRoute {
+    path: {x: number, y: number}[];
+    distance: number; // Meters along path
+    roadDistance: number; // Part of distance spent on roads/trails
+    travelSeconds: number;
+    blockedBy?: RouteBlocker; // Set when the only way through needs a card or vehicle the traveller lacks
+}
+
+// --- JOURNEY TYPES ---
+// A long move is split into legs; the travelling party waits at a transient "on the road" location
+// that advances one leg per round until it reaches the destination.
+
+export interface EncounterEntry {
+    name: string;
+    description: string;
+    weight: number;
+}
+
+export interface JourneyLeg {
+    x: number;
+    y: number;
+    distance: number; // Meters covered by this leg
+    travelSeconds: number;
+}
+
+export interface Journey {
+    id: string;
+    originId?: string;
+    destinationId: string;
+    travellerIds: string[];
+    legs: JourneyLeg[];
+    legIndex: number; // Legs completed so far
+    path: {x: number, y: number}[]; // Full remaining route from the start of the current plan
+    startedRound: number;
+}
+
 export interface MapLocation {
     id: string;
     name: string;
@@ -293,6 +564,7 @@ export interface MapLocation {
     terrainType?: TerrainType; // Saved specific terrain type
     avatarUrl?: string; // New: Location Avatar (Blurred abstract image)
     images?: GameImage[]; // Max 4 location images
+    isTransient?: boolean; // Journey camp: moves with the party and is removed on arrival
 }
 
 export interface MapChunk {
@@ -300,7 +572,7 @@ export interface MapChunk {
     xIndex: number; // Global chunk index X (0, 1, -1 etc)
     yIndex: number; // Global chunk index Y
     size: number; // 1000m usually
-    heightMap: number[]; // Flattened array of height values. Optimization: Store specific points or use seed? Storing grid for visualizer.
+    heightMap: number[]; // Flattened array of height values for the visualizer. Empty in saves; rebuilt from the seed on load.
     seed: number;
     rivers?: number[]; // Indices of points that are river/water
 }
@@ -309,13 +581,18 @@ export interface CharPosition {
     x: number;
     y: number;
     locationId?: string; // If attached to a specific POI
+    route?: {x: number, y: number}[]; // Path of the last journey that ended here
 }
 
 export interface MapState {
+    seed: number; // World seed: chunks, rivers, settlements and unknown locations are generated from it
     chunks: Record<string, MapChunk>; // Key "x_y"
     locations: Record<string, MapLocation>;
     regions: Record<string, MapRegion>; // New: Regions
     settlements: Record<string, MapSettlement>; // New: Cities and Towns
+    roads?: Record<string, MapRoad>;
+    journey?: Journey; // Active journey of the player's party, if any
+    explored?: Record<string, string[]>; // CharID -> discovered fog cells "cx_cy" (FOG_CELL_SIZE grid)
     charPositions: Record<string, CharPosition>; // CharID -> Pos
     activeLocationId?: string; // The "Play Location" selected by player
     playerCoordinates: { x: number, y: number }; // Player center
@@ -353,6 +630,7 @@ export interface RoundState {
 
   // Hidden Round Feature
   isHiddenRound?: boolean; // If true, this round is a special hidden round
+  pendingHiddenRound?: boolean; // Set by trigger actions: the next round becomes a hidden round
 }
 
 // NEW: Snapshot of Round State for Restoration
@@ -383,6 +661,24 @@ export interface WorldState {
   attributes: Record<string, GameAttribute>; // Weather, Mana, etc. (Location removed)
   history: LogEntry[]; // Structured Story Log
   worldGuidance: string; // User-defined direction for AI generation
+  chronicle?: ChronicleEntry[]; // Rolling summaries of finished rounds, oldest first
+}
+
+// Summary of one finished round (level 0) or of a block of earlier summaries (level 1)
+export interface ChronicleEntry {
+  id: string;
+  startRound: number;
+  endRound: number;
+  level: number;
+  text: string;
+  edited?: boolean; // Changed by the user in the Chronicle section
+  createdAt: number;
+}
+
+export interface ChronicleSettings {
+  enabled: boolean;
+  blockSize: number; // Round summaries merged into one block summary
+  keepRecentRounds: number; // Round summaries this close to the current round are never merged
 }
 
 export type GamePhase = 'init' | 'order' | 'turn_start' | 'char_acting' | 'executing' | 'settlement' | 'round_end';
@@ -483,9 +779,28 @@ export interface AppSettings {
     
     // Streaming Toggle
     enableStreaming?: boolean;
+
+    // How characters submit commands: inside the JSON response (default) or via native tool calls
+    commandMode?: 'json' | 'tools';
+
+    // Request scheduler limits per provider (unset providers use DEFAULT_PROVIDER_RATE_LIMIT)
+    providerRateLimits?: Partial<Record<Provider, ProviderRateLimit>>;
+
+    // Record / replay of AI responses for reproducing sessions
+    replayMode?: ReplayMode;
+
+    // Embedding retrieval of old memories, combined with the recency sampler
+    memoryRetrieval?: MemoryRetrievalSettings;
+
+    // Background chronicle summarization of finished rounds
+    chronicle?: ChronicleSettings;
     
     // Auto Scroll Behavior
     autoScrollOnNewLog?: boolean; // Default false. If true, auto-scroll to bottom on new message.
+
+    // Usage & Cost Accounting
+    modelCosts?: Record<string, ModelCost>; // Key: model name
+    usageBudget?: UsageBudget;
 }
 
 export interface GameplaySettings {
@@ -494,6 +809,7 @@ export interface GameplaySettings {
     defaultInitialAP: number;
     worldTimeScale?: number; // New: Control simulation speed (1 = 1sec/sec)
     maxNPCsPerRound?: number; // New: Max NPCs to activate per round (Default 4)
+    analyzeRelationshipsEachRound?: boolean; // Run the settlement judge every round with 2+ participants, even with nothing else to judge
 }
 
 // New Templates and Prompts structure
@@ -526,6 +842,7 @@ export interface PromptsConfig {
     context_nearbyCharacters: string;
     observation: string; // New: Observation prompt
     generateLetter: string; // New: Letter generation prompt
+    summarizeChronicle: string; // New: Chronicle summary of a round / block of rounds
 }
 
 export interface WeatherType {
@@ -548,6 +865,9 @@ export interface DefaultSettings {
     templates: Templates;
     prompts: PromptsConfig;
     weatherConfig: WeatherType[]; 
+    biomeWeatherConfig?: Partial<Record<BiomeType, WeatherType[]>>; // Per-biome tables; empty or missing falls back to weatherConfig
+    encounterChance?: number; // Chance of an encounter per journey leg
+    biomeEncounterConfig?: Partial<Record<BiomeType, EncounterEntry[]>>;
     weatherChangeProbability?: number;
     initialWorldConfig?: InitialWorldConfig; // New: Configurable initial world text
 }
@@ -558,10 +878,11 @@ export interface DebugLog {
     characterName: string;
     prompt: string;
     response: string;
+    usage?: AIUsage; // New: Actual token usage reported by the provider
 }
 
 export interface WindowState {
-    type: 'char' | 'card' | 'settings' | 'world' | 'pool' | 'char_pool' | 'location_pool' | 'dev' | 'char_gen' | 'prize_pool' | 'shop' | 'trigger_pool' | 'letter' | 'theme' | 'location_edit' | 'story_edit' | 'world_composition';
+    type: 'char' | 'card' | 'settings' | 'world' | 'pool' | 'char_pool' | 'location_pool' | 'dev' | 'char_gen' | 'prize_pool' | 'shop' | 'trigger_pool' | 'letter' | 'theme' | 'location_edit' | 'story_edit' | 'world_composition' | 'scenario' | 'faction' | 'quest';
     data?: any;
     id: number;
 }
@@ -585,6 +906,129 @@ export interface GameState {
 
   devMode: boolean;
   debugLogs: DebugLog[];
+  usageStats?: UsageStats; // New: Token usage / cost accounting for the current session
+  rng?: RngState; // Seeded RNG for gameplay randomness (turn order, lottery, weather, memory dropout)
+  replayBundle?: ReplayBundle; // Recorded AI responses (record / replay mode)
+  memoryIndex?: Record<string, CharacterMemoryIndex>; // Embedded episodes per character (retrieval memory)
+  relationships?: RelationshipGraph; // Directed feelings between characters
+  factions?: Record<string, Faction>; // Political layer over regions and settlements
+}
+
+// --- Factions ---
+export interface Faction {
+  id: string;
+  name: string;
+  description: string; // AI visible: ideology, goals, customs
+  color: string; // Hex color used when the map is colored by faction
+  memberIds: string[]; // Character IDs
+  regionIds: string[]; // Controlled MapRegion IDs
+  settlementIds: string[]; // Controlled MapSettlement IDs
+  attributes: Record<string, GameAttribute>; // Faction-level stats (势力, 财富...)
+  reputation: Record<string, number>; // Character ID -> reputation with this faction (-100 .. 100)
+}
+
+// --- Relationships ---
+export interface Relationship {
+  affinity: number; // -100 (hatred) .. 100 (devotion)
+  trust: number; // -100 .. 100
+  tags: string[]; // Free labels: 恋人, 宿敌, 师徒...
+}
+
+// relationships[fromId][toId]: how fromId feels about toId (not symmetric)
+export type RelationshipGraph = Record<string, Record<string, Relationship>>;
+
+export type RelationshipField = 'affinity' | 'trust' | 'tags';
+
+// Relative change reported by effects, settlement and reactions
+export interface RelationshipChange {
+  fromId: string;
+  toId: string;
+  affinity?: number;
+  trust?: number;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+// --- Retrieval Memory ---
+export interface MemoryRetrievalSettings {
+  enabled: boolean;
+  backend: string; // Registered embedding backend id ('local' works offline, 'provider' uses embeddingConfig)
+  embeddingConfig?: AIConfig; // Gemini or OpenAI-compatible `/embeddings` endpoint for the 'provider' backend
+  topK: number;
+  minScore: number; // Cosine similarity threshold (0-1)
+  summarizeEpisodes?: boolean; // Summarize long rounds with the judge model before embedding (default true)
+}
+
+export interface MemoryRecord {
+  id: string;
+  round: number;
+  locationId?: string;
+  text: string; // Condensed episode: what the character witnessed during that round
+  vector: number[];
+}
+
+export interface CharacterMemoryIndex {
+  backend: string; // Backend signature; vectors from different backends/models are not comparable
+  indexedRound: number; // Last completed round that has been embedded
+  records: MemoryRecord[];
+}
+
+// --- Deterministic Replay ---
+export interface RngState {
+  seed: number;
+  cursor: number; // Internal generator state, advanced on every draw
+}
+
+export type ReplayMode = 'off' | 'record' | 'replay';
+
+export interface ReplayEntry {
+  fingerprint: string; // Hash of provider + model + messages + request config
+  feature?: AIFeature;
+  characterId?: string;
+  stream: boolean;
+  text: string; // Full response text
+  chunks?: string[]; // Streamed text chunks, in order
+  toolCalls?: Array<{ name: string, args: Record<string, any> }>;
+  timestamp: number;
+}
+
+export interface ReplayBundle {
+  version: number;
+  createdAt: number;
+  startRound: number;
+  startRng?: RngState; // RNG state when recording started; restored when replay begins
+  entries: ReplayEntry[];
+}
+
+// --- Scenario Modules ---
+// Reusable rule sets (triggers, pools, cards, templates...) shared independently of playthroughs
+export type ScenarioConflictMode = 'merge' | 'replace' | 'skip';
+
+export interface ScenarioManifest {
+  format: 'scenario_module';
+  version: number; // File format version
+  id: string;
+  name: string;
+  moduleVersion: string; // Author-defined content version, e.g. "1.2.0"
+  author?: string;
+  description?: string;
+  createdAt: number;
+}
+
+export interface ScenarioContent {
+  triggers?: Trigger[];
+  prizePools?: PrizePool[];
+  cards?: Card[];
+  characterTemplate?: Character;
+  locationTemplate?: MapLocation;
+  globalVariables?: GlobalVariable[];
+  prompts?: Partial<PromptsConfig>; // Only the prompts overridden by the module
+  initialWorldConfig?: InitialWorldConfig;
+}
+
+export interface ScenarioModule {
+  manifest: ScenarioManifest;
+  content: ScenarioContent;
 }
 
 // AI Action Types